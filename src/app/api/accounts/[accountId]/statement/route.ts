@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { getAccountStatement, resolveStatementPeriod } from "@/lib/accountStatementService";
+import {
+  buildStatementCsv,
+  buildStatementPdf,
+  STATEMENT_CONTENT_TYPES,
+  STATEMENT_FORMATS,
+  statementFilename,
+  type StatementFormat,
+} from "@/lib/accountStatementExport";
+
+export const dynamic = "force-dynamic";
+
+function httpStatusForReason(reason: string): number {
+  if (reason === "missing_access_token") return 401;
+  if (reason === "account_not_found") return 404;
+  if (reason.startsWith("invalid_") || reason === "too_many_transfers") return 400;
+  return 500;
+}
+
+// GET /api/accounts/[accountId]/statement?from=YYYY-MM-DD&to=YYYY-MM-DD[&format=csv|pdf]
+// Statement JSON, or the CSV/PDF download when format is given
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ accountId: string }> }
+) {
+  try {
+    const { accountId: encodedAccountId } = await params;
+    const accountId = decodeURIComponent(encodedAccountId);
+
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+    const scope = process.env.AUTH0_SCOPE;
+    const accessTokenOptions = {
+      ...(audience ? { audience } : {}),
+      ...(scope ? { scope } : {}),
+    };
+
+    const { token } = await auth0.getAccessToken(accessTokenOptions);
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const format = searchParams.get("format") as StatementFormat | null;
+    if (format && !STATEMENT_FORMATS.includes(format)) {
+      return NextResponse.json({ error: "Invalid format", reason: "invalid_format" }, { status: 400 });
+    }
+
+    const period = resolveStatementPeriod(searchParams.get("from"), searchParams.get("to"));
+    if (period.status === "invalid") {
+      return NextResponse.json({ error: "Invalid period", reason: period.reason }, { status: 400 });
+    }
+
+    const result = await getAccountStatement({ accessToken: token, accountId, from: period.from, to: period.to });
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: "Failed to build statement", reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    if (!format) {
+      return NextResponse.json({ statement: result.statement });
+    }
+
+    const body = format === "pdf" ? buildStatementPdf(result.statement) : buildStatementCsv(result.statement);
+    return new Response(body, {
+      headers: {
+        "Content-Type": STATEMENT_CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${statementFilename(result.statement, format)}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Account statement error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
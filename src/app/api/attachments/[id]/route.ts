@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { deleteTransferAttachment, getTransferAttachmentFile } from "@/lib/attachmentService";
+
+export const dynamic = "force-dynamic";
+
+function httpStatusForReason(reason: string): number {
+  switch (reason) {
+    case "invalid_attachment_id":
+      return 400;
+    case "permission_denied_or_status_changed":
+      return 403;
+    case "attachment_not_found":
+    case "attachment_file_missing":
+      return 404;
+    case "transfer_not_editable":
+    case "period_locked":
+      return 409;
+    default:
+      return 500;
+  }
+}
+
+async function getToken(): Promise<string | undefined> {
+  const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+  const scope = process.env.AUTH0_SCOPE;
+  const accessTokenOptions = {
+    ...(audience ? { audience } : {}),
+    ...(scope ? { scope } : {}),
+  };
+
+  const { token } = await auth0.getAccessToken(accessTokenOptions);
+  return token;
+}
+
+// GET /api/attachments/[id] - The attachment's file, shown inline (or downloaded with ?download=1).
+// Export files link here, so opening a link needs a signed-in user who can see the transfer.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const attachmentId = decodeURIComponent(id);
+
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const result = await getTransferAttachmentFile({ accessToken: token, attachmentId });
+
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: "Failed to load attachment", reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    const { attachment, data } = result;
+    const disposition = req.nextUrl.searchParams.get("download") === "1" ? "attachment" : "inline";
+    return new Response(new Blob([data as Uint8Array<ArrayBuffer>]), {
+      headers: {
+        "Content-Type": attachment.contentType,
+        "Content-Length": String(data.byteLength),
+        "Content-Disposition": `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+        "Cache-Control": "private, no-store",
+        // Uploaded files are served as their recorded type only
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    console.error("Attachment download error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/attachments/[id] - Remove a draft transfer's attachment and its file
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const attachmentId = decodeURIComponent(id);
+
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const result = await deleteTransferAttachment({ accessToken: token, attachmentId });
+
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: "Failed to delete attachment", reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Attachment delete error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth0 } from "@/lib/auth0";
-import { getBudgetTemplateWithAllocations } from "@/lib/budgetService";
+import { getBudgetTemplateWithAllocations, setBudgetTemplateRecurrence } from "@/lib/budgetService";
 
 export const dynamic = "force-dynamic";
 
@@ -40,3 +40,53 @@ export async function GET(
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
   }
 }
+
+// PATCH /api/budgets/[templateId] - Set ({ recurrence: "monthly" }) or clear ({ recurrence: null })
+// the template's recurrence
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const { templateId } = await params;
+
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+    const scope = process.env.AUTH0_SCOPE;
+    const accessTokenOptions = {
+      ...(audience ? { audience } : {}),
+      ...(scope ? { scope } : {}),
+    };
+
+    const { token } = await auth0.getAccessToken(accessTokenOptions);
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const result = await setBudgetTemplateRecurrence({
+      accessToken: token,
+      templateThingId: decodeURIComponent(templateId),
+      recurrence: body?.recurrence ?? null,
+    });
+
+    if (result.status === "invalid") {
+      return NextResponse.json({ error: result.error, reason: result.reason }, { status: 400 });
+    }
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: "Failed to update template", reason: result.reason },
+        { status: result.reason === "template_not_found" ? 404 : 500 },
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error updating budget template:", error);
+    return NextResponse.json({ error: "Internal server error", reason: "server_error" }, { status: 500 });
+  }
+}
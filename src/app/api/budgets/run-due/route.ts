@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { runDueBudgetPeriods } from "@/lib/budgetService";
+
+export const dynamic = "force-dynamic";
+
+// Like /api/scheduled-transfers/run-due: a cron job sends a bearer token for the API audience,
+// otherwise the signed-in user's token is used ("Generate due periods" on the budgets page).
+async function getToken(req: NextRequest): Promise<string | undefined> {
+  const authorization = req.headers.get("authorization");
+  if (authorization?.toLowerCase().startsWith("bearer ")) {
+    return authorization.slice(7).trim() || undefined;
+  }
+
+  const session = await auth0.getSession();
+  if (!session?.user) return undefined;
+
+  const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+  const scope = process.env.AUTH0_SCOPE;
+  const accessTokenOptions = {
+    ...(audience ? { audience } : {}),
+    ...(scope ? { scope } : {}),
+  };
+
+  const { token } = await auth0.getAccessToken(accessTokenOptions);
+  return token;
+}
+
+// POST /api/budgets/run-due - Generate the budget periods of recurring templates that have started
+// and close the periods that have ended
+export async function POST(req: NextRequest) {
+  try {
+    const token = await getToken(req);
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized", reason: "missing_token" }, { status: 401 });
+    }
+
+    const result = await runDueBudgetPeriods({ accessToken: token });
+
+    if (result.status === "skipped") {
+      return NextResponse.json({ error: "Failed to generate budget periods", reason: result.reason }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      created: result.results.filter((r) => r.status === "created").length,
+      failed: result.results.filter((r) => r.status === "failed").length,
+      closed: result.closedBudgetIds.length,
+      results: result.results,
+      closedBudgetIds: result.closedBudgetIds,
+    });
+  } catch (error) {
+    console.error("Budget period run error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
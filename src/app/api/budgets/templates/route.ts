@@ -21,7 +21,7 @@ export async function POST(request: NextRequest) {
     const { token } = await auth0.getAccessToken(accessTokenOptions);
 
     const body = await request.json();
-    const { categoryId, name, totalAmount, startAt, status } = body;
+    const { categoryId, name, totalAmount, startAt, status, recurrence } = body;
 
     if (!categoryId || !name || !totalAmount || !startAt) {
       return NextResponse.json({ error: "Missing required fields" }, { status: 400 });
@@ -34,6 +34,7 @@ export async function POST(request: NextRequest) {
       totalAmount: Number(totalAmount),
       startAt,
       status: status || "active",
+      recurrence,
     });
 
     if (result.status === "skipped") {
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { deletePayee, updatePayee } from "@/lib/payeeService";
+
+export const dynamic = "force-dynamic";
+
+function httpStatusForReason(reason: string): number {
+  switch (reason) {
+    case "invalid_payee_id":
+      return 400;
+    case "permission_denied_update_payee":
+      return 403;
+    case "payee_not_found":
+      return 404;
+    case "duplicate_payee":
+      return 409;
+    default:
+      return 500;
+  }
+}
+
+async function getToken(): Promise<string | undefined> {
+  const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+  const scope = process.env.AUTH0_SCOPE;
+  const accessTokenOptions = {
+    ...(audience ? { audience } : {}),
+    ...(scope ? { scope } : {}),
+  };
+
+  const { token } = await auth0.getAccessToken(accessTokenOptions);
+  return token;
+}
+
+// PUT /api/payees/[id] - Replace a payee's details (same payload as POST /api/payees, without categoryId)
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const payeeId = decodeURIComponent(id);
+
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const { name, action, number, accountReference, defaultExpenseAccountId, notes } = body || {};
+
+    const result = await updatePayee({
+      accessToken: token,
+      payeeId,
+      input: { name, action, number, accountReference, defaultExpenseAccountId, notes },
+    });
+
+    if (result.status === "invalid") {
+      return NextResponse.json({ error: result.error, reason: result.reason }, { status: 400 });
+    }
+
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: "Failed to update payee", reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    return NextResponse.json({ success: true, payee: result.payee });
+  } catch (error) {
+    console.error("Payee update error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/payees/[id] - Remove a payee (past transfers to it are unaffected)
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const payeeId = decodeURIComponent(id);
+
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const result = await deletePayee({ accessToken: token, payeeId });
+
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: "Failed to delete payee", reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Payee delete error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { createPayee, listPayees } from "@/lib/payeeService";
+
+export const dynamic = "force-dynamic";
+
+function httpStatusForReason(reason: string): number {
+  switch (reason) {
+    case "invalid_category_id":
+    case "invalid_action":
+      return 400;
+    case "permission_denied_create_payee":
+      return 403;
+    case "duplicate_payee":
+      return 409;
+    default:
+      return 500;
+  }
+}
+
+async function getToken(): Promise<string | undefined> {
+  const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+  const scope = process.env.AUTH0_SCOPE;
+  const accessTokenOptions = {
+    ...(audience ? { audience } : {}),
+    ...(scope ? { scope } : {}),
+  };
+
+  const { token } = await auth0.getAccessToken(accessTokenOptions);
+  return token;
+}
+
+// GET /api/payees?categoryId=&action= - A category's saved payees, optionally for one M-Pesa action
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const categoryId = searchParams.get("categoryId");
+    if (!categoryId) {
+      return NextResponse.json({ error: "Missing categoryId parameter", reason: "missing_category_id" }, { status: 400 });
+    }
+
+    const result = await listPayees({
+      accessToken: token,
+      categoryId,
+      action: searchParams.get("action") || undefined,
+    });
+
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: "Failed to list payees", reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    return NextResponse.json({ payees: result.payees });
+  } catch (error) {
+    console.error("Payee list error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/payees - Save a payee ({ categoryId, name, action, number, accountReference?, defaultExpenseAccountId?, notes? })
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const { categoryId, name, action, number, accountReference, defaultExpenseAccountId, notes } = body || {};
+
+    const result = await createPayee({
+      accessToken: token,
+      categoryId: typeof categoryId === "string" ? categoryId : "",
+      input: { name, action, number, accountReference, defaultExpenseAccountId, notes },
+    });
+
+    if (result.status === "invalid") {
+      return NextResponse.json({ error: result.error, reason: result.reason }, { status: 400 });
+    }
+
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: result.reason === "duplicate_payee" ? "This payee is already saved" : "Failed to save payee", reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    return NextResponse.json({ success: true, payee: result.payee });
+  } catch (error) {
+    console.error("Payee creation error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,235 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import {
+  DEFAULT_MATCH_WINDOW_DAYS,
+  isReconciliationAction,
+  RECONCILIATION_ACTIONS,
+} from "@/lib/reconciliationMatching";
+import {
+  autoMatchReconciliation,
+  clearReconciliationLine,
+  deleteReconciliation,
+  flagReconciliationLine,
+  getReconciliation,
+  matchReconciliationLine,
+  setReconciliationLock,
+} from "@/lib/reconciliationService";
+
+export const dynamic = "force-dynamic";
+
+function httpStatusForReason(reason: string): number {
+  switch (reason) {
+    case "missing_access_token":
+      return 401;
+    case "invalid_reconciliation_id":
+    case "invalid_line_id":
+    case "missing_line_id":
+    case "missing_transfers":
+    case "transfer_not_in_period":
+    case "direction_mismatch":
+    case "amount_mismatch":
+      return 400;
+    case "permission_denied_or_status_changed":
+    case "permission_denied_or_locked":
+      return 403;
+    case "reconciliation_not_found":
+    case "line_not_found":
+      return 404;
+    case "reconciliation_locked":
+    case "reconciliation_not_locked":
+    case "line_already_matched":
+    case "transfer_already_matched":
+    case "unmatched_lines":
+    case "period_not_ended":
+      return 409;
+    default:
+      return 500;
+  }
+}
+
+async function getToken(): Promise<string | undefined> {
+  const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+  const scope = process.env.AUTH0_SCOPE;
+  const accessTokenOptions = {
+    ...(audience ? { audience } : {}),
+    ...(scope ? { scope } : {}),
+  };
+
+  const { token } = await auth0.getAccessToken(accessTokenOptions);
+  return token;
+}
+
+// GET /api/reconciliations/[id] - Reconciliation, statement lines and the account's posted transfers
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const reconciliationId = decodeURIComponent(id);
+
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const windowDays = Number(searchParams.get("windowDays") ?? DEFAULT_MATCH_WINDOW_DAYS);
+
+    const result = await getReconciliation({
+      accessToken: token,
+      reconciliationId,
+      windowDays: Number.isFinite(windowDays) ? windowDays : DEFAULT_MATCH_WINDOW_DAYS,
+    });
+
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: "Failed to load reconciliation", reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    return NextResponse.json({
+      reconciliation: result.reconciliation,
+      lines: result.lines,
+      transfers: result.transfers,
+    });
+  } catch (error) {
+    console.error("Reconciliation load error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
+
+// PATCH /api/reconciliations/[id]
+// { action: "auto_match", windowDays? } | { action: "match", lineId, transferIds } |
+// { action: "flag", lineId, reason? } | { action: "unmatch", lineId } | { action: "lock" | "reopen" }
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const reconciliationId = decodeURIComponent(id);
+
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const action = body?.action;
+    if (!isReconciliationAction(action)) {
+      return NextResponse.json(
+        { error: `Invalid action. Must be one of: ${RECONCILIATION_ACTIONS.join(", ")}`, reason: "invalid_action" },
+        { status: 400 },
+      );
+    }
+
+    const lineId = typeof body?.lineId === "string" ? body.lineId : "";
+    if ((action === "match" || action === "flag" || action === "unmatch") && !lineId) {
+      return NextResponse.json({ error: "Missing lineId", reason: "missing_line_id" }, { status: 400 });
+    }
+
+    let result: { status: "ok"; matched?: number } | { status: "skipped"; reason: string };
+    switch (action) {
+      case "auto_match": {
+        const windowDays = Number(body?.windowDays ?? DEFAULT_MATCH_WINDOW_DAYS);
+        result = await autoMatchReconciliation({
+          accessToken: token,
+          reconciliationId,
+          windowDays: Number.isFinite(windowDays) ? windowDays : DEFAULT_MATCH_WINDOW_DAYS,
+        });
+        break;
+      }
+      case "match":
+        result = await matchReconciliationLine({
+          accessToken: token,
+          reconciliationId,
+          lineId,
+          transferIds: Array.isArray(body?.transferIds)
+            ? body.transferIds.filter((t: unknown): t is string => typeof t === "string")
+            : [],
+        });
+        break;
+      case "flag":
+        result = await flagReconciliationLine({
+          accessToken: token,
+          reconciliationId,
+          lineId,
+          reason: typeof body?.reason === "string" ? body.reason : undefined,
+        });
+        break;
+      case "unmatch":
+        result = await clearReconciliationLine({ accessToken: token, reconciliationId, lineId });
+        break;
+      default:
+        result = await setReconciliationLock({ accessToken: token, reconciliationId, action });
+    }
+
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: `Failed to ${action.replace("_", " ")} reconciliation`, reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    return NextResponse.json({ success: true, ...(result.matched != null ? { matched: result.matched } : {}) });
+  } catch (error) {
+    console.error("Reconciliation action error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/reconciliations/[id] - Discard an open reconciliation and its statement lines
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const reconciliationId = decodeURIComponent(id);
+
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const result = await deleteReconciliation({ accessToken: token, reconciliationId });
+
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: "Failed to delete reconciliation", reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Reconciliation delete error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
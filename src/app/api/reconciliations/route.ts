@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { createReconciliation, listReconciliations } from "@/lib/reconciliationService";
+
+export const dynamic = "force-dynamic";
+
+function httpStatusForReason(reason: string): number {
+  switch (reason) {
+    case "missing_access_token":
+      return 401;
+    case "invalid_account_id":
+    case "invalid_period":
+    case "missing_lines":
+    case "too_many_lines":
+    case "invalid_line":
+    case "line_outside_period":
+      return 400;
+    case "permission_denied_create_reconciliation":
+    case "permission_denied_create_lines":
+      return 403;
+    case "period_locked":
+      return 409;
+    default:
+      return 500;
+  }
+}
+
+async function getToken(): Promise<string | undefined> {
+  const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+  const scope = process.env.AUTH0_SCOPE;
+  const accessTokenOptions = {
+    ...(audience ? { audience } : {}),
+    ...(scope ? { scope } : {}),
+  };
+
+  const { token } = await auth0.getAccessToken(accessTokenOptions);
+  return token;
+}
+
+// GET /api/reconciliations?accountId=...
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const result = await listReconciliations({
+      accessToken: token,
+      accountId: searchParams.get("accountId") || undefined,
+    });
+
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: "Failed to list reconciliations", reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    return NextResponse.json({ reconciliations: result.reconciliations });
+  } catch (error) {
+    console.error("Reconciliations list error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/reconciliations - { accountId, periodStart, periodEnd, source?, lines: ReconciliationLineInput[] }
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const { accountId, periodStart, periodEnd, source, lines } = body || {};
+    if (typeof accountId !== "string" || typeof periodStart !== "string" || typeof periodEnd !== "string") {
+      return NextResponse.json({ error: "Missing required fields", reason: "missing_fields" }, { status: 400 });
+    }
+
+    const result = await createReconciliation({
+      accessToken: token,
+      accountId,
+      periodStart,
+      periodEnd,
+      source: typeof source === "string" ? source : undefined,
+      lines: Array.isArray(lines) ? lines : [],
+    });
+
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: "Failed to create reconciliation", reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    return NextResponse.json({ success: true, reconciliationId: result.reconciliationId }, { status: 201 });
+  } catch (error) {
+    console.error("Reconciliation create error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { deleteScheduledTransfer, setScheduledTransferStatus } from "@/lib/scheduledTransferService";
+import { isScheduledTransferAction, SCHEDULED_TRANSFER_ACTIONS } from "@/lib/transferSchedule";
+
+export const dynamic = "force-dynamic";
+
+function httpStatusForReason(reason: string): number {
+  switch (reason) {
+    case "invalid_scheduled_transfer_id":
+      return 400;
+    case "permission_denied_or_status_changed":
+      return 403;
+    case "scheduled_transfer_not_found":
+      return 404;
+    case "scheduled_transfer_not_paused":
+      return 409;
+    default:
+      return 500;
+  }
+}
+
+async function getToken(): Promise<string | undefined> {
+  const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+  const scope = process.env.AUTH0_SCOPE;
+  const accessTokenOptions = {
+    ...(audience ? { audience } : {}),
+    ...(scope ? { scope } : {}),
+  };
+
+  const { token } = await auth0.getAccessToken(accessTokenOptions);
+  return token;
+}
+
+// PATCH /api/scheduled-transfers/[id] - Pause or resume a schedule ({ action })
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const scheduledTransferId = decodeURIComponent(id);
+
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const action = body?.action;
+    if (!isScheduledTransferAction(action)) {
+      return NextResponse.json(
+        { error: `Invalid action. Must be one of: ${SCHEDULED_TRANSFER_ACTIONS.join(", ")}`, reason: "invalid_action" },
+        { status: 400 },
+      );
+    }
+
+    const result = await setScheduledTransferStatus({ accessToken: token, scheduledTransferId, action });
+
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: `Failed to ${action} scheduled transfer`, reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    return NextResponse.json({ success: true, scheduledTransfer: result.scheduledTransfer });
+  } catch (error) {
+    console.error("Scheduled transfer action error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/scheduled-transfers/[id] - Delete a schedule (transfers it already created are kept)
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const scheduledTransferId = decodeURIComponent(id);
+
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const result = await deleteScheduledTransfer({ accessToken: token, scheduledTransferId });
+
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: "Failed to delete scheduled transfer", reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Scheduled transfer delete error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { createScheduledTransfer, listScheduledTransfers } from "@/lib/scheduledTransferService";
+
+export const dynamic = "force-dynamic";
+
+async function getToken(): Promise<string | undefined> {
+  const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+  const scope = process.env.AUTH0_SCOPE;
+  const accessTokenOptions = {
+    ...(audience ? { audience } : {}),
+    ...(scope ? { scope } : {}),
+  };
+
+  const { token } = await auth0.getAccessToken(accessTokenOptions);
+  return token;
+}
+
+// GET /api/scheduled-transfers?categoryId= - Scheduled transfers paid from the category's accounts
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const result = await listScheduledTransfers({
+      accessToken: token,
+      categoryId: searchParams.get("categoryId") || undefined,
+    });
+
+    if (result.status === "skipped") {
+      const status = result.reason === "invalid_category_id" ? 400 : 500;
+      return NextResponse.json({ error: "Failed to list scheduled transfers", reason: result.reason }, { status });
+    }
+
+    return NextResponse.json({ scheduledTransfers: result.scheduledTransfers });
+  } catch (error) {
+    console.error("Scheduled transfer list error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/scheduled-transfers - Create a schedule from a transfer payload (as POST /api/transfers)
+// plus `schedule: { frequency, interval?, dayOfMonth?, startAt, endAt? }`
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const { fromAccountId, toAccountId, amount, type, status, description, label, tags, paymentChannel, metadata, schedule } = body;
+
+    const result = await createScheduledTransfer({
+      accessToken: token,
+      input: {
+        fromAccountId,
+        toAccountId,
+        amount,
+        type,
+        status,
+        description,
+        label,
+        tags,
+        paymentChannel,
+        metadata: metadata && typeof metadata === "object" ? metadata : null,
+        schedule: schedule && typeof schedule === "object" ? schedule : undefined,
+      },
+    });
+
+    if (result.status === "invalid") {
+      return NextResponse.json({ error: result.error, reason: result.reason }, { status: 400 });
+    }
+
+    if (result.status === "skipped") {
+      const status = result.reason === "permission_denied_create_scheduled_transfer" ? 403 : 500;
+      return NextResponse.json({ error: "Failed to create scheduled transfer", reason: result.reason }, { status });
+    }
+
+    return NextResponse.json({ success: true, scheduledTransfer: result.scheduledTransfer });
+  } catch (error) {
+    console.error("Scheduled transfer creation error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
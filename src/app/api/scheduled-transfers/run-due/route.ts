@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { runDueScheduledTransfers } from "@/lib/scheduledTransferService";
+
+export const dynamic = "force-dynamic";
+
+// A cron job has no browser session: it sends an access token for the API audience (e.g. from an
+// Auth0 client-credentials grant) as a bearer token, which SurrealDB verifies like any other.
+// Without one, the signed-in user's token is used ("Run due now" on the transactions page).
+async function getToken(req: NextRequest): Promise<string | undefined> {
+  const authorization = req.headers.get("authorization");
+  if (authorization?.toLowerCase().startsWith("bearer ")) {
+    return authorization.slice(7).trim() || undefined;
+  }
+
+  const session = await auth0.getSession();
+  if (!session?.user) return undefined;
+
+  const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+  const scope = process.env.AUTH0_SCOPE;
+  const accessTokenOptions = {
+    ...(audience ? { audience } : {}),
+    ...(scope ? { scope } : {}),
+  };
+
+  const { token } = await auth0.getAccessToken(accessTokenOptions);
+  return token;
+}
+
+// POST /api/scheduled-transfers/run-due - Create the transfers of every schedule occurrence that is due
+export async function POST(req: NextRequest) {
+  try {
+    const token = await getToken(req);
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized", reason: "missing_token" }, { status: 401 });
+    }
+
+    const result = await runDueScheduledTransfers({ accessToken: token });
+
+    if (result.status === "skipped") {
+      return NextResponse.json({ error: "Failed to run scheduled transfers", reason: result.reason }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      created: result.results.filter((r) => r.status === "created").length,
+      failed: result.results.filter((r) => r.status === "failed").length,
+      results: result.results,
+    });
+  } catch (error) {
+    console.error("Scheduled transfer run error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { searchDashboard } from "@/lib/searchService";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/search?q= - Transfers, accounts, categories and payees matching q, grouped by type
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+    const scope = process.env.AUTH0_SCOPE;
+    const accessTokenOptions = {
+      ...(audience ? { audience } : {}),
+      ...(scope ? { scope } : {}),
+    };
+
+    const { token } = await auth0.getAccessToken(accessTokenOptions);
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const result = await searchDashboard({ accessToken: token, query: new URL(req.url).searchParams.get("q") });
+
+    if (result.status === "invalid") {
+      return NextResponse.json({ error: result.error, reason: result.reason }, { status: 400 });
+    }
+    if (result.status === "skipped") {
+      return NextResponse.json({ error: "Search failed", reason: result.reason }, { status: 500 });
+    }
+
+    return NextResponse.json({ results: result.results });
+  } catch (error) {
+    console.error("Search error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,223 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { executeSurrealQL, getResultArray, thingIdToString, toSurrealThingLiteral } from "@/lib/surrealdb";
+
+// Approval rules live next to category_user roles: an M-Pesa payout whose amount is above
+// min_amount needs required_approvals distinct category admins before it is approved.
+
+// GET - List approval rules for a category
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+    const scope = process.env.AUTH0_SCOPE;
+    const accessTokenOptions = {
+      ...(audience ? { audience } : {}),
+      ...(scope ? { scope } : {}),
+    };
+
+    const { token } = await auth0.getAccessToken(accessTokenOptions);
+    if (!token) {
+      return NextResponse.json({ error: "No access token" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const categoryId = searchParams.get("categoryId");
+
+    if (!categoryId) {
+      return NextResponse.json({ error: "Missing categoryId parameter" }, { status: 400 });
+    }
+
+    const categoryLiteral = toSurrealThingLiteral(categoryId);
+    if (!categoryLiteral) {
+      return NextResponse.json({ error: "Invalid categoryId" }, { status: 400 });
+    }
+
+    const query = `
+      SELECT id, category_id, min_amount, required_approvals
+      FROM category_approval_rule
+      WHERE category_id = ${categoryLiteral}
+      ORDER BY min_amount ASC;
+    `;
+
+    const result = await executeSurrealQL({
+      token,
+      query,
+      logName: "approvalRulesAPI.GET /sql (list approval rules)",
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ error: "Failed to fetch approval rules", details: result.error }, { status: 500 });
+    }
+
+    const rulesRaw = getResultArray<{
+      id?: unknown;
+      category_id?: unknown;
+      min_amount?: unknown;
+      required_approvals?: unknown;
+    }>(result.data[0]);
+
+    const approvalRules = rulesRaw.map((r) => ({
+      id: thingIdToString(r.id),
+      categoryId: thingIdToString(r.category_id),
+      minAmount: typeof r.min_amount === "number" ? r.min_amount : 0,
+      requiredApprovals: typeof r.required_approvals === "number" ? r.required_approvals : 1,
+    }));
+
+    return NextResponse.json({ approvalRules });
+  } catch (error) {
+    console.error("Error fetching approval rules:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST - Add an approval rule to a category
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+    const scope = process.env.AUTH0_SCOPE;
+    const accessTokenOptions = {
+      ...(audience ? { audience } : {}),
+      ...(scope ? { scope } : {}),
+    };
+
+    const { token } = await auth0.getAccessToken(accessTokenOptions);
+    if (!token) {
+      return NextResponse.json({ error: "No access token" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const { categoryId, minAmount, requiredApprovals } = body;
+
+    if (!categoryId || minAmount == null || requiredApprovals == null) {
+      return NextResponse.json(
+        { error: "Missing required fields: categoryId, minAmount, requiredApprovals" },
+        { status: 400 },
+      );
+    }
+
+    if (typeof minAmount !== "number" || !Number.isFinite(minAmount) || minAmount < 0) {
+      return NextResponse.json({ error: "minAmount must be a non-negative number" }, { status: 400 });
+    }
+
+    if (!Number.isInteger(requiredApprovals) || requiredApprovals < 1) {
+      return NextResponse.json({ error: "requiredApprovals must be a positive whole number" }, { status: 400 });
+    }
+
+    const categoryLiteral = toSurrealThingLiteral(categoryId);
+    if (!categoryLiteral) {
+      return NextResponse.json({ error: "Invalid categoryId" }, { status: 400 });
+    }
+
+    // One rule per threshold keeps the "highest matching rule wins" evaluation unambiguous
+    const checkExistingQuery = `
+      SELECT id FROM category_approval_rule
+      WHERE category_id = ${categoryLiteral} AND min_amount = ${minAmount}
+      LIMIT 1;
+    `;
+
+    const checkResult = await executeSurrealQL({
+      token,
+      query: checkExistingQuery,
+      logName: "approvalRulesAPI.POST /sql (check existing)",
+    });
+
+    if (checkResult.success) {
+      const existing = getResultArray<{ id?: unknown }>(checkResult.data[0]);
+      if (existing.length > 0) {
+        return NextResponse.json({ error: "A rule for this amount already exists" }, { status: 409 });
+      }
+    }
+
+    const createQuery = `
+      CREATE category_approval_rule CONTENT {
+        category_id: ${categoryLiteral},
+        min_amount: ${minAmount},
+        required_approvals: ${requiredApprovals}
+      };
+    `;
+
+    const createResult = await executeSurrealQL({
+      token,
+      query: createQuery,
+      logName: "approvalRulesAPI.POST /sql (create approval rule)",
+    });
+
+    if (!createResult.success) {
+      return NextResponse.json({ error: "Failed to add approval rule", details: createResult.error }, { status: 500 });
+    }
+
+    const created = getResultArray<{ id?: unknown }>(createResult.data[0]);
+    if (created.length === 0) {
+      return NextResponse.json({ error: "Permission denied: Only category admins can manage approval rules" }, { status: 403 });
+    }
+
+    return NextResponse.json({ success: true, id: thingIdToString(created[0].id) });
+  } catch (error) {
+    console.error("Error adding approval rule:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// DELETE - Remove an approval rule
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+    const scope = process.env.AUTH0_SCOPE;
+    const accessTokenOptions = {
+      ...(audience ? { audience } : {}),
+      ...(scope ? { scope } : {}),
+    };
+
+    const { token } = await auth0.getAccessToken(accessTokenOptions);
+    if (!token) {
+      return NextResponse.json({ error: "No access token" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const ruleId = searchParams.get("ruleId");
+
+    if (!ruleId) {
+      return NextResponse.json({ error: "Missing ruleId parameter" }, { status: 400 });
+    }
+
+    const ruleLiteral = toSurrealThingLiteral(ruleId);
+    if (!ruleLiteral || !ruleLiteral.startsWith("category_approval_rule:")) {
+      return NextResponse.json({ error: "Invalid ruleId" }, { status: 400 });
+    }
+
+    const deleteResult = await executeSurrealQL({
+      token,
+      query: `DELETE ${ruleLiteral} RETURN BEFORE;`,
+      logName: "approvalRulesAPI.DELETE /sql (remove approval rule)",
+    });
+
+    if (!deleteResult.success) {
+      return NextResponse.json({ error: "Failed to remove approval rule", details: deleteResult.error }, { status: 500 });
+    }
+
+    const deleted = getResultArray<unknown>(deleteResult.data[0]);
+    if (deleted.length === 0) {
+      return NextResponse.json({ error: "Approval rule not found or you don't have permission to remove it" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error removing approval rule:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { getCategoryFeeSchedule, getIntegrationFeeSchedule, updateFeeSchedule } from "@/lib/mpesaFeeService";
+
+export const dynamic = "force-dynamic";
+
+function httpStatusForReason(reason: string): number {
+  switch (reason) {
+    case "invalid_category_id":
+    case "invalid_integration_id":
+      return 400;
+    case "permission_denied_or_integration_not_found":
+      return 404;
+    default:
+      return 500;
+  }
+}
+
+async function getToken(): Promise<string | undefined> {
+  const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+  const scope = process.env.AUTH0_SCOPE;
+  const accessTokenOptions = {
+    ...(audience ? { audience } : {}),
+    ...(scope ? { scope } : {}),
+  };
+
+  const { token } = await auth0.getAccessToken(accessTokenOptions);
+  return token;
+}
+
+// GET /api/settings/mpesa/fees?categoryId= - Fee tariff of the integration the category's payouts use
+// GET /api/settings/mpesa/fees?integrationId= - Fee tariff of one integration (settings)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const categoryId = req.nextUrl.searchParams.get("categoryId");
+    const integrationId = req.nextUrl.searchParams.get("integrationId");
+    if (!categoryId && !integrationId) {
+      return NextResponse.json(
+        { error: "Missing categoryId or integrationId parameter", reason: "missing_category_id" },
+        { status: 400 },
+      );
+    }
+
+    const result = integrationId
+      ? await getIntegrationFeeSchedule({ accessToken: token, integrationId })
+      : await getCategoryFeeSchedule({ accessToken: token, categoryId: categoryId as string });
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: "Failed to load fee tariff", reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    return NextResponse.json({ schedule: result.schedule });
+  } catch (error) {
+    console.error("Fee tariff load error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
+
+// PUT /api/settings/mpesa/fees - Replace an integration's tariff ({ integrationId, tariff, feeExpenseAccountId? })
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body.integrationId !== "string") {
+      return NextResponse.json({ error: "Missing integrationId", reason: "missing_integration_id" }, { status: 400 });
+    }
+
+    const result = await updateFeeSchedule({
+      accessToken: token,
+      integrationId: body.integrationId,
+      tariff: body.tariff,
+      feeExpenseAccountId: typeof body.feeExpenseAccountId === "string" ? body.feeExpenseAccountId : undefined,
+    });
+
+    if (result.status === "invalid") {
+      return NextResponse.json({ error: result.error, reason: result.reason }, { status: 400 });
+    }
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: "Failed to save fee tariff", reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    return NextResponse.json({ success: true, schedule: result.schedule });
+  } catch (error) {
+    console.error("Fee tariff save error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
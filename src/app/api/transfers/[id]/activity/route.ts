@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { addTransferComment, getTransferActivity, listMentionableUsers } from "@/lib/transferActivityService";
+
+export const dynamic = "force-dynamic";
+
+function httpStatusForReason(reason: string): number {
+  switch (reason) {
+    case "invalid_transfer_id":
+    case "empty_comment":
+    case "comment_too_long":
+    case "invalid_mentions":
+    case "invalid_mention":
+      return 400;
+    case "permission_denied":
+      return 403;
+    case "transfer_not_found":
+      return 404;
+    default:
+      return 500;
+  }
+}
+
+async function getToken(): Promise<string | undefined> {
+  const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+  const scope = process.env.AUTH0_SCOPE;
+  const accessTokenOptions = {
+    ...(audience ? { audience } : {}),
+    ...(scope ? { scope } : {}),
+  };
+
+  const { token } = await auth0.getAccessToken(accessTokenOptions);
+  return token;
+}
+
+// GET /api/transfers/[id]/activity - The transfer's timeline and the users its comments can mention
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const transferId = decodeURIComponent(id);
+
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const [activity, mentionable] = await Promise.all([
+      getTransferActivity({ accessToken: token, transferId }),
+      listMentionableUsers({ accessToken: token, transferId }),
+    ]);
+
+    if (activity.status === "skipped") {
+      return NextResponse.json(
+        { error: "Failed to load activity", reason: activity.reason },
+        { status: httpStatusForReason(activity.reason) },
+      );
+    }
+
+    return NextResponse.json({
+      items: activity.items,
+      // The timeline is still useful when category users cannot be listed
+      mentionableUsers: mentionable.status === "ok" ? mentionable.users : [],
+    });
+  } catch (error) {
+    console.error("Transfer activity error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/transfers/[id]/activity - Add a comment ({ body, mentionUserIds? })
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const transferId = decodeURIComponent(id);
+
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+
+    const result = await addTransferComment({
+      accessToken: token,
+      transferId,
+      body: body?.body,
+      mentionUserIds: body?.mentionUserIds,
+    });
+
+    if (result.status === "invalid") {
+      return NextResponse.json(
+        { error: result.error, reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: "Failed to add comment", reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    return NextResponse.json({ success: true, item: result.item });
+  } catch (error) {
+    console.error("Transfer comment error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { createTransferAttachment, listTransferAttachments } from "@/lib/attachmentService";
+import { MAX_ATTACHMENT_BYTES } from "@/lib/attachments";
+
+export const dynamic = "force-dynamic";
+
+function httpStatusForReason(reason: string): number {
+  switch (reason) {
+    case "invalid_transfer_id":
+    case "missing_file":
+    case "unsupported_file_type":
+    case "empty_file":
+      return 400;
+    case "permission_denied":
+      return 403;
+    case "transfer_not_found":
+      return 404;
+    case "too_many_attachments":
+      return 409;
+    case "file_too_large":
+      return 413;
+    default:
+      return 500;
+  }
+}
+
+async function getToken(): Promise<string | undefined> {
+  const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+  const scope = process.env.AUTH0_SCOPE;
+  const accessTokenOptions = {
+    ...(audience ? { audience } : {}),
+    ...(scope ? { scope } : {}),
+  };
+
+  const { token } = await auth0.getAccessToken(accessTokenOptions);
+  return token;
+}
+
+// GET /api/transfers/[id]/attachments - Receipts and documents attached to the transfer
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const transferId = decodeURIComponent(id);
+
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const result = await listTransferAttachments({ accessToken: token, transferId });
+
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: "Failed to load attachments", reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    return NextResponse.json({ attachments: result.attachments });
+  } catch (error) {
+    console.error("Transfer attachments error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/transfers/[id]/attachments - Upload an image or PDF (multipart form, field "file")
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const transferId = decodeURIComponent(id);
+
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    // Refuse oversized bodies before buffering them; the form encoding adds a little to the file size
+    const contentLength = Number(req.headers.get("content-length"));
+    if (contentLength > MAX_ATTACHMENT_BYTES + 64 * 1024) {
+      return NextResponse.json({ error: "File is too large", reason: "file_too_large" }, { status: 413 });
+    }
+
+    const form = await req.formData().catch(() => null);
+    const file = form?.get("file");
+    if (!file || typeof file === "string") {
+      return NextResponse.json({ error: "No file uploaded", reason: "missing_file" }, { status: 400 });
+    }
+
+    const result = await createTransferAttachment({
+      accessToken: token,
+      transferId,
+      file: { name: file.name, type: file.type, data: new Uint8Array(await file.arrayBuffer()) },
+    });
+
+    if (result.status === "invalid") {
+      return NextResponse.json(
+        { error: result.error, reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: "Failed to upload attachment", reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    return NextResponse.json({ success: true, attachment: result.attachment });
+  } catch (error) {
+    console.error("Transfer attachment upload error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { createReversalTransfer, getTransferReversals } from "@/lib/transferService";
+
+export const dynamic = "force-dynamic";
+
+function httpStatusForReason(reason: string): number {
+  switch (reason) {
+    case "invalid_transfer_id":
+    case "invalid_amount":
+    case "invalid_type":
+    case "invalid_status":
+    case "invalid_account_id":
+      return 400;
+    case "exceeds_refundable_amount_or_permission_denied":
+      return 403;
+    case "transfer_not_found":
+      return 404;
+    case "transfer_not_reversible":
+    case "cannot_reverse_reversal":
+    case "exceeds_refundable_amount":
+    case "period_locked":
+      return 409;
+    default:
+      return 500;
+  }
+}
+
+async function getToken(): Promise<string | undefined> {
+  const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+  const scope = process.env.AUTH0_SCOPE;
+  const accessTokenOptions = {
+    ...(audience ? { audience } : {}),
+    ...(scope ? { scope } : {}),
+  };
+
+  const { token } = await auth0.getAccessToken(accessTokenOptions);
+  return token;
+}
+
+// GET /api/transfers/[id]/reversal - The original transfer, its reversals and the amount still refundable
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const transferId = decodeURIComponent(id);
+
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const result = await getTransferReversals({ accessToken: token, transferThingId: transferId });
+
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: "Failed to load reversals", reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      original: result.original,
+      reversals: result.reversals,
+      refundable: result.refundable,
+    });
+  } catch (error) {
+    console.error("Transfer reversals error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/transfers/[id]/reversal - Reverse or refund a posted transfer ({ amount?, type?, status?, description? })
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const transferId = decodeURIComponent(id);
+
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+
+    const result = await createReversalTransfer({
+      accessToken: token,
+      transferThingId: transferId,
+      amount: body?.amount === undefined || body?.amount === null ? undefined : Number(body.amount),
+      type: typeof body?.type === "string" ? body.type : undefined,
+      status: typeof body?.status === "string" ? body.status : undefined,
+      description: typeof body?.description === "string" ? body.description : undefined,
+    });
+
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: "Failed to reverse transfer", reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    return NextResponse.json({ success: true, transfer: result.transfer });
+  } catch (error) {
+    console.error("Transfer reversal error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
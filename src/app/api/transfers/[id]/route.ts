@@ -0,0 +1,242 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { MPESA_RECIPIENT_REASONS } from "@/lib/mpesaNumbers";
+import { isTransferAction, TRANSFER_ACTIONS } from "@/lib/transferLifecycle";
+import { TAG_VALIDATION_REASONS } from "@/lib/transferTags";
+import { applyTransferAction, deleteDraftTransfer, getTransfer, updateDraftTransfer } from "@/lib/transferService";
+
+export const dynamic = "force-dynamic";
+
+function httpStatusForReason(reason: string): number {
+  switch (reason) {
+    case "invalid_transfer_id":
+    case "missing_fields":
+    case "missing_destination":
+    case "invalid_amount":
+    case "invalid_status":
+    case "invalid_account_id":
+    case "invalid_created_at":
+    case "invalid_payment_channel_account":
+    case "invalid_fee_account_id":
+      return 400;
+    case "permission_denied_or_status_changed":
+    case "approver_not_admin":
+    case "cannot_approve_own_transfer":
+      return 403;
+    case "transfer_not_found":
+      return 404;
+    case "invalid_status_transition":
+    case "transfer_not_editable":
+    case "already_approved":
+    case "period_locked":
+    case "split_leg":
+    case "split_not_editable":
+      return 409;
+    default:
+      return (MPESA_RECIPIENT_REASONS as readonly string[]).includes(reason) ||
+        (TAG_VALIDATION_REASONS as readonly string[]).includes(reason)
+        ? 400
+        : 500;
+  }
+}
+
+async function getToken(): Promise<string | undefined> {
+  const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+  const scope = process.env.AUTH0_SCOPE;
+  const accessTokenOptions = {
+    ...(audience ? { audience } : {}),
+    ...(scope ? { scope } : {}),
+  };
+
+  const { token } = await auth0.getAccessToken(accessTokenOptions);
+  return token;
+}
+
+// GET /api/transfers/[id] - One transfer with its approval count (and its legs when it is a split)
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const transferId = decodeURIComponent(id);
+
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const result = await getTransfer({ accessToken: token, transferId });
+
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: "Failed to load transfer", reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    return NextResponse.json({ transfer: result.transfer });
+  } catch (error) {
+    console.error("Transfer load error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
+
+// PUT /api/transfers/[id] - Edit a draft transfer (same payload as POST /api/transfers)
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const transferId = decodeURIComponent(id);
+
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const { fromAccountId, toAccountId, amount, type, status, description, label, tags, paymentChannel, createdAt, metadata, externalTransactionId, feeExpenseAccountId } = body;
+
+    const result = await updateDraftTransfer({
+      accessToken: token,
+      transferThingId: transferId,
+      input: {
+        fromAccountId,
+        toAccountId,
+        amount,
+        type,
+        status,
+        description,
+        label,
+        tags,
+        paymentChannel,
+        createdAt,
+        metadata: metadata && typeof metadata === "object" ? metadata : null,
+        externalTransactionId,
+        feeExpenseAccountId: typeof feeExpenseAccountId === "string" || feeExpenseAccountId === null ? feeExpenseAccountId : undefined,
+      },
+    });
+
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: "Failed to update transfer", reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    return NextResponse.json({ success: true, transfer: result.transfer });
+  } catch (error) {
+    console.error("Transfer update error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/transfers/[id] - Delete a draft transfer
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const transferId = decodeURIComponent(id);
+
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const result = await deleteDraftTransfer({ accessToken: token, transferThingId: transferId });
+
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: "Failed to delete transfer", reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Transfer delete error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
+
+// PATCH /api/transfers/[id] - Move a transfer through its lifecycle ({ action, reason? })
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const transferId = decodeURIComponent(id);
+
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const action = body?.action;
+    const reason = typeof body?.reason === "string" ? body.reason : undefined;
+
+    if (!isTransferAction(action)) {
+      return NextResponse.json(
+        { error: `Invalid action. Must be one of: ${TRANSFER_ACTIONS.join(", ")}`, reason: "invalid_action" },
+        { status: 400 },
+      );
+    }
+
+    const result = await applyTransferAction({
+      accessToken: token,
+      transferThingId: transferId,
+      action,
+      reason,
+    });
+
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: `Failed to ${action} transfer`, reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    return NextResponse.json({ success: true, transfer: result.transfer });
+  } catch (error) {
+    console.error("Transfer action error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { listTransfersAwaitingMyApproval } from "@/lib/transferService";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/transfers/approvals - Transfers waiting on the current user's approval (approvals inbox)
+export async function GET() {
+  try {
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+    const scope = process.env.AUTH0_SCOPE;
+    const accessTokenOptions = {
+      ...(audience ? { audience } : {}),
+      ...(scope ? { scope } : {}),
+    };
+
+    const { token } = await auth0.getAccessToken(accessTokenOptions);
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const result = await listTransfersAwaitingMyApproval({ accessToken: token });
+    if (result.status === "skipped") {
+      return NextResponse.json({ error: "Failed to list approvals", reason: result.reason }, { status: 500 });
+    }
+
+    return NextResponse.json({ transfers: result.transfers });
+  } catch (error) {
+    console.error("Approvals list error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { listAttachmentIdsByTransfer } from "@/lib/attachmentService";
+import { attachmentPath } from "@/lib/attachments";
+import {
+  listTransfers,
+  MAX_TRANSFER_PAGE_SIZE,
+  parseTransferFilters,
+  type Transfer,
+  type TransferFilters,
+} from "@/lib/transferService";
+import {
+  buildOfx,
+  buildXlsx,
+  csvHeader,
+  csvRows,
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  MAX_EXPORT_ROWS,
+  type AttachmentLinks,
+  type ExportFormat,
+} from "@/lib/transferExport";
+import { SPLIT_LEG_ROLE } from "@/lib/transferSplit";
+
+export const dynamic = "force-dynamic";
+
+// Page through the filtered list the same way the transactions screen does
+async function* transferPages(token: string, filters: TransferFilters) {
+  let cursor: string | null = null;
+  let total = 0;
+  do {
+    const result = await listTransfers({ accessToken: token, filters, cursor, limit: MAX_TRANSFER_PAGE_SIZE });
+    if (result.status === "skipped") throw new Error(result.reason);
+    // Split parents are exported as their legs, the transfers that actually move money; tags are
+    // kept on the parent, so the legs carry its tags
+    const rows = result.transfers.flatMap((t) =>
+      t.legs
+        ? t.legs
+            .filter((leg) => !filters.accountId || leg.fromAccountId === filters.accountId || leg.toAccountId === filters.accountId)
+            .map((leg) => ({ ...leg, tags: t.tags }))
+        : [t],
+    );
+    const page = rows.slice(0, MAX_EXPORT_ROWS - total);
+    total += page.length;
+    yield page;
+    cursor = total < MAX_EXPORT_ROWS ? result.nextCursor : null;
+  } while (cursor);
+}
+
+// Absolute links to the attachments of a page of rows. Receipts are attached to a split as a whole,
+// so each leg links to its parent's.
+async function attachmentLinks(token: string, rows: Transfer[], baseUrl: string): Promise<AttachmentLinks> {
+  const ownerId = (t: Transfer) => (t.linkRole === SPLIT_LEG_ROLE && t.parentTransferId ? t.parentTransferId : t.id);
+  const result = await listAttachmentIdsByTransfer({ accessToken: token, transferIds: rows.map(ownerId) });
+  if (result.status === "skipped") throw new Error(result.reason);
+
+  const links: AttachmentLinks = new Map();
+  for (const t of rows) {
+    const ids = result.attachmentIds.get(ownerId(t));
+    if (ids) links.set(t.id, ids.map((id) => `${baseUrl}${attachmentPath(id)}`));
+  }
+  return links;
+}
+
+// GET /api/transfers/export?format=csv|xlsx|ofx - Download the filtered transfer list.
+// Takes the same filters as GET /api/transfers. OFX needs accountId since it is an account statement.
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+    const scope = process.env.AUTH0_SCOPE;
+    const accessTokenOptions = {
+      ...(audience ? { audience } : {}),
+      ...(scope ? { scope } : {}),
+    };
+
+    const { token } = await auth0.getAccessToken(accessTokenOptions);
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const format = (searchParams.get("format") || "csv") as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json({ error: "Invalid export format", reason: "invalid_format" }, { status: 400 });
+    }
+
+    const parsed = parseTransferFilters(searchParams);
+    if (parsed.status === "invalid") {
+      return NextResponse.json({ error: "Invalid filter", reason: parsed.reason }, { status: 400 });
+    }
+    const { filters } = parsed;
+
+    if (format === "ofx" && !filters.accountId) {
+      return NextResponse.json(
+        { error: "Select an account to export OFX", reason: "account_required" },
+        { status: 400 },
+      );
+    }
+
+    const filename = `transfers-${new Date().toISOString().slice(0, 10)}.${format}`;
+    const headers = {
+      "Content-Type": EXPORT_CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    };
+
+    const pages = transferPages(token, filters);
+    const baseUrl = (process.env.APP_BASE_URL || req.nextUrl.origin).replace(/\/$/, "");
+
+    // Fetch the first page before answering so filter/permission errors still come back as JSON
+    const first = await pages.next();
+    const firstLinks = first.done ? undefined : await attachmentLinks(token, first.value, baseUrl);
+
+    if (format === "csv") {
+      const encoder = new TextEncoder();
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(encoder.encode(csvHeader()));
+          if (!first.done) controller.enqueue(encoder.encode(csvRows(first.value, firstLinks)));
+        },
+        async pull(controller) {
+          try {
+            const next = await pages.next();
+            if (next.done) {
+              controller.close();
+              return;
+            }
+            controller.enqueue(encoder.encode(csvRows(next.value, await attachmentLinks(token, next.value, baseUrl))));
+          } catch (error) {
+            console.error("Transfer export error:", error);
+            controller.error(error);
+          }
+        },
+      });
+      return new Response(stream, { headers });
+    }
+
+    // XLSX and OFX need the whole list before anything can be written
+    const transfers: Transfer[] = first.done ? [] : [...first.value];
+    const links: AttachmentLinks = new Map(firstLinks);
+    for await (const page of pages) {
+      transfers.push(...page);
+      if (format === "xlsx") for (const [id, urls] of await attachmentLinks(token, page, baseUrl)) links.set(id, urls);
+    }
+
+    if (format === "xlsx") {
+      return new Response(buildXlsx(transfers, links), { headers });
+    }
+
+    return new Response(
+      buildOfx({
+        transfers,
+        accountId: filters.accountId!,
+        currency: "KES",
+        dateFrom: filters.dateFrom,
+        dateTo: filters.dateTo,
+      }),
+      { headers },
+    );
+  } catch (error) {
+    console.error("Transfer export error:", error);
+    const reason = error instanceof Error ? error.message : "server_error";
+    const status = reason === "invalid_cursor" ? 400 : 500;
+    return NextResponse.json({ error: "Failed to export transfers", reason }, { status });
+  }
+}
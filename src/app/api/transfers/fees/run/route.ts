@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { recordPostedPayoutFees } from "@/lib/mpesaFeeService";
+
+export const dynamic = "force-dynamic";
+
+// Like /api/scheduled-transfers/run-due: a cron job sends a bearer access token, a signed-in user
+// falls back to the session token
+async function getToken(req: NextRequest): Promise<string | undefined> {
+  const authorization = req.headers.get("authorization");
+  if (authorization?.toLowerCase().startsWith("bearer ")) {
+    return authorization.slice(7).trim() || undefined;
+  }
+
+  const session = await auth0.getSession();
+  if (!session?.user) return undefined;
+
+  const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+  const scope = process.env.AUTH0_SCOPE;
+  const accessTokenOptions = {
+    ...(audience ? { audience } : {}),
+    ...(scope ? { scope } : {}),
+  };
+
+  const { token } = await auth0.getAccessToken(accessTokenOptions);
+  return token;
+}
+
+// POST /api/transfers/fees/run - Record the fee transfers of M-Pesa payouts posted since the last run
+export async function POST(req: NextRequest) {
+  try {
+    const token = await getToken(req);
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized", reason: "missing_token" }, { status: 401 });
+    }
+
+    const result = await recordPostedPayoutFees({ accessToken: token });
+
+    if (result.status === "skipped") {
+      return NextResponse.json({ error: "Failed to record payout fees", reason: result.reason }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      recorded: result.recorded,
+      noCharge: result.noCharge,
+      failed: result.failed,
+    });
+  } catch (error) {
+    console.error("Payout fee run error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
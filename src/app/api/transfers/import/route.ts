@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { MAX_IMPORT_ROWS } from "@/lib/statementImport";
+import { importDraftTransfers, type TransferInput } from "@/lib/transferService";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/transfers/import - Create draft transfers from mapped statement rows
+// Body: { rows: [{ row, input: { fromAccountId, toAccountId, amount, type, createdAt?, description?, label?, externalTransactionId? } }], dryRun? }
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+    const scope = process.env.AUTH0_SCOPE;
+    const accessTokenOptions = {
+      ...(audience ? { audience } : {}),
+      ...(scope ? { scope } : {}),
+    };
+
+    const { token } = await auth0.getAccessToken(accessTokenOptions);
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const rawRows: unknown[] = Array.isArray(body?.rows) ? body.rows : [];
+
+    if (rawRows.length === 0) {
+      return NextResponse.json({ error: "No rows to import", reason: "missing_rows" }, { status: 400 });
+    }
+
+    if (rawRows.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_IMPORT_ROWS} rows can be imported at once`, reason: "too_many_rows" },
+        { status: 400 },
+      );
+    }
+
+    const rows: Array<{ row: number; input: TransferInput }> = [];
+    for (const [index, raw] of rawRows.entries()) {
+      const entry = raw as { row?: unknown; input?: Record<string, unknown> } | null;
+      const input = entry?.input;
+      if (!input || typeof input !== "object") {
+        return NextResponse.json({ error: `Row ${index + 1} has no input`, reason: "invalid_row" }, { status: 400 });
+      }
+      rows.push({
+        row: typeof entry.row === "number" ? entry.row : index + 1,
+        input: {
+          fromAccountId: typeof input.fromAccountId === "string" ? input.fromAccountId : undefined,
+          toAccountId: typeof input.toAccountId === "string" ? input.toAccountId : undefined,
+          amount: typeof input.amount === "number" ? input.amount : undefined,
+          type: typeof input.type === "string" ? input.type : undefined,
+          createdAt: typeof input.createdAt === "string" ? input.createdAt : undefined,
+          description: typeof input.description === "string" ? input.description : undefined,
+          label: typeof input.label === "string" ? input.label : undefined,
+          externalTransactionId: typeof input.externalTransactionId === "string" ? input.externalTransactionId : undefined,
+        },
+      });
+    }
+
+    const result = await importDraftTransfers({ accessToken: token, rows, dryRun: body?.dryRun === true });
+
+    if (result.status === "skipped") {
+      return NextResponse.json({ error: "Failed to import transfers", reason: result.reason }, { status: 500 });
+    }
+
+    return NextResponse.json({ results: result.results });
+  } catch (error) {
+    console.error("Transfer import error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { bulkTagTransfers, listCategoryTags } from "@/lib/transferTagService";
+
+export const dynamic = "force-dynamic";
+
+function httpStatusForReason(reason: string): number {
+  switch (reason) {
+    case "invalid_category_id":
+    case "missing_transfer_ids":
+    case "too_many_transfers":
+    case "invalid_transfer_id":
+    case "missing_tags":
+    case "empty_tag":
+    case "tag_too_long":
+    case "invalid_tag":
+    case "invalid_tags":
+    case "too_many_tags":
+      return 400;
+    default:
+      return 500;
+  }
+}
+
+async function getToken(): Promise<string | undefined> {
+  const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+  const scope = process.env.AUTH0_SCOPE;
+  const accessTokenOptions = {
+    ...(audience ? { audience } : {}),
+    ...(scope ? { scope } : {}),
+  };
+
+  const { token } = await auth0.getAccessToken(accessTokenOptions);
+  return token;
+}
+
+// GET /api/transfers/tags?categoryId= - Tags used in the category with how often (for autocomplete)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const categoryId = new URL(req.url).searchParams.get("categoryId");
+    if (!categoryId) {
+      return NextResponse.json({ error: "categoryId parameter is required", reason: "missing_category_id" }, { status: 400 });
+    }
+
+    const result = await listCategoryTags({ accessToken: token, categoryId });
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: "Failed to list tags", reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    return NextResponse.json({ tags: result.tags });
+  } catch (error) {
+    console.error("Transfer tags error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/transfers/tags - Bulk tagging ({ transferIds, add?, remove? })
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+
+    const result = await bulkTagTransfers({
+      accessToken: token,
+      transferIds: body?.transferIds,
+      add: body?.add,
+      remove: body?.remove,
+    });
+
+    if (result.status === "invalid") {
+      return NextResponse.json({ error: result.error, reason: result.reason }, { status: 400 });
+    }
+    if (result.status === "skipped") {
+      return NextResponse.json(
+        { error: "Failed to tag transfers", reason: result.reason },
+        { status: httpStatusForReason(result.reason) },
+      );
+    }
+
+    return NextResponse.json({ success: true, updated: result.updated, skipped: result.skipped });
+  } catch (error) {
+    console.error("Bulk tag error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
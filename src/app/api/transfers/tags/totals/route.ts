@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { parseTransferFilters } from "@/lib/transferService";
+import { getTagTotals } from "@/lib/transferTagService";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/transfers/tags/totals - Count and total amount per tag over the transfers matching the
+// same filters as GET /api/transfers
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+    const scope = process.env.AUTH0_SCOPE;
+    const accessTokenOptions = {
+      ...(audience ? { audience } : {}),
+      ...(scope ? { scope } : {}),
+    };
+
+    const { token } = await auth0.getAccessToken(accessTokenOptions);
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const parsed = parseTransferFilters(new URL(req.url).searchParams);
+    if (parsed.status === "invalid") {
+      return NextResponse.json({ error: "Invalid filter", reason: parsed.reason }, { status: 400 });
+    }
+
+    const result = await getTagTotals({ accessToken: token, filters: parsed.filters });
+    if (result.status === "skipped") {
+      return NextResponse.json({ error: "Failed to load tag totals", reason: result.reason }, { status: 500 });
+    }
+
+    return NextResponse.json({ totals: result.totals });
+  } catch (error) {
+    console.error("Tag totals error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { getTrends } from "@/lib/trendService";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/trends?months= - Monthly cash flow per root category, spending per expense account and
+// net worth over the last `months` months (default 12)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth0.getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+    const scope = process.env.AUTH0_SCOPE;
+    const accessTokenOptions = {
+      ...(audience ? { audience } : {}),
+      ...(scope ? { scope } : {}),
+    };
+
+    const { token } = await auth0.getAccessToken(accessTokenOptions);
+    if (!token) {
+      return NextResponse.json({ error: "No access token", reason: "missing_token" }, { status: 401 });
+    }
+
+    const result = await getTrends({ accessToken: token, months: new URL(req.url).searchParams.get("months") });
+
+    if (result.status === "skipped") {
+      return NextResponse.json({ error: "Failed to load trends", reason: result.reason }, { status: 500 });
+    }
+
+    return NextResponse.json({ trends: result.trends });
+  } catch (error) {
+    console.error("Trends error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", reason: "server_error" },
+      { status: 500 },
+    );
+  }
+}
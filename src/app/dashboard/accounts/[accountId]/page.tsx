@@ -0,0 +1,54 @@
+import { redirect } from "next/navigation";
+import { auth0 } from "@/lib/auth0";
+import AccountStatementClient from "@/components/AccountStatementClient";
+import { getAccountStatement, resolveStatementPeriod } from "@/lib/accountStatementService";
+
+export const dynamic = "force-dynamic";
+
+export default async function AccountStatementPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ accountId: string }>;
+  searchParams: Promise<{ from?: string; to?: string }>;
+}) {
+  const { accountId: encodedAccountId } = await params;
+  const accountId = decodeURIComponent(encodedAccountId);
+  const { from, to } = await searchParams;
+
+  const session = await auth0.getSession();
+  if (!session?.user) {
+    redirect("/");
+  }
+
+  const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+  const scope = process.env.AUTH0_SCOPE;
+  const accessTokenOptions = {
+    ...(audience ? { audience } : {}),
+    ...(scope ? { scope } : {}),
+  };
+
+  // Fall back to the default period when the query string is unusable
+  let period = resolveStatementPeriod(from, to);
+  if (period.status === "invalid") period = resolveStatementPeriod(null, null);
+  const { from: periodFrom, to: periodTo } = period.status === "ok" ? period : { from: "", to: "" };
+
+  let statement: Awaited<ReturnType<typeof getAccountStatement>>;
+  try {
+    const { token } = await auth0.getAccessToken(accessTokenOptions);
+    statement = await getAccountStatement({ accessToken: token, accountId, from: periodFrom, to: periodTo });
+  } catch {
+    statement = { status: "skipped", reason: "token_or_fetch_failed" };
+  }
+
+  return (
+    <AccountStatementClient
+      key={`${accountId}-${periodFrom}-${periodTo}`}
+      accountId={accountId}
+      fromDay={periodFrom.slice(0, 10)}
+      toDay={periodTo.slice(0, 10)}
+      statement={statement.status === "ok" ? statement.statement : null}
+      loadError={statement.status === "skipped" ? statement.reason : null}
+    />
+  );
+}
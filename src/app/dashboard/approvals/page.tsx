@@ -0,0 +1,35 @@
+import { redirect } from "next/navigation";
+import { auth0 } from "@/lib/auth0";
+import ApprovalsClient from "@/components/ApprovalsClient";
+import { listTransfersAwaitingMyApproval } from "@/lib/transferService";
+
+export const dynamic = "force-dynamic";
+
+export default async function ApprovalsPage() {
+  const session = await auth0.getSession();
+  if (!session?.user) {
+    redirect("/");
+  }
+
+  const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+  const scope = process.env.AUTH0_SCOPE;
+  const accessTokenOptions = {
+    ...(audience ? { audience } : {}),
+    ...(scope ? { scope } : {}),
+  };
+
+  let transfers: Awaited<ReturnType<typeof listTransfersAwaitingMyApproval>>;
+  try {
+    const { token } = await auth0.getAccessToken(accessTokenOptions);
+    transfers = await listTransfersAwaitingMyApproval({ accessToken: token });
+  } catch {
+    transfers = { status: "skipped", reason: "token_or_list_failed" };
+  }
+
+  return (
+    <ApprovalsClient
+      initialTransfers={transfers.status === "ok" ? transfers.transfers : []}
+      loadError={transfers.status === "skipped" ? transfers.reason : null}
+    />
+  );
+}
@@ -7,11 +7,15 @@ export const dynamic = "force-dynamic";
 
 export default async function BudgetTemplateDetailPage({
   params,
+  searchParams,
 }: {
   params: Promise<{ templateId: string }>;
+  // budgetId picks the budget period compared against the allocations
+  searchParams: Promise<{ budgetId?: string }>;
 }) {
   const { templateId: encodedTemplateId } = await params;
   const templateId = decodeURIComponent(encodedTemplateId);
+  const { budgetId } = await searchParams;
   
   const session = await auth0.getSession();
   if (!session?.user) {
@@ -30,7 +34,8 @@ export default async function BudgetTemplateDetailPage({
     const { token } = await auth0.getAccessToken(accessTokenOptions);
     template = await getBudgetTemplateWithAllocations({ 
       accessToken: token,
-      templateThingId: templateId 
+      templateThingId: templateId,
+      budgetThingId: budgetId,
     });
   } catch {
     template = { status: "skipped", reason: "token_or_fetch_failed" };
@@ -1,12 +1,85 @@
 import Link from "next/link";
 import { redirect } from "next/navigation";
 import { auth0 } from "@/lib/auth0";
+import { getOverview, type Overview } from "@/lib/overviewService";
+import { getTrends } from "@/lib/trendService";
+import type { Trends } from "@/lib/trends";
+import { CashFlowChart, NetWorthChart, SERIES_DOT_CLASSES, SpendingTrendChart } from "@/components/TrendCharts";
+
+export const dynamic = "force-dynamic";
+
+// Same colours as .dot-a … .dot-e, in breakdown order
+const BREAKDOWN_COLORS = [
+  "rgba(99, 179, 237, 0.95)",
+  "rgba(104, 211, 145, 0.95)",
+  "rgba(252, 129, 129, 0.95)",
+  "rgba(237, 137, 54, 0.95)",
+  "rgba(160, 174, 192, 0.95)",
+];
+const BREAKDOWN_DOT_CLASSES = ["dot-a", "dot-b", "dot-c", "dot-d", "dot-e"];
+
+function formatNumber(value: number): string {
+  return new Intl.NumberFormat("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value);
+}
+
+function formatDay(dateString: string): string {
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return "";
+  return date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+function spendComparison(overview: Overview): string {
+  if (overview.previousMonthSpend <= 0) return "This month";
+  const change = ((overview.monthlySpend - overview.previousMonthSpend) / overview.previousMonthSpend) * 100;
+  return `${change >= 0 ? "+" : ""}${change.toFixed(0)}% vs last month`;
+}
+
+function donutBackground(overview: Overview): string | undefined {
+  const total = overview.spendByCategory.reduce((sum, c) => sum + c.total, 0);
+  if (total <= 0) return undefined;
+  let start = 0;
+  const stops = overview.spendByCategory.map((c, i) => {
+    const end = start + (c.total / total) * 100;
+    const stop = `${BREAKDOWN_COLORS[i % BREAKDOWN_COLORS.length]} ${start}% ${end}%`;
+    start = end;
+    return stop;
+  });
+  return `conic-gradient(${stops.join(", ")})`;
+}
+
 export default async function DashboardPage() {
   const session = await auth0.getSession();
   if (!session?.user) {
     redirect("/");
   }
 
+  const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+  const scope = process.env.AUTH0_SCOPE;
+  const accessTokenOptions = {
+    ...(audience ? { audience } : {}),
+    ...(scope ? { scope } : {}),
+  };
+
+  let overview: Overview | null = null;
+  let trends: Trends | null = null;
+  let loadError: string | null = null;
+  try {
+    const { token } = await auth0.getAccessToken(accessTokenOptions);
+    const [result, trendResult] = await Promise.all([
+      getOverview({ accessToken: token }),
+      getTrends({ accessToken: token }),
+    ]);
+    if (result.status === "ok") overview = result.overview;
+    else loadError = result.reason;
+    if (trendResult.status === "ok") trends = trendResult.trends;
+    else loadError = loadError || trendResult.reason;
+  } catch {
+    loadError = "token_or_fetch_failed";
+  }
+
+  const breakdownTotal = overview?.spendByCategory.reduce((sum, c) => sum + c.total, 0) ?? 0;
+  const donutStyle = overview ? donutBackground(overview) : undefined;
+
   return (
     <div className="dashboard-page">
       <header className="dashboard-header">
@@ -21,21 +94,37 @@ export default async function DashboardPage() {
         </div>
       </header>
 
+      {loadError && (
+        <div
+          style={{
+            marginBottom: "16px",
+            padding: "12px",
+            backgroundColor: "var(--bg-error, #ffebee)",
+            borderRadius: "8px",
+            color: "var(--text-error, #c62828)",
+          }}
+        >
+          Failed to load the overview ({loadError})
+        </div>
+      )}
+
       <section className="stats-grid">
         <div className="panel stat-card">
           <div className="stat-label">Total balance</div>
-          <div className="stat-value">$12,480.00</div>
-          <div className="stat-meta">Updated today</div>
+          <div className="stat-value">{overview ? formatNumber(overview.totalBalance) : "—"}</div>
+          <div className="stat-meta">
+            {overview ? `Across ${overview.assetAccountCount} asset account${overview.assetAccountCount === 1 ? "" : "s"}` : ""}
+          </div>
         </div>
         <div className="panel stat-card">
           <div className="stat-label">Monthly spend</div>
-          <div className="stat-value">$2,130.40</div>
-          <div className="stat-meta">This month</div>
+          <div className="stat-value">{overview ? formatNumber(overview.monthlySpend) : "—"}</div>
+          <div className="stat-meta">{overview ? spendComparison(overview) : ""}</div>
         </div>
         <div className="panel stat-card">
-          <div className="stat-label">Savings</div>
-          <div className="stat-value">$5,320.15</div>
-          <div className="stat-meta">Goal in progress</div>
+          <div className="stat-label">Last month</div>
+          <div className="stat-value">{overview ? formatNumber(overview.previousMonthSpend) : "—"}</div>
+          <div className="stat-meta">Posted spend into expense accounts, net of refunds</div>
         </div>
       </section>
 
@@ -44,26 +133,32 @@ export default async function DashboardPage() {
           <div className="panel-header">
             <div>
               <div className="panel-title">Spending breakdown</div>
-              <div className="panel-subtitle">Category split (placeholder)</div>
+              <div className="panel-subtitle">By category, this month</div>
             </div>
           </div>
 
-          <div className="breakdown">
-            <div className="donut" aria-hidden="true" />
-            <div className="legend">
-              <div className="legend-item"><span className="legend-dot dot-a" /> Housing</div>
-              <div className="legend-item"><span className="legend-dot dot-b" /> Food</div>
-              <div className="legend-item"><span className="legend-dot dot-c" /> Transport</div>
-              <div className="legend-item"><span className="legend-dot dot-d" /> Subscriptions</div>
+          {breakdownTotal > 0 && overview ? (
+            <div className="breakdown">
+              <div className="donut" aria-hidden="true" style={{ background: donutStyle }} />
+              <div className="legend">
+                {overview.spendByCategory.map((c, i) => (
+                  <div key={c.categoryId || c.categoryName} className="legend-item">
+                    <span className={`legend-dot ${BREAKDOWN_DOT_CLASSES[i % BREAKDOWN_DOT_CLASSES.length]}`} />
+                    {c.categoryName} · {formatNumber(c.total)} ({((c.total / breakdownTotal) * 100).toFixed(0)}%)
+                  </div>
+                ))}
+              </div>
             </div>
-          </div>
+          ) : (
+            <div className="panel-subtitle">No posted spending into expense accounts this month.</div>
+          )}
         </div>
 
         <div className="panel">
           <div className="panel-header">
             <div>
               <div className="panel-title">Recent transactions</div>
-              <div className="panel-subtitle">Latest activity (placeholder)</div>
+              <div className="panel-subtitle">Latest activity across your categories</div>
             </div>
             <Link className="panel-link" href="/dashboard/transactions">
               See all
@@ -71,30 +166,87 @@ export default async function DashboardPage() {
           </div>
 
           <div className="txn-list">
-            <div className="txn-row">
-              <div className="txn-left">
-                <div className="txn-name">Grocery</div>
-                <div className="txn-meta">Food • Today</div>
+            {overview && overview.recentTransfers.length === 0 && (
+              <div className="panel-subtitle">No transactions yet.</div>
+            )}
+            {overview?.recentTransfers.map((transfer) => (
+              <div key={transfer.id} className="txn-row">
+                <div className="txn-left">
+                  <div className="txn-name">
+                    {transfer.description || transfer.label || `${transfer.fromAccountName} → ${transfer.toAccountName}`}
+                  </div>
+                  <div className="txn-meta">
+                    {[transfer.fromCategoryName || transfer.toCategoryName, transfer.status, formatDay(transfer.createdAt)]
+                      .filter(Boolean)
+                      .join(" • ")}
+                  </div>
+                </div>
+                <div className="txn-amount">{formatNumber(transfer.amount)}</div>
               </div>
-              <div className="txn-amount negative">-$42.90</div>
-            </div>
-            <div className="txn-row">
-              <div className="txn-left">
-                <div className="txn-name">Salary</div>
-                <div className="txn-meta">Income • Yesterday</div>
+            ))}
+          </div>
+        </div>
+      </section>
+
+      {trends && (
+        <section className="trends-grid">
+          <div className="panel">
+            <div className="panel-header">
+              <div>
+                <div className="panel-title">Net worth</div>
+                <div className="panel-subtitle">Asset minus liability balances, end of each month</div>
               </div>
-              <div className="txn-amount positive">+$3,200.00</div>
             </div>
-            <div className="txn-row">
-              <div className="txn-left">
-                <div className="txn-name">Streaming</div>
-                <div className="txn-meta">Subscriptions • 2d ago</div>
+            <NetWorthChart months={trends.months} values={trends.netWorth} />
+          </div>
+
+          <div className="panel">
+            <div className="panel-header">
+              <div>
+                <div className="panel-title">Spending trend</div>
+                <div className="panel-subtitle">By expense account, last {trends.months.length} months</div>
               </div>
-              <div className="txn-amount negative">-$12.99</div>
             </div>
+            {trends.spending.length > 0 ? (
+              <>
+                <SpendingTrendChart months={trends.months} series={trends.spending} />
+                <div className="legend" style={{ flexDirection: "row", flexWrap: "wrap", gap: "0.5rem 1rem", marginTop: "0.75rem" }}>
+                  {trends.spending.map((s, i) => (
+                    <div key={s.accountId || s.accountName} className="legend-item">
+                      <span className={`legend-dot ${SERIES_DOT_CLASSES[i % SERIES_DOT_CLASSES.length]}`} />
+                      {s.accountName}
+                    </div>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <div className="panel-subtitle">No posted spending in this period.</div>
+            )}
           </div>
-        </div>
-      </section>
+
+          {trends.cashFlow.map((series) => (
+            <div key={series.categoryId} className="panel">
+              <div className="panel-header">
+                <div>
+                  <div className="panel-title">Cash flow · {series.categoryName}</div>
+                  <div className="panel-subtitle">Money in and out of its asset accounts each month</div>
+                </div>
+              </div>
+              <CashFlowChart months={trends.months} series={series} />
+              <div className="legend" style={{ flexDirection: "row", gap: "1rem", marginTop: "0.75rem" }}>
+                <div className="legend-item">
+                  <span className="legend-dot dot-inflow" />
+                  Inflow
+                </div>
+                <div className="legend-item">
+                  <span className="legend-dot dot-outflow" />
+                  Outflow
+                </div>
+              </div>
+            </div>
+          ))}
+        </section>
+      )}
     </div>
   );
 }
@@ -0,0 +1,44 @@
+import { redirect } from "next/navigation";
+import { auth0 } from "@/lib/auth0";
+import ReconciliationWorkspaceClient from "@/components/ReconciliationWorkspaceClient";
+import { DEFAULT_MATCH_WINDOW_DAYS } from "@/lib/reconciliationMatching";
+import { getReconciliation } from "@/lib/reconciliationService";
+
+export const dynamic = "force-dynamic";
+
+export default async function ReconciliationWorkspacePage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const session = await auth0.getSession();
+  if (!session?.user) {
+    redirect("/");
+  }
+
+  const { id } = await params;
+  const reconciliationId = decodeURIComponent(id);
+
+  const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+  const scope = process.env.AUTH0_SCOPE;
+  const accessTokenOptions = {
+    ...(audience ? { audience } : {}),
+    ...(scope ? { scope } : {}),
+  };
+
+  let result: Awaited<ReturnType<typeof getReconciliation>>;
+  try {
+    const { token } = await auth0.getAccessToken(accessTokenOptions);
+    result = await getReconciliation({ accessToken: token, reconciliationId, windowDays: DEFAULT_MATCH_WINDOW_DAYS });
+  } catch {
+    result = { status: "skipped", reason: "token_or_fetch_failed" };
+  }
+
+  return (
+    <ReconciliationWorkspaceClient
+      reconciliationId={reconciliationId}
+      initialData={result.status === "ok" ? result : null}
+      loadError={result.status === "skipped" ? result.reason : null}
+    />
+  );
+}
@@ -0,0 +1,44 @@
+import { redirect } from "next/navigation";
+import { auth0 } from "@/lib/auth0";
+import ReconciliationsClient from "@/components/ReconciliationsClient";
+import { listReconciliations } from "@/lib/reconciliationService";
+import { listAllAccounts } from "@/lib/settingsService";
+
+export const dynamic = "force-dynamic";
+
+export default async function ReconciliationPage() {
+  const session = await auth0.getSession();
+  if (!session?.user) {
+    redirect("/");
+  }
+
+  const audience = process.env.AUTH0_AUDIENCE || process.env.NEXT_PUBLIC_AUTH0_AUDIENCE;
+  const scope = process.env.AUTH0_SCOPE;
+  const accessTokenOptions = {
+    ...(audience ? { audience } : {}),
+    ...(scope ? { scope } : {}),
+  };
+
+  let reconciliations: Awaited<ReturnType<typeof listReconciliations>>;
+  let accountsData: Awaited<ReturnType<typeof listAllAccounts>>;
+  try {
+    const { token } = await auth0.getAccessToken(accessTokenOptions);
+    reconciliations = await listReconciliations({ accessToken: token });
+    accountsData = await listAllAccounts({ accessToken: token });
+  } catch {
+    reconciliations = { status: "skipped", reason: "token_or_list_failed" };
+    accountsData = { status: "skipped", reason: "token_or_list_failed" };
+  }
+
+  return (
+    <ReconciliationsClient
+      initialReconciliations={reconciliations.status === "ok" ? reconciliations.reconciliations : []}
+      accounts={
+        accountsData.status === "ok"
+          ? accountsData.accounts.map((a) => ({ id: a.id, name: a.name, categoryName: a.categoryName }))
+          : []
+      }
+      loadError={reconciliations.status === "skipped" ? reconciliations.reason : null}
+    />
+  );
+}
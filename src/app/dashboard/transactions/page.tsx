@@ -3,13 +3,15 @@ import { auth0 } from "@/lib/auth0";
 import TransactionsClient from "@/components/TransactionsClient";
 import { listAllAccounts } from "@/lib/settingsService";
 import { executeSurrealQL, getResultArray, thingIdToString } from "@/lib/surrealdb";
+import { getTransfer, listTransfers, type Transfer } from "@/lib/transferService";
 
 export const dynamic = "force-dynamic";
 
 export default async function TransactionsPage({
   searchParams,
 }: {
-  searchParams: Promise<{ categoryId?: string }>;
+  // transferId opens that transfer's details (links from the global search)
+  searchParams: Promise<{ categoryId?: string; transferId?: string }>;
 }) {
   const session = await auth0.getSession();
   if (!session?.user) {
@@ -25,30 +27,7 @@ export default async function TransactionsPage({
 
   const params = await searchParams;
   const categoryId = params.categoryId;
-
-  type Transfer = {
-    id: string;
-    fromAccountId: string;
-    toAccountId?: string;
-    fromAccountName: string;
-    toAccountName: string;
-    amount: number;
-    type: string;
-    status: string;
-    label?: string;
-    description?: string;
-    createdAt: string;
-    updatedAt?: string;
-    createdBy?: string;
-    createdByName?: string;
-    externalTransactionId?: string;
-    tbTransferId?: string;
-    parentTransferId?: string;
-    linkRole?: string;
-    paymentIntegrationLink?: string;
-    metadata?: Record<string, unknown>;
-    paymentChannel?: Record<string, unknown>;
-  };
+  const transferId = params.transferId;
 
   let accountsData;
   let categoriesData: { 
@@ -63,6 +42,8 @@ export default async function TransactionsPage({
     b2cPaybillName?: string;
   }[] = [];
   let transfersData: Transfer[] = [];
+  let transfersNextCursor: string | null = null;
+  let openTransfer: Transfer | null = null;
 
   try {
     const { token } = await auth0.getAccessToken(accessTokenOptions);
@@ -114,122 +95,24 @@ export default async function TransactionsPage({
         .filter((c) => c.id);
     }
 
-    // Get the external account ID
-    const externalAccountIdForQuery = accountsData.status === "ok" ? accountsData.externalAccountId : undefined;
-
-    // Fetch transfers for selected category
+    // Fetch the first page of transfers for selected category; further pages load via /api/transfers
     const selectedCategoryId = categoryId || categoriesData[0]?.id;
     if (selectedCategoryId) {
-      const transfersQuery = `
-        SELECT *,
-          from_account_id.name AS from_account_name,
-          to_account_id.name AS to_account_name,
-          from_account_id.category_id.name AS from_category_name,
-          to_account_id.category_id.name AS to_category_name,
-          from_account_id.category_id.default_account_id AS from_category_default_account,
-          to_account_id.category_id.default_account_id AS to_category_default_account,
-          from_account_id AS from_account_ref,
-          to_account_id AS to_account_ref,
-          created_by.name AS created_by_name,
-          metadata,
-          payment_channel
-        FROM transfer
-        WHERE from_account_id.category_id = ${selectedCategoryId}
-           OR to_account_id.category_id = ${selectedCategoryId}
-        ORDER BY created_at DESC
-        LIMIT 100;
-      `;
-
-      const transfersResult = await executeSurrealQL({
-        token,
-        query: transfersQuery,
-        logName: "transactionsPage.POST /sql (list transfers)",
+      const transfersResult = await listTransfers({
+        accessToken: token,
+        filters: { categoryId: selectedCategoryId },
       });
 
-      if (transfersResult.success) {
-        const transfersRaw = getResultArray<Record<string, unknown>>(transfersResult.data[0]);
-        transfersData = transfersRaw
-          .map((t) => {
-            const fromAccountId = thingIdToString(t.from_account_ref);
-            const toAccountId = thingIdToString(t.to_account_ref);
-            const fromCategoryDefaultAccount = thingIdToString(t.from_category_default_account);
-            const toCategoryDefaultAccount = thingIdToString(t.to_category_default_account);
-            
-            // Get metadata for external account name
-            const metadata = t.metadata as Record<string, unknown> | undefined;
-            const externalAccountData = metadata?.external_account as Record<string, unknown> | undefined;
-            const externalAccountName = typeof externalAccountData?.name === "string" ? externalAccountData.name : null;
-            
-            // Check if account is external account
-            const isFromExternal = externalAccountIdForQuery && fromAccountId === externalAccountIdForQuery;
-            const isToExternal = externalAccountIdForQuery && toAccountId === externalAccountIdForQuery;
-            
-            // If account is the default account for its category, show category name
-            const isFromDefault = fromAccountId && fromCategoryDefaultAccount && fromAccountId === fromCategoryDefaultAccount;
-            const isToDefault = toAccountId && toCategoryDefaultAccount && toAccountId === toCategoryDefaultAccount;
-            
-            // Determine display name for "from" account
-            let fromDisplayName: string;
-            if (isFromExternal && externalAccountName) {
-              fromDisplayName = externalAccountName;
-            } else if (isFromDefault && typeof t.from_category_name === "string") {
-              fromDisplayName = t.from_category_name;
-            } else {
-              fromDisplayName = typeof t.from_account_name === "string" ? t.from_account_name : "(Unknown)";
-            }
-            
-            // Determine display name for "to" account
-            let toDisplayName: string;
-            if (isToExternal && externalAccountName) {
-              toDisplayName = externalAccountName;
-            } else if (isToDefault && typeof t.to_category_name === "string") {
-              toDisplayName = t.to_category_name;
-            } else {
-              toDisplayName = typeof t.to_account_name === "string" ? t.to_account_name : "(Unknown)";
-            }
-
-            // Parse payment_channel if present
-            const paymentChannelRaw = t.payment_channel as Record<string, unknown> | undefined;
-            
-            // Get to_account from payment_channel if available
-            const paymentChannelToAccount = paymentChannelRaw ? 
-              (paymentChannelRaw['to_account'] as string | undefined) : undefined;
-            
-            // Use payment channel to_account for display if available
-            const finalToDisplayName = paymentChannelToAccount || toDisplayName;
-
-            return {
-              id: thingIdToString(t.id) || "",
-              fromAccountId: fromAccountId || "",
-              toAccountId: toAccountId || undefined,
-              fromAccountName: fromDisplayName,
-              toAccountName: finalToDisplayName,
-              amount:
-                typeof t.amount === "number"
-                  ? t.amount
-                  : typeof t.amount === "string"
-                    ? parseFloat(t.amount)
-                    : 0,
-              type: typeof t.type === "string" ? t.type : "payment",
-              status: typeof t.status === "string" ? t.status : "draft",
-              label: typeof t.label === "string" ? t.label : undefined,
-              description: typeof t.description === "string" ? t.description : undefined,
-              createdAt: typeof t.created_at === "string" ? t.created_at : "",
-              updatedAt: typeof t.updated_at === "string" ? t.updated_at : undefined,
-              createdBy: thingIdToString(t.created_by) || undefined,
-              createdByName: typeof t.created_by_name === "string" ? t.created_by_name : undefined,
-              externalTransactionId: typeof t.external_transaction_id === "string" ? t.external_transaction_id : undefined,
-              tbTransferId: typeof t.tb_transfer_id === "string" ? t.tb_transfer_id : undefined,
-              parentTransferId: thingIdToString(t.parent_transfer_id) || undefined,
-              linkRole: typeof t.link_role === "string" ? t.link_role : undefined,
-              paymentIntegrationLink: thingIdToString(t.payment_integration_link) || undefined,
-              metadata: metadata,
-              paymentChannel: paymentChannelRaw,
-            };
-          })
-          .filter((t) => t.id);
+      if (transfersResult.status === "ok") {
+        transfersData = transfersResult.transfers;
+        transfersNextCursor = transfersResult.nextCursor;
       }
     }
+
+    if (transferId) {
+      const transferResult = await getTransfer({ accessToken: token, transferId });
+      if (transferResult.status === "ok") openTransfer = transferResult.transfer;
+    }
   } catch {
     accountsData = { status: "skipped" as const, reason: "token_or_fetch_failed" };
   }
@@ -239,10 +122,13 @@ export default async function TransactionsPage({
 
   return (
     <TransactionsClient
+      key={`${categoryId || "default"}:${transferId || ""}`}
       accounts={accounts}
       categories={categoriesData}
-      transfers={transfersData}
+      initialTransfers={transfersData}
+      initialNextCursor={transfersNextCursor}
       initialCategoryId={categoryId || null}
+      initialSelectedTransfer={openTransfer}
       externalAccountId={externalAccountId}
     />
   );
@@ -0,0 +1,213 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { AccountStatement } from "@/lib/accountStatementService";
+import { formatNumber, signClass } from "@/lib/accountUtils";
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" });
+}
+
+function formatAmount(value: number | null): string {
+  return value == null ? "" : formatNumber(value);
+}
+
+export default function AccountStatementClient({
+  accountId,
+  fromDay,
+  toDay,
+  statement,
+  loadError,
+}: {
+  accountId: string;
+  fromDay: string;
+  toDay: string;
+  statement: AccountStatement | null;
+  loadError: string | null;
+}) {
+  const router = useRouter();
+  const [from, setFrom] = useState(fromDay);
+  const [to, setTo] = useState(toDay);
+
+  const periodQuery = new URLSearchParams({ from: fromDay, to: toDay }).toString();
+  const downloadBase = `/api/accounts/${encodeURIComponent(accountId)}/statement?${periodQuery}`;
+
+  function applyPeriod() {
+    const params = new URLSearchParams();
+    if (from) params.set("from", from);
+    if (to) params.set("to", to);
+    router.push(`/dashboard/accounts/${encodeURIComponent(accountId)}?${params.toString()}`);
+  }
+
+  return (
+    <div className="dashboard-page">
+      <header className="dashboard-header">
+        <div>
+          <button
+            type="button"
+            onClick={() =>
+              router.push(
+                statement?.account.categoryId
+                  ? `/dashboard/transactions?categoryId=${statement.account.categoryId}`
+                  : "/dashboard/transactions",
+              )
+            }
+            style={{
+              background: "none",
+              border: "none",
+              color: "var(--text-secondary)",
+              cursor: "pointer",
+              fontSize: "14px",
+              marginBottom: "8px",
+              padding: 0,
+            }}
+          >
+            ← Back to Transactions
+          </button>
+          <h1 className="dashboard-title">{statement?.account.name || "Account statement"}</h1>
+          <p className="dashboard-subtitle">
+            {statement?.account.categoryName ? `${statement.account.categoryName} • ` : ""}
+            Statement {formatDate(`${fromDay}T00:00:00Z`)} – {formatDate(`${toDay}T00:00:00Z`)}
+          </p>
+        </div>
+        <div className="dashboard-header-actions">
+          <a className="button button-ghost" href={`${downloadBase}&format=csv`} download>
+            Download CSV
+          </a>
+          <a className="button button-ghost" href={`${downloadBase}&format=pdf`} download>
+            Download PDF
+          </a>
+        </div>
+      </header>
+
+      <div style={{ display: "flex", gap: "12px", flexWrap: "wrap", alignItems: "flex-end", marginBottom: "24px" }}>
+        <div style={{ minWidth: "150px" }}>
+          <label style={{ display: "block", marginBottom: "6px", fontSize: "12px", fontWeight: 500 }}>From</label>
+          <input type="date" className="setup-input" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div style={{ minWidth: "150px" }}>
+          <label style={{ display: "block", marginBottom: "6px", fontSize: "12px", fontWeight: 500 }}>To</label>
+          <input type="date" className="setup-input" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+        </div>
+        <button
+          type="button"
+          className="button"
+          onClick={applyPeriod}
+          disabled={!from || !to || from > to || (from === fromDay && to === toDay)}
+        >
+          Show statement
+        </button>
+      </div>
+
+      {loadError && (
+        <div className="panel error-state">
+          <div className="panel-title">Could not load the statement</div>
+          <div className="panel-subtitle">
+            {loadError === "too_many_transfers" ? "Too many transfers in this period; choose a shorter one." : loadError}
+          </div>
+        </div>
+      )}
+
+      {statement && (
+        <>
+          <section className="stats-grid">
+            <div className="panel stat-card">
+              <div className="stat-label">Opening balance</div>
+              <div className={`stat-value ${signClass(statement.openingBalance) || ""}`}>
+                {formatNumber(statement.openingBalance)}
+              </div>
+              <div className="stat-meta">{formatDate(statement.from)}</div>
+            </div>
+            <div className="panel stat-card">
+              <div className="stat-label">Closing balance</div>
+              <div className={`stat-value ${signClass(statement.closingBalance) || ""}`}>
+                {formatNumber(statement.closingBalance)}
+              </div>
+              <div className="stat-meta">
+                Debits {formatNumber(statement.totalDebits)} · Credits {formatNumber(statement.totalCredits)}
+              </div>
+            </div>
+            <div className="panel stat-card">
+              <div className="stat-label">Ledger balance</div>
+              <div className="stat-value">
+                {statement.ledgerBalance != null ? formatNumber(statement.ledgerBalance) : "-"}
+              </div>
+              <div className={`stat-meta ${statement.reconciled === false ? "negative" : ""}`}>
+                {statement.reconciled == null
+                  ? "Ledger balance unavailable"
+                  : statement.reconciled
+                    ? statement.laterTransfers > 0
+                      ? `Reconciles · ${statement.laterTransfers} transfer${statement.laterTransfers === 1 ? "" : "s"} after this period`
+                      : "Reconciles with closing balance"
+                    : "Does not reconcile with posted transfers"}
+              </div>
+            </div>
+          </section>
+
+          <div className="panel" style={{ marginTop: "1rem" }}>
+            <div className="panel-header">
+              <div>
+                <div className="panel-title">Posted transfers</div>
+                <div className="panel-subtitle">
+                  {statement.lines.length} transfer{statement.lines.length === 1 ? "" : "s"}
+                </div>
+              </div>
+            </div>
+            <div className="table">
+              <div className="table-head">
+                <div>Date</div>
+                <div>Details</div>
+                <div>Reference</div>
+                <div className="table-amount">Debit</div>
+                <div className="table-amount">Credit</div>
+                <div className="table-amount">Balance</div>
+              </div>
+              <div className="table-row">
+                <div className="table-muted" data-label="Date">{formatDate(statement.from)}</div>
+                <div data-label="Details" style={{ fontWeight: 700 }}>Opening balance</div>
+                <div data-label="Reference" />
+                <div className="table-amount" data-label="Debit" />
+                <div className="table-amount" data-label="Credit" />
+                <div className="table-amount" data-label="Balance">{formatNumber(statement.openingBalance)}</div>
+              </div>
+              {statement.lines.map((line) => (
+                <div key={line.transferId} className="table-row">
+                  <div className="table-muted" data-label="Date">{formatDate(line.date)}</div>
+                  <div data-label="Details" title={line.description || undefined}>
+                    {line.counterparty}
+                    {line.description ? ` · ${line.description}` : ""}
+                  </div>
+                  <div className="table-muted table-ref" data-label="Reference" style={{ fontFamily: "monospace", fontSize: "11px" }}>
+                    {line.reference || "-"}
+                  </div>
+                  <div className="table-amount negative" data-label="Debit">{formatAmount(line.debit)}</div>
+                  <div className="table-amount positive" data-label="Credit">{formatAmount(line.credit)}</div>
+                  <div
+                    className="table-amount"
+                    data-label="Balance"
+                    title={line.gap ? "The balance changed by more than this transfer since the previous line" : undefined}
+                    style={{ fontFamily: "monospace", fontSize: "13px", color: line.gap ? "#b45309" : undefined }}
+                  >
+                    {line.balance != null ? formatNumber(line.balance) : "-"}
+                    {line.gap ? " *" : ""}
+                  </div>
+                </div>
+              ))}
+              <div className="table-row">
+                <div className="table-muted" data-label="Date">{formatDate(statement.to)}</div>
+                <div data-label="Details" style={{ fontWeight: 700 }}>Closing balance</div>
+                <div data-label="Reference" />
+                <div className="table-amount" data-label="Debit">{formatNumber(statement.totalDebits)}</div>
+                <div className="table-amount" data-label="Credit">{formatNumber(statement.totalCredits)}</div>
+                <div className="table-amount" data-label="Balance" style={{ fontWeight: 700 }}>
+                  {formatNumber(statement.closingBalance)}
+                </div>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
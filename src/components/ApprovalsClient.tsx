@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import type { Transfer } from "@/lib/transferService";
+import { formatNumber } from "@/lib/accountUtils";
+
+function payoutDestination(transfer: Transfer): string {
+  const toAccount = transfer.paymentChannel?.to_account;
+  return toAccount != null ? String(toAccount) : transfer.toAccountName;
+}
+
+export default function ApprovalsClient({
+  initialTransfers,
+  loadError,
+}: {
+  initialTransfers: Transfer[];
+  loadError: string | null;
+}) {
+  const [transfers, setTransfers] = useState<Transfer[]>(initialTransfers);
+  const [busyTransferId, setBusyTransferId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(loadError ? "Failed to load approvals" : null);
+
+  async function reloadTransfers() {
+    try {
+      const res = await fetch("/api/transfers/approvals");
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError((data && (data.reason || data.error)) || "Failed to load approvals");
+        return;
+      }
+      setTransfers(data.transfers || []);
+    } catch {
+      setError("Failed to load approvals");
+    }
+  }
+
+  async function handleReview(transfer: Transfer, action: "approve" | "reject") {
+    let reason: string | undefined;
+    if (action === "reject") {
+      const input = prompt("Reason for rejecting this transfer (optional):");
+      if (input === null) return;
+      reason = input;
+    }
+
+    setError(null);
+    setBusyTransferId(transfer.id);
+
+    try {
+      const res = await fetch(`/api/transfers/${encodeURIComponent(transfer.id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, reason }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError((data && (data.reason || data.error)) || `Failed to ${action} transfer`);
+        // Someone else may have already moved it on; refresh the inbox
+        await reloadTransfers();
+        return;
+      }
+
+      // Once reviewed, the transfer no longer waits on this user
+      setTransfers((prev) => prev.filter((t) => t.id !== transfer.id));
+    } catch {
+      setError(`Failed to ${action} transfer`);
+    } finally {
+      setBusyTransferId(null);
+    }
+  }
+
+  return (
+    <div className="dashboard-page">
+      <header className="dashboard-header">
+        <div>
+          <h1 className="dashboard-title">Approvals</h1>
+          <p className="dashboard-subtitle">Payouts above your categories&apos; approval thresholds waiting on you.</p>
+        </div>
+      </header>
+
+      {error && (
+        <div className="panel error-state">
+          <div className="panel-title">Something went wrong</div>
+          <div className="panel-subtitle">{error}</div>
+        </div>
+      )}
+
+      <div className="panel">
+        <div className="panel-header">
+          <div>
+            <div className="panel-title">Awaiting your approval</div>
+            <div className="panel-subtitle">
+              {transfers.length} transfer{transfers.length !== 1 ? "s" : ""}
+            </div>
+          </div>
+        </div>
+        <div className="txn-list">
+          {transfers.length === 0 ? (
+            <div className="txn-row">
+              <div className="txn-left">
+                <div className="txn-name">Nothing to approve</div>
+                <div className="txn-meta">Transfers that need your approval will appear here</div>
+              </div>
+            </div>
+          ) : (
+            transfers.map((transfer) => (
+              <div key={transfer.id} className="txn-row">
+                <div className="txn-left">
+                  <div className="txn-name">
+                    {transfer.fromAccountName} → {payoutDestination(transfer)}
+                  </div>
+                  <div className="txn-meta">
+                    {transfer.createdByName ? `${transfer.createdByName} · ` : ""}
+                    {transfer.createdAt ? new Date(transfer.createdAt).toLocaleString() : ""}
+                    {transfer.description ? ` · ${transfer.description}` : ""}
+                  </div>
+                  <div className="txn-meta">
+                    {transfer.approvalCount ?? 0} of {transfer.requiredApprovals ?? 1} approvals
+                  </div>
+                </div>
+                <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+                  <div className="txn-amount">{formatNumber(transfer.amount)}</div>
+                  <button
+                    type="button"
+                    className="button button-ghost"
+                    onClick={() => void handleReview(transfer, "reject")}
+                    disabled={busyTransferId !== null}
+                    style={{ padding: "6px 12px", color: "#ef4444" }}
+                  >
+                    Reject
+                  </button>
+                  <button
+                    type="button"
+                    className="button"
+                    onClick={() => void handleReview(transfer, "approve")}
+                    disabled={busyTransferId !== null}
+                    style={{ padding: "6px 12px" }}
+                  >
+                    {busyTransferId === transfer.id ? "Working…" : "Approve"}
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
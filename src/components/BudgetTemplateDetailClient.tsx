@@ -3,6 +3,12 @@
 import { useState } from "react";
 import { useRouter } from "next/navigation";
 import type { BudgetTemplateWithAllocations } from "@/lib/budgetService";
+import {
+  BUDGET_RECURRENCE_LABELS,
+  BUDGET_RECURRENCES,
+  budgetProgress,
+  type BudgetProgress,
+} from "@/lib/budgets";
 
 function formatNumber(value: number): string {
   return new Intl.NumberFormat(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value);
@@ -18,6 +24,30 @@ function formatDate(dateString: string): string {
   }
 }
 
+function ProgressBar({ progress }: { progress: BudgetProgress }) {
+  const over = progress.actual > progress.planned;
+  return (
+    <div
+      className="budget-progress"
+      role="progressbar"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(Math.min(progress.percentUsed, 100))}
+    >
+      <div
+        className={`budget-progress-fill${over ? " over" : ""}`}
+        style={{ width: `${Math.min(progress.percentUsed, 100)}%` }}
+      />
+    </div>
+  );
+}
+
+function progressSummary(progress: BudgetProgress): string {
+  const left =
+    progress.remaining < 0 ? `${formatNumber(-progress.remaining)} over` : `${formatNumber(progress.remaining)} left`;
+  return `Spent ${formatNumber(progress.actual)} of ${formatNumber(progress.planned)} • ${progress.percentUsed.toFixed(0)}% used • ${left}`;
+}
+
 type ModalType = "allocation" | "account" | null;
 
 const ACCOUNT_TYPES = ["asset", "expense", "liability", "revenue", "equity"] as const;
@@ -36,6 +66,41 @@ export default function BudgetTemplateDetailClient({ template }: { template: Bud
   const allocatedTotal = template.allocations.reduce((sum, alloc) => sum + alloc.amount, 0);
   const remaining = template.totalAmount - allocatedTotal;
 
+  const period = template.period;
+  const actualTotal = period
+    ? period.allocations.reduce((sum, alloc) => sum + (period.actuals[alloc.accountId] || 0), 0)
+    : 0;
+  const totalProgress = period ? budgetProgress(period.budget.totalAmount || template.totalAmount, actualTotal) : null;
+
+  async function handleRecurrenceChange(value: string) {
+    setError(null);
+    setIsBusy(true);
+
+    try {
+      const res = await fetch(`/api/budgets/${encodeURIComponent(template.id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ recurrence: value || null }),
+      });
+
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError((data && (data.reason || data.error)) || "Failed to update recurrence");
+        return;
+      }
+
+      router.refresh();
+    } catch {
+      setError("Failed to update recurrence");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  function selectPeriod(budgetId: string) {
+    router.push(`/dashboard/budgets/${encodeURIComponent(template.id)}?${new URLSearchParams({ budgetId }).toString()}`);
+  }
+
   function openAllocationModal(accountId: string, currentAmount: number) {
     setModalType("allocation");
     setSelectedAccount(accountId);
@@ -135,10 +200,34 @@ export default function BudgetTemplateDetailClient({ template }: { template: Bud
           <h1 className="dashboard-title">{template.name}</h1>
           <p className="dashboard-subtitle">
             {template.categoryName} • Total: {formatNumber(template.totalAmount)} • Started: {formatDate(template.startAt)}
+            {template.recurrence && template.nextPeriodAt && ` • Next period: ${formatDate(template.nextPeriodAt)}`}
           </p>
         </div>
+        <div className="dashboard-header-actions">
+          <select
+            className="setup-input"
+            value={template.recurrence || ""}
+            onChange={(e) => void handleRecurrenceChange(e.target.value)}
+            disabled={isBusy}
+            aria-label="Recurrence"
+          >
+            <option value="">No recurrence</option>
+            {BUDGET_RECURRENCES.map((r) => (
+              <option key={r} value={r}>
+                {BUDGET_RECURRENCE_LABELS[r]}
+              </option>
+            ))}
+          </select>
+        </div>
       </header>
 
+      {error && !modalType && (
+        <div className="panel error-state">
+          <div className="panel-title">Something went wrong</div>
+          <div className="panel-subtitle">{error}</div>
+        </div>
+      )}
+
       <div className="dashboard-grid">
         {/* Budget Summary */}
         <div className="panel">
@@ -174,6 +263,51 @@ export default function BudgetTemplateDetailClient({ template }: { template: Bud
                 {formatNumber(remaining)}
               </div>
             </div>
+
+            <div style={{ marginTop: "24px", paddingTop: "16px", borderTop: "1px solid var(--border)" }}>
+              <div style={{ fontSize: "14px", color: "var(--text-secondary)", marginBottom: "8px" }}>
+                Budget vs Actual
+              </div>
+              {template.budgets.length === 0 || !period || !totalProgress ? (
+                <div style={{ fontSize: "14px", color: "var(--text-secondary)" }}>
+                  Create a budget from this template to track actual spend.
+                </div>
+              ) : (
+                <>
+                  <select
+                    className="setup-input"
+                    value={period.budget.id}
+                    onChange={(e) => selectPeriod(e.target.value)}
+                    aria-label="Budget period"
+                    style={{ width: "100%", marginBottom: "12px" }}
+                  >
+                    {template.budgets.map((b) => (
+                      <option key={b.id} value={b.id}>
+                        {formatDate(b.startAt)} - {formatDate(b.endAt)} • {b.status}
+                      </option>
+                    ))}
+                  </select>
+                  <div style={{ display: "flex", justifyContent: "space-between", marginBottom: "6px" }}>
+                    <span style={{ fontSize: "24px", fontWeight: 600 }}>{formatNumber(totalProgress.actual)}</span>
+                    <span
+                      style={{
+                        fontSize: "14px",
+                        fontWeight: 600,
+                        alignSelf: "flex-end",
+                        color: totalProgress.remaining < 0 ? "#ef4444" : undefined,
+                      }}
+                    >
+                      {totalProgress.percentUsed.toFixed(0)}% used
+                    </span>
+                  </div>
+                  <ProgressBar progress={totalProgress} />
+                  <div style={{ fontSize: "14px", color: "var(--text-secondary)", marginTop: "6px" }}>
+                    {progressSummary(totalProgress)}
+                    {period.budget.closedAt && ` • Closed ${formatDate(period.budget.closedAt)}`}
+                  </div>
+                </>
+              )}
+            </div>
           </div>
         </div>
 
@@ -222,6 +356,9 @@ export default function BudgetTemplateDetailClient({ template }: { template: Bud
                 const allocation = template.allocations.find((a) => a.accountId === account.id);
                 const amount = allocation ? allocation.amount : 0;
                 const isAllocated = amount > 0;
+                const planned = period?.allocations.find((a) => a.accountId === account.id)?.amount || 0;
+                const progress =
+                  period && planned > 0 ? budgetProgress(planned, period.actuals[account.id] || 0) : null;
 
                 return (
                   <div 
@@ -233,8 +370,13 @@ export default function BudgetTemplateDetailClient({ template }: { template: Bud
                     <div className="txn-left">
                       <div className="txn-name">{account.name}</div>
                       <div className="txn-meta" style={{ color: isAllocated ? undefined : "var(--text-secondary)" }}>
-                        {isAllocated ? `Allocated: ${formatNumber(amount)}` : "Click to allocate"}
+                        {progress
+                          ? progressSummary(progress)
+                          : isAllocated
+                            ? `Allocated: ${formatNumber(amount)}`
+                            : "Click to allocate"}
                       </div>
+                      {progress && <ProgressBar progress={progress} />}
                     </div>
                     <div className="txn-amount" style={{ color: isAllocated ? undefined : "var(--text-secondary)" }}>
                       {formatNumber(amount)}
@@ -3,6 +3,7 @@
 import { useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import type { BudgetTemplate, Budget } from "@/lib/budgetService";
+import { BUDGET_RECURRENCE_LABELS, BUDGET_RECURRENCES, isBudgetRecurrence, type BudgetRecurrence } from "@/lib/budgets";
 
 type CategoryWithBudgets = {
   id: string;
@@ -43,6 +44,7 @@ export default function BudgetsClient({ categories }: { categories: CategoryWith
   const [templateName, setTemplateName] = useState("");
   const [totalAmount, setTotalAmount] = useState("");
   const [startAt, setStartAt] = useState("");
+  const [recurrence, setRecurrence] = useState<BudgetRecurrence | "">("");
   
   // Form states for budget
   const [budgetAmount, setBudgetAmount] = useState("");
@@ -57,6 +59,7 @@ export default function BudgetsClient({ categories }: { categories: CategoryWith
   const [subcategoryName, setSubcategoryName] = useState("");
   
   const [isBusy, setIsBusy] = useState(false);
+  const [runMessage, setRunMessage] = useState<string | null>(null);
 
   const hasAny = useMemo(() => categories.length > 0, [categories.length]);
 
@@ -67,6 +70,7 @@ export default function BudgetsClient({ categories }: { categories: CategoryWith
     setTemplateName("");
     setTotalAmount("");
     setStartAt("");
+    setRecurrence("");
     setError(null);
     setShowDropdown(null);
   }
@@ -100,6 +104,7 @@ export default function BudgetsClient({ categories }: { categories: CategoryWith
     setTemplateName("");
     setTotalAmount("");
     setStartAt("");
+    setRecurrence("");
     setBudgetAmount("");
     setBudgetStartAt("");
     setBudgetEndAt("");
@@ -107,6 +112,38 @@ export default function BudgetsClient({ categories }: { categories: CategoryWith
     setSubcategoryName("");
   }
 
+  async function handleRunDue() {
+    setIsBusy(true);
+    setRunMessage(null);
+    try {
+      const res = await fetch("/api/budgets/run-due", { method: "POST" });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setRunMessage((data && (data.reason || data.error)) || "Failed to generate budget periods");
+        return;
+      }
+      const created = typeof data?.created === "number" ? data.created : 0;
+      const failed = typeof data?.failed === "number" ? data.failed : 0;
+      const closed = typeof data?.closed === "number" ? data.closed : 0;
+      setRunMessage(
+        created === 0 && failed === 0 && closed === 0
+          ? "Nothing was due"
+          : [
+              `Created ${created} period${created === 1 ? "" : "s"}`,
+              failed > 0 ? `${failed} failed` : null,
+              closed > 0 ? `closed ${closed}` : null,
+            ]
+              .filter(Boolean)
+              .join(", "),
+      );
+      if (created > 0 || closed > 0) router.refresh();
+    } catch {
+      setRunMessage("Failed to generate budget periods");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
   async function handleAddTemplate() {
     if (!selectedCategory || !templateName.trim() || !totalAmount || !startAt) return;
 
@@ -123,6 +160,7 @@ export default function BudgetsClient({ categories }: { categories: CategoryWith
           totalAmount: parseFloat(totalAmount),
           startAt: new Date(startAt).toISOString(),
           status: "active",
+          recurrence: recurrence || null,
         }),
       });
 
@@ -249,6 +287,7 @@ export default function BudgetsClient({ categories }: { categories: CategoryWith
           <div className="txn-name">{t.name}</div>
           <div className="txn-meta">
             Amount: {formatNumber(t.totalAmount)} • Started: {formatDate(t.startAt)} • Status: {t.status}
+            {t.recurrence && ` • ${BUDGET_RECURRENCE_LABELS[t.recurrence]}, next period ${formatDate(t.nextPeriodAt || "")}`}
           </div>
         </div>
         <div style={{ display: "flex", gap: "8px" }}>
@@ -311,13 +350,14 @@ export default function BudgetsClient({ categories }: { categories: CategoryWith
 
     return (
       <div style={{ marginTop: 12 }}>
-        <div className="txn-meta" style={{ marginBottom: 8 }}>Active Budgets</div>
+        <div className="txn-meta" style={{ marginBottom: 8 }}>Budget Periods</div>
         {budgets.map((b) => (
           <div key={b.id} className="txn-row">
             <div className="txn-left">
               <div className="txn-name">{formatNumber(b.totalAmount)}</div>
               <div className="txn-meta">
                 {formatDate(b.startAt)} - {formatDate(b.endAt)} • {b.status}
+                {b.actualTotal !== undefined && ` • Spent ${formatNumber(b.actualTotal)}`}
               </div>
             </div>
           </div>
@@ -477,6 +517,12 @@ export default function BudgetsClient({ categories }: { categories: CategoryWith
           <h1 className="dashboard-title">Budgets</h1>
           <p className="dashboard-subtitle">Manage budget templates and budgets for your categories.</p>
         </div>
+        <div className="dashboard-header-actions">
+          {runMessage && <span className="panel-subtitle">{runMessage}</span>}
+          <button type="button" className="button button-ghost" onClick={() => void handleRunDue()} disabled={isBusy}>
+            Generate due periods
+          </button>
+        </div>
       </header>
 
       {error && (
@@ -567,6 +613,23 @@ export default function BudgetsClient({ categories }: { categories: CategoryWith
                   style={{ width: "100%" }}
                 />
               </div>
+              <div style={{ marginBottom: "16px" }}>
+                <label style={{ display: "block", marginBottom: "8px", fontSize: "14px" }}>Recurrence</label>
+                <select
+                  className="setup-input"
+                  value={recurrence}
+                  onChange={(e) => setRecurrence(isBudgetRecurrence(e.target.value) ? e.target.value : "")}
+                  disabled={isBusy}
+                  style={{ width: "100%" }}
+                >
+                  <option value="">None (create budgets by hand)</option>
+                  {BUDGET_RECURRENCES.map((r) => (
+                    <option key={r} value={r}>
+                      {BUDGET_RECURRENCE_LABELS[r]}
+                    </option>
+                  ))}
+                </select>
+              </div>
               <div style={{ display: "flex", gap: "12px", justifyContent: "flex-end" }}>
                 <button type="button" className="button button-ghost" onClick={closeModal} disabled={isBusy}>
                   Cancel
@@ -3,7 +3,9 @@
 import { useState, useEffect, useMemo, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import type { TbAccount, AccountBalancesMap } from "@/lib/settingsService";
-import { rowsFromTbAccount } from "@/lib/accountUtils";
+import { formatNumber, rowsFromTbAccount } from "@/lib/accountUtils";
+import MpesaFeeTariffPanel from "@/components/MpesaFeeTariffPanel";
+import PayeesPanel from "@/components/PayeesPanel";
 
 const ACCOUNT_TYPES = ["asset", "expense", "liability", "revenue", "equity"] as const;
 type AccountType = (typeof ACCOUNT_TYPES)[number];
@@ -16,7 +18,7 @@ type Category = {
   subcategories: Category[];
 };
 
-type ModalType = "account" | "subcategory" | "mpesa" | "link-mpesa" | "add-user" | null;
+type ModalType = "account" | "subcategory" | "mpesa" | "link-mpesa" | "add-user" | "add-approval-rule" | null;
 
 type CategoryUser = {
   id: string;
@@ -27,6 +29,13 @@ type CategoryUser = {
   role: string;
 };
 
+type ApprovalRule = {
+  id: string;
+  categoryId: string;
+  minAmount: number;
+  requiredApprovals: number;
+};
+
 type MpesaIntegration = {
   id: string;
   businessShortCode: string;
@@ -88,6 +97,21 @@ export default function CategoryDetailClient({ category: initialCategory }: { ca
     return enrichCategory(initialCategory);
   }, [initialCategory, balances]);
 
+  // Expense accounts anywhere in the category tree, offered as payee defaults
+  const expenseAccounts = useMemo(() => {
+    const accounts: Array<{ id: string; name: string }> = [];
+    function traverse(c: Category) {
+      for (const account of c.accounts) {
+        if (account.type === "expense") accounts.push({ id: account.id, name: account.name });
+      }
+      for (const sub of c.subcategories) {
+        traverse(sub);
+      }
+    }
+    traverse(initialCategory);
+    return accounts;
+  }, [initialCategory]);
+
   // Fetch balances asynchronously on mount
   useEffect(() => {
     const accountIds = collectAccountIds(initialCategory);
@@ -160,6 +184,12 @@ export default function CategoryDetailClient({ category: initialCategory }: { ca
   const [newUserEmail, setNewUserEmail] = useState("");
   const [newUserRole, setNewUserRole] = useState<"viewer" | "editor" | "admin">("viewer");
 
+  // Approval rule states
+  const [approvalRules, setApprovalRules] = useState<ApprovalRule[]>([]);
+  const [loadingApprovalRules, setLoadingApprovalRules] = useState(false);
+  const [newRuleMinAmount, setNewRuleMinAmount] = useState("");
+  const [newRuleRequiredApprovals, setNewRuleRequiredApprovals] = useState("1");
+
   // Function to load M-Pesa integration
   const loadMpesaIntegration = async () => {
     setLoadingMpesa(true);
@@ -305,11 +335,89 @@ export default function CategoryDetailClient({ category: initialCategory }: { ca
     }
   };
 
+  // Load approval rules
+  const loadApprovalRules = async () => {
+    setLoadingApprovalRules(true);
+    try {
+      const res = await fetch(`/api/settings/approval-rules?categoryId=${encodeURIComponent(category.id)}`);
+      if (res.ok) {
+        const data = await res.json();
+        setApprovalRules(data.approvalRules || []);
+      }
+    } catch (err) {
+      console.error("Failed to load approval rules:", err);
+    } finally {
+      setLoadingApprovalRules(false);
+    }
+  };
+
+  // Add approval rule to category
+  const handleAddApprovalRule = async () => {
+    const minAmount = parseFloat(newRuleMinAmount.replace(/,/g, ""));
+    const requiredApprovals = parseInt(newRuleRequiredApprovals, 10);
+    if (!Number.isFinite(minAmount) || minAmount < 0) {
+      setError("Please enter a valid amount");
+      return;
+    }
+    if (!Number.isInteger(requiredApprovals) || requiredApprovals < 1) {
+      setError("At least one approval is required");
+      return;
+    }
+
+    setError(null);
+    setIsBusy(true);
+
+    try {
+      const res = await fetch("/api/settings/approval-rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ categoryId: category.id, minAmount, requiredApprovals }),
+      });
+
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError((data && data.error) || "Failed to add approval rule");
+        return;
+      }
+
+      closeModal();
+      await loadApprovalRules();
+    } catch {
+      setError("Failed to add approval rule");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // Remove approval rule
+  const handleRemoveApprovalRule = async (ruleId: string) => {
+    if (!confirm("Are you sure you want to remove this approval rule?")) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/settings/approval-rules?ruleId=${encodeURIComponent(ruleId)}`, {
+        method: "DELETE",
+      });
+
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError((data && data.error) || "Failed to remove approval rule");
+        return;
+      }
+
+      await loadApprovalRules();
+    } catch (err) {
+      console.error("Failed to remove approval rule:", err);
+    }
+  };
+
   // Load M-Pesa integration and link on mount
   useEffect(() => {
     void loadMpesaIntegration();
     void loadMpesaLink();
     void loadCategoryUsers();
+    void loadApprovalRules();
   }, [category.id]);
 
   async function openModal(type: ModalType, categoryId: string) {
@@ -773,6 +881,10 @@ export default function CategoryDetailClient({ category: initialCategory }: { ca
         </div>
       )}
 
+      {mpesaIntegration && !loadingMpesa && mpesaIntegration.id && (
+        <MpesaFeeTariffPanel integrationId={mpesaIntegration.id} expenseAccounts={expenseAccounts} />
+      )}
+
       {/* M-Pesa Link Section - Show if link exists */}
       {mpesaLink && (
         <div className="panel">
@@ -916,6 +1028,89 @@ export default function CategoryDetailClient({ category: initialCategory }: { ca
         </div>
       </div>
 
+      {/* Approval Rules Section */}
+      <div className="panel">
+        <div className="panel-header">
+          <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", width: "100%" }}>
+            <div>
+              <div className="panel-title">Approval Rules</div>
+              <div className="panel-subtitle">
+                {loadingApprovalRules ? "Loading..." : "M-Pesa payouts above a threshold need admin approval"}
+              </div>
+            </div>
+            <button
+              type="button"
+              className="button button-ghost"
+              onClick={() => {
+                setNewRuleMinAmount("");
+                setNewRuleRequiredApprovals("1");
+                openModal("add-approval-rule", category.id);
+              }}
+              aria-label="Add approval rule"
+              style={{ padding: "8px 12px" }}
+            >
+              <svg
+                width="20"
+                height="20"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <line x1="12" y1="5" x2="12" y2="19"></line>
+                <line x1="5" y1="12" x2="19" y2="12"></line>
+              </svg>
+            </button>
+          </div>
+        </div>
+        <div className="txn-list">
+          {approvalRules.length === 0 ? (
+            <div className="txn-row">
+              <div className="txn-left">
+                <div className="txn-name">No approval rules</div>
+                <div className="txn-meta">Editors can submit payouts of any size</div>
+              </div>
+            </div>
+          ) : (
+            approvalRules.map((rule) => (
+              <div key={rule.id} className="txn-row">
+                <div className="txn-left">
+                  <div className="txn-name">Above {formatNumber(rule.minAmount)}</div>
+                  <div className="txn-meta">
+                    {rule.requiredApprovals} admin approval{rule.requiredApprovals !== 1 ? "s" : ""} required
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  className="button button-ghost"
+                  onClick={() => handleRemoveApprovalRule(rule.id)}
+                  style={{ padding: "4px 8px", color: "var(--text-error, #c62828)" }}
+                  title="Remove rule"
+                >
+                  <svg
+                    width="16"
+                    height="16"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  >
+                    <polyline points="3 6 5 6 21 6"></polyline>
+                    <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path>
+                  </svg>
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      <PayeesPanel categoryId={category.id} expenseAccounts={expenseAccounts} />
+
       <div className="panel">
         <div className="panel-header">
           <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", width: "100%" }}>
@@ -1784,6 +1979,98 @@ export default function CategoryDetailClient({ category: initialCategory }: { ca
           </div>
         </div>
       )}
+
+      {/* Add Approval Rule Modal */}
+      {modalType === "add-approval-rule" && (
+        <div
+          style={{
+            position: "fixed",
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            backgroundColor: "rgba(0, 0, 0, 0.5)",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            zIndex: 1000,
+          }}
+          onClick={closeModal}
+        >
+          <div
+            className="panel"
+            style={{ width: "90%", maxWidth: "500px", margin: "20px", backgroundColor: "var(--bg-primary, #ffffff)" }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="panel-header">
+              <div className="panel-title">Add Approval Rule</div>
+            </div>
+            <div style={{ padding: "20px", backgroundColor: "var(--bg-primary, #ffffff)" }}>
+              <div style={{ marginBottom: "16px" }}>
+                <label style={{ display: "block", marginBottom: "8px", fontSize: "14px", fontWeight: 500 }}>
+                  Payouts above *
+                </label>
+                <input
+                  className="setup-input"
+                  type="text"
+                  inputMode="decimal"
+                  value={newRuleMinAmount}
+                  onChange={(e) => setNewRuleMinAmount(e.target.value)}
+                  placeholder="e.g. 50,000"
+                  disabled={isBusy}
+                  style={{ width: "100%" }}
+                  autoFocus
+                />
+              </div>
+
+              <div style={{ marginBottom: "16px" }}>
+                <label style={{ display: "block", marginBottom: "8px", fontSize: "14px", fontWeight: 500 }}>
+                  Admin approvals required *
+                </label>
+                <input
+                  className="setup-input"
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={newRuleRequiredApprovals}
+                  onChange={(e) => setNewRuleRequiredApprovals(e.target.value)}
+                  disabled={isBusy}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      void handleAddApprovalRule();
+                    }
+                  }}
+                  style={{ width: "100%" }}
+                />
+                <div style={{ marginTop: "4px", fontSize: "12px", color: "var(--text-secondary, #666)" }}>
+                  When several rules match a payout, the one requiring the most approvals applies
+                </div>
+              </div>
+
+              {error && (
+                <div style={{ marginBottom: "16px", padding: "12px", backgroundColor: "var(--bg-error, #ffebee)", borderRadius: "8px", fontSize: "14px", color: "var(--text-error, #c62828)" }}>
+                  {error}
+                </div>
+              )}
+
+              <div style={{ display: "flex", gap: "12px", justifyContent: "flex-end" }}>
+                <button type="button" className="button button-ghost" onClick={closeModal} disabled={isBusy}>
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  className="button"
+                  onClick={handleAddApprovalRule}
+                  disabled={isBusy || !newRuleMinAmount.trim()}
+                >
+                  {isBusy ? "Adding…" : "Add Rule"}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -3,13 +3,16 @@
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useUser } from "@auth0/nextjs-auth0/client";
+import GlobalSearch from "@/components/GlobalSearch";
 import ThemeToggle from "@/components/ThemeToggle";
 import { useEffect, useMemo, useRef, useState } from "react";
 
 const fullNavItems = [
   { href: "/dashboard", label: "Overview" },
   { href: "/dashboard/transactions", label: "Transactions" },
+  { href: "/dashboard/approvals", label: "Approvals" },
   { href: "/dashboard/budgets", label: "Budgets" },
+  { href: "/dashboard/reconciliation", label: "Reconciliation" },
   { href: "/dashboard/settings", label: "Settings" },
 ];
 
@@ -33,6 +36,7 @@ export default function FloatingNav() {
 
   const [width, setWidth] = useState(DEFAULT_WIDTH);
   const [collapsed, setCollapsed] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
   const dragStartXRef = useRef<number | null>(null);
   const dragStartWidthRef = useRef<number>(DEFAULT_WIDTH);
 
@@ -74,6 +78,18 @@ export default function FloatingNav() {
     }
   }, [effectiveWidth, collapsed, width]);
 
+  // Ctrl+K / Cmd+K opens the search palette from anywhere in the dashboard
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setSearchOpen(true);
+      }
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
   function beginResize(startClientX: number) {
     dragStartXRef.current = startClientX;
     dragStartWidthRef.current = width;
@@ -131,6 +147,22 @@ export default function FloatingNav() {
           </div>
 
           <nav className="sidebar-links" aria-label="Dashboard navigation">
+            <button
+              type="button"
+              className="sidebar-link sidebar-search"
+              onClick={() => setSearchOpen(true)}
+              title={collapsed ? "Search (Ctrl+K)" : undefined}
+              aria-label="Search"
+            >
+              {collapsed ? (
+                "⌕"
+              ) : (
+                <>
+                  <span>Search</span>
+                  <span className="sidebar-search-hint">Ctrl K</span>
+                </>
+              )}
+            </button>
             {navItems.map((item) => {
               const isActive = pathname === item.href;
               const label = collapsed ? item.label.slice(0, 1) : item.label;
@@ -219,6 +251,8 @@ export default function FloatingNav() {
           />
         )}
       </aside>
+
+      {searchOpen && <GlobalSearch onClose={() => setSearchOpen(false)} />}
     </>
   );
 }
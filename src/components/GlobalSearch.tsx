@@ -0,0 +1,181 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  MIN_SEARCH_QUERY_LENGTH,
+  normalizeSearchQuery,
+  SEARCH_RESULT_TYPE_LABELS,
+  SEARCH_RESULT_TYPES,
+  type SearchResult,
+  type SearchResults,
+} from "@/lib/search";
+
+// Typing pauses this long before a search request is sent
+const SEARCH_DEBOUNCE_MS = 250;
+
+// Command palette over transfers, accounts, categories and payees (GET /api/search). Arrow keys
+// move through the results, Enter opens one, Escape closes the palette.
+export default function GlobalSearch({ onClose }: { onClose: () => void }) {
+  const router = useRouter();
+  const [text, setText] = useState("");
+  // Results keyed by the query they were loaded for, so stale responses are never shown
+  const [loaded, setLoaded] = useState<{ query: string; results: SearchResults | null; error?: string } | null>(null);
+  const [active, setActive] = useState<{ query: string; index: number } | null>(null);
+
+  const normalized = normalizeSearchQuery(text);
+  const query = normalized.status === "ok" ? normalized.query : null;
+
+  useEffect(() => {
+    if (!query) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      fetch(`/api/search?${new URLSearchParams({ q: query }).toString()}`)
+        .then(async (res) => {
+          const data = await res.json().catch(() => null);
+          if (cancelled) return;
+          if (!res.ok || !data?.results) {
+            setLoaded({ query, results: null, error: (data && data.error) || "Search failed" });
+          } else {
+            setLoaded({ query, results: data.results });
+          }
+        })
+        .catch(() => {
+          if (!cancelled) setLoaded({ query, results: null, error: "Search failed" });
+        });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const current = query && loaded?.query === query ? loaded : null;
+  const groups = current?.results
+    ? SEARCH_RESULT_TYPES.map((type) => ({ type, items: current.results?.[type] || [] })).filter((g) => g.items.length > 0)
+    : [];
+  const flat = groups.flatMap((g) => g.items);
+  const activeIndex = active && active.query === query ? Math.min(active.index, flat.length - 1) : 0;
+
+  function open(result: SearchResult) {
+    onClose();
+    router.push(result.href);
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === "ArrowDown" && flat.length > 0) {
+      e.preventDefault();
+      setActive({ query: query || "", index: (activeIndex + 1) % flat.length });
+    } else if (e.key === "ArrowUp" && flat.length > 0) {
+      e.preventDefault();
+      setActive({ query: query || "", index: (activeIndex - 1 + flat.length) % flat.length });
+    } else if (e.key === "Enter" && flat[activeIndex]) {
+      e.preventDefault();
+      open(flat[activeIndex]);
+    }
+  }
+
+  let status: string | null = null;
+  if (!query) status = text.trim() ? `Type at least ${MIN_SEARCH_QUERY_LENGTH} characters` : "Search transactions, accounts, categories and payees";
+  else if (!current) status = "Searching…";
+  else if (current.error) status = current.error;
+  else if (flat.length === 0) status = `No results for "${text.trim()}"`;
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        inset: 0,
+        backgroundColor: "rgba(0, 0, 0, 0.5)",
+        display: "flex",
+        alignItems: "flex-start",
+        justifyContent: "center",
+        paddingTop: "10vh",
+        zIndex: 1000,
+      }}
+      onClick={onClose}
+    >
+      <div
+        className="panel"
+        role="dialog"
+        aria-label="Search"
+        style={{ width: "600px", maxWidth: "90vw", maxHeight: "70vh", display: "flex", flexDirection: "column", padding: 0 }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <input
+          className="setup-input"
+          autoFocus
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search by description, label, receipt number, recipient, account…"
+          aria-label="Search"
+          style={{ margin: "16px", width: "auto", fontSize: "16px" }}
+        />
+
+        <div style={{ overflowY: "auto", padding: "0 8px 12px" }}>
+          {status && (
+            <div
+              style={{
+                padding: "12px",
+                fontSize: "14px",
+                color: current?.error ? "var(--text-error, #c62828)" : "var(--text-secondary, #666)",
+              }}
+            >
+              {status}
+            </div>
+          )}
+
+          {groups.map((group) => (
+            <div key={group.type} style={{ marginBottom: "8px" }}>
+              <div
+                style={{
+                  padding: "8px 12px 4px",
+                  fontSize: "12px",
+                  fontWeight: 600,
+                  textTransform: "uppercase",
+                  color: "var(--text-secondary, #666)",
+                }}
+              >
+                {SEARCH_RESULT_TYPE_LABELS[group.type]}
+              </div>
+              {group.items.map((result) => {
+                const index = flat.indexOf(result);
+                return (
+                  <button
+                    key={`${result.type}:${result.id}`}
+                    type="button"
+                    onClick={() => open(result)}
+                    onMouseEnter={() => setActive({ query: query || "", index })}
+                    style={{
+                      display: "block",
+                      width: "100%",
+                      padding: "8px 12px",
+                      border: "none",
+                      borderRadius: "6px",
+                      backgroundColor: index === activeIndex ? "var(--bg-hover, #f5f5f5)" : "transparent",
+                      cursor: "pointer",
+                      textAlign: "left",
+                      color: "inherit",
+                      font: "inherit",
+                    }}
+                  >
+                    <div style={{ fontSize: "14px", fontWeight: 500 }}>{result.title}</div>
+                    {result.subtitle && (
+                      <div style={{ fontSize: "12px", color: "var(--text-secondary, #666)", marginTop: "2px" }}>
+                        {result.subtitle}
+                      </div>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
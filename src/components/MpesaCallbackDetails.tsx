@@ -0,0 +1,117 @@
+"use client";
+
+import { useState } from "react";
+import { getMpesaCallbackDetails } from "@/lib/mpesaCallback";
+
+function formatAmount(value: number, currency?: string): string {
+  const formatted = new Intl.NumberFormat("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value);
+  return currency ? `${currency} ${formatted}` : formatted;
+}
+
+const rowStyle = { display: "flex", justifyContent: "space-between", gap: "12px", padding: "4px 0", fontSize: "13px" } as const;
+const labelStyle = { color: "var(--text-secondary, #666)" } as const;
+
+// "M-Pesa details" of a payout in the transfer detail panel, read from the stored callbacks, with
+// the raw payment channel JSON behind a toggle for support cases
+export default function MpesaCallbackDetails({ paymentChannel }: { paymentChannel: Record<string, unknown> }) {
+  const [showRaw, setShowRaw] = useState(false);
+  const details = getMpesaCallbackDetails(paymentChannel);
+
+  return (
+    <div style={{ padding: "8px 0", borderBottom: "1px solid var(--border)", overflow: "hidden" }}>
+      <div style={{ color: "var(--text-secondary, #666)", marginBottom: "4px" }}>M-Pesa Details</div>
+
+      {!details ? (
+        <div style={{ fontSize: "13px", color: "var(--text-secondary, #666)" }}>No callback from Safaricom yet</div>
+      ) : (
+        <div>
+          {(details.resultCode !== undefined || details.resultDesc) && (
+            <div style={rowStyle}>
+              <span style={labelStyle}>Result</span>
+              <span style={{ textAlign: "right", color: details.succeeded === false ? "#ef4444" : undefined }}>
+                {details.resultCode !== undefined ? `${details.resultCode} · ` : ""}
+                {details.resultDesc || (details.succeeded ? "Success" : "")}
+              </span>
+            </div>
+          )}
+          {details.transactionStatus && (
+            <div style={rowStyle}>
+              <span style={labelStyle}>Transaction Status</span>
+              <span>{details.transactionStatus}</span>
+            </div>
+          )}
+          {details.receiptNumber && (
+            <div style={rowStyle}>
+              <span style={labelStyle}>Receipt Number</span>
+              <span style={{ fontFamily: "monospace" }}>{details.receiptNumber}</span>
+            </div>
+          )}
+          {details.completedAt && (
+            <div style={rowStyle}>
+              <span style={labelStyle}>Completed</span>
+              <span>{new Date(details.completedAt).toLocaleString()}</span>
+            </div>
+          )}
+          {details.receiverName && (
+            <div style={rowStyle}>
+              <span style={labelStyle}>Receiver</span>
+              <span style={{ textAlign: "right" }}>{details.receiverName}</span>
+            </div>
+          )}
+          {details.amount !== undefined && (
+            <div style={rowStyle}>
+              <span style={labelStyle}>Amount</span>
+              <span>{formatAmount(details.amount)}</span>
+            </div>
+          )}
+          {details.charges !== undefined && (
+            <div style={rowStyle}>
+              <span style={labelStyle}>Charges</span>
+              <span>{formatAmount(details.charges)}</span>
+            </div>
+          )}
+          {details.balances.map((balance, i) => (
+            <div key={`${balance.account}-${i}`} style={rowStyle}>
+              <span style={labelStyle}>{balance.account} balance after</span>
+              <span>{formatAmount(balance.amount, balance.currency)}</span>
+            </div>
+          ))}
+          {details.conversationId && (
+            <div style={rowStyle}>
+              <span style={labelStyle}>Conversation ID</span>
+              <span style={{ fontFamily: "monospace", fontSize: "11px", wordBreak: "break-all", textAlign: "right" }}>
+                {details.conversationId}
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+
+      <button
+        type="button"
+        className="button button-ghost"
+        onClick={() => setShowRaw(!showRaw)}
+        style={{ marginTop: "8px", padding: "4px 10px", fontSize: "12px" }}
+      >
+        {showRaw ? "▾ Hide raw JSON" : "▸ Show raw JSON"}
+      </button>
+      {showRaw && (
+        <div style={{ overflow: "auto", maxWidth: "100%", marginTop: "8px" }}>
+          <pre
+            style={{
+              margin: 0,
+              fontSize: "12px",
+              backgroundColor: "var(--bg-secondary, #f9fafb)",
+              padding: "8px",
+              borderRadius: "4px",
+              whiteSpace: "pre-wrap",
+              wordBreak: "break-word",
+            }}
+          >
+            {JSON.stringify(paymentChannel, null, 2)}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { FeeSchedule } from "@/lib/mpesaFeeService";
+import { feeForAmount } from "@/lib/mpesaFees";
+import type { MpesaAction } from "@/lib/mpesaNumbers";
+
+function formatAmount(value: number): string {
+  return new Intl.NumberFormat("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value);
+}
+
+// Expected M-Pesa charge of a payout from the category's tariff, and where its fee transfer will be
+// recorded once the payout posts. `value` is the chosen expense account: undefined keeps the
+// integration's default, null records no fee transfer.
+export default function MpesaFeePreview({
+  categoryId,
+  action,
+  amount,
+  expenseAccounts,
+  value,
+  onChange,
+  disabled,
+}: {
+  categoryId: string;
+  action: MpesaAction;
+  amount: number;
+  expenseAccounts: Array<{ id: string; name: string }>;
+  value: string | null | undefined;
+  onChange: (value: string | null) => void;
+  disabled?: boolean;
+}) {
+  // Schedule keyed by the category it was loaded for, so a stale response is never shown
+  const [loaded, setLoaded] = useState<{ categoryId: string; schedule: FeeSchedule | null } | null>(null);
+
+  useEffect(() => {
+    if (!categoryId) return;
+    let cancelled = false;
+    fetch(`/api/settings/mpesa/fees?categoryId=${encodeURIComponent(categoryId)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled) setLoaded({ categoryId, schedule: data?.schedule ?? null });
+      })
+      .catch((err) => console.error("Failed to load M-Pesa fee tariff:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [categoryId]);
+
+  const schedule = loaded?.categoryId === categoryId ? loaded.schedule : null;
+  if (!schedule?.tariff[action]?.length) return null;
+
+  const fee = amount > 0 ? feeForAmount(schedule.tariff, action, amount) : null;
+  const selected = value === undefined ? schedule.feeExpenseAccountId || "none" : value ?? "none";
+  // The integration's default account may belong to another category
+  const options =
+    schedule.feeExpenseAccountId && !expenseAccounts.some((a) => a.id === schedule.feeExpenseAccountId)
+      ? [...expenseAccounts, { id: schedule.feeExpenseAccountId, name: schedule.feeExpenseAccountName || "Default fee account" }]
+      : expenseAccounts;
+
+  return (
+    <div
+      style={{
+        marginBottom: "16px",
+        padding: "12px",
+        borderRadius: "8px",
+        backgroundColor: "var(--bg-secondary, #f5f5f5)",
+        fontSize: "13px",
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", marginBottom: "8px" }}>
+        <span style={{ fontWeight: 500 }}>Expected M-Pesa charge</span>
+        <span style={{ fontWeight: 600 }}>
+          {!(amount > 0) ? "—" : fee === null ? "No charge band" : formatAmount(fee)}
+        </span>
+      </div>
+      {amount > 0 && fee !== null && (
+        <div style={{ marginBottom: "8px", color: "var(--text-secondary, #666)" }}>
+          Total debited: {formatAmount(amount + fee)}
+        </div>
+      )}
+      <label style={{ display: "block", marginBottom: "6px", fontSize: "12px", fontWeight: 500 }}>
+        Record the fee in
+      </label>
+      <select
+        className="setup-input"
+        value={selected}
+        onChange={(e) => onChange(e.target.value === "none" ? null : e.target.value)}
+        disabled={disabled}
+        style={{ width: "100%", maxWidth: "100%", boxSizing: "border-box" }}
+      >
+        <option value="none">Don&apos;t record a fee transfer</option>
+        {options.map((acc) => (
+          <option key={acc.id} value={acc.id}>
+            {acc.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
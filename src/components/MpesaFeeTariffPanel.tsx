@@ -0,0 +1,281 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { FeeSchedule } from "@/lib/mpesaFeeService";
+import type { FeeTariff } from "@/lib/mpesaFees";
+import { MPESA_ACTIONS, type MpesaAction } from "@/lib/mpesaNumbers";
+import { PAYEE_ACTION_LABELS } from "@/lib/payees";
+
+// Bands as typed in the editor
+type BandDraft = { min: string; max: string; charge: string };
+type TariffDraft = Record<MpesaAction, BandDraft[]>;
+
+function formatAmount(value: number): string {
+  return new Intl.NumberFormat("en-US", { minimumFractionDigits: 0, maximumFractionDigits: 2 }).format(value);
+}
+
+function toDraft(tariff: FeeTariff): TariffDraft {
+  const draft = {} as TariffDraft;
+  for (const action of MPESA_ACTIONS) {
+    draft[action] = (tariff[action] || []).map((b) => ({ min: String(b.min), max: String(b.max), charge: String(b.charge) }));
+  }
+  return draft;
+}
+
+// The integration's M-Pesa charge tariff (amount bands → charge per payout action) and the expense
+// account fee transfers go to by default
+export default function MpesaFeeTariffPanel({
+  integrationId,
+  expenseAccounts,
+}: {
+  integrationId: string;
+  expenseAccounts: Array<{ id: string; name: string }>;
+}) {
+  const [schedule, setSchedule] = useState<FeeSchedule | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<TariffDraft>(toDraft({}));
+  const [draftAccountId, setDraftAccountId] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/settings/mpesa/fees?integrationId=${encodeURIComponent(integrationId)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled) setSchedule(data?.schedule ?? null);
+      })
+      .catch((err) => console.error("Failed to load M-Pesa fee tariff:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [integrationId, reloadCount]);
+
+  function openEditor() {
+    setDraft(toDraft(schedule?.tariff || {}));
+    setDraftAccountId(schedule?.feeExpenseAccountId || "");
+    setError(null);
+    setIsEditing(true);
+  }
+
+  function updateBand(action: MpesaAction, index: number, field: keyof BandDraft, value: string) {
+    setDraft({ ...draft, [action]: draft[action].map((b, i) => (i === index ? { ...b, [field]: value } : b)) });
+  }
+
+  function addBand(action: MpesaAction) {
+    const last = draft[action][draft[action].length - 1];
+    const nextMin = last && last.max.trim() !== "" ? String(Number(last.max) + 1) : "1";
+    setDraft({ ...draft, [action]: [...draft[action], { min: nextMin, max: "", charge: "" }] });
+  }
+
+  function removeBand(action: MpesaAction, index: number) {
+    setDraft({ ...draft, [action]: draft[action].filter((_, i) => i !== index) });
+  }
+
+  async function handleSave() {
+    setError(null);
+    setIsBusy(true);
+    try {
+      const tariff: Record<string, Array<{ min: string; max: string; charge: string }>> = {};
+      for (const action of MPESA_ACTIONS) {
+        const bands = draft[action].filter((b) => b.min.trim() || b.max.trim() || b.charge.trim());
+        if (bands.length > 0) tariff[action] = bands;
+      }
+      const res = await fetch("/api/settings/mpesa/fees", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ integrationId, tariff, feeExpenseAccountId: draftAccountId || undefined }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError((data && data.error) || "Failed to save fee tariff");
+        return;
+      }
+      setIsEditing(false);
+      setReloadCount((n) => n + 1);
+    } catch {
+      setError("Failed to save fee tariff");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  const bandCount = MPESA_ACTIONS.reduce((n, action) => n + (schedule?.tariff[action]?.length || 0), 0);
+  const inputStyle = { width: "100%", boxSizing: "border-box" } as const;
+
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", width: "100%" }}>
+          <div>
+            <div className="panel-title">M-Pesa Charges</div>
+            <div className="panel-subtitle">
+              {bandCount === 0
+                ? "No tariff set: payouts are recorded without fees"
+                : `Fee transfers go to ${schedule?.feeExpenseAccountName || "the account chosen per payout"}`}
+            </div>
+          </div>
+          <button type="button" className="button button-ghost" onClick={openEditor} style={{ padding: "8px 12px" }}>
+            Edit tariff
+          </button>
+        </div>
+      </div>
+      {bandCount > 0 && (
+        <div className="txn-list">
+          {MPESA_ACTIONS.filter((action) => schedule?.tariff[action]?.length).map((action) => (
+            <div key={action} className="txn-row">
+              <div className="txn-left">
+                <div className="txn-name">{PAYEE_ACTION_LABELS[action]}</div>
+                <div className="txn-meta">
+                  {(schedule?.tariff[action] || [])
+                    .map((b) => `${formatAmount(b.min)}–${formatAmount(b.max)}: ${formatAmount(b.charge)}`)
+                    .join(" · ")}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isEditing && (
+        <div
+          style={{
+            position: "fixed",
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            backgroundColor: "rgba(0, 0, 0, 0.5)",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            zIndex: 1000,
+          }}
+          onClick={() => setIsEditing(false)}
+        >
+          <div
+            className="panel"
+            style={{
+              width: "90%",
+              maxWidth: "600px",
+              maxHeight: "90vh",
+              overflowY: "auto",
+              margin: "20px",
+              backgroundColor: "var(--bg-primary, #ffffff)",
+            }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="panel-header">
+              <div>
+                <div className="panel-title">M-Pesa Charges</div>
+                <div className="panel-subtitle">Amount bands are inclusive; a payout outside every band has no fee</div>
+              </div>
+            </div>
+            <div style={{ padding: "20px", backgroundColor: "var(--bg-primary, #ffffff)" }}>
+              {MPESA_ACTIONS.map((action) => (
+                <div key={action} style={{ marginBottom: "20px" }}>
+                  <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: "8px" }}>
+                    <label style={{ fontSize: "14px", fontWeight: 500 }}>{PAYEE_ACTION_LABELS[action]}</label>
+                    <button
+                      type="button"
+                      className="button button-ghost"
+                      onClick={() => addBand(action)}
+                      disabled={isBusy}
+                      style={{ padding: "4px 10px", fontSize: "12px" }}
+                    >
+                      + Band
+                    </button>
+                  </div>
+                  {draft[action].length === 0 ? (
+                    <div style={{ fontSize: "12px", color: "var(--text-secondary, #666)" }}>No charge</div>
+                  ) : (
+                    draft[action].map((band, index) => (
+                      <div key={index} style={{ display: "flex", gap: "8px", alignItems: "center", marginBottom: "6px" }}>
+                        <input
+                          className="setup-input"
+                          inputMode="decimal"
+                          value={band.min}
+                          onChange={(e) => updateBand(action, index, "min", e.target.value)}
+                          placeholder="From"
+                          aria-label="From amount"
+                          disabled={isBusy}
+                          style={inputStyle}
+                        />
+                        <input
+                          className="setup-input"
+                          inputMode="decimal"
+                          value={band.max}
+                          onChange={(e) => updateBand(action, index, "max", e.target.value)}
+                          placeholder="To"
+                          aria-label="To amount"
+                          disabled={isBusy}
+                          style={inputStyle}
+                        />
+                        <input
+                          className="setup-input"
+                          inputMode="decimal"
+                          value={band.charge}
+                          onChange={(e) => updateBand(action, index, "charge", e.target.value)}
+                          placeholder="Charge"
+                          aria-label="Charge"
+                          disabled={isBusy}
+                          style={inputStyle}
+                        />
+                        <button
+                          type="button"
+                          className="button button-ghost"
+                          onClick={() => removeBand(action, index)}
+                          disabled={isBusy}
+                          style={{ padding: "4px 8px", color: "var(--text-error, #c62828)" }}
+                          title="Remove band"
+                        >
+                          ×
+                        </button>
+                      </div>
+                    ))
+                  )}
+                </div>
+              ))}
+
+              <div style={{ marginBottom: "16px" }}>
+                <label style={{ display: "block", marginBottom: "8px", fontSize: "14px", fontWeight: 500 }}>
+                  Default fee expense account
+                </label>
+                <select
+                  className="setup-input"
+                  value={draftAccountId}
+                  onChange={(e) => setDraftAccountId(e.target.value)}
+                  disabled={isBusy}
+                  style={{ width: "100%" }}
+                >
+                  <option value="">Choose per payout</option>
+                  {expenseAccounts.map((acc) => (
+                    <option key={acc.id} value={acc.id}>
+                      {acc.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {error && (
+                <div style={{ marginBottom: "16px", padding: "12px", backgroundColor: "var(--bg-error, #ffebee)", borderRadius: "8px", fontSize: "14px", color: "var(--text-error, #c62828)" }}>
+                  {error}
+                </div>
+              )}
+
+              <div style={{ display: "flex", gap: "12px", justifyContent: "flex-end" }}>
+                <button type="button" className="button button-ghost" onClick={() => setIsEditing(false)} disabled={isBusy}>
+                  Cancel
+                </button>
+                <button type="button" className="button" onClick={() => void handleSave()} disabled={isBusy}>
+                  {isBusy ? "Saving…" : "Save Tariff"}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
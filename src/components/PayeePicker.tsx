@@ -0,0 +1,136 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Payee } from "@/lib/payeeService";
+import { payeeKey, validatePayeeInput, type PayeeAction } from "@/lib/payees";
+
+// Saved payees of the category for one M-Pesa action, shown as chips in the payment modals.
+// When the entered recipient is not saved yet (typed, or picked from the recent chips) it can be
+// promoted to a payee from here.
+export default function PayeePicker({
+  categoryId,
+  action,
+  number,
+  accountReference,
+  suggestedName,
+  disabled,
+  onPick,
+}: {
+  categoryId: string;
+  action: PayeeAction;
+  number: string;
+  accountReference?: string;
+  suggestedName?: string;
+  disabled?: boolean;
+  onPick: (payee: Payee) => void;
+}) {
+  // Payees keyed by the request they were loaded for, so stale responses are never shown
+  const [loaded, setLoaded] = useState<{ key: string; payees: Payee[] } | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const requestKey = `${categoryId}:${action}:${reloadCount}`;
+
+  useEffect(() => {
+    if (!categoryId) return;
+    let cancelled = false;
+    const params = new URLSearchParams({ categoryId, action });
+    fetch(`/api/payees?${params.toString()}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled) setLoaded({ key: requestKey, payees: Array.isArray(data?.payees) ? data.payees : [] });
+      })
+      .catch(() => {
+        if (!cancelled) setLoaded({ key: requestKey, payees: [] });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [categoryId, action, requestKey]);
+
+  const payees = loaded?.key === requestKey ? loaded.payees : [];
+  const candidate = validatePayeeInput({ name: suggestedName || "payee", action, number, accountReference });
+  const currentKey = candidate.status === "ok" ? payeeKey(action, candidate.payee.number, candidate.payee.accountReference) : null;
+  const isSaved = currentKey !== null && payees.some((p) => payeeKey(p.action, p.number, p.accountReference) === currentKey);
+
+  async function handleSave() {
+    const name = prompt("Save this recipient as a payee named:", suggestedName || "");
+    if (name === null) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/payees", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ categoryId, name, action, number, accountReference }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError((data && data.error) || "Failed to save payee");
+        return;
+      }
+      setReloadCount((n) => n + 1);
+      if (data?.payee) onPick(data.payee);
+    } catch {
+      setError("Failed to save payee");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  if (payees.length === 0 && (currentKey === null || isSaved)) return null;
+
+  return (
+    <div style={{ marginTop: "12px" }}>
+      {payees.length > 0 && (
+        <>
+          <div style={{ fontSize: "12px", fontWeight: 500, color: "var(--text-secondary, #666)", marginBottom: "6px" }}>
+            Saved Payees
+          </div>
+          <div style={{ display: "flex", flexWrap: "wrap", gap: "6px" }}>
+            {payees.map((payee) => (
+              <button
+                key={payee.id}
+                type="button"
+                onClick={() => onPick(payee)}
+                disabled={disabled}
+                title={payee.notes || undefined}
+                style={{
+                  padding: "6px 12px",
+                  border: "1px solid var(--border)",
+                  borderRadius: "16px",
+                  backgroundColor:
+                    currentKey === payeeKey(payee.action, payee.number, payee.accountReference)
+                      ? "#dcfce7"
+                      : "var(--bg-secondary, #f5f5f5)",
+                  cursor: "pointer",
+                  fontSize: "12px",
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "6px",
+                }}
+              >
+                <span style={{ fontWeight: 600 }}>{payee.name}</span>
+                <span style={{ fontFamily: "monospace", color: "var(--text-secondary, #666)" }}>{payee.number}</span>
+                {payee.accountReference && <span style={{ color: "#6366f1", fontSize: "11px" }}>#{payee.accountReference}</span>}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+      {currentKey !== null && !isSaved && loaded?.key === requestKey && (
+        <button
+          type="button"
+          className="button button-ghost"
+          onClick={() => void handleSave()}
+          disabled={disabled || isSaving}
+          style={{ marginTop: "8px", padding: "4px 10px", fontSize: "12px" }}
+        >
+          {isSaving ? "Saving…" : "☆ Save as payee"}
+        </button>
+      )}
+      {error && <div style={{ marginTop: "6px", fontSize: "12px", color: "#991b1b" }}>{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,337 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Payee } from "@/lib/payeeService";
+import { MAX_ACCOUNT_REFERENCE_LENGTH } from "@/lib/mpesaNumbers";
+import { PAYEE_ACTION_LABELS, PAYEE_ACTIONS, type PayeeAction } from "@/lib/payees";
+
+type PayeeForm = {
+  name: string;
+  action: PayeeAction;
+  number: string;
+  accountReference: string;
+  defaultExpenseAccountId: string;
+  notes: string;
+};
+
+const EMPTY_PAYEE_FORM: PayeeForm = {
+  name: "",
+  action: "BusinessPayment",
+  number: "",
+  accountReference: "",
+  defaultExpenseAccountId: "",
+  notes: "",
+};
+
+const NUMBER_LABELS: Record<PayeeAction, string> = {
+  BusinessPayment: "Phone number",
+  BusinessBuyGoods: "Till number",
+  BusinessPayBill: "Paybill number",
+};
+
+// The category's payee book (Settings → category): saved M-Pesa recipients the payment modals pick from
+export default function PayeesPanel({
+  categoryId,
+  expenseAccounts,
+}: {
+  categoryId: string;
+  expenseAccounts: Array<{ id: string; name: string }>;
+}) {
+  const [payees, setPayees] = useState<Payee[]>([]);
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  // Payee being edited ("new" for the add form, null when the modal is closed)
+  const [editing, setEditing] = useState<Payee | "new" | null>(null);
+  const [form, setForm] = useState<PayeeForm>(EMPTY_PAYEE_FORM);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const requestKey = `${categoryId}:${reloadCount}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/payees?categoryId=${encodeURIComponent(categoryId)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (cancelled) return;
+        setPayees(Array.isArray(data?.payees) ? data.payees : []);
+        setLoadedFor(requestKey);
+      })
+      .catch(() => {
+        if (!cancelled) setLoadedFor(requestKey);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [categoryId, requestKey]);
+
+  function openForm(payee: Payee | "new") {
+    setEditing(payee);
+    setError(null);
+    setForm(
+      payee === "new"
+        ? EMPTY_PAYEE_FORM
+        : {
+            name: payee.name,
+            action: payee.action,
+            number: payee.number,
+            accountReference: payee.accountReference || "",
+            defaultExpenseAccountId: payee.defaultExpenseAccountId || "",
+            notes: payee.notes || "",
+          },
+    );
+  }
+
+  async function handleSave() {
+    if (!editing) return;
+    setError(null);
+    setIsBusy(true);
+    try {
+      const res = await fetch(editing === "new" ? "/api/payees" : `/api/payees/${encodeURIComponent(editing.id)}`, {
+        method: editing === "new" ? "POST" : "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...form, categoryId }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError((data && data.error) || "Failed to save payee");
+        return;
+      }
+      setEditing(null);
+      setReloadCount((n) => n + 1);
+    } catch {
+      setError("Failed to save payee");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  async function handleDelete(payee: Payee) {
+    if (!confirm(`Remove ${payee.name} from the payee book?`)) return;
+    try {
+      const res = await fetch(`/api/payees/${encodeURIComponent(payee.id)}`, { method: "DELETE" });
+      if (res.ok) setReloadCount((n) => n + 1);
+    } catch (err) {
+      console.error("Failed to delete payee:", err);
+    }
+  }
+
+  const labelStyle = { display: "block", marginBottom: "8px", fontSize: "14px", fontWeight: 500 } as const;
+
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", width: "100%" }}>
+          <div>
+            <div className="panel-title">Payees</div>
+            <div className="panel-subtitle">
+              {loadedFor !== requestKey ? "Loading..." : "Saved M-Pesa recipients for Send Money, Buy Goods and Paybill"}
+            </div>
+          </div>
+          <button
+            type="button"
+            className="button button-ghost"
+            onClick={() => openForm("new")}
+            aria-label="Add payee"
+            style={{ padding: "8px 12px" }}
+          >
+            <svg
+              width="20"
+              height="20"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <line x1="12" y1="5" x2="12" y2="19"></line>
+              <line x1="5" y1="12" x2="19" y2="12"></line>
+            </svg>
+          </button>
+        </div>
+      </div>
+      <div className="txn-list">
+        {payees.length === 0 ? (
+          <div className="txn-row">
+            <div className="txn-left">
+              <div className="txn-name">No payees yet</div>
+              <div className="txn-meta">Add one here or save a recipient from the payment forms</div>
+            </div>
+          </div>
+        ) : (
+          payees.map((payee) => (
+            <div key={payee.id} className="txn-row">
+              <div className="txn-left" style={{ cursor: "pointer" }} onClick={() => openForm(payee)}>
+                <div className="txn-name">{payee.name}</div>
+                <div className="txn-meta">
+                  {PAYEE_ACTION_LABELS[payee.action]} · {payee.number}
+                  {payee.accountReference ? ` #${payee.accountReference}` : ""}
+                  {payee.defaultExpenseAccountName ? ` · ${payee.defaultExpenseAccountName}` : ""}
+                </div>
+                {payee.notes && <div className="txn-meta">{payee.notes}</div>}
+              </div>
+              <button
+                type="button"
+                className="button button-ghost"
+                onClick={() => void handleDelete(payee)}
+                style={{ padding: "4px 8px", color: "var(--text-error, #c62828)" }}
+                title="Remove payee"
+              >
+                <svg
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <polyline points="3 6 5 6 21 6"></polyline>
+                  <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path>
+                </svg>
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+
+      {editing && (
+        <div
+          style={{
+            position: "fixed",
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            backgroundColor: "rgba(0, 0, 0, 0.5)",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            zIndex: 1000,
+          }}
+          onClick={() => setEditing(null)}
+        >
+          <div
+            className="panel"
+            style={{ width: "90%", maxWidth: "500px", margin: "20px", backgroundColor: "var(--bg-primary, #ffffff)" }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="panel-header">
+              <div className="panel-title">{editing === "new" ? "Add Payee" : "Edit Payee"}</div>
+            </div>
+            <div style={{ padding: "20px", backgroundColor: "var(--bg-primary, #ffffff)" }}>
+              <div style={{ marginBottom: "16px" }}>
+                <label style={labelStyle}>Name *</label>
+                <input
+                  className="setup-input"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. Landlord, KPLC, Jane Wanjiku"
+                  disabled={isBusy}
+                  style={{ width: "100%" }}
+                  autoFocus
+                />
+              </div>
+
+              <div style={{ marginBottom: "16px" }}>
+                <label style={labelStyle}>Payment type *</label>
+                <select
+                  className="setup-input"
+                  value={form.action}
+                  onChange={(e) => setForm({ ...form, action: e.target.value as PayeeAction })}
+                  disabled={isBusy}
+                  style={{ width: "100%" }}
+                >
+                  {PAYEE_ACTIONS.map((action) => (
+                    <option key={action} value={action}>
+                      {PAYEE_ACTION_LABELS[action]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div style={{ marginBottom: "16px" }}>
+                <label style={labelStyle}>{NUMBER_LABELS[form.action]} *</label>
+                <input
+                  className="setup-input"
+                  inputMode="numeric"
+                  value={form.number}
+                  onChange={(e) => setForm({ ...form, number: e.target.value })}
+                  placeholder={form.action === "BusinessPayment" ? "e.g. 0712 345 678" : "e.g. 247247"}
+                  disabled={isBusy}
+                  style={{ width: "100%" }}
+                />
+              </div>
+
+              {form.action === "BusinessPayBill" && (
+                <div style={{ marginBottom: "16px" }}>
+                  <label style={labelStyle}>Account reference *</label>
+                  <input
+                    className="setup-input"
+                    value={form.accountReference}
+                    onChange={(e) => setForm({ ...form, accountReference: e.target.value })}
+                    placeholder="e.g. meter or account number"
+                    disabled={isBusy}
+                    maxLength={MAX_ACCOUNT_REFERENCE_LENGTH}
+                    style={{ width: "100%" }}
+                  />
+                </div>
+              )}
+
+              <div style={{ marginBottom: "16px" }}>
+                <label style={labelStyle}>Default expense account</label>
+                <select
+                  className="setup-input"
+                  value={form.defaultExpenseAccountId}
+                  onChange={(e) => setForm({ ...form, defaultExpenseAccountId: e.target.value })}
+                  disabled={isBusy}
+                  style={{ width: "100%" }}
+                >
+                  <option value="">None</option>
+                  {expenseAccounts.map((acc) => (
+                    <option key={acc.id} value={acc.id}>
+                      {acc.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div style={{ marginBottom: "16px" }}>
+                <label style={labelStyle}>Notes</label>
+                <textarea
+                  className="setup-input"
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  disabled={isBusy}
+                  style={{ width: "100%", minHeight: "60px", resize: "vertical" }}
+                />
+              </div>
+
+              {error && (
+                <div style={{ marginBottom: "16px", padding: "12px", backgroundColor: "var(--bg-error, #ffebee)", borderRadius: "8px", fontSize: "14px", color: "var(--text-error, #c62828)" }}>
+                  {error}
+                </div>
+              )}
+
+              <div style={{ display: "flex", gap: "12px", justifyContent: "flex-end" }}>
+                <button type="button" className="button button-ghost" onClick={() => setEditing(null)} disabled={isBusy}>
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  className="button"
+                  onClick={() => void handleSave()}
+                  disabled={isBusy || !form.name.trim() || !form.number.trim()}
+                >
+                  {isBusy ? "Saving…" : "Save Payee"}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,398 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { buildMpesaStatementLines, parseMpesaStatement } from "@/lib/mpesaStatement";
+import {
+  buildStatementLines,
+  EMPTY_STATEMENT_LINE_COLUMNS,
+  MAX_RECONCILIATION_LINES,
+  STATEMENT_LINE_FIELDS,
+  type StatementLineColumns,
+  type StatementLineField,
+} from "@/lib/reconciliationMatching";
+import { parseCsv } from "@/lib/statementImport";
+
+type StatementFormat = "csv" | "mpesa";
+
+type ReconcileAccount = { id: string; name: string; categoryName: string };
+
+const PREVIEW_ROW_LIMIT = 100;
+
+const HEADER_GUESSES: Record<StatementLineField, RegExp> = {
+  date: /(date|time)/i,
+  amount: /^(amount|value|transaction amount)$/i,
+  description: /(description|details|narrative|particulars|memo)/i,
+  reference: /(receipt|reference|ref\b|ref\.|transaction id|txn id)/i,
+};
+
+function guessColumns(header: string[]): StatementLineColumns {
+  const columns: StatementLineColumns = { ...EMPTY_STATEMENT_LINE_COLUMNS };
+  for (const [field, pattern] of Object.entries(HEADER_GUESSES) as Array<[StatementLineField, RegExp]>) {
+    columns[field] = header.findIndex((name) => pattern.test(name.trim()));
+  }
+  return columns;
+}
+
+function formatAmount(value: number): string {
+  return new Intl.NumberFormat("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value);
+}
+
+export default function ReconciliationCreateModal({
+  accounts,
+  onClose,
+  onCreated,
+}: {
+  accounts: ReconcileAccount[];
+  onClose: () => void;
+  onCreated: (reconciliationId: string) => void;
+}) {
+  const [accountId, setAccountId] = useState("");
+  const [format, setFormat] = useState<StatementFormat>("csv");
+  const [fileName, setFileName] = useState("");
+  const [fileText, setFileText] = useState("");
+  const [hasHeader, setHasHeader] = useState(true);
+  const [columns, setColumns] = useState<StatementLineColumns>(EMPTY_STATEMENT_LINE_COLUMNS);
+  const [invertAmounts, setInvertAmounts] = useState(false);
+  // Period defaults to the statement's first and last dates; either end can be widened
+  const [periodStart, setPeriodStart] = useState("");
+  const [periodEnd, setPeriodEnd] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const csvRows = useMemo(() => parseCsv(fileText), [fileText]);
+  const mpesaStatement = useMemo(
+    () => (format === "mpesa" && fileText ? parseMpesaStatement(fileText) : null),
+    [format, fileText],
+  );
+
+  const columnNames = useMemo(() => {
+    const width = csvRows.reduce((max, row) => Math.max(max, row.length), 0);
+    return Array.from({ length: width }, (_, i) =>
+      hasHeader && csvRows[0]?.[i]?.trim() ? csvRows[0][i].trim() : `Column ${i + 1}`,
+    );
+  }, [csvRows, hasHeader]);
+
+  const previewLines = useMemo(() => {
+    if (format === "mpesa") {
+      return mpesaStatement?.status === "ok" ? buildMpesaStatementLines(mpesaStatement.entries) : [];
+    }
+    return buildStatementLines({ rows: csvRows, hasHeader, columns, invertAmounts });
+  }, [format, mpesaStatement, csvRows, hasHeader, columns, invertAmounts]);
+
+  const readyLines = previewLines.flatMap((p) => (p.line ? [p.line] : []));
+  const statementDays = readyLines.map((l) => l.date.slice(0, 10)).sort();
+  const fromDay = periodStart || statementDays[0] || "";
+  const toDay = periodEnd || statementDays[statementDays.length - 1] || "";
+  const outsidePeriod = readyLines.filter((l) => l.date.slice(0, 10) < fromDay || l.date.slice(0, 10) > toDay).length;
+  const totalIn = readyLines.reduce((sum, l) => sum + (l.amount > 0 ? l.amount : 0), 0);
+  const totalOut = readyLines.reduce((sum, l) => sum + (l.amount < 0 ? -l.amount : 0), 0);
+
+  async function handleFileChange(file: File | undefined) {
+    if (!file) return;
+    setError(null);
+    try {
+      const text = await file.text();
+      const rows = parseCsv(text);
+      if (rows.length === 0) {
+        setError("The file has no rows");
+        return;
+      }
+      setFileName(file.name);
+      setFileText(text);
+      setHasHeader(true);
+      setColumns(guessColumns(rows[0]));
+      setPeriodStart("");
+      setPeriodEnd("");
+      if (parseMpesaStatement(text).status === "ok") setFormat("mpesa");
+    } catch {
+      setError("Failed to read file");
+    }
+  }
+
+  async function handleCreate() {
+    setError(null);
+    setIsBusy(true);
+    try {
+      const res = await fetch("/api/reconciliations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          accountId,
+          periodStart: `${fromDay}T00:00:00.000Z`,
+          periodEnd: `${toDay}T23:59:59.999Z`,
+          source: format,
+          lines: readyLines,
+        }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(
+          data?.reason === "period_locked"
+            ? "This account already has a locked reconciliation overlapping the period"
+            : (data && (data.reason || data.error)) || "Failed to create reconciliation",
+        );
+        return;
+      }
+      onCreated(data.reconciliationId);
+    } catch {
+      setError("Failed to create reconciliation");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  const labelStyle = { display: "block", marginBottom: "6px", fontSize: "12px", fontWeight: 500 } as const;
+  const canCreate =
+    !isBusy &&
+    Boolean(accountId) &&
+    readyLines.length > 0 &&
+    readyLines.length <= MAX_RECONCILIATION_LINES &&
+    Boolean(fromDay && toDay) &&
+    fromDay <= toDay &&
+    outsidePeriod === 0;
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: "rgba(0, 0, 0, 0.5)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        zIndex: 1000,
+      }}
+      onClick={onClose}
+    >
+      <div
+        className="panel"
+        style={{
+          width: "95%",
+          maxWidth: "960px",
+          maxHeight: "90vh",
+          margin: "20px",
+          backgroundColor: "var(--bg-primary, #ffffff)",
+          display: "flex",
+          flexDirection: "column",
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="panel-header" style={{ flexShrink: 0 }}>
+          <div>
+            <div className="panel-title">New Reconciliation</div>
+            <div className="panel-subtitle">Load an external statement to match against posted transfers</div>
+          </div>
+        </div>
+        <div style={{ padding: "20px", overflowY: "auto", flex: 1 }}>
+          {error && (
+            <div
+              style={{
+                marginBottom: "16px",
+                padding: "12px",
+                backgroundColor: "#fee2e2",
+                border: "1px solid #ef4444",
+                borderRadius: "8px",
+                color: "#991b1b",
+              }}
+            >
+              {error}
+            </div>
+          )}
+
+          <div style={{ display: "flex", gap: "16px", flexWrap: "wrap", alignItems: "flex-end", marginBottom: "16px" }}>
+            <div style={{ minWidth: "220px" }}>
+              <label style={labelStyle}>Account *</label>
+              <select
+                className="setup-input"
+                value={accountId}
+                onChange={(e) => setAccountId(e.target.value)}
+                disabled={isBusy}
+                style={{ width: "100%" }}
+              >
+                <option value="">Select account</option>
+                {accounts.map((acc) => (
+                  <option key={acc.id} value={acc.id}>
+                    {acc.categoryName} · {acc.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div style={{ minWidth: "180px" }}>
+              <label style={labelStyle}>Format</label>
+              <select
+                className="setup-input"
+                value={format}
+                onChange={(e) => setFormat(e.target.value as StatementFormat)}
+                disabled={isBusy}
+                style={{ width: "100%" }}
+              >
+                <option value="csv">Generic CSV</option>
+                <option value="mpesa">M-Pesa statement</option>
+              </select>
+            </div>
+            <div style={{ flex: "1", minWidth: "220px" }}>
+              <label style={labelStyle}>{format === "mpesa" ? "Statement CSV, or text copied from the PDF *" : "CSV file *"}</label>
+              <input
+                className="setup-input"
+                type="file"
+                accept={format === "mpesa" ? ".csv,.txt,text/csv,text/plain" : ".csv,text/csv"}
+                onChange={(e) => void handleFileChange(e.target.files?.[0])}
+                disabled={isBusy}
+                style={{ width: "100%" }}
+              />
+            </div>
+          </div>
+
+          {format === "mpesa" && mpesaStatement?.status === "invalid" && (
+            <div style={{ marginBottom: "16px", fontSize: "14px", color: "#991b1b" }}>{mpesaStatement.reason}</div>
+          )}
+
+          {csvRows.length > 0 && (
+            <>
+              {format === "csv" && (
+                <>
+                  <div
+                    style={{
+                      display: "grid",
+                      gridTemplateColumns: "repeat(auto-fill, minmax(200px, 1fr))",
+                      gap: "12px",
+                      marginBottom: "12px",
+                    }}
+                  >
+                    {STATEMENT_LINE_FIELDS.map((field) => (
+                      <div key={field.key}>
+                        <label style={labelStyle}>
+                          {field.label}
+                          {field.required ? " *" : ""}
+                        </label>
+                        <select
+                          className="setup-input"
+                          value={columns[field.key]}
+                          onChange={(e) => setColumns((prev) => ({ ...prev, [field.key]: Number(e.target.value) }))}
+                          disabled={isBusy}
+                          style={{ width: "100%" }}
+                        >
+                          <option value={-1}>— Not mapped —</option>
+                          {columnNames.map((name, i) => (
+                            <option key={i} value={i}>
+                              {name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                  <div style={{ display: "flex", gap: "20px", flexWrap: "wrap", marginBottom: "16px" }}>
+                    <label style={{ display: "flex", alignItems: "center", gap: "8px", fontSize: "14px" }}>
+                      <input
+                        type="checkbox"
+                        checked={hasHeader}
+                        onChange={(e) => setHasHeader(e.target.checked)}
+                        disabled={isBusy}
+                      />
+                      First row is a header
+                    </label>
+                    <label style={{ display: "flex", alignItems: "center", gap: "8px", fontSize: "14px" }}>
+                      <input
+                        type="checkbox"
+                        checked={invertAmounts}
+                        onChange={(e) => setInvertAmounts(e.target.checked)}
+                        disabled={isBusy}
+                      />
+                      Statement shows money out as positive amounts
+                    </label>
+                  </div>
+                </>
+              )}
+
+              <div style={{ display: "flex", gap: "12px", flexWrap: "wrap", alignItems: "flex-end", marginBottom: "16px" }}>
+                <div style={{ minWidth: "150px" }}>
+                  <label style={labelStyle}>Period from *</label>
+                  <input
+                    type="date"
+                    className="setup-input"
+                    value={fromDay}
+                    onChange={(e) => setPeriodStart(e.target.value)}
+                    disabled={isBusy}
+                  />
+                </div>
+                <div style={{ minWidth: "150px" }}>
+                  <label style={labelStyle}>Period to *</label>
+                  <input
+                    type="date"
+                    className="setup-input"
+                    value={toDay}
+                    onChange={(e) => setPeriodEnd(e.target.value)}
+                    disabled={isBusy}
+                  />
+                </div>
+                {outsidePeriod > 0 && (
+                  <div style={{ fontSize: "13px", color: "#991b1b", paddingBottom: "10px" }}>
+                    {outsidePeriod} line{outsidePeriod !== 1 ? "s" : ""} fall outside the period
+                  </div>
+                )}
+              </div>
+
+              <div style={{ fontSize: "13px", color: "var(--text-secondary, #666)", marginBottom: "8px" }}>
+                {fileName} · {previewLines.length} row{previewLines.length !== 1 ? "s" : ""} · {readyLines.length} ready · In{" "}
+                {formatAmount(totalIn)} · Out {formatAmount(totalOut)}
+                {readyLines.length > MAX_RECONCILIATION_LINES ? ` · at most ${MAX_RECONCILIATION_LINES} lines per reconciliation` : ""}
+              </div>
+
+              <div style={{ overflowX: "auto", border: "1px solid var(--border)", borderRadius: "8px" }}>
+                <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "13px" }}>
+                  <thead>
+                    <tr style={{ textAlign: "left", backgroundColor: "var(--bg-secondary, #f9fafb)" }}>
+                      <th style={{ padding: "8px" }}>Line</th>
+                      <th style={{ padding: "8px" }}>Date</th>
+                      <th style={{ padding: "8px" }}>Description</th>
+                      <th style={{ padding: "8px" }}>Ref</th>
+                      <th style={{ padding: "8px", textAlign: "right" }}>Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {previewLines.slice(0, PREVIEW_ROW_LIMIT).map((preview) => (
+                      <tr key={preview.row} style={{ borderTop: "1px solid var(--border)" }}>
+                        <td style={{ padding: "8px" }}>{preview.row}</td>
+                        <td style={{ padding: "8px", whiteSpace: "nowrap" }}>
+                          {preview.line ? new Date(preview.line.date).toLocaleString() : "-"}
+                        </td>
+                        <td style={{ padding: "8px", color: preview.error ? "#991b1b" : undefined }}>
+                          {preview.error || preview.line?.description || "-"}
+                        </td>
+                        <td style={{ padding: "8px", fontFamily: "monospace" }}>{preview.line?.reference || "-"}</td>
+                        <td
+                          className={preview.line ? (preview.line.amount < 0 ? "negative" : "positive") : undefined}
+                          style={{ padding: "8px", textAlign: "right" }}
+                        >
+                          {preview.line ? formatAmount(preview.line.amount) : "-"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {previewLines.length > PREVIEW_ROW_LIMIT && (
+                <div style={{ fontSize: "12px", color: "var(--text-secondary, #666)", marginTop: "6px" }}>
+                  Showing the first {PREVIEW_ROW_LIMIT} of {previewLines.length} rows
+                </div>
+              )}
+            </>
+          )}
+
+          <div style={{ display: "flex", gap: "12px", justifyContent: "flex-end", marginTop: "20px" }}>
+            <button type="button" className="button button-ghost" onClick={onClose} disabled={isBusy}>
+              Cancel
+            </button>
+            <button type="button" className="button" onClick={() => void handleCreate()} disabled={!canCreate}>
+              {isBusy ? "Creating…" : `Reconcile ${readyLines.length} line${readyLines.length !== 1 ? "s" : ""}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,454 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { formatNumber } from "@/lib/accountUtils";
+import {
+  DEFAULT_MATCH_WINDOW_DAYS,
+  MAX_MATCH_WINDOW_DAYS,
+  type ReconciliationAction,
+} from "@/lib/reconciliationMatching";
+import type { Reconciliation, ReconciliationLine, ReconciliationTransfer } from "@/lib/reconciliationService";
+
+type WorkspaceData = {
+  reconciliation: Reconciliation;
+  lines: ReconciliationLine[];
+  transfers: ReconciliationTransfer[];
+};
+
+const REASON_MESSAGES: Record<string, string> = {
+  amount_mismatch: "The selected transfers do not add up to the statement line",
+  direction_mismatch: "Money in can only be matched to transfers into the account, and money out to transfers out of it",
+  transfer_already_matched: "One of the transfers is already matched to another line",
+  unmatched_lines: "Match or flag every line before locking",
+  period_not_ended: "The period has not ended yet",
+  reconciliation_locked: "This reconciliation is locked; reopen it to make changes",
+};
+
+function formatDay(iso: string): string {
+  return iso ? new Date(iso).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric", timeZone: "UTC" }) : "-";
+}
+
+function formatDate(iso: string): string {
+  return iso ? new Date(iso).toLocaleDateString(undefined, { month: "short", day: "numeric" }) : "-";
+}
+
+function lineStatusStyle(line: ReconciliationLine): { label: string; color: string } {
+  if (line.status === "matched") {
+    const how = line.matchType === "split" ? "split" : line.matchType === "auto" ? "auto" : "manual";
+    return { label: `Matched (${how})`, color: "#065f46" };
+  }
+  if (line.status === "flagged") return { label: "Flagged", color: "#b45309" };
+  return { label: "Unmatched", color: "var(--text-secondary, #666)" };
+}
+
+export default function ReconciliationWorkspaceClient({
+  reconciliationId,
+  initialData,
+  loadError,
+}: {
+  reconciliationId: string;
+  initialData: WorkspaceData | null;
+  loadError: string | null;
+}) {
+  const router = useRouter();
+  const [data, setData] = useState<WorkspaceData | null>(initialData);
+  const [selectedLineId, setSelectedLineId] = useState<string | null>(null);
+  const [selectedTransferIds, setSelectedTransferIds] = useState<string[]>([]);
+  const [windowDays, setWindowDays] = useState(DEFAULT_MATCH_WINDOW_DAYS);
+  const [showMatched, setShowMatched] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(loadError);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const apiBase = `/api/reconciliations/${encodeURIComponent(reconciliationId)}`;
+
+  async function reload() {
+    const res = await fetch(`${apiBase}?windowDays=${windowDays}`);
+    const body = await res.json().catch(() => null);
+    if (!res.ok) {
+      setError((body && (body.reason || body.error)) || "Failed to load reconciliation");
+      return;
+    }
+    setData({ reconciliation: body.reconciliation, lines: body.lines, transfers: body.transfers });
+  }
+
+  async function runAction(action: ReconciliationAction, payload: Record<string, unknown> = {}) {
+    setError(null);
+    setNotice(null);
+    setIsBusy(true);
+    try {
+      const res = await fetch(apiBase, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, ...payload }),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) {
+        const reason = body?.reason as string | undefined;
+        setError((reason && REASON_MESSAGES[reason]) || reason || body?.error || `Failed to ${action.replace("_", " ")}`);
+      } else {
+        if (action === "auto_match") {
+          setNotice(`Auto-matched ${body.matched} line${body.matched === 1 ? "" : "s"}`);
+        }
+        setSelectedTransferIds([]);
+      }
+      await reload();
+    } catch {
+      setError(`Failed to ${action.replace("_", " ")}`);
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (!confirm("Discard this reconciliation and its statement lines?")) return;
+    setIsBusy(true);
+    try {
+      const res = await fetch(apiBase, { method: "DELETE" });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError((body && (body.reason || body.error)) || "Failed to delete reconciliation");
+        return;
+      }
+      router.push("/dashboard/reconciliation");
+    } catch {
+      setError("Failed to delete reconciliation");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  const backButton = (
+    <button
+      type="button"
+      onClick={() => router.push("/dashboard/reconciliation")}
+      style={{
+        background: "none",
+        border: "none",
+        color: "var(--text-secondary)",
+        cursor: "pointer",
+        fontSize: "14px",
+        marginBottom: "8px",
+        padding: 0,
+      }}
+    >
+      ← Back to Reconciliation
+    </button>
+  );
+
+  if (!data) {
+    return (
+      <div className="dashboard-page">
+        <header className="dashboard-header">
+          <div>
+            {backButton}
+            <h1 className="dashboard-title">Reconciliation</h1>
+          </div>
+        </header>
+        <div className="panel error-state">
+          <div className="panel-title">Could not load the reconciliation</div>
+          <div className="panel-subtitle">{error}</div>
+        </div>
+      </div>
+    );
+  }
+
+  const { reconciliation, lines, transfers } = data;
+  const isOpen = reconciliation.status === "open";
+  const selectedLine = lines.find((l) => l.id === selectedLineId) || null;
+  const unmatchedCount = lines.filter((l) => l.status === "unmatched").length;
+  const selectedTotal = transfers
+    .filter((t) => selectedTransferIds.includes(t.transfer.id))
+    .reduce((sum, t) => sum + t.signedAmount, 0);
+  const totalsAgree = selectedLine != null && Math.abs(selectedTotal - selectedLine.amount) < 0.005;
+  const visibleTransfers = transfers.filter(
+    (t) => showMatched || !t.matchedLineId || selectedLine?.transferIds.includes(t.transfer.id),
+  );
+  const unmatchedTransfers = transfers.filter((t) => !t.matchedLineId).length;
+  const statementIn = lines.reduce((sum, l) => sum + (l.amount > 0 ? l.amount : 0), 0);
+  const statementOut = lines.reduce((sum, l) => sum + (l.amount < 0 ? -l.amount : 0), 0);
+
+  function toggleTransfer(transferId: string) {
+    setSelectedTransferIds((prev) =>
+      prev.includes(transferId) ? prev.filter((id) => id !== transferId) : [...prev, transferId],
+    );
+  }
+
+  function selectLine(lineId: string) {
+    setSelectedLineId((prev) => (prev === lineId ? null : lineId));
+    setSelectedTransferIds([]);
+  }
+
+  return (
+    <div className="dashboard-page">
+      <header className="dashboard-header">
+        <div>
+          {backButton}
+          <h1 className="dashboard-title">{reconciliation.accountName}</h1>
+          <p className="dashboard-subtitle">
+            {formatDay(reconciliation.periodStart)} – {formatDay(reconciliation.periodEnd)} ·{" "}
+            {reconciliation.source === "mpesa" ? "M-Pesa statement" : "CSV statement"} ·{" "}
+            {isOpen ? "Open" : `Locked${reconciliation.lockedByName ? ` by ${reconciliation.lockedByName}` : ""}`}
+          </p>
+        </div>
+        <div className="dashboard-header-actions">
+          {isOpen ? (
+            <>
+              <button type="button" className="button button-ghost" onClick={() => void handleDelete()} disabled={isBusy}>
+                Discard
+              </button>
+              <button
+                type="button"
+                className="button"
+                onClick={() => void runAction("lock")}
+                disabled={isBusy || unmatchedCount > 0}
+                title={unmatchedCount > 0 ? "Match or flag every line before locking" : undefined}
+              >
+                Lock period
+              </button>
+            </>
+          ) : (
+            <button
+              type="button"
+              className="button button-ghost"
+              onClick={() => {
+                if (confirm("Reopen this period? Its transfers become editable again.")) void runAction("reopen");
+              }}
+              disabled={isBusy}
+            >
+              Reopen
+            </button>
+          )}
+        </div>
+      </header>
+
+      {error && (
+        <div className="panel error-state">
+          <div className="panel-title">Something went wrong</div>
+          <div className="panel-subtitle">{error}</div>
+        </div>
+      )}
+      {notice && <div style={{ marginBottom: "16px", fontSize: "14px", color: "#065f46" }}>{notice}</div>}
+
+      <section className="stats-grid">
+        <div className="panel stat-card">
+          <div className="stat-label">Statement lines</div>
+          <div className="stat-value">{lines.length}</div>
+          <div className="stat-meta">
+            In {formatNumber(statementIn)} · Out {formatNumber(statementOut)}
+          </div>
+        </div>
+        <div className="panel stat-card">
+          <div className="stat-label">Matched</div>
+          <div className="stat-value">{reconciliation.matchedCount}</div>
+          <div className="stat-meta">
+            {reconciliation.flaggedCount} flagged · {unmatchedCount} unmatched
+          </div>
+        </div>
+        <div className="panel stat-card">
+          <div className="stat-label">Unmatched transfers</div>
+          <div className="stat-value">{unmatchedTransfers}</div>
+          <div className="stat-meta">Posted transfers with no statement line</div>
+        </div>
+      </section>
+
+      {isOpen && (
+        <div style={{ display: "flex", gap: "12px", flexWrap: "wrap", alignItems: "flex-end", margin: "16px 0" }}>
+          <div style={{ width: "140px" }}>
+            <label style={{ display: "block", marginBottom: "6px", fontSize: "12px", fontWeight: 500 }}>Date window (days)</label>
+            <input
+              type="number"
+              className="setup-input"
+              min={0}
+              max={MAX_MATCH_WINDOW_DAYS}
+              value={windowDays}
+              onChange={(e) => setWindowDays(Math.min(Math.max(Number(e.target.value) || 0, 0), MAX_MATCH_WINDOW_DAYS))}
+              disabled={isBusy}
+            />
+          </div>
+          <button
+            type="button"
+            className="button"
+            onClick={() => void runAction("auto_match", { windowDays })}
+            disabled={isBusy || unmatchedCount === 0}
+          >
+            Auto-match
+          </button>
+          <button type="button" className="button button-ghost" onClick={() => void reload()} disabled={isBusy}>
+            Refresh transfers
+          </button>
+        </div>
+      )}
+
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(360px, 1fr))", gap: "16px", marginTop: "16px" }}>
+        <div className="panel">
+          <div className="panel-header">
+            <div>
+              <div className="panel-title">Statement</div>
+              <div className="panel-subtitle">Select a line to match or flag it</div>
+            </div>
+          </div>
+          <div className="txn-list">
+            {lines.map((line) => {
+              const status = lineStatusStyle(line);
+              const selected = line.id === selectedLineId;
+              return (
+                <div
+                  key={line.id}
+                  className="txn-row"
+                  onClick={() => selectLine(line.id)}
+                  style={{
+                    cursor: "pointer",
+                    outline: selected ? "2px solid var(--accent, #3b82f6)" : undefined,
+                    borderRadius: selected ? "8px" : undefined,
+                  }}
+                >
+                  <div className="txn-left">
+                    <div className="txn-name">{line.description || line.reference || `Line ${line.lineNo}`}</div>
+                    <div className="txn-meta">
+                      {formatDate(line.date)}
+                      {line.reference ? ` · ${line.reference}` : ""}
+                    </div>
+                    <div className="txn-meta" style={{ color: status.color }}>
+                      {status.label}
+                      {line.flagReason ? ` · ${line.flagReason}` : ""}
+                    </div>
+                  </div>
+                  <div className={`txn-amount ${line.amount < 0 ? "negative" : "positive"}`}>{formatNumber(line.amount)}</div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="panel">
+          <div className="panel-header">
+            <div>
+              <div className="panel-title">Posted transfers</div>
+              <div className="panel-subtitle">
+                {selectedLine && selectedLine.status !== "matched" && isOpen
+                  ? `Selected ${formatNumber(selectedTotal)} of ${formatNumber(selectedLine.amount)}`
+                  : `Within ${windowDays} day${windowDays === 1 ? "" : "s"} of the period`}
+              </div>
+            </div>
+            <label style={{ display: "flex", alignItems: "center", gap: "6px", fontSize: "13px" }}>
+              <input type="checkbox" checked={showMatched} onChange={(e) => setShowMatched(e.target.checked)} />
+              Show matched
+            </label>
+          </div>
+          <div className="txn-list">
+            {visibleTransfers.length === 0 ? (
+              <div className="txn-row">
+                <div className="txn-left">
+                  <div className="txn-name">No transfers to match</div>
+                  <div className="txn-meta">Every posted transfer in the period is matched</div>
+                </div>
+              </div>
+            ) : (
+              visibleTransfers.map(({ transfer, signedAmount, matchedLineId }) => {
+                const selectable = isOpen && selectedLine != null && selectedLine.status !== "matched" && !matchedLineId;
+                const partOfLine = selectedLine?.transferIds.includes(transfer.id);
+                return (
+                  <div
+                    key={transfer.id}
+                    className="txn-row"
+                    onClick={() => selectable && toggleTransfer(transfer.id)}
+                    style={{
+                      cursor: selectable ? "pointer" : "default",
+                      opacity: matchedLineId && !partOfLine ? 0.6 : 1,
+                      outline: partOfLine ? "2px solid var(--accent, #3b82f6)" : undefined,
+                      borderRadius: partOfLine ? "8px" : undefined,
+                    }}
+                  >
+                    <div style={{ display: "flex", alignItems: "center", gap: "10px" }}>
+                      {selectable && (
+                        <input
+                          type="checkbox"
+                          checked={selectedTransferIds.includes(transfer.id)}
+                          onChange={() => toggleTransfer(transfer.id)}
+                          onClick={(e) => e.stopPropagation()}
+                        />
+                      )}
+                      <div className="txn-left">
+                        <div className="txn-name">
+                          {signedAmount < 0 ? transfer.toAccountName : transfer.fromAccountName}
+                          {transfer.label || transfer.description ? ` · ${transfer.label || transfer.description}` : ""}
+                        </div>
+                        <div className="txn-meta">
+                          {formatDate(transfer.createdAt)}
+                          {transfer.externalTransactionId ? ` · ${transfer.externalTransactionId}` : ""}
+                          {matchedLineId ? " · matched" : ""}
+                        </div>
+                      </div>
+                    </div>
+                    <div className={`txn-amount ${signedAmount < 0 ? "negative" : "positive"}`}>{formatNumber(signedAmount)}</div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+      </div>
+
+      {selectedLine && isOpen && (
+        <div
+          className="panel"
+          style={{
+            position: "sticky",
+            bottom: "16px",
+            marginTop: "16px",
+            display: "flex",
+            gap: "12px",
+            alignItems: "center",
+            justifyContent: "space-between",
+            flexWrap: "wrap",
+            padding: "12px 16px",
+          }}
+        >
+          <div style={{ fontSize: "14px" }}>
+            Line {selectedLine.lineNo} · {formatNumber(selectedLine.amount)}
+            {selectedLine.status === "unmatched" || selectedLine.status === "flagged"
+              ? ` · ${selectedTransferIds.length} transfer${selectedTransferIds.length === 1 ? "" : "s"} selected`
+              : ""}
+          </div>
+          <div style={{ display: "flex", gap: "8px" }}>
+            {selectedLine.status === "unmatched" && (
+              <button
+                type="button"
+                className="button button-ghost"
+                onClick={() => {
+                  const reason = prompt("Why is this line flagged? (optional)");
+                  if (reason !== null) void runAction("flag", { lineId: selectedLine.id, reason });
+                }}
+                disabled={isBusy}
+              >
+                Flag
+              </button>
+            )}
+            {selectedLine.status !== "unmatched" && (
+              <button
+                type="button"
+                className="button button-ghost"
+                onClick={() => void runAction("unmatch", { lineId: selectedLine.id })}
+                disabled={isBusy}
+              >
+                {selectedLine.status === "flagged" ? "Clear flag" : "Unmatch"}
+              </button>
+            )}
+            {selectedLine.status !== "matched" && (
+              <button
+                type="button"
+                className="button"
+                onClick={() => void runAction("match", { lineId: selectedLine.id, transferIds: selectedTransferIds })}
+                disabled={isBusy || selectedTransferIds.length === 0 || !totalsAgree}
+              >
+                {selectedTransferIds.length > 1 ? "Split match" : "Match"}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
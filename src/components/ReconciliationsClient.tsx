@@ -0,0 +1,115 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import ReconciliationCreateModal from "@/components/ReconciliationCreateModal";
+import type { Reconciliation } from "@/lib/reconciliationService";
+
+function formatDay(iso: string): string {
+  return iso ? new Date(iso).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric", timeZone: "UTC" }) : "-";
+}
+
+export default function ReconciliationsClient({
+  initialReconciliations,
+  accounts,
+  loadError,
+}: {
+  initialReconciliations: Reconciliation[];
+  accounts: { id: string; name: string; categoryName: string }[];
+  loadError: string | null;
+}) {
+  const router = useRouter();
+  const [showCreate, setShowCreate] = useState(false);
+
+  return (
+    <div className="dashboard-page">
+      <header className="dashboard-header">
+        <div>
+          <h1 className="dashboard-title">Reconciliation</h1>
+          <p className="dashboard-subtitle">Match posted transfers against bank and M-Pesa statements, then lock the period.</p>
+        </div>
+        <div className="dashboard-header-actions">
+          <button type="button" className="button" onClick={() => setShowCreate(true)}>
+            New reconciliation
+          </button>
+        </div>
+      </header>
+
+      {loadError && (
+        <div className="panel error-state">
+          <div className="panel-title">Something went wrong</div>
+          <div className="panel-subtitle">Failed to load reconciliations ({loadError})</div>
+        </div>
+      )}
+
+      <div className="panel">
+        <div className="panel-header">
+          <div>
+            <div className="panel-title">Reconciliations</div>
+            <div className="panel-subtitle">
+              {initialReconciliations.length} reconciliation{initialReconciliations.length !== 1 ? "s" : ""}
+            </div>
+          </div>
+        </div>
+        <div className="txn-list">
+          {initialReconciliations.length === 0 ? (
+            <div className="txn-row">
+              <div className="txn-left">
+                <div className="txn-name">No reconciliations yet</div>
+                <div className="txn-meta">Load a statement to start matching it to posted transfers</div>
+              </div>
+            </div>
+          ) : (
+            initialReconciliations.map((r) => {
+              const unmatched = r.lineCount - r.matchedCount - r.flaggedCount;
+              return (
+                <div
+                  key={r.id}
+                  className="txn-row"
+                  style={{ cursor: "pointer" }}
+                  onClick={() => router.push(`/dashboard/reconciliation/${encodeURIComponent(r.id)}`)}
+                >
+                  <div className="txn-left">
+                    <div className="txn-name">
+                      {r.accountName} · {formatDay(r.periodStart)} – {formatDay(r.periodEnd)}
+                    </div>
+                    <div className="txn-meta">
+                      {r.source === "mpesa" ? "M-Pesa statement" : "CSV statement"}
+                      {r.createdByName ? ` · ${r.createdByName}` : ""}
+                      {r.lockedAt ? ` · locked ${new Date(r.lockedAt).toLocaleString()}` : ""}
+                    </div>
+                    <div className="txn-meta">
+                      {r.matchedCount} of {r.lineCount} matched
+                      {r.flaggedCount > 0 ? ` · ${r.flaggedCount} flagged` : ""}
+                      {unmatched > 0 ? ` · ${unmatched} unmatched` : ""}
+                    </div>
+                  </div>
+                  <span
+                    style={{
+                      padding: "4px 10px",
+                      borderRadius: "999px",
+                      fontSize: "12px",
+                      fontWeight: 600,
+                      backgroundColor: r.status === "locked" ? "#d1fae5" : "#fef3c7",
+                      color: r.status === "locked" ? "#065f46" : "#92400e",
+                    }}
+                  >
+                    {r.status === "locked" ? "Locked" : "Open"}
+                  </span>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+
+      {showCreate && (
+        <ReconciliationCreateModal
+          accounts={accounts}
+          onClose={() => setShowCreate(false)}
+          onCreated={(id) => router.push(`/dashboard/reconciliation/${encodeURIComponent(id)}`)}
+        />
+      )}
+    </div>
+  );
+}
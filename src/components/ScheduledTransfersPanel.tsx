@@ -0,0 +1,218 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ScheduledTransfer } from "@/lib/scheduledTransferService";
+import { describeScheduleRule, occurrencesUntil, type ScheduledTransferAction } from "@/lib/transferSchedule";
+
+const UPCOMING_DAYS = 30;
+const UPCOMING_LIMIT = 10;
+
+function formatAmount(value: number): string {
+  return new Intl.NumberFormat("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value);
+}
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+function scheduleName(schedule: ScheduledTransfer): string {
+  return schedule.label || `${schedule.fromAccountName} → ${schedule.toAccountName || "(Unknown)"}`;
+}
+
+// Upcoming occurrences of the category's scheduled transfers, with pause/resume/delete per schedule
+// and a manual "Run due now" (the same job a cron calls)
+export default function ScheduledTransfersPanel({
+  categoryId,
+  refreshKey,
+  onTransfersCreated,
+}: {
+  categoryId: string;
+  refreshKey: number;
+  onTransfersCreated: () => void;
+}) {
+  // Schedules keyed by the request they were loaded for, so stale responses are never shown
+  const [loaded, setLoaded] = useState<{ key: string; schedules: ScheduledTransfer[]; error: string | null } | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const requestKey = `${categoryId}:${refreshKey}:${reloadCount}`;
+
+  useEffect(() => {
+    if (!categoryId) return;
+    let cancelled = false;
+    fetch(`/api/scheduled-transfers?categoryId=${encodeURIComponent(categoryId)}`)
+      .then(async (res) => {
+        const data = await res.json().catch(() => null);
+        if (cancelled) return;
+        setLoaded({
+          key: requestKey,
+          schedules: res.ok && Array.isArray(data?.scheduledTransfers) ? data.scheduledTransfers : [],
+          error: res.ok ? null : (data && (data.reason || data.error)) || "Failed to load scheduled transfers",
+        });
+      })
+      .catch(() => {
+        if (!cancelled) setLoaded({ key: requestKey, schedules: [], error: "Failed to load scheduled transfers" });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [categoryId, requestKey]);
+
+  const current = loaded?.key === requestKey ? loaded : null;
+  const schedules = current?.schedules ?? [];
+
+  const until = new Date(Date.now() + UPCOMING_DAYS * 24 * 60 * 60 * 1000);
+  const upcoming = schedules
+    .filter((s) => s.status === "active" && s.nextRunAt)
+    .flatMap((s) =>
+      occurrencesUntil(s.rule, new Date(s.nextRunAt as string), until, UPCOMING_LIMIT).map((at) => ({ schedule: s, at })),
+    )
+    .sort((a, b) => a.at.getTime() - b.at.getTime())
+    .slice(0, UPCOMING_LIMIT);
+
+  async function handleAction(schedule: ScheduledTransfer, action: ScheduledTransferAction | "delete") {
+    if (action === "delete" && !confirm("Delete this schedule? Transfers it already created are kept.")) return;
+    setBusyId(schedule.id);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/scheduled-transfers/${encodeURIComponent(schedule.id)}`, {
+        method: action === "delete" ? "DELETE" : "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: action === "delete" ? undefined : JSON.stringify({ action }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setMessage((data && (data.reason || data.error)) || `Failed to ${action} schedule`);
+        return;
+      }
+      setReloadCount((n) => n + 1);
+    } catch {
+      setMessage(`Failed to ${action} schedule`);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleRunDue() {
+    setBusyId("run-due");
+    setMessage(null);
+    try {
+      const res = await fetch("/api/scheduled-transfers/run-due", { method: "POST" });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setMessage((data && (data.reason || data.error)) || "Failed to run scheduled transfers");
+        return;
+      }
+      const created = typeof data?.created === "number" ? data.created : 0;
+      const failed = typeof data?.failed === "number" ? data.failed : 0;
+      setMessage(
+        created === 0 && failed === 0
+          ? "Nothing was due"
+          : `Created ${created} transfer${created === 1 ? "" : "s"}${failed > 0 ? `, ${failed} failed` : ""}`,
+      );
+      setReloadCount((n) => n + 1);
+      if (created > 0) onTransfersCreated();
+    } catch {
+      setMessage("Failed to run scheduled transfers");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  if (current && !current.error && schedules.length === 0) return null;
+
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <div>
+          <div className="panel-title">Scheduled transfers</div>
+          <div className="panel-subtitle">
+            {!current
+              ? "Loading schedules…"
+              : `${schedules.length} schedule${schedules.length === 1 ? "" : "s"} · ${upcoming.length} due in the next ${UPCOMING_DAYS} days`}
+          </div>
+        </div>
+        <button type="button" className="button button-ghost" onClick={() => void handleRunDue()} disabled={busyId !== null}>
+          {busyId === "run-due" ? "Running…" : "Run due now"}
+        </button>
+      </div>
+
+      {(current?.error || message) && (
+        <div style={{ padding: "0 20px 12px", fontSize: "13px", color: current?.error ? "#991b1b" : "var(--text-secondary, #666)" }}>
+          {current?.error || message}
+        </div>
+      )}
+
+      {upcoming.length > 0 && (
+        <div className="txn-list">
+          {upcoming.map(({ schedule, at }) => (
+            <div key={`${schedule.id}:${at.toISOString()}`} className="txn-row">
+              <div className="txn-left">
+                <div className="txn-name">{scheduleName(schedule)}</div>
+                <div className="txn-meta">
+                  {formatDateTime(at.toISOString())} · {schedule.transferStatus === "submitted" ? "submitted" : "draft"}
+                </div>
+                {/* A failed run leaves its occurrence due so the next run retries it */}
+                {at.getTime() <= Date.now() && schedule.lastError && (
+                  <div className="txn-meta" style={{ color: "#991b1b" }}>
+                    Overdue, will be retried: {schedule.lastError}
+                  </div>
+                )}
+              </div>
+              <div className="txn-amount">{formatAmount(schedule.amount)}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {schedules.length > 0 && (
+        <div className="txn-list" style={{ borderTop: "1px solid var(--border)" }}>
+          {schedules.map((schedule) => (
+            <div key={schedule.id} className="txn-row">
+              <div className="txn-left">
+                <div className="txn-name">
+                  {scheduleName(schedule)} · {formatAmount(schedule.amount)}
+                </div>
+                <div className="txn-meta">
+                  {describeScheduleRule(schedule.rule)}
+                  {schedule.rule.endAt ? ` until ${new Date(schedule.rule.endAt).toLocaleDateString()}` : ""}
+                  {schedule.status === "active" && schedule.nextRunAt ? ` · next ${formatDateTime(schedule.nextRunAt)}` : ""}
+                  {` · ${schedule.runCount} created`}
+                </div>
+                {schedule.lastError && (
+                  <div className="txn-meta" style={{ color: "#991b1b" }}>
+                    Last run failed: {schedule.lastError}
+                  </div>
+                )}
+              </div>
+              <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+                {schedule.status === "ended" ? (
+                  <span style={{ fontSize: "12px", color: "var(--text-secondary, #666)" }}>Ended</span>
+                ) : (
+                  <button
+                    type="button"
+                    className="button button-ghost"
+                    onClick={() => void handleAction(schedule, schedule.status === "active" ? "pause" : "resume")}
+                    disabled={busyId !== null}
+                  >
+                    {schedule.status === "active" ? "Pause" : "Resume"}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  className="button button-ghost"
+                  onClick={() => void handleAction(schedule, "delete")}
+                  disabled={busyId !== null}
+                  style={{ color: "#ef4444" }}
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
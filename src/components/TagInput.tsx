@@ -0,0 +1,164 @@
+"use client";
+
+import { useState } from "react";
+import { MAX_TAGS_PER_TRANSFER, normalizeTag, validateTag, type TagUsage } from "@/lib/transferTags";
+
+const MAX_SUGGESTIONS = 8;
+
+// Tags of a transfer as removable chips, with autocomplete from the tags already used in the
+// category. Enter, comma or Tab adds the typed tag; Backspace on an empty input removes the last one.
+export default function TagInput({
+  value,
+  onChange,
+  suggestions,
+  disabled,
+  max = MAX_TAGS_PER_TRANSFER,
+  placeholder = "Add a tag…",
+}: {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: TagUsage[];
+  disabled?: boolean;
+  max?: number;
+  placeholder?: string;
+}) {
+  const [text, setText] = useState("");
+  const [focused, setFocused] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const query = normalizeTag(text);
+  const matches = suggestions
+    .filter((s) => !value.includes(s.tag) && (!query || s.tag.includes(query)))
+    .slice(0, MAX_SUGGESTIONS);
+  const isFull = value.length >= max;
+
+  function addTag(raw: string) {
+    const result = validateTag(raw);
+    if (result.status === "invalid") {
+      setError(result.error);
+      return;
+    }
+    if (!value.includes(result.tag)) {
+      if (isFull) {
+        setError(`At most ${max} tags`);
+        return;
+      }
+      onChange([...value, result.tag]);
+    }
+    setText("");
+    setError(null);
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if ((e.key === "Enter" || e.key === "," || e.key === "Tab") && text.trim()) {
+      e.preventDefault();
+      addTag(text);
+    } else if (e.key === "Enter") {
+      // Never submit the surrounding form from the tag input
+      e.preventDefault();
+    } else if (e.key === "Backspace" && !text && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  }
+
+  return (
+    <div style={{ position: "relative" }}>
+      <div
+        className="setup-input"
+        style={{ display: "flex", flexWrap: "wrap", gap: "6px", alignItems: "center", width: "100%", minHeight: "40px" }}
+      >
+        {value.map((tag) => (
+          <span
+            key={tag}
+            style={{
+              display: "inline-flex",
+              alignItems: "center",
+              gap: "4px",
+              padding: "2px 8px",
+              borderRadius: "12px",
+              backgroundColor: "#e0e7ff",
+              color: "#3730a3",
+              fontSize: "12px",
+            }}
+          >
+            {tag}
+            {!disabled && (
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((t) => t !== tag))}
+                aria-label={`Remove tag ${tag}`}
+                style={{ border: "none", background: "none", cursor: "pointer", padding: 0, color: "inherit", fontSize: "14px", lineHeight: 1 }}
+              >
+                ×
+              </button>
+            )}
+          </span>
+        ))}
+        {!isFull && (
+          <input
+            type="text"
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value);
+              setError(null);
+            }}
+            onKeyDown={handleKeyDown}
+            onFocus={() => setFocused(true)}
+            onBlur={() => setFocused(false)}
+            disabled={disabled}
+            placeholder={value.length === 0 ? placeholder : ""}
+            style={{ flex: 1, minWidth: "120px", border: "none", outline: "none", background: "transparent", fontSize: "14px", color: "inherit" }}
+          />
+        )}
+      </div>
+
+      {focused && !disabled && !isFull && matches.length > 0 && (
+        <div
+          style={{
+            position: "absolute",
+            top: "100%",
+            left: 0,
+            right: 0,
+            marginTop: "4px",
+            backgroundColor: "var(--bg-primary, #ffffff)",
+            border: "1px solid var(--border)",
+            borderRadius: "6px",
+            boxShadow: "0 4px 12px rgba(0,0,0,0.1)",
+            zIndex: 10,
+            maxHeight: "200px",
+            overflowY: "auto",
+          }}
+        >
+          {matches.map((s) => (
+            <button
+              key={s.tag}
+              type="button"
+              // mousedown, so the input keeps focus and the list stays open for the next tag
+              onMouseDown={(e) => {
+                e.preventDefault();
+                addTag(s.tag);
+              }}
+              style={{
+                display: "flex",
+                justifyContent: "space-between",
+                width: "100%",
+                padding: "8px 12px",
+                border: "none",
+                background: "none",
+                cursor: "pointer",
+                fontSize: "13px",
+                textAlign: "left",
+                color: "inherit",
+              }}
+            >
+              <span>{s.tag}</span>
+              <span style={{ color: "var(--text-secondary, #666)", fontSize: "12px" }}>{s.count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && <div style={{ marginTop: "4px", fontSize: "12px", color: "#991b1b" }}>{error}</div>}
+    </div>
+  );
+}
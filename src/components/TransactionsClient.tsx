@@ -1,7 +1,33 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { Fragment, useState, useEffect, useCallback, useRef } from "react";
 import { useRouter } from "next/navigation";
+import type { Transfer } from "@/lib/transferService";
+import { getTransferBalance, type ExportFormat } from "@/lib/transferExport";
+import { availableTransferActions, TRANSFER_TRANSITIONS, type TransferAction } from "@/lib/transferLifecycle";
+import { MAX_SPLIT_LEGS, SPLIT_LEG_ROLE, SPLIT_PARENT_ROLE, validateSplitLegs } from "@/lib/transferSplit";
+import { canReverseTransfer, REVERSAL_ROLE } from "@/lib/transferReversal";
+import { SCHEDULE_FREQUENCIES, type ScheduleFrequency } from "@/lib/transferSchedule";
+import type { Payee } from "@/lib/payeeService";
+import { payeeKey, type PayeeAction } from "@/lib/payees";
+import { MAX_BULK_TAG_TRANSFERS, MAX_TAGS_PER_TRANSFER, validateTag, type TagTotal, type TagUsage } from "@/lib/transferTags";
+import { ATTACHMENT_ACCEPT, formatAttachmentSize, MAX_ATTACHMENTS_PER_TRANSFER, validateAttachmentFile } from "@/lib/attachments";
+import {
+  MAX_ACCOUNT_REFERENCE_LENGTH,
+  normalizeMsisdn,
+  PAYBILL_NUMBER_LENGTH,
+  TILL_NUMBER_LENGTH,
+  validateMpesaRecipient,
+} from "@/lib/mpesaNumbers";
+import MpesaCallbackDetails from "@/components/MpesaCallbackDetails";
+import MpesaFeePreview from "@/components/MpesaFeePreview";
+import PayeePicker from "@/components/PayeePicker";
+import ScheduledTransfersPanel from "@/components/ScheduledTransfersPanel";
+import TagInput from "@/components/TagInput";
+import TransferActivity from "@/components/TransferActivity";
+import TransferAttachments, { uploadTransferAttachment } from "@/components/TransferAttachments";
+import TransferImportModal from "@/components/TransferImportModal";
+import TransferReversalModal from "@/components/TransferReversalModal";
 
 type Account = {
   id: string;
@@ -29,32 +55,85 @@ type Category = {
   b2cPaybillName?: string;
 };
 
-type Transfer = {
-  id: string;
-  fromAccountId: string;
-  toAccountId?: string;
-  fromAccountName: string;
-  toAccountName: string;
-  amount: number;
-  type: string;
+const TRANSFER_TYPES = ["payment", "fees", "refund", "adjustment"] as const;
+type TransferType = (typeof TRANSFER_TYPES)[number];
+
+// Recurrence fields of the "Repeat on a schedule" option (as typed)
+type ScheduleDraft = {
+  frequency: ScheduleFrequency;
+  interval: string;
+  dayOfMonth: string;
+  startDate: string;
+  startTime: string;
+  endDate: string;
+};
+
+// One destination row of the split form (amount as typed)
+type SplitLegDraft = { toAccountId: string; amount: string; description: string };
+
+const EMPTY_SPLIT_LEG: SplitLegDraft = { toAccountId: "", amount: "", description: "" };
+
+const TRANSFER_STATUSES = [
+  "draft",
+  "submitted",
+  "awaiting_approval",
+  "approved",
+  "pending",
+  "posted",
+  "failed",
+  "rejected",
+  "cancelled",
+] as const;
+
+const PAYMENT_CHANNEL_FILTERS = [
+  { value: "none", label: "Account transfer" },
+  { value: "MPESA", label: "M-Pesa" },
+  { value: "bagayi_inter_switch", label: "Bagayi InterSwitch" },
+] as const;
+
+type TransferListFilters = {
   status: string;
-  label?: string;
-  description?: string;
-  createdAt: string;
-  updatedAt?: string;
-  createdBy?: string;
-  createdByName?: string;
-  externalTransactionId?: string;
-  tbTransferId?: string;
-  parentTransferId?: string;
-  linkRole?: string;
-  paymentIntegrationLink?: string;
-  metadata?: Record<string, unknown>;
-  paymentChannel?: Record<string, unknown>;
+  type: string;
+  channel: string;
+  createdBy: string;
+  dateFrom: string;
+  dateTo: string;
+  minAmount: string;
+  maxAmount: string;
+  tag: string;
 };
 
-const TRANSFER_TYPES = ["payment", "fees", "refund", "adjustment"] as const;
-type TransferType = (typeof TRANSFER_TYPES)[number];
+const EMPTY_TRANSFER_FILTERS: TransferListFilters = {
+  status: "",
+  type: "",
+  channel: "",
+  createdBy: "",
+  dateFrom: "",
+  dateTo: "",
+  minAmount: "",
+  maxAmount: "",
+  tag: "",
+};
+
+// Build GET /api/transfers query params; date inputs are local days, sent as full-day ISO bounds
+function buildTransferQueryParams(
+  categoryId: string,
+  accountId: string,
+  filters: TransferListFilters,
+): URLSearchParams {
+  const params = new URLSearchParams({ categoryId });
+  if (accountId) params.set("accountId", accountId);
+  if (filters.status) params.set("status", filters.status);
+  if (filters.type) params.set("type", filters.type);
+  if (filters.channel) params.set("channel", filters.channel);
+  if (filters.createdBy) params.set("createdBy", filters.createdBy);
+  if (filters.dateFrom) params.set("dateFrom", new Date(`${filters.dateFrom}T00:00:00`).toISOString());
+  if (filters.dateTo) params.set("dateTo", new Date(`${filters.dateTo}T23:59:59.999`).toISOString());
+  if (filters.minAmount) params.set("minAmount", filters.minAmount);
+  if (filters.maxAmount) params.set("maxAmount", filters.maxAmount);
+  if (filters.tag) params.set("tags", filters.tag);
+  return params;
+}
 
 function formatNumber(value: number): string {
   // Use en-US locale for consistent formatting between server and client
@@ -72,39 +151,23 @@ function formatBalance(balance?: string): string {
   }
 }
 
-// Extract balance from transfer metadata based on selected account
-function getTransferBalance(
-  transfer: Transfer,
-  selectedAccountId: string
-): string | null {
-  if (!transfer.metadata || !selectedAccountId) return null;
-  
-  const transferBalance = transfer.metadata.transfer_balance as Record<string, unknown> | undefined;
-  if (!transferBalance) return null;
-  
-  // Check if this account is the from or to account
-  const isFromAccount = transfer.fromAccountId === selectedAccountId;
-  const isToAccount = transfer.toAccountId === selectedAccountId;
-  
-  if (isFromAccount) {
-    const fromBalance = transferBalance.from_account_balance as Record<string, unknown> | undefined;
-    if (fromBalance?.book_balance) {
-      // Handle decimal format like "48000dec"
-      const balanceStr = String(fromBalance.book_balance);
-      const numericPart = balanceStr.replace(/dec$/i, "");
-      return numericPart;
-    }
-  } else if (isToAccount) {
-    const toBalance = transferBalance.to_account_balance as Record<string, unknown> | undefined;
-    if (toBalance?.book_balance) {
-      // Handle decimal format like "-236089dec"
-      const balanceStr = String(toBalance.book_balance);
-      const numericPart = balanceStr.replace(/dec$/i, "");
-      return numericPart;
-    }
+function statusBadgeColors(status: string): { backgroundColor: string; color: string } {
+  switch (status) {
+    case "posted":
+      return { backgroundColor: "#d1fae5", color: "#065f46" };
+    case "pending":
+    case "awaiting_approval":
+      return { backgroundColor: "#fef3c7", color: "#92400e" };
+    case "draft":
+      return { backgroundColor: "#e5e7eb", color: "#374151" };
+    case "failed":
+    case "rejected":
+      return { backgroundColor: "#fee2e2", color: "#991b1b" };
+    case "cancelled":
+      return { backgroundColor: "#f3f4f6", color: "#6b7280" };
+    default:
+      return { backgroundColor: "#dbeafe", color: "#1e40af" };
   }
-  
-  return null;
 }
 
 function formatDate(dateString: string): string {
@@ -139,27 +202,73 @@ function formatDate(dateString: string): string {
 export default function TransactionsClient({
   accounts,
   categories,
-  transfers,
+  initialTransfers,
+  initialNextCursor,
   initialCategoryId,
+  initialSelectedTransfer,
   externalAccountId,
 }: {
   accounts: Account[];
   categories: Category[];
-  transfers: Transfer[];
+  initialTransfers: Transfer[];
+  initialNextCursor: string | null;
   initialCategoryId: string | null;
+  // Transfer whose details are open on load (see the transferId search param)
+  initialSelectedTransfer?: Transfer | null;
   externalAccountId?: string;
 }) {
   const router = useRouter();
   const [showModal, setShowModal] = useState(false);
   const [showTransactionMenu, setShowTransactionMenu] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showExportOptions, setShowExportOptions] = useState(false);
+  const [exporting, setExporting] = useState(false);
   const [modalMode, setModalMode] = useState<"manual" | "buygoods" | "sendmoney" | "paybill">("manual");
   const [error, setError] = useState<string | null>(null);
   const [isBusy, setIsBusy] = useState(false);
   const [selectedCategoryId, setSelectedCategoryId] = useState(initialCategoryId || (categories[0]?.id ?? ""));
   const [selectedAccountId, setSelectedAccountId] = useState<string>("");
+
+  // Paginated transfer list (first page comes from the server, further pages from /api/transfers)
+  const [transfers, setTransfers] = useState<Transfer[]>(initialTransfers);
+  const [nextCursor, setNextCursor] = useState<string | null>(initialNextCursor);
+  const [transferFilters, setTransferFilters] = useState<TransferListFilters>(EMPTY_TRANSFER_FILTERS);
+  const [loadingTransfers, setLoadingTransfers] = useState(false);
+  const [transfersError, setTransfersError] = useState<string | null>(null);
+  const transfersRequestRef = useRef(0);
+
+  // Tags used in the category (autocomplete and the tag filter), keyed by the category they were loaded for
+  const [loadedCategoryTags, setLoadedCategoryTags] = useState<{ categoryId: string; tags: TagUsage[] } | null>(null);
+  const [categoryTagsVersion, setCategoryTagsVersion] = useState(0);
+  // Transfers ticked in the table for bulk tagging
+  const [selectedTransferIds, setSelectedTransferIds] = useState<string[]>([]);
+  const [bulkTagText, setBulkTagText] = useState("");
+  const [bulkTagBusy, setBulkTagBusy] = useState(false);
+  const [bulkTagMessage, setBulkTagMessage] = useState<string | null>(null);
+  // Per-tag totals over the filtered list, keyed by the query they were loaded for
+  const [showTagTotals, setShowTagTotals] = useState(false);
+  const [tagTotals, setTagTotals] = useState<{ key: string; totals: TagTotal[] | null } | null>(null);
   
   // Detail modal state
-  const [selectedTransfer, setSelectedTransfer] = useState<Transfer | null>(null);
+  const [selectedTransfer, setSelectedTransfer] = useState<Transfer | null>(initialSelectedTransfer ?? null);
+  const [transferActionBusy, setTransferActionBusy] = useState<TransferAction | "delete" | null>(null);
+  const [transferActionError, setTransferActionError] = useState<string | null>(null);
+  // Reversals linked to the selected transfer, keyed by the transfer they were loaded for
+  const [linkedReversals, setLinkedReversals] = useState<{
+    transferId: string;
+    original: Transfer;
+    reversals: Transfer[];
+    refundable: number;
+  } | null>(null);
+  const [reversalsVersion, setReversalsVersion] = useState(0);
+  // Approval count of the selected transfer, keyed by the transfer it was loaded for
+  const [loadedApprovalCount, setLoadedApprovalCount] = useState<{ transferId: string; count: number } | null>(null);
+  const [showReversalModal, setShowReversalModal] = useState(false);
+
+  // Draft being edited in the create modal (null when creating a new transfer)
+  const [editingTransfer, setEditingTransfer] = useState<Transfer | null>(null);
+  // Non-string metadata of the edited draft that the form cannot show but must keep
+  const [preservedMetadata, setPreservedMetadata] = useState<Record<string, unknown>>({});
 
   // Form states
   const [fromAccountId, setFromAccountId] = useState("");
@@ -173,9 +282,18 @@ export default function TransactionsClient({
   const [transferType, setTransferType] = useState<TransferType>("payment");
   const [description, setDescription] = useState("");
   const [label, setLabel] = useState("");
+  const [transferTags, setTransferTags] = useState<string[]>([]);
   const [transactionDate, setTransactionDate] = useState("");
   const [transactionTime, setTransactionTime] = useState("");
   const [submitDraft, setSubmitDraft] = useState(true);
+  // Split mode of the manual form: the amount is divided across several destination accounts
+  const [splitMode, setSplitMode] = useState(false);
+  const [splitLegs, setSplitLegs] = useState<SplitLegDraft[]>([]);
+  const [expandedSplitIds, setExpandedSplitIds] = useState<string[]>([]);
+  // Repeat mode: the form creates a scheduled transfer instead of a single transfer
+  const [repeatEnabled, setRepeatEnabled] = useState(false);
+  const [scheduleDraft, setScheduleDraft] = useState<ScheduleDraft | null>(null);
+  const [schedulesVersion, setSchedulesVersion] = useState(0);
   
   // Account balances (preloaded in background on mount)
   const [accountBalances, setAccountBalances] = useState<Record<string, string>>({});
@@ -203,6 +321,12 @@ export default function TransactionsClient({
   };
   const [frequentRecipients, setFrequentRecipients] = useState<FrequentRecipient[]>([]);
   const [loadingFrequent, setLoadingFrequent] = useState(false);
+  // Saved payee last picked in an M-Pesa modal; linked to the transfer while its details are unchanged
+  const [pickedPayee, setPickedPayee] = useState<Payee | null>(null);
+  // Expense account for the payout's M-Pesa charge: undefined keeps the integration default, null skips it
+  const [feeAccountChoice, setFeeAccountChoice] = useState<string | null | undefined>(undefined);
+  // Receipts picked in the create modal, uploaded once the transfer exists
+  const [pendingAttachments, setPendingAttachments] = useState<File[]>([]);
   
   // Fetch frequent recipients based on payment action
   const fetchFrequentRecipients = useCallback(async (action: "BusinessPayment" | "BusinessBuyGoods" | "BusinessPayBill") => {
@@ -235,6 +359,7 @@ export default function TransactionsClient({
 
   // Filter accounts by selected category
   const categoryAccounts = accounts.filter((acc) => acc.categoryId === selectedCategoryId);
+  const phoneCheck = normalizeMsisdn(phoneNumber);
   
   // Get from and to account objects
   const fromAccount = accounts.find((acc) => acc.id === fromAccountId);
@@ -301,8 +426,194 @@ export default function TransactionsClient({
 
   function handleAccountChange(accountId: string) {
     setSelectedAccountId(accountId);
+    void loadTransfers({ accountId });
+  }
+
+  // Download the list as currently filtered; fetched rather than navigated to so errors show inline
+  async function exportTransfers(format: ExportFormat) {
+    if (!selectedCategoryId) return;
+    const params = buildTransferQueryParams(selectedCategoryId, selectedAccountId, transferFilters);
+    params.set("format", format);
+
+    setExporting(true);
+    setTransfersError(null);
+    try {
+      const res = await fetch(`/api/transfers/export?${params.toString()}`);
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        setTransfersError((data && (data.reason || data.error)) || "Failed to export transactions");
+        return;
+      }
+      const blob = await res.blob();
+      const disposition = res.headers.get("Content-Disposition") || "";
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `transfers.${format}`;
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      setTransfersError("Failed to export transactions");
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  // Load the first page for the given (or current) filters, or append the next page
+  async function loadTransfers(options: {
+    accountId?: string;
+    filters?: TransferListFilters;
+    append?: boolean;
+  } = {}) {
+    if (!selectedCategoryId) return;
+    const accountId = options.accountId ?? selectedAccountId;
+    const filters = options.filters ?? transferFilters;
+    const params = buildTransferQueryParams(selectedCategoryId, accountId, filters);
+    if (options.append) {
+      if (!nextCursor) return;
+      params.set("cursor", nextCursor);
+    }
+
+    // Ignore responses that arrive after a newer request was started
+    const requestId = ++transfersRequestRef.current;
+    setLoadingTransfers(true);
+    setTransfersError(null);
+    if (!options.append) setSelectedTransferIds([]);
+    try {
+      const res = await fetch(`/api/transfers?${params.toString()}`);
+      const data = await res.json().catch(() => null);
+      if (requestId !== transfersRequestRef.current) return;
+      if (!res.ok) {
+        setTransfersError((data && (data.reason || data.error)) || "Failed to load transactions");
+        return;
+      }
+      const page: Transfer[] = Array.isArray(data?.transfers) ? data.transfers : [];
+      setTransfers((prev) => (options.append ? [...prev, ...page] : page));
+      setNextCursor(typeof data?.nextCursor === "string" ? data.nextCursor : null);
+    } catch {
+      if (requestId === transfersRequestRef.current) setTransfersError("Failed to load transactions");
+    } finally {
+      if (requestId === transfersRequestRef.current) setLoadingTransfers(false);
+    }
+  }
+
+  function applyTransferFilters(next: TransferListFilters) {
+    setTransferFilters(next);
+    void loadTransfers({ filters: next });
+  }
+
+  const hasActiveTransferFilters = Object.values(transferFilters).some((v) => v !== "");
+
+  // Reloaded after tags were saved (the previous list stays in place meanwhile), so new tags show up
+  // in autocomplete and the filter
+  useEffect(() => {
+    if (!selectedCategoryId) return;
+    let cancelled = false;
+    fetch(`/api/transfers/tags?${new URLSearchParams({ categoryId: selectedCategoryId }).toString()}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled) {
+          setLoadedCategoryTags({ categoryId: selectedCategoryId, tags: Array.isArray(data?.tags) ? data.tags : [] });
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setLoadedCategoryTags({ categoryId: selectedCategoryId, tags: [] });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedCategoryId, categoryTagsVersion]);
+
+  const categoryTags = loadedCategoryTags?.categoryId === selectedCategoryId ? loadedCategoryTags.tags : [];
+
+  const tagTotalsQuery =
+    showTagTotals && selectedCategoryId
+      ? buildTransferQueryParams(selectedCategoryId, selectedAccountId, transferFilters).toString()
+      : null;
+  const tagTotalsKey = tagTotalsQuery !== null ? `${tagTotalsQuery}:${categoryTagsVersion}` : null;
+  useEffect(() => {
+    if (tagTotalsQuery === null || !tagTotalsKey) return;
+    let cancelled = false;
+    fetch(`/api/transfers/tags/totals?${tagTotalsQuery}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled) setTagTotals({ key: tagTotalsKey, totals: Array.isArray(data?.totals) ? data.totals : null });
+      })
+      .catch(() => {
+        if (!cancelled) setTagTotals({ key: tagTotalsKey, totals: null });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [tagTotalsQuery, tagTotalsKey]);
+
+  const currentTagTotals = tagTotals && tagTotals.key === tagTotalsKey ? tagTotals : null;
+
+  function toggleTransferSelection(transferId: string) {
+    setBulkTagMessage(null);
+    setSelectedTransferIds((prev) =>
+      prev.includes(transferId)
+        ? prev.filter((id) => id !== transferId)
+        : prev.length >= MAX_BULK_TAG_TRANSFERS
+          ? prev
+          : [...prev, transferId],
+    );
   }
 
+  const allTransfersSelected = transfers.length > 0 && transfers.every((t) => selectedTransferIds.includes(t.id));
+
+  function toggleAllTransfers() {
+    setBulkTagMessage(null);
+    setSelectedTransferIds(allTransfersSelected ? [] : transfers.slice(0, MAX_BULK_TAG_TRANSFERS).map((t) => t.id));
+  }
+
+  // Add or remove the typed tag on every ticked transfer
+  async function bulkUpdateTags(mode: "add" | "remove") {
+    const check = validateTag(bulkTagText);
+    if (check.status === "invalid") {
+      setBulkTagMessage(check.error);
+      return;
+    }
+
+    setBulkTagBusy(true);
+    setBulkTagMessage(null);
+    try {
+      const res = await fetch("/api/transfers/tags", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ transferIds: selectedTransferIds, [mode]: [check.tag] }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setBulkTagMessage((data && (data.error || data.reason)) || "Failed to update tags");
+        return;
+      }
+      const updated = typeof data?.updated === "number" ? data.updated : 0;
+      const skipped = typeof data?.skipped === "number" ? data.skipped : 0;
+      setBulkTagText("");
+      setCategoryTagsVersion((v) => v + 1);
+      await loadTransfers();
+      setBulkTagMessage(
+        `${mode === "add" ? "Tagged" : "Untagged"} ${updated} transaction${updated === 1 ? "" : "s"}` +
+          (skipped ? ` · ${skipped} skipped (no permission or already at ${MAX_TAGS_PER_TRANSFER} tags)` : ""),
+      );
+    } catch {
+      setBulkTagMessage("Failed to update tags");
+    } finally {
+      setBulkTagBusy(false);
+    }
+  }
+
+  // Users who created the loaded transfers, for the "Created by" filter
+  const transferCreators = Array.from(
+    new Map(
+      transfers
+        .filter((t) => t.createdBy)
+        .map((t) => [t.createdBy as string, t.createdByName || (t.createdBy as string)]),
+    ).entries(),
+  );
+
   // Fetch account balances using batch API (can be called on demand or preloaded)
   const fetchAccountBalances = useCallback(async () => {
     if (loadingBalances || balancesLoaded) return;
@@ -354,14 +665,66 @@ export default function TransactionsClient({
     return () => clearTimeout(timer);
   }, [fetchAccountBalances]);
 
-  // Filter transfers by selected account (if any)
-  const filteredTransfers = selectedAccountId 
-    ? transfers.filter((t) => t.fromAccountId === selectedAccountId || t.toAccountId === selectedAccountId)
-    : transfers;
+  // Load the reversal chain of the selected transfer when it is posted or is a reversal itself
+  const selectedTransferId = selectedTransfer?.id;
+  const selectedHasReversals =
+    selectedTransfer?.status === "posted" || selectedTransfer?.linkRole === REVERSAL_ROLE;
+  useEffect(() => {
+    if (!selectedTransferId || !selectedHasReversals) return;
+    let cancelled = false;
+    fetch(`/api/transfers/${encodeURIComponent(selectedTransferId)}/reversal`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (cancelled || !data?.original) return;
+        setLinkedReversals({
+          transferId: selectedTransferId,
+          original: data.original,
+          reversals: Array.isArray(data.reversals) ? data.reversals : [],
+          refundable: typeof data.refundable === "number" ? data.refundable : 0,
+        });
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedTransferId, selectedHasReversals, reversalsVersion]);
+
+  const selectedReversals =
+    selectedTransfer && linkedReversals?.transferId === selectedTransfer.id ? linkedReversals : null;
+
+  // List rows do not carry the approval count; load it for a selected transfer awaiting approval
+  const selectedAwaitingApproval = selectedTransfer?.status === "awaiting_approval";
+  const selectedUpdatedAt = selectedTransfer?.updatedAt;
+  useEffect(() => {
+    if (!selectedTransferId || !selectedAwaitingApproval) return;
+    let cancelled = false;
+    fetch(`/api/transfers/${encodeURIComponent(selectedTransferId)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (cancelled || typeof data?.transfer?.approvalCount !== "number") return;
+        setLoadedApprovalCount({ transferId: selectedTransferId, count: data.transfer.approvalCount });
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedTransferId, selectedAwaitingApproval, selectedUpdatedAt]);
+
+  const selectedApprovalCount =
+    selectedTransfer?.approvalCount ??
+    (loadedApprovalCount?.transferId === selectedTransfer?.id ? loadedApprovalCount?.count : undefined);
+
+  function handleReversalCreated() {
+    setShowReversalModal(false);
+    setReversalsVersion((v) => v + 1);
+    void loadTransfers();
+  }
 
   function openModal() {
     setModalMode("manual");
     setShowModal(true);
+    setSplitMode(false);
+    setSplitLegs([]);
     // If account filter is selected, pre-select it as From Account
     setFromAccountId(selectedAccountId || "");
     setToAccountId("");
@@ -371,6 +734,7 @@ export default function TransactionsClient({
     setTransferType("payment");
     setDescription("");
     setLabel("");
+    setTransferTags([]);
     // Set current date and time in local timezone
     const now = new Date();
     // Format date as YYYY-MM-DD in local timezone
@@ -380,16 +744,163 @@ export default function TransactionsClient({
     setTransactionDate(`${year}-${month}-${day}`);
     setTransactionTime(now.toTimeString().slice(0, 5)); // Current time in HH:MM format
     setCustomMetadata([]);
+    setPreservedMetadata({});
     setExtMetaId("");
     setExtMetaName("");
     setExtMetaType("");
     setExternalTransactionId("");
     setSubmitDraft(true);
+    setEditingTransfer(null);
     setError(null);
     // Lazy-load account balances when modal opens
     void fetchAccountBalances();
   }
 
+  // Open the modal matching the draft's channel, pre-filled from the selected transfer
+  function openEditModal(transfer: Transfer) {
+    const channel = transfer.paymentChannel;
+    const channelId = typeof channel?.channel_id === "string" ? channel.channel_id : undefined;
+    const channelAction = typeof channel?.action === "string" ? channel.action : undefined;
+    const channelToAccount = channel?.to_account != null ? String(channel.to_account) : "";
+
+    setSelectedTransfer(null);
+    setEditingTransfer(transfer);
+    setFromAccountId(transfer.fromAccountId);
+    setToAccountId(channelId === "bagayi_inter_switch" ? channelToAccount : transfer.toAccountId || "");
+    setBuyGoodsNumber("");
+    setPaybillNumber("");
+    setAccountReference("");
+    setPhoneNumber("");
+
+    if (channelId === "MPESA" && channelAction === "BusinessPayment") {
+      setModalMode("sendmoney");
+      setPhoneNumber(channelToAccount);
+    } else if (channelId === "MPESA" && channelAction === "BusinessBuyGoods") {
+      setModalMode("buygoods");
+      setBuyGoodsNumber(channelToAccount);
+    } else if (channelId === "MPESA" && channelAction === "BusinessPayBill") {
+      setModalMode("paybill");
+      setPaybillNumber(channelToAccount);
+      setAccountReference(typeof channel?.account_reference === "string" ? channel.account_reference : "");
+    } else {
+      setModalMode("manual");
+    }
+
+    // Pick the integration the draft was routed through for bagayi_inter_switch transfers
+    const paymentIntegration = channel?.payment_integration != null ? String(channel.payment_integration) : "";
+    setSelectedPaybillType(
+      paymentIntegration && categories.some((cat) => cat.b2cPaybillId === paymentIntegration) ? "b2c" : "main",
+    );
+
+    const rawAmount = String(transfer.amount);
+    const amountParts = rawAmount.split(".");
+    amountParts[0] = amountParts[0].replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+    setAmount(rawAmount);
+    setDisplayAmount(amountParts.join("."));
+    setTransferType((TRANSFER_TYPES as readonly string[]).includes(transfer.type) ? (transfer.type as TransferType) : "payment");
+    setDescription(transfer.description || "");
+    setLabel(transfer.label || "");
+    setTransferTags(transfer.tags || []);
+
+    // Date and time in local timezone
+    const created = transfer.createdAt ? new Date(transfer.createdAt) : new Date();
+    const year = created.getFullYear();
+    const month = String(created.getMonth() + 1).padStart(2, "0");
+    const day = String(created.getDate()).padStart(2, "0");
+    setTransactionDate(`${year}-${month}-${day}`);
+    setTransactionTime(created.toTimeString().slice(0, 5));
+
+    // Split metadata into the external account fields, editable string entries and preserved entries
+    const { external_account: externalAccountMeta, ...otherMetadata } = transfer.metadata || {};
+    const externalAccount = (externalAccountMeta || {}) as Record<string, unknown>;
+    setExtMetaId(typeof externalAccount.id === "string" ? externalAccount.id : "");
+    setExtMetaName(typeof externalAccount.name === "string" ? externalAccount.name : "");
+    setExtMetaType(typeof externalAccount.type === "string" ? externalAccount.type : "");
+    const editable: MetadataEntry[] = [];
+    const preserved: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(otherMetadata)) {
+      if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+        editable.push({ key, value: String(value) });
+      } else {
+        preserved[key] = value;
+      }
+    }
+    setCustomMetadata(editable);
+    setPreservedMetadata(preserved);
+    setExternalTransactionId(transfer.externalTransactionId || "");
+
+    setSubmitDraft(false);
+    setError(null);
+    setShowModal(true);
+    void fetchAccountBalances();
+  }
+
+  async function handleDeleteDraft(transfer: Transfer) {
+    if (!confirm("Are you sure you want to delete this draft transfer?")) {
+      return;
+    }
+
+    setTransferActionError(null);
+    setTransferActionBusy("delete");
+
+    try {
+      const res = await fetch(`/api/transfers/${encodeURIComponent(transfer.id)}`, { method: "DELETE" });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setTransferActionError((data && (data.reason || data.error)) || "Failed to delete transfer");
+        return;
+      }
+
+      setSelectedTransfer(null);
+      setTransfers((prev) => prev.filter((t) => t.id !== transfer.id));
+    } catch {
+      setTransferActionError("Failed to delete transfer");
+    } finally {
+      setTransferActionBusy(null);
+    }
+  }
+
+  // Create a new transfer, replace the content of the draft being edited, or (repeat mode) create a
+  // scheduled transfer from the same payload
+  function submitTransferRequest(body: Record<string, unknown>): Promise<Response> {
+    if (repeatEnabled && scheduleDraft && !editingTransfer) {
+      // Occurrences carry their own dates, and an external transaction ID belongs to a single transfer
+      const template = { ...body };
+      delete template.createdAt;
+      delete template.externalTransactionId;
+      return fetch("/api/scheduled-transfers", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...template,
+          schedule: {
+            frequency: scheduleDraft.frequency,
+            interval: parseInt(scheduleDraft.interval, 10) || 1,
+            dayOfMonth: scheduleDraft.frequency === "monthly" ? parseInt(scheduleDraft.dayOfMonth, 10) || undefined : undefined,
+            startAt: new Date(`${scheduleDraft.startDate}T${scheduleDraft.startTime || "00:00"}:00`).toISOString(),
+            endAt: scheduleDraft.endDate ? new Date(`${scheduleDraft.endDate}T23:59:59`).toISOString() : undefined,
+          },
+        }),
+      }).then((res) => {
+        if (res.ok) setSchedulesVersion((v) => v + 1);
+        return res;
+      });
+    }
+    if (editingTransfer) {
+      const metadata = { ...preservedMetadata, ...((body.metadata as Record<string, unknown> | undefined) || {}) };
+      return fetch(`/api/transfers/${encodeURIComponent(editingTransfer.id)}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...body, metadata }),
+      });
+    }
+    return fetch("/api/transfers", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  }
+
   function addMetadataEntry() {
     setCustomMetadata([...customMetadata, { key: "", value: "" }]);
   }
@@ -406,10 +917,208 @@ export default function TransactionsClient({
 
   function closeModal() {
     setShowModal(false);
+    setPickedPayee(null);
+    setFeeAccountChoice(undefined);
+    setPendingAttachments([]);
+    if (transferTags.length > 0) setCategoryTagsVersion((v) => v + 1);
+    setTransferTags([]);
+    setSplitMode(false);
+    setRepeatEnabled(false);
+    setEditingTransfer(null);
+    setError(null);
+  }
+
+  function addPendingAttachments(files: FileList | null) {
+    if (!files) return;
+    const accepted: File[] = [];
+    for (const file of Array.from(files)) {
+      const check = validateAttachmentFile(file);
+      if (check.status === "invalid") {
+        setError(`${file.name}: ${check.error}`);
+        return;
+      }
+      accepted.push(file);
+    }
+    const next = [...pendingAttachments, ...accepted];
+    if (next.length > MAX_ATTACHMENTS_PER_TRANSFER) {
+      setError(`A transfer can have at most ${MAX_ATTACHMENTS_PER_TRANSFER} attachments`);
+      return;
+    }
+    setError(null);
+    setPendingAttachments(next);
+  }
+
+  // Upload the picked receipts to the transfer the modal just created. The transfer exists either
+  // way, so failures are reported without keeping the modal open (resubmitting would duplicate it).
+  async function uploadPendingAttachments(data: { transfer?: { id?: string } } | null) {
+    const transferId = data?.transfer?.id;
+    if (!transferId || pendingAttachments.length === 0) return;
+    const errors: string[] = [];
+    for (const file of pendingAttachments) {
+      const uploadError = await uploadTransferAttachment(transferId, file);
+      if (uploadError) errors.push(uploadError);
+    }
+    if (errors.length > 0) alert(`The transfer was saved, but some attachments failed to upload:\n${errors.join("\n")}`);
+  }
+
+  function pickPayee(payee: Payee) {
+    setPickedPayee(payee);
+    setLabel(payee.name);
+    if (payee.action === "BusinessPayment") setPhoneNumber(payee.number);
+    else if (payee.action === "BusinessBuyGoods") setBuyGoodsNumber(payee.number);
+    else {
+      setPaybillNumber(payee.number);
+      setAccountReference(payee.accountReference || "");
+    }
+  }
+
+  // Metadata linking the transfer to the picked payee, if the recipient is still that payee's
+  function payeeMetadata(action: PayeeAction, number: string, reference?: string): Record<string, unknown> | undefined {
+    if (!pickedPayee || payeeKey(action, number.trim(), reference?.trim()) !== payeeKey(pickedPayee.action, pickedPayee.number, pickedPayee.accountReference)) {
+      return undefined;
+    }
+    return {
+      payee_id: pickedPayee.id,
+      ...(pickedPayee.defaultExpenseAccountId ? { expense_account_id: pickedPayee.defaultExpenseAccountId } : {}),
+    };
+  }
+
+  async function handleTransferAction(transfer: Transfer, action: TransferAction) {
+    let reason: string | undefined;
+    if (action === "reject") {
+      const input = prompt("Reason for rejecting this transfer (optional):");
+      if (input === null) return;
+      reason = input;
+    } else if (action === "cancel" && !confirm("Are you sure you want to cancel this pending transfer?")) {
+      return;
+    }
+
+    setTransferActionError(null);
+    setTransferActionBusy(action);
+
+    try {
+      const res = await fetch(`/api/transfers/${encodeURIComponent(transfer.id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, reason }),
+      });
+
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setTransferActionError((data && (data.reason || data.error)) || `Failed to ${action} transfer`);
+        return;
+      }
+
+      const updated = data.transfer as Transfer;
+      setSelectedTransfer(updated);
+      if (updated.linkRole === SPLIT_PARENT_ROLE) {
+        // The legs moved along with the parent
+        void loadTransfers();
+      } else {
+        setTransfers((prev) => prev.map((t) => (t.id === updated.id ? updated : t)));
+      }
+    } catch {
+      setTransferActionError(`Failed to ${action} transfer`);
+    } finally {
+      setTransferActionBusy(null);
+    }
+  }
+
+  function toggleRepeat(enabled: boolean) {
+    setRepeatEnabled(enabled);
+    if (!enabled) return;
+    const now = new Date();
+    const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+    setScheduleDraft({
+      frequency: "monthly",
+      interval: "1",
+      dayOfMonth: String(now.getDate()),
+      startDate: today,
+      startTime: "08:00",
+      endDate: "",
+    });
+  }
+
+  function updateScheduleDraft(field: keyof ScheduleDraft, value: string) {
+    setScheduleDraft((prev) => (prev ? { ...prev, [field]: value } : prev));
+  }
+
+  function toggleSplitMode(enabled: boolean) {
+    setRepeatEnabled(false);
+    setSplitMode(enabled);
+    setToAccountId("");
+    setSplitLegs(enabled ? [{ ...EMPTY_SPLIT_LEG }, { ...EMPTY_SPLIT_LEG }] : []);
+  }
+
+  function updateSplitLeg(index: number, field: keyof SplitLegDraft, value: string) {
+    setSplitLegs((prev) => prev.map((leg, i) => (i === index ? { ...leg, [field]: value } : leg)));
+  }
+
+  function splitLegInputs() {
+    return splitLegs.map((leg) => ({
+      toAccountId: leg.toAccountId,
+      amount: parseFloat(leg.amount.replace(/,/g, "")),
+      description: leg.description.trim() || undefined,
+    }));
+  }
+
+  async function handleCreateSplit() {
+    const numAmount = parseFloat(amount);
+    if (!fromAccountId || isNaN(numAmount) || numAmount <= 0) {
+      setError("Please choose a source account and a positive amount");
+      return;
+    }
+
+    const legs = splitLegInputs();
+    const validation = validateSplitLegs({ fromAccountId, amount: numAmount, legs });
+    if (validation.status === "invalid") {
+      setError(validation.error);
+      return;
+    }
+
     setError(null);
+    setIsBusy(true);
+
+    try {
+      let createdAt: string | undefined;
+      if (transactionDate) {
+        createdAt = new Date(`${transactionDate}T${transactionTime || "00:00"}:00`).toISOString();
+      }
+
+      const res = await submitTransferRequest({
+        fromAccountId,
+        amount: numAmount,
+        type: transferType,
+        status: submitDraft ? "submitted" : "draft",
+        description: description.trim() || undefined,
+        label: label.trim() || undefined,
+        tags: transferTags,
+        createdAt,
+        legs,
+      });
+
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError((data && (data.reason || data.error)) || "Failed to create split transfer");
+        return;
+      }
+
+      await uploadPendingAttachments(data);
+      closeModal();
+      void loadTransfers();
+    } catch {
+      setError("Failed to create split transfer");
+    } finally {
+      setIsBusy(false);
+    }
   }
 
   async function handleCreateTransfer() {
+    if (splitMode) {
+      await handleCreateSplit();
+      return;
+    }
+
     if (!fromAccountId || !toAccountId || !amount) {
       setError("Please fill in all required fields");
       return;
@@ -432,7 +1141,7 @@ export default function TransactionsClient({
         setError("External account details (ID, Name, and Type) are required when transferring to/from an external account");
         return;
       }
-      if (!externalTransactionId.trim()) {
+      if (!repeatEnabled && !externalTransactionId.trim()) {
         setError("External Transaction ID is required when transferring to/from an external account");
         return;
       }
@@ -491,6 +1200,7 @@ export default function TransactionsClient({
         status: string;
         description?: string;
         label?: string;
+        tags?: string[];
         createdAt?: string;
         metadata?: Record<string, unknown>;
         externalTransactionId?: string;
@@ -508,6 +1218,7 @@ export default function TransactionsClient({
         status: submitDraft ? "submitted" : "draft",
         description: description.trim() || undefined,
         label: label.trim() || undefined,
+        tags: transferTags,
         createdAt,
         metadata,
         // Include externalTransactionId for: external account transfers OR cross-category transfers to linked categories
@@ -539,11 +1250,7 @@ export default function TransactionsClient({
         requestBody.toAccountId = toAccountId;
       }
 
-      const res = await fetch("/api/transfers", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(requestBody),
-      });
+      const res = await submitTransferRequest(requestBody);
 
       const data = await res.json().catch(() => null);
       if (!res.ok) {
@@ -551,8 +1258,9 @@ export default function TransactionsClient({
         return;
       }
 
+      await uploadPendingAttachments(data);
       closeModal();
-      router.refresh();
+      void loadTransfers();
     } catch {
       setError("Failed to create transfer");
     } finally {
@@ -566,6 +1274,12 @@ export default function TransactionsClient({
       return;
     }
 
+    const recipient = validateMpesaRecipient({ action: "BusinessBuyGoods", toAccount: buyGoodsNumber });
+    if (recipient.status === "invalid") {
+      setError(recipient.error);
+      return;
+    }
+
     const numAmount = parseFloat(amount);
     if (isNaN(numAmount) || numAmount <= 0) {
       setError("Amount must be a positive number");
@@ -576,23 +1290,22 @@ export default function TransactionsClient({
     setIsBusy(true);
 
     try {
-      const res = await fetch("/api/transfers", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          fromAccountId,
-          // No toAccountId for buy goods
-          amount: numAmount,
-          type: transferType,
-          status: submitDraft ? "submitted" : "draft",
-          description: description.trim() || undefined,
-          label: label.trim() || undefined,
-          paymentChannel: {
-            channelId: "MPESA",
-            action: "BusinessBuyGoods",
-            toAccount: buyGoodsNumber.trim(),
-          },
-        }),
+      const res = await submitTransferRequest({
+        fromAccountId,
+        // No toAccountId for buy goods
+        amount: numAmount,
+        type: transferType,
+        status: submitDraft ? "submitted" : "draft",
+        description: description.trim() || undefined,
+        label: label.trim() || undefined,
+        tags: transferTags,
+        paymentChannel: {
+          channelId: "MPESA",
+          action: "BusinessBuyGoods",
+          toAccount: recipient.toAccount,
+        },
+        metadata: payeeMetadata("BusinessBuyGoods", recipient.toAccount),
+        feeExpenseAccountId: feeAccountChoice,
       });
 
       const data = await res.json().catch(() => null);
@@ -601,8 +1314,9 @@ export default function TransactionsClient({
         return;
       }
 
+      await uploadPendingAttachments(data);
       closeModal();
-      router.refresh();
+      void loadTransfers();
     } catch {
       setError("Failed to create buy goods payment");
     } finally {
@@ -616,6 +1330,12 @@ export default function TransactionsClient({
       return;
     }
 
+    const recipient = validateMpesaRecipient({ action: "BusinessPayBill", toAccount: paybillNumber, accountReference });
+    if (recipient.status === "invalid") {
+      setError(recipient.error);
+      return;
+    }
+
     const numAmount = parseFloat(amount);
     if (isNaN(numAmount) || numAmount <= 0) {
       setError("Amount must be a positive number");
@@ -626,24 +1346,23 @@ export default function TransactionsClient({
     setIsBusy(true);
 
     try {
-      const res = await fetch("/api/transfers", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          fromAccountId,
-          // No toAccountId for paybill
-          amount: numAmount,
-          type: transferType,
-          status: submitDraft ? "submitted" : "draft",
-          description: description.trim() || undefined,
-          label: label.trim() || undefined,
-          paymentChannel: {
-            channelId: "MPESA",
-            action: "BusinessPayBill",
-            toAccount: paybillNumber.trim(),
-            accountReference: accountReference.trim(),
-          },
-        }),
+      const res = await submitTransferRequest({
+        fromAccountId,
+        // No toAccountId for paybill
+        amount: numAmount,
+        type: transferType,
+        status: submitDraft ? "submitted" : "draft",
+        description: description.trim() || undefined,
+        label: label.trim() || undefined,
+        tags: transferTags,
+        paymentChannel: {
+          channelId: "MPESA",
+          action: "BusinessPayBill",
+          toAccount: recipient.toAccount,
+          accountReference: recipient.accountReference,
+        },
+        metadata: payeeMetadata("BusinessPayBill", recipient.toAccount, recipient.accountReference),
+        feeExpenseAccountId: feeAccountChoice,
       });
 
       const data = await res.json().catch(() => null);
@@ -652,8 +1371,9 @@ export default function TransactionsClient({
         return;
       }
 
+      await uploadPendingAttachments(data);
       closeModal();
-      router.refresh();
+      void loadTransfers();
     } catch {
       setError("Failed to create paybill payment");
     } finally {
@@ -667,20 +1387,10 @@ export default function TransactionsClient({
       return;
     }
 
-    // Validate Kenyan phone number format: must be 12 digits starting with 254
-    const trimmedPhone = phoneNumber.trim();
-    if (trimmedPhone.length !== 12) {
-      setError("Phone number must be 12 digits (e.g., 254712345678)");
-      return;
-    }
-    if (!trimmedPhone.startsWith("254")) {
-      setError("Phone number must start with 254 (Kenya country code)");
-      return;
-    }
-    // Check the digit after 254 - valid prefixes are 7XX, 1XX for Kenyan mobile numbers
-    const afterCountryCode = trimmedPhone.substring(3);
-    if (!/^[17]\d{8}$/.test(afterCountryCode)) {
-      setError("Invalid Kenyan mobile number. Must be 254 followed by 7XXXXXXXX or 1XXXXXXXX");
+    // Accepts 07XX / 01XX / +254 / 254 forms; the normalised 254XXXXXXXXX is what gets sent
+    const msisdn = normalizeMsisdn(phoneNumber);
+    if (msisdn.status === "invalid") {
+      setError(msisdn.error);
       return;
     }
 
@@ -694,23 +1404,22 @@ export default function TransactionsClient({
     setIsBusy(true);
 
     try {
-      const res = await fetch("/api/transfers", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          fromAccountId,
-          // No toAccountId for send money
-          amount: numAmount,
-          type: transferType,
-          status: submitDraft ? "submitted" : "draft",
-          description: description.trim() || undefined,
-          label: label.trim() || undefined,
-          paymentChannel: {
-            channelId: "MPESA",
-            action: "BusinessPayment",
-            toAccount: phoneNumber.trim(),
-          },
-        }),
+      const res = await submitTransferRequest({
+        fromAccountId,
+        // No toAccountId for send money
+        amount: numAmount,
+        type: transferType,
+        status: submitDraft ? "submitted" : "draft",
+        description: description.trim() || undefined,
+        label: label.trim() || undefined,
+        tags: transferTags,
+        paymentChannel: {
+          channelId: "MPESA",
+          action: "BusinessPayment",
+          toAccount: msisdn.value,
+        },
+        metadata: payeeMetadata("BusinessPayment", msisdn.value),
+        feeExpenseAccountId: feeAccountChoice,
       });
 
       const data = await res.json().catch(() => null);
@@ -719,8 +1428,9 @@ export default function TransactionsClient({
         return;
       }
 
+      await uploadPendingAttachments(data);
       closeModal();
-      router.refresh();
+      void loadTransfers();
     } catch {
       setError("Failed to create send money payment");
     } finally {
@@ -804,7 +1514,7 @@ export default function TransactionsClient({
                   setShowModal(true);
                   // If account filter is selected, pre-select it as From Account
                   setFromAccountId(selectedAccountId || "");
-                  setPhoneNumber("254");
+                  setPhoneNumber("");
                   setAmount("");
                   setDisplayAmount("");
                   setTransferType("payment");
@@ -909,6 +1619,84 @@ export default function TransactionsClient({
               >
                 📋 Pay via Paybill
               </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setShowTransactionMenu(false);
+                  setShowImportModal(true);
+                }}
+                style={{
+                  display: "block",
+                  width: "100%",
+                  padding: "12px 16px",
+                  textAlign: "left",
+                  border: "none",
+                  background: "none",
+                  cursor: "pointer",
+                  fontSize: "14px",
+                  color: "#000000",
+                  fontWeight: 500,
+                  borderTop: "1px solid var(--border)",
+                }}
+                onMouseEnter={(e) => (e.currentTarget.style.backgroundColor = "var(--bg-hover, #f5f5f5)")}
+                onMouseLeave={(e) => (e.currentTarget.style.backgroundColor = "transparent")}
+              >
+                📥 Import Statement (CSV)
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowExportOptions(!showExportOptions)}
+                disabled={exporting || !selectedCategoryId}
+                style={{
+                  display: "block",
+                  width: "100%",
+                  padding: "12px 16px",
+                  textAlign: "left",
+                  border: "none",
+                  background: "none",
+                  cursor: "pointer",
+                  fontSize: "14px",
+                  color: "#000000",
+                  fontWeight: 500,
+                  borderTop: "1px solid var(--border)",
+                }}
+                onMouseEnter={(e) => (e.currentTarget.style.backgroundColor = "var(--bg-hover, #f5f5f5)")}
+                onMouseLeave={(e) => (e.currentTarget.style.backgroundColor = "transparent")}
+              >
+                {exporting ? "📤 Exporting…" : "📤 Export"}
+              </button>
+              {showExportOptions &&
+                ([
+                  { format: "csv", label: "CSV" },
+                  { format: "xlsx", label: "Excel (XLSX)" },
+                  { format: "ofx", label: selectedAccountId ? "OFX" : "OFX (select an account)" },
+                ] as Array<{ format: ExportFormat; label: string }>).map((option) => (
+                  <button
+                    key={option.format}
+                    type="button"
+                    onClick={() => {
+                      setShowTransactionMenu(false);
+                      setShowExportOptions(false);
+                      void exportTransfers(option.format);
+                    }}
+                    disabled={exporting || (option.format === "ofx" && !selectedAccountId)}
+                    style={{
+                      display: "block",
+                      width: "100%",
+                      padding: "8px 16px 8px 40px",
+                      textAlign: "left",
+                      border: "none",
+                      background: "none",
+                      cursor: "pointer",
+                      fontSize: "13px",
+                      color: option.format === "ofx" && !selectedAccountId ? "#9ca3af" : "#000000",
+                    }}
+                    onMouseEnter={(e) => (e.currentTarget.style.backgroundColor = "var(--bg-hover, #f5f5f5)")}
+                    onMouseLeave={(e) => (e.currentTarget.style.backgroundColor = "transparent")}
+                  >
+                    {option.label}
+                  </button>
+                ))}
             </div>
           )}
         </div>
@@ -998,29 +1786,342 @@ export default function TransactionsClient({
             </div>
           </div>
         )}
+
+        {selectedAccountId && (
+          <div style={{ display: "flex", alignItems: "flex-end" }}>
+            <button
+              type="button"
+              className="button button-ghost"
+              onClick={() => router.push(`/dashboard/accounts/${encodeURIComponent(selectedAccountId)}`)}
+            >
+              Statement
+            </button>
+          </div>
+        )}
       </div>
 
+      {/* Transfer list filters (applied server-side via /api/transfers) */}
+      <div style={{ display: "flex", gap: "12px", flexWrap: "wrap", alignItems: "flex-end", marginBottom: "24px" }}>
+        <div style={{ minWidth: "130px" }}>
+          <label style={{ display: "block", marginBottom: "6px", fontSize: "12px", fontWeight: 500 }}>Status</label>
+          <select
+            className="setup-input"
+            value={transferFilters.status}
+            onChange={(e) => applyTransferFilters({ ...transferFilters, status: e.target.value })}
+            style={{ width: "100%" }}
+          >
+            <option value="">All</option>
+            {TRANSFER_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {status}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div style={{ minWidth: "130px" }}>
+          <label style={{ display: "block", marginBottom: "6px", fontSize: "12px", fontWeight: 500 }}>Type</label>
+          <select
+            className="setup-input"
+            value={transferFilters.type}
+            onChange={(e) => applyTransferFilters({ ...transferFilters, type: e.target.value })}
+            style={{ width: "100%" }}
+          >
+            <option value="">All</option>
+            {TRANSFER_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div style={{ minWidth: "160px" }}>
+          <label style={{ display: "block", marginBottom: "6px", fontSize: "12px", fontWeight: 500 }}>Channel</label>
+          <select
+            className="setup-input"
+            value={transferFilters.channel}
+            onChange={(e) => applyTransferFilters({ ...transferFilters, channel: e.target.value })}
+            style={{ width: "100%" }}
+          >
+            <option value="">All</option>
+            {PAYMENT_CHANNEL_FILTERS.map((channel) => (
+              <option key={channel.value} value={channel.value}>
+                {channel.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div style={{ minWidth: "150px" }}>
+          <label style={{ display: "block", marginBottom: "6px", fontSize: "12px", fontWeight: 500 }}>Created by</label>
+          <select
+            className="setup-input"
+            value={transferFilters.createdBy}
+            onChange={(e) => applyTransferFilters({ ...transferFilters, createdBy: e.target.value })}
+            style={{ width: "100%" }}
+          >
+            <option value="">Anyone</option>
+            {transferCreators.map(([id, name]) => (
+              <option key={id} value={id}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div style={{ minWidth: "130px" }}>
+          <label style={{ display: "block", marginBottom: "6px", fontSize: "12px", fontWeight: 500 }}>Tag</label>
+          <select
+            className="setup-input"
+            value={transferFilters.tag}
+            onChange={(e) => applyTransferFilters({ ...transferFilters, tag: e.target.value })}
+            style={{ width: "100%" }}
+          >
+            <option value="">Any</option>
+            {/* Keep a filtered tag selectable even when it is no longer in use */}
+            {transferFilters.tag && !categoryTags.some((t) => t.tag === transferFilters.tag) && (
+              <option value={transferFilters.tag}>{transferFilters.tag}</option>
+            )}
+            {categoryTags.map((t) => (
+              <option key={t.tag} value={t.tag}>
+                {t.tag} ({t.count})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label style={{ display: "block", marginBottom: "6px", fontSize: "12px", fontWeight: 500 }}>From date</label>
+          <input
+            className="setup-input"
+            type="date"
+            value={transferFilters.dateFrom}
+            onChange={(e) => applyTransferFilters({ ...transferFilters, dateFrom: e.target.value })}
+          />
+        </div>
+        <div>
+          <label style={{ display: "block", marginBottom: "6px", fontSize: "12px", fontWeight: 500 }}>To date</label>
+          <input
+            className="setup-input"
+            type="date"
+            value={transferFilters.dateTo}
+            onChange={(e) => applyTransferFilters({ ...transferFilters, dateTo: e.target.value })}
+          />
+        </div>
+        <div style={{ width: "110px" }}>
+          <label style={{ display: "block", marginBottom: "6px", fontSize: "12px", fontWeight: 500 }}>Min amount</label>
+          <input
+            className="setup-input"
+            type="text"
+            inputMode="decimal"
+            value={transferFilters.minAmount}
+            onChange={(e) => {
+              if (/^[0-9]*\.?[0-9]*$/.test(e.target.value)) {
+                setTransferFilters({ ...transferFilters, minAmount: e.target.value });
+              }
+            }}
+            onBlur={() => void loadTransfers()}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") void loadTransfers();
+            }}
+            style={{ width: "100%", boxSizing: "border-box" }}
+          />
+        </div>
+        <div style={{ width: "110px" }}>
+          <label style={{ display: "block", marginBottom: "6px", fontSize: "12px", fontWeight: 500 }}>Max amount</label>
+          <input
+            className="setup-input"
+            type="text"
+            inputMode="decimal"
+            value={transferFilters.maxAmount}
+            onChange={(e) => {
+              if (/^[0-9]*\.?[0-9]*$/.test(e.target.value)) {
+                setTransferFilters({ ...transferFilters, maxAmount: e.target.value });
+              }
+            }}
+            onBlur={() => void loadTransfers()}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") void loadTransfers();
+            }}
+            style={{ width: "100%", boxSizing: "border-box" }}
+          />
+        </div>
+        {hasActiveTransferFilters && (
+          <button
+            type="button"
+            className="button button-ghost"
+            onClick={() => applyTransferFilters(EMPTY_TRANSFER_FILTERS)}
+          >
+            Clear filters
+          </button>
+        )}
+        <button
+          type="button"
+          className="button button-ghost"
+          onClick={() => setShowTagTotals(!showTagTotals)}
+        >
+          {showTagTotals ? "Hide totals by tag" : "Totals by tag"}
+        </button>
+      </div>
+
+      {showTagTotals && (
+        <div className="panel" style={{ marginBottom: "24px" }}>
+          <div className="panel-header">
+            <div>
+              <div className="panel-title">Totals by Tag</div>
+              <div className="panel-subtitle">
+                Transactions matching the filters above; one with several tags counts towards each of them
+              </div>
+            </div>
+          </div>
+          {!currentTagTotals ? (
+            <div style={{ padding: "0 20px 20px", color: "var(--text-secondary)", fontSize: "14px" }}>Loading…</div>
+          ) : !currentTagTotals.totals ? (
+            <div style={{ padding: "0 20px 20px", color: "#991b1b", fontSize: "14px" }}>Failed to load tag totals</div>
+          ) : currentTagTotals.totals.length === 0 ? (
+            <div style={{ padding: "0 20px 20px", color: "var(--text-secondary)", fontSize: "14px" }}>
+              No tagged transactions match these filters.
+            </div>
+          ) : (
+            <div style={{ padding: "0 20px 20px" }}>
+              {currentTagTotals.totals.map((t) => (
+                <div
+                  key={t.tag}
+                  style={{ display: "flex", justifyContent: "space-between", gap: "12px", padding: "8px 0", borderBottom: "1px solid var(--border)", fontSize: "14px" }}
+                >
+                  <button
+                    type="button"
+                    onClick={() => applyTransferFilters({ ...transferFilters, tag: t.tag })}
+                    title="Show these transactions"
+                    style={{ background: "none", border: "none", padding: 0, cursor: "pointer", color: "inherit", font: "inherit", textAlign: "left" }}
+                  >
+                    {t.tag}
+                  </button>
+                  <span style={{ color: "var(--text-secondary)" }}>
+                    {t.count} transaction{t.count === 1 ? "" : "s"} ·{" "}
+                    <span style={{ fontWeight: 600, color: "var(--text)" }}>{formatNumber(t.total)}</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {selectedCategoryId && (
+        <ScheduledTransfersPanel
+          categoryId={selectedCategoryId}
+          refreshKey={schedulesVersion}
+          onTransfersCreated={() => void loadTransfers()}
+        />
+      )}
+
       <div className="panel">
         <div className="panel-header">
           <div>
             <div className="panel-title">Transactions</div>
             <div className="panel-subtitle">
-              {filteredTransfers.length > 0
-                ? `${filteredTransfers.length} transaction${filteredTransfers.length === 1 ? "" : "s"} found${selectedAccountId ? " for selected account" : ""}`
-                : "No transactions found"}
+              {loadingTransfers && transfers.length === 0
+                ? "Loading transactions…"
+                : transfers.length > 0
+                  ? `${transfers.length}${nextCursor ? "+" : ""} transaction${transfers.length === 1 && !nextCursor ? "" : "s"} found${selectedAccountId ? " for selected account" : ""}`
+                  : "No transactions found"}
             </div>
           </div>
         </div>
 
-        {filteredTransfers.length === 0 ? (
+        {transfersError && (
+          <div
+            style={{
+              margin: "0 20px 16px",
+              padding: "12px",
+              backgroundColor: "#fee2e2",
+              border: "1px solid #ef4444",
+              borderRadius: "8px",
+              color: "#991b1b",
+            }}
+          >
+            {transfersError}
+          </div>
+        )}
+
+        {transfers.length === 0 ? (
           <div style={{ padding: "40px", textAlign: "center", color: "var(--text-secondary)" }}>
-            <p>No transactions found{selectedAccountId ? " for this account" : " for this category"}.</p>
+            <p>No transactions found{hasActiveTransferFilters ? " matching these filters" : selectedAccountId ? " for this account" : " for this category"}.</p>
             <p style={{ fontSize: "14px", marginTop: "8px" }}>Click the menu to create a transaction.</p>
           </div>
         ) : (
           <div className="table">
+            {selectedTransferIds.length > 0 && (
+              <div
+                style={{
+                  display: "flex",
+                  gap: "8px",
+                  flexWrap: "wrap",
+                  alignItems: "center",
+                  padding: "12px 16px",
+                  backgroundColor: "var(--surface)",
+                  border: "1px solid var(--border)",
+                  borderRadius: "8px",
+                }}
+              >
+                <span style={{ fontSize: "14px", fontWeight: 500 }}>{selectedTransferIds.length} selected</span>
+                <input
+                  className="setup-input"
+                  list="bulk-tag-suggestions"
+                  value={bulkTagText}
+                  onChange={(e) => setBulkTagText(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" && bulkTagText.trim()) void bulkUpdateTags("add");
+                  }}
+                  placeholder="Tag"
+                  disabled={bulkTagBusy}
+                  style={{ width: "180px" }}
+                />
+                <datalist id="bulk-tag-suggestions">
+                  {categoryTags.map((t) => (
+                    <option key={t.tag} value={t.tag} />
+                  ))}
+                </datalist>
+                <button
+                  type="button"
+                  className="button"
+                  onClick={() => void bulkUpdateTags("add")}
+                  disabled={bulkTagBusy || !bulkTagText.trim()}
+                >
+                  Add tag
+                </button>
+                <button
+                  type="button"
+                  className="button button-ghost"
+                  onClick={() => void bulkUpdateTags("remove")}
+                  disabled={bulkTagBusy || !bulkTagText.trim()}
+                >
+                  Remove tag
+                </button>
+                <button
+                  type="button"
+                  className="button button-ghost"
+                  onClick={() => {
+                    setSelectedTransferIds([]);
+                    setBulkTagMessage(null);
+                  }}
+                  disabled={bulkTagBusy}
+                >
+                  Clear selection
+                </button>
+              </div>
+            )}
+            {bulkTagMessage && (
+              <div style={{ padding: "0 16px", fontSize: "13px", color: "var(--text-secondary)" }}>{bulkTagMessage}</div>
+            )}
             <div className="table-head">
-              <div>Date</div>
+              <div>
+                <input
+                  type="checkbox"
+                  checked={allTransfersSelected}
+                  onChange={toggleAllTransfers}
+                  aria-label="Select all transactions"
+                  style={{ marginRight: "6px", verticalAlign: "middle" }}
+                />
+                Date
+              </div>
               <div>From</div>
               <div>To</div>
               <div>Reference</div>
@@ -1029,20 +2130,64 @@ export default function TransactionsClient({
               {selectedAccountId && <div className="table-amount">Balance</div>}
             </div>
 
-              {filteredTransfers.map((transfer) => (
+              {transfers.map((transfer) => (
+              <Fragment key={transfer.id}>
               <div 
-                key={transfer.id} 
                 className="table-row"
-                onClick={() => setSelectedTransfer(transfer)}
+                onClick={() => {
+                  setSelectedTransfer(transfer);
+                  setTransferActionError(null);
+                }}
                 style={{ cursor: "pointer" }}
                 onMouseEnter={(e) => (e.currentTarget.style.backgroundColor = "var(--bg-hover, #f5f5f5)")}
                 onMouseLeave={(e) => (e.currentTarget.style.backgroundColor = "transparent")}
               >
-                <div className="table-muted" data-label="Date">{formatDate(transfer.createdAt)}</div>
+                <div className="table-muted" data-label="Date">
+                  <input
+                    type="checkbox"
+                    checked={selectedTransferIds.includes(transfer.id)}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={() => toggleTransferSelection(transfer.id)}
+                    aria-label="Select transaction"
+                    style={{ marginRight: "6px", verticalAlign: "middle" }}
+                  />
+                  {formatDate(transfer.createdAt)}
+                </div>
                 <div data-label="From">{transfer.fromAccountName}</div>
-                <div data-label="To">{transfer.toAccountName}</div>
-                <div className="table-muted table-ref" data-label="Ref" style={{ fontFamily: transfer.externalTransactionId ? "monospace" : undefined, fontSize: transfer.externalTransactionId ? "11px" : undefined }}>
-                  {transfer.externalTransactionId || transfer.label || "-"}
+                <div data-label="To">
+                  {transfer.linkRole === SPLIT_PARENT_ROLE ? (
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setExpandedSplitIds((prev) =>
+                          prev.includes(transfer.id) ? prev.filter((id) => id !== transfer.id) : [...prev, transfer.id],
+                        );
+                      }}
+                      style={{ background: "none", border: "none", padding: 0, cursor: "pointer", color: "inherit", font: "inherit" }}
+                    >
+                      {expandedSplitIds.includes(transfer.id) ? "▾" : "▸"} Split · {transfer.legs?.length ?? 0} accounts
+                    </button>
+                  ) : (
+                    transfer.toAccountName
+                  )}
+                </div>
+                <div className="table-muted table-ref" data-label="Ref">
+                  <span style={{ fontFamily: transfer.externalTransactionId ? "monospace" : undefined, fontSize: transfer.externalTransactionId ? "11px" : undefined }}>
+                    {transfer.externalTransactionId || transfer.label || (transfer.tags?.length ? "" : "-")}
+                  </span>
+                  {transfer.tags && transfer.tags.length > 0 && (
+                    <div style={{ display: "flex", flexWrap: "wrap", gap: "4px", marginTop: "2px" }}>
+                      {transfer.tags.map((tag) => (
+                        <span
+                          key={tag}
+                          style={{ padding: "1px 6px", borderRadius: "10px", backgroundColor: "#e0e7ff", color: "#3730a3", fontSize: "11px" }}
+                        >
+                          {tag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </div>
                 <div data-label="Status">
                   <span
@@ -1050,26 +2195,7 @@ export default function TransactionsClient({
                       padding: "2px 8px",
                       borderRadius: "4px",
                       fontSize: "11px",
-                      backgroundColor:
-                        transfer.status === "posted"
-                          ? "#d1fae5"
-                          : transfer.status === "pending"
-                            ? "#fef3c7"
-                            : transfer.status === "draft"
-                              ? "#e5e7eb"
-                              : transfer.status === "failed"
-                                ? "#fee2e2"
-                                : "#dbeafe",
-                      color:
-                        transfer.status === "posted"
-                          ? "#065f46"
-                          : transfer.status === "pending"
-                            ? "#92400e"
-                            : transfer.status === "draft"
-                              ? "#374151"
-                              : transfer.status === "failed"
-                                ? "#991b1b"
-                                : "#1e40af",
+                      ...statusBadgeColors(transfer.status),
                     }}
                   >
                     {transfer.status}
@@ -1121,11 +2247,66 @@ export default function TransactionsClient({
                   </div>
                 )}
               </div>
+              {expandedSplitIds.includes(transfer.id) &&
+                transfer.legs?.map((leg) => (
+                  <div
+                    key={leg.id}
+                    className="table-row"
+                    onClick={() => {
+                      setSelectedTransfer(leg);
+                      setTransferActionError(null);
+                    }}
+                    style={{ cursor: "pointer", backgroundColor: "var(--bg-secondary, #f9fafb)", fontSize: "13px" }}
+                  >
+                    <div className="table-muted" data-label="Date">↳</div>
+                    <div className="table-muted" data-label="From">{leg.fromAccountName}</div>
+                    <div data-label="To">{leg.toAccountName}</div>
+                    <div className="table-muted table-ref" data-label="Ref">{leg.description || "-"}</div>
+                    <div data-label="Status">
+                      <span style={{ padding: "2px 8px", borderRadius: "4px", fontSize: "11px", ...statusBadgeColors(leg.status) }}>
+                        {leg.status}
+                      </span>
+                    </div>
+                    <div className="table-amount" data-label="Amount">{formatNumber(leg.amount)}</div>
+                    {selectedAccountId && (
+                      <div className="table-amount table-muted" data-label="Balance">
+                        {(() => {
+                          const balance = getTransferBalance(leg, selectedAccountId);
+                          const num = balance !== null ? parseFloat(balance) : NaN;
+                          return isNaN(num) ? "-" : formatNumber(num);
+                        })()}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </Fragment>
             ))}
           </div>
         )}
+
+        {nextCursor && (
+          <div style={{ padding: "16px", textAlign: "center" }}>
+            <button
+              type="button"
+              className="button button-ghost"
+              onClick={() => void loadTransfers({ append: true })}
+              disabled={loadingTransfers}
+            >
+              {loadingTransfers ? "Loading…" : "Load more"}
+            </button>
+          </div>
+        )}
       </div>
 
+      {showReversalModal && selectedTransfer && selectedReversals && (
+        <TransferReversalModal
+          transfer={selectedTransfer}
+          refundable={selectedReversals.refundable}
+          onClose={() => setShowReversalModal(false)}
+          onCreated={handleReversalCreated}
+        />
+      )}
+
       {/* Transfer Detail Modal */}
       {selectedTransfer && (
         <div
@@ -1187,26 +2368,7 @@ export default function TransactionsClient({
                     borderRadius: "20px",
                     fontSize: "14px",
                     fontWeight: 500,
-                    backgroundColor:
-                      selectedTransfer.status === "posted"
-                        ? "#d1fae5"
-                        : selectedTransfer.status === "pending"
-                          ? "#fef3c7"
-                          : selectedTransfer.status === "draft"
-                            ? "#e5e7eb"
-                            : selectedTransfer.status === "failed"
-                              ? "#fee2e2"
-                              : "#dbeafe",
-                    color:
-                      selectedTransfer.status === "posted"
-                        ? "#065f46"
-                        : selectedTransfer.status === "pending"
-                          ? "#92400e"
-                          : selectedTransfer.status === "draft"
-                            ? "#374151"
-                            : selectedTransfer.status === "failed"
-                              ? "#991b1b"
-                              : "#1e40af",
+                    ...statusBadgeColors(selectedTransfer.status),
                   }}
                 >
                   {selectedTransfer.status.toUpperCase()}
@@ -1266,6 +2428,22 @@ export default function TransactionsClient({
                     <span>{selectedTransfer.label}</span>
                   </div>
                 )}
+
+                {selectedTransfer.tags && selectedTransfer.tags.length > 0 && (
+                  <div style={{ display: "flex", justifyContent: "space-between", gap: "12px", padding: "8px 0", borderBottom: "1px solid var(--border)" }}>
+                    <span style={{ color: "var(--text-secondary, #666)" }}>Tags</span>
+                    <span style={{ display: "flex", flexWrap: "wrap", gap: "4px", justifyContent: "flex-end" }}>
+                      {selectedTransfer.tags.map((tag) => (
+                        <span
+                          key={tag}
+                          style={{ padding: "2px 8px", borderRadius: "12px", backgroundColor: "#e0e7ff", color: "#3730a3", fontSize: "12px" }}
+                        >
+                          {tag}
+                        </span>
+                      ))}
+                    </span>
+                  </div>
+                )}
                 
                 {selectedTransfer.description && (
                   <div style={{ padding: "8px 0", borderBottom: "1px solid var(--border)" }}>
@@ -1281,6 +2459,15 @@ export default function TransactionsClient({
                   </div>
                 )}
                 
+                {selectedTransfer.status === "awaiting_approval" && selectedTransfer.requiredApprovals != null && (
+                  <div style={{ display: "flex", justifyContent: "space-between", padding: "8px 0", borderBottom: "1px solid var(--border)" }}>
+                    <span style={{ color: "var(--text-secondary, #666)" }}>Admin Approvals</span>
+                    <span>
+                      {selectedApprovalCount ?? 0} of {selectedTransfer.requiredApprovals}
+                    </span>
+                  </div>
+                )}
+
                 {selectedTransfer.createdByName && (
                   <div style={{ display: "flex", justifyContent: "space-between", padding: "8px 0", borderBottom: "1px solid var(--border)" }}>
                     <span style={{ color: "var(--text-secondary, #666)" }}>Created By</span>
@@ -1295,7 +2482,9 @@ export default function TransactionsClient({
                   </div>
                 )}
                 
-                {selectedTransfer.paymentChannel && Object.keys(selectedTransfer.paymentChannel).length > 0 && (
+                {selectedTransfer.paymentChannel?.channel_id === "MPESA" ? (
+                  <MpesaCallbackDetails key={selectedTransfer.id} paymentChannel={selectedTransfer.paymentChannel} />
+                ) : selectedTransfer.paymentChannel && Object.keys(selectedTransfer.paymentChannel).length > 0 && (
                   <div style={{ padding: "8px 0", borderBottom: "1px solid var(--border)", overflow: "hidden" }}>
                     <div style={{ color: "var(--text-secondary, #666)", marginBottom: "4px" }}>Payment Channel</div>
                     <div style={{ overflow: "auto", maxWidth: "100%" }}>
@@ -1333,7 +2522,68 @@ export default function TransactionsClient({
                     <span style={{ fontFamily: "monospace", fontSize: "12px" }}>{selectedTransfer.parentTransferId}</span>
                   </div>
                 )}
+
+                {selectedTransfer.legs && selectedTransfer.legs.length > 0 && (
+                  <div style={{ padding: "8px 0", borderBottom: "1px solid var(--border)" }}>
+                    <div style={{ color: "var(--text-secondary, #666)", marginBottom: "4px" }}>Split Legs</div>
+                    {selectedTransfer.legs.map((leg) => (
+                      <div key={leg.id} style={{ display: "flex", justifyContent: "space-between", gap: "8px", fontSize: "13px", padding: "2px 0" }}>
+                        <span>
+                          {leg.toAccountName}
+                          {leg.description && leg.description !== selectedTransfer.description ? ` · ${leg.description}` : ""}
+                        </span>
+                        <span>
+                          {formatNumber(leg.amount)} · {leg.status}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
                 
+                {selectedReversals && selectedTransfer.linkRole === REVERSAL_ROLE && (
+                  <div style={{ padding: "8px 0", borderBottom: "1px solid var(--border)" }}>
+                    <div style={{ color: "var(--text-secondary, #666)", marginBottom: "4px" }}>Reverses</div>
+                    <div
+                      style={{ display: "flex", justifyContent: "space-between", gap: "8px", fontSize: "13px", padding: "2px 0", cursor: "pointer" }}
+                      onClick={() => {
+                        setSelectedTransfer(selectedReversals.original);
+                        setTransferActionError(null);
+                      }}
+                    >
+                      <span>
+                        {selectedReversals.original.fromAccountName} → {selectedReversals.original.toAccountName}
+                        {selectedReversals.original.label ? ` · ${selectedReversals.original.label}` : ""}
+                      </span>
+                      <span>{formatNumber(selectedReversals.original.amount)} · {selectedReversals.original.status}</span>
+                    </div>
+                  </div>
+                )}
+
+                {selectedReversals && selectedTransfer.linkRole !== REVERSAL_ROLE && selectedReversals.reversals.length > 0 && (
+                  <div style={{ padding: "8px 0", borderBottom: "1px solid var(--border)" }}>
+                    <div style={{ color: "var(--text-secondary, #666)", marginBottom: "4px" }}>
+                      Reversals · {formatNumber(selectedReversals.refundable)} left to refund
+                    </div>
+                    {selectedReversals.reversals.map((reversal) => (
+                      <div
+                        key={reversal.id}
+                        style={{ display: "flex", justifyContent: "space-between", gap: "8px", fontSize: "13px", padding: "2px 0", cursor: "pointer" }}
+                        onClick={() => {
+                          setSelectedTransfer(reversal);
+                          setTransferActionError(null);
+                        }}
+                      >
+                        <span>
+                          {reversal.type} · {formatDate(reversal.createdAt)}
+                        </span>
+                        <span>
+                          {formatNumber(reversal.amount)} · {reversal.status}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 {selectedTransfer.tbTransferId && (
                   <div style={{ display: "flex", justifyContent: "space-between", padding: "8px 0", borderBottom: "1px solid var(--border)" }}>
                     <span style={{ color: "var(--text-secondary, #666)" }}>TigerBeetle Transfer ID</span>
@@ -1408,10 +2658,99 @@ export default function TransactionsClient({
                   </div>
                 </div>
               )}
+
+              <TransferAttachments
+                transferId={
+                  selectedTransfer.linkRole === SPLIT_LEG_ROLE && selectedTransfer.parentTransferId
+                    ? selectedTransfer.parentTransferId
+                    : selectedTransfer.id
+                }
+                canDelete={selectedTransfer.status === "draft"}
+              />
+
+              <TransferActivity
+                key={selectedTransfer.id}
+                transferId={selectedTransfer.id}
+                version={`${selectedTransfer.status}|${selectedTransfer.updatedAt ?? ""}|${selectedApprovalCount ?? 0}`}
+              />
             </div>
             
-            {/* Close Button */}
+            {/* Lifecycle Actions + Close Button */}
             <div style={{ padding: "16px 20px", borderTop: "1px solid var(--border)", backgroundColor: "var(--bg-primary, #ffffff)" }}>
+              {transferActionError && (
+                <div
+                  style={{
+                    marginBottom: "12px",
+                    padding: "10px 12px",
+                    backgroundColor: "#fee2e2",
+                    border: "1px solid #ef4444",
+                    borderRadius: "8px",
+                    color: "#991b1b",
+                    fontSize: "13px",
+                  }}
+                >
+                  {transferActionError}
+                </div>
+              )}
+              {selectedTransfer.linkRole === SPLIT_LEG_ROLE && (
+                <div style={{ marginBottom: "12px", fontSize: "13px", color: "var(--text-secondary, #666)" }}>
+                  This is one leg of a split; act on the split transfer itself.
+                </div>
+              )}
+              {selectedTransfer.linkRole !== SPLIT_LEG_ROLE && availableTransferActions(selectedTransfer).length > 0 && (
+                <div style={{ display: "flex", gap: "8px", flexWrap: "wrap", marginBottom: "12px" }}>
+                  {availableTransferActions(selectedTransfer).map((action) => (
+                    <button
+                      key={action}
+                      type="button"
+                      className={action === "reject" || action === "cancel" ? "button button-ghost" : "button"}
+                      onClick={() => void handleTransferAction(selectedTransfer, action)}
+                      disabled={transferActionBusy !== null}
+                      style={{
+                        flex: 1,
+                        ...(action === "reject" || action === "cancel" ? { color: "#ef4444" } : {}),
+                      }}
+                    >
+                      {transferActionBusy === action ? "Working…" : TRANSFER_TRANSITIONS[action].label}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {canReverseTransfer(selectedTransfer) && selectedReversals && selectedReversals.refundable > 0 && (
+                <button
+                  type="button"
+                  className="button button-ghost"
+                  onClick={() => setShowReversalModal(true)}
+                  disabled={transferActionBusy !== null}
+                  style={{ width: "100%", marginBottom: "12px" }}
+                >
+                  Reverse / Refund
+                </button>
+              )}
+              {selectedTransfer.status === "draft" && selectedTransfer.linkRole !== SPLIT_LEG_ROLE && (
+                <div style={{ display: "flex", gap: "8px", marginBottom: "12px" }}>
+                  {selectedTransfer.linkRole !== SPLIT_PARENT_ROLE && (
+                    <button
+                      type="button"
+                      className="button button-ghost"
+                      onClick={() => openEditModal(selectedTransfer)}
+                      disabled={transferActionBusy !== null}
+                      style={{ flex: 1 }}
+                    >
+                      Edit
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    className="button button-ghost"
+                    onClick={() => void handleDeleteDraft(selectedTransfer)}
+                    disabled={transferActionBusy !== null}
+                    style={{ flex: 1, color: "#ef4444" }}
+                  >
+                    {transferActionBusy === "delete" ? "Deleting…" : "Delete draft"}
+                  </button>
+                </div>
+              )}
               <button
                 type="button"
                 className="button button-ghost"
@@ -1457,6 +2796,7 @@ export default function TransactionsClient({
           >
             <div className="panel-header" style={{ flexShrink: 0 }}>
               <div className="panel-title">
+                {editingTransfer ? "Edit Draft: " : ""}
                 {modalMode === "buygoods" ? "Pay via Buy Goods" : modalMode === "sendmoney" ? "M-Pesa Send Money" : modalMode === "paybill" ? "Pay via Paybill" : "Record Transaction"}
               </div>
             </div>
@@ -1512,7 +2852,129 @@ export default function TransactionsClient({
                 </select>
               </div>
 
-              {modalMode === "manual" ? (
+              {modalMode === "manual" && !editingTransfer && (
+                <label style={{ display: "flex", alignItems: "center", fontSize: "14px", cursor: "pointer", marginBottom: "16px" }}>
+                  <input
+                    type="checkbox"
+                    checked={splitMode}
+                    onChange={(e) => toggleSplitMode(e.target.checked)}
+                    disabled={isBusy}
+                    style={{ marginRight: "8px" }}
+                  />
+                  Split across several accounts
+                </label>
+              )}
+
+              {modalMode === "manual" && splitMode ? (
+                <div style={{ marginBottom: "16px" }}>
+                  <label style={{ display: "block", marginBottom: "8px", fontSize: "14px", fontWeight: 500 }}>
+                    Destinations *
+                  </label>
+                  {splitLegs.map((leg, index) => (
+                    <div
+                      key={index}
+                      style={{
+                        marginBottom: "8px",
+                        padding: "10px",
+                        border: "1px solid var(--border)",
+                        borderRadius: "8px",
+                        display: "flex",
+                        flexDirection: "column",
+                        gap: "6px",
+                      }}
+                    >
+                      <div style={{ display: "flex", gap: "8px" }}>
+                        <select
+                          className="setup-input"
+                          value={leg.toAccountId}
+                          onChange={(e) => updateSplitLeg(index, "toAccountId", e.target.value)}
+                          disabled={isBusy}
+                          style={{ flex: 1, minWidth: 0, boxSizing: "border-box" }}
+                        >
+                          <option value="">Select account</option>
+                          {categoryAccounts
+                            .filter((acc) => acc.id !== fromAccountId)
+                            .map((acc) => (
+                              <option key={acc.id} value={acc.id}>
+                                {acc.name}
+                              </option>
+                            ))}
+                        </select>
+                        <input
+                          className="setup-input"
+                          type="text"
+                          inputMode="decimal"
+                          value={leg.amount}
+                          onChange={(e) => {
+                            if (/^[0-9,]*\.?[0-9]*$/.test(e.target.value)) updateSplitLeg(index, "amount", e.target.value);
+                          }}
+                          placeholder="Amount"
+                          disabled={isBusy}
+                          style={{ width: "110px", boxSizing: "border-box" }}
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setSplitLegs((prev) => prev.filter((_, i) => i !== index))}
+                          disabled={isBusy || splitLegs.length <= 2}
+                          style={{
+                            padding: "6px 10px",
+                            border: "1px solid var(--border)",
+                            borderRadius: "4px",
+                            backgroundColor: "transparent",
+                            cursor: splitLegs.length <= 2 ? "not-allowed" : "pointer",
+                            color: "#ef4444",
+                          }}
+                        >
+                          ✕
+                        </button>
+                      </div>
+                      <input
+                        className="setup-input"
+                        value={leg.description}
+                        onChange={(e) => updateSplitLeg(index, "description", e.target.value)}
+                        placeholder="Description for this destination (optional)"
+                        disabled={isBusy}
+                        style={{ width: "100%", maxWidth: "100%", boxSizing: "border-box" }}
+                      />
+                    </div>
+                  ))}
+                  {splitLegs.length < MAX_SPLIT_LEGS && (
+                    <button
+                      type="button"
+                      onClick={() => setSplitLegs((prev) => [...prev, { ...EMPTY_SPLIT_LEG }])}
+                      disabled={isBusy}
+                      style={{
+                        padding: "8px 12px",
+                        border: "1px dashed var(--border)",
+                        borderRadius: "4px",
+                        backgroundColor: "transparent",
+                        cursor: "pointer",
+                        fontSize: "13px",
+                        width: "100%",
+                      }}
+                    >
+                      + Add Destination
+                    </button>
+                  )}
+                  {(() => {
+                    const allocated = splitLegInputs().reduce((sum, leg) => sum + (isNaN(leg.amount) ? 0 : leg.amount), 0);
+                    const total = parseFloat(amount) || 0;
+                    const remaining = Math.round((total - allocated) * 100) / 100;
+                    return (
+                      <div
+                        style={{
+                          marginTop: "6px",
+                          fontSize: "12px",
+                          color: remaining === 0 ? "var(--text-secondary, #666)" : "#b45309",
+                        }}
+                      >
+                        Allocated {formatNumber(allocated)} of {formatNumber(total)}
+                        {remaining !== 0 ? ` · ${formatNumber(Math.abs(remaining))} ${remaining > 0 ? "left to allocate" : "over the total"}` : ""}
+                      </div>
+                    );
+                  })()}
+                </div>
+              ) : modalMode === "manual" ? (
                 <div style={{ marginBottom: "16px" }}>
                   <label style={{ display: "block", marginBottom: "8px", fontSize: "14px", fontWeight: 500 }}>
                     To Account *
@@ -1708,12 +3170,20 @@ export default function TransactionsClient({
                     }}
                     placeholder="e.g., 123456"
                     disabled={isBusy}
-                    maxLength={10}
+                    maxLength={TILL_NUMBER_LENGTH.max}
                     style={{ width: "100%", maxWidth: "100%", boxSizing: "border-box" }}
                   />
                   <div style={{ marginTop: "4px", fontSize: "12px", color: "var(--text-secondary, #666)" }}>
                     Enter the merchant&apos;s till number
                   </div>
+                  <PayeePicker
+                    categoryId={selectedCategoryId}
+                    action="BusinessBuyGoods"
+                    number={buyGoodsNumber}
+                    suggestedName={label}
+                    disabled={isBusy}
+                    onPick={pickPayee}
+                  />
                   {/* Frequent Recipients */}
                   {frequentRecipients.length > 0 && (
                     <div style={{ marginTop: "12px" }}>
@@ -1775,12 +3245,21 @@ export default function TransactionsClient({
                       }}
                       placeholder="e.g., 247247"
                       disabled={isBusy}
-                      maxLength={10}
+                      maxLength={PAYBILL_NUMBER_LENGTH.max}
                       style={{ width: "100%", maxWidth: "100%", boxSizing: "border-box" }}
                     />
                     <div style={{ marginTop: "4px", fontSize: "12px", color: "var(--text-secondary, #666)" }}>
                       Enter the paybill number
                     </div>
+                    <PayeePicker
+                      categoryId={selectedCategoryId}
+                      action="BusinessPayBill"
+                      number={paybillNumber}
+                      accountReference={accountReference}
+                      suggestedName={label}
+                      disabled={isBusy}
+                      onPick={pickPayee}
+                    />
                     {/* Frequent Recipients */}
                     {frequentRecipients.length > 0 && (
                       <div style={{ marginTop: "12px" }}>
@@ -1836,7 +3315,7 @@ export default function TransactionsClient({
                       onChange={(e) => setAccountReference(e.target.value)}
                       placeholder="e.g., Invoice number, account number"
                       disabled={isBusy}
-                      maxLength={50}
+                      maxLength={MAX_ACCOUNT_REFERENCE_LENGTH}
                       style={{ width: "100%", maxWidth: "100%", boxSizing: "border-box" }}
                     />
                     <div style={{ marginTop: "4px", fontSize: "12px", color: "var(--text-secondary, #666)" }}>
@@ -1855,30 +3334,24 @@ export default function TransactionsClient({
                       type="tel"
                       value={phoneNumber}
                       onChange={(e) => {
-                        // Strip all non-digit characters (handles paste with spaces, dashes, +, etc.)
-                        const value = e.target.value.replace(/\D/g, "");
-                        setPhoneNumber(value.slice(0, 12));
+                        // Digits, a leading + and the usual separators (07XX XXX XXX, +254 7XX-XXX-XXX)
+                        const value = e.target.value.replace(/[^\d+\s\-()]/g, "");
+                        setPhoneNumber(value.slice(0, 20));
                       }}
                       onPaste={(e) => {
                         e.preventDefault();
                         const pastedText = e.clipboardData.getData("text");
-                        // Strip all non-digit characters from pasted content
-                        const digits = pastedText.replace(/\D/g, "");
-                        // If pasted number starts with 0, convert to 254 format
-                        let cleanNumber = digits;
-                        if (digits.startsWith("0") && digits.length >= 10) {
-                          cleanNumber = "254" + digits.slice(1);
-                        }
-                        setPhoneNumber(cleanNumber.slice(0, 12));
+                        const msisdn = normalizeMsisdn(pastedText);
+                        setPhoneNumber(msisdn.status === "ok" ? msisdn.value : pastedText.replace(/[^\d+\s\-()]/g, "").slice(0, 20));
                       }}
-                      placeholder="e.g., 254712345678"
+                      placeholder="e.g., 0712 345 678 or 254712345678"
                       disabled={isBusy}
-                      maxLength={12}
+                      maxLength={20}
                       style={{ 
                         flex: 1,
                         maxWidth: "100%", 
                         boxSizing: "border-box",
-                        borderColor: phoneNumber.length > 0 && (phoneNumber.length !== 12 || !phoneNumber.startsWith("254") || !/^[17]\d{8}$/.test(phoneNumber.substring(3))) ? "#f59e0b" : undefined
+                        borderColor: phoneNumber.length > 0 && phoneCheck.status === "invalid" ? "#f59e0b" : undefined
                       }}
                     />
                     {"contacts" in navigator && "ContactsManager" in window && (
@@ -1892,19 +3365,9 @@ export default function TransactionsClient({
                               { multiple: false }
                             );
                             if (contacts && contacts.length > 0 && contacts[0].tel && contacts[0].tel.length > 0) {
-                              const tel = contacts[0].tel[0];
-                              // Clean the phone number
-                              const digits = tel.replace(/\D/g, "");
-                              let cleanNumber = digits;
-                              // Convert local format to international
-                              if (digits.startsWith("0") && digits.length >= 10) {
-                                cleanNumber = "254" + digits.slice(1);
-                              }
-                              // Remove leading country code duplicates (e.g., +254254...)
-                              if (cleanNumber.startsWith("254254")) {
-                                cleanNumber = cleanNumber.slice(3);
-                              }
-                              setPhoneNumber(cleanNumber.slice(0, 12));
+                              const tel: string = contacts[0].tel[0];
+                              const msisdn = normalizeMsisdn(tel);
+                              setPhoneNumber(msisdn.status === "ok" ? msisdn.value : tel.replace(/[^\d+\s\-()]/g, "").slice(0, 20));
                             }
                           } catch (err) {
                             // User cancelled or API not available
@@ -1931,18 +3394,22 @@ export default function TransactionsClient({
                       </button>
                     )}
                   </div>
-                  <div style={{ marginTop: "4px", fontSize: "12px", color: phoneNumber.length > 0 && (phoneNumber.length !== 12 || !phoneNumber.startsWith("254") || !/^[17]\d{8}$/.test(phoneNumber.substring(3))) ? "#f59e0b" : "var(--text-secondary, #666)" }}>
+                  <div style={{ marginTop: "4px", fontSize: "12px", color: phoneNumber.length > 0 && phoneCheck.status === "invalid" ? "#f59e0b" : "var(--text-secondary, #666)" }}>
                     {phoneNumber.length === 0 
-                      ? "Enter recipient's phone number (e.g., 254712345678)"
-                      : phoneNumber.length !== 12 
-                        ? `${12 - phoneNumber.length} more digit${12 - phoneNumber.length === 1 ? "" : "s"} needed`
-                        : !phoneNumber.startsWith("254")
-                          ? "Must start with 254 (Kenya country code)"
-                          : !/^[17]\d{8}$/.test(phoneNumber.substring(3))
-                            ? "Invalid format. After 254, must be 7XXXXXXXX or 1XXXXXXXX"
-                            : "✓ Valid phone number"
+                      ? "Enter recipient's phone number (e.g., 0712 345 678 or 254712345678)"
+                      : phoneCheck.status === "invalid"
+                        ? phoneCheck.error
+                        : `✓ Will be sent to ${phoneCheck.value}`
                     }
                   </div>
+                  <PayeePicker
+                    categoryId={selectedCategoryId}
+                    action="BusinessPayment"
+                    number={phoneNumber}
+                    suggestedName={label}
+                    disabled={isBusy}
+                    onPick={pickPayee}
+                  />
                   {/* Frequent Recipients */}
                   {frequentRecipients.length > 0 && (
                     <div style={{ marginTop: "12px" }}>
@@ -2020,6 +3487,18 @@ export default function TransactionsClient({
                 />
               </div>
 
+              {(modalMode === "sendmoney" || modalMode === "buygoods" || modalMode === "paybill") && !editingTransfer && (
+                <MpesaFeePreview
+                  categoryId={selectedCategoryId}
+                  action={modalMode === "sendmoney" ? "BusinessPayment" : modalMode === "buygoods" ? "BusinessBuyGoods" : "BusinessPayBill"}
+                  amount={parseFloat(amount) || 0}
+                  expenseAccounts={categoryAccounts.filter((acc) => acc.type === "expense")}
+                  value={feeAccountChoice}
+                  onChange={setFeeAccountChoice}
+                  disabled={isBusy}
+                />
+              )}
+
               <div style={{ marginBottom: "16px" }}>
                 <label style={{ display: "block", marginBottom: "8px", fontSize: "14px", fontWeight: 500 }}>
                   Type *
@@ -2047,12 +3526,25 @@ export default function TransactionsClient({
                   className="setup-input"
                   value={label}
                   onChange={(e) => setLabel(e.target.value)}
-                  placeholder="e.g., Rent, Groceries, Salary"
+                  placeholder="e.g., Invoice 1042"
                   disabled={isBusy}
                   style={{ width: "100%", maxWidth: "100%", boxSizing: "border-box" }}
                 />
               </div>
 
+              <div style={{ marginBottom: "16px" }}>
+                <label style={{ display: "block", marginBottom: "8px", fontSize: "14px", fontWeight: 500 }}>
+                  Tags
+                </label>
+                <TagInput
+                  value={transferTags}
+                  onChange={setTransferTags}
+                  suggestions={categoryTags}
+                  disabled={isBusy}
+                  placeholder="e.g., rent, groceries, salary"
+                />
+              </div>
+
               <div style={{ marginBottom: "16px" }}>
                 <label style={{ display: "block", marginBottom: "8px", fontSize: "14px", fontWeight: 500 }}>
                   Description
@@ -2067,7 +3559,118 @@ export default function TransactionsClient({
                 />
               </div>
 
-              {modalMode === "manual" && (
+              {!editingTransfer && !splitMode && (
+                <div style={{ marginBottom: "16px" }}>
+                  <label style={{ display: "flex", alignItems: "center", fontSize: "14px", cursor: "pointer" }}>
+                    <input
+                      type="checkbox"
+                      checked={repeatEnabled}
+                      onChange={(e) => toggleRepeat(e.target.checked)}
+                      disabled={isBusy}
+                      style={{ marginRight: "8px" }}
+                    />
+                    Repeat on a schedule
+                  </label>
+                  {repeatEnabled && scheduleDraft && (
+                    <div
+                      style={{
+                        marginTop: "8px",
+                        padding: "12px",
+                        border: "1px solid var(--border)",
+                        borderRadius: "8px",
+                        display: "grid",
+                        gridTemplateColumns: "1fr 1fr",
+                        gap: "8px",
+                      }}
+                    >
+                      <div>
+                        <label style={{ display: "block", marginBottom: "4px", fontSize: "12px", fontWeight: 500 }}>Repeats</label>
+                        <select
+                          className="setup-input"
+                          value={scheduleDraft.frequency}
+                          onChange={(e) => updateScheduleDraft("frequency", e.target.value)}
+                          disabled={isBusy}
+                          style={{ width: "100%", boxSizing: "border-box" }}
+                        >
+                          {SCHEDULE_FREQUENCIES.map((frequency) => (
+                            <option key={frequency} value={frequency}>
+                              {frequency}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label style={{ display: "block", marginBottom: "4px", fontSize: "12px", fontWeight: 500 }}>
+                          Every ({scheduleDraft.frequency === "daily" ? "days" : scheduleDraft.frequency === "weekly" ? "weeks" : "months"})
+                        </label>
+                        <input
+                          className="setup-input"
+                          type="number"
+                          min={1}
+                          value={scheduleDraft.interval}
+                          onChange={(e) => updateScheduleDraft("interval", e.target.value)}
+                          disabled={isBusy}
+                          style={{ width: "100%", boxSizing: "border-box" }}
+                        />
+                      </div>
+                      {scheduleDraft.frequency === "monthly" && (
+                        <div>
+                          <label style={{ display: "block", marginBottom: "4px", fontSize: "12px", fontWeight: 500 }}>
+                            Day of month (31 = last day)
+                          </label>
+                          <input
+                            className="setup-input"
+                            type="number"
+                            min={1}
+                            max={31}
+                            value={scheduleDraft.dayOfMonth}
+                            onChange={(e) => updateScheduleDraft("dayOfMonth", e.target.value)}
+                            disabled={isBusy}
+                            style={{ width: "100%", boxSizing: "border-box" }}
+                          />
+                        </div>
+                      )}
+                      <div>
+                        <label style={{ display: "block", marginBottom: "4px", fontSize: "12px", fontWeight: 500 }}>Starts *</label>
+                        <div style={{ display: "flex", gap: "4px" }}>
+                          <input
+                            className="setup-input"
+                            type="date"
+                            value={scheduleDraft.startDate}
+                            onChange={(e) => updateScheduleDraft("startDate", e.target.value)}
+                            disabled={isBusy}
+                            style={{ flex: 1, minWidth: 0, boxSizing: "border-box" }}
+                          />
+                          <input
+                            className="setup-input"
+                            type="time"
+                            value={scheduleDraft.startTime}
+                            onChange={(e) => updateScheduleDraft("startTime", e.target.value)}
+                            disabled={isBusy}
+                            style={{ width: "96px", boxSizing: "border-box" }}
+                          />
+                        </div>
+                      </div>
+                      <div>
+                        <label style={{ display: "block", marginBottom: "4px", fontSize: "12px", fontWeight: 500 }}>Ends (optional)</label>
+                        <input
+                          className="setup-input"
+                          type="date"
+                          value={scheduleDraft.endDate}
+                          onChange={(e) => updateScheduleDraft("endDate", e.target.value)}
+                          disabled={isBusy}
+                          style={{ width: "100%", boxSizing: "border-box" }}
+                        />
+                      </div>
+                      <div style={{ gridColumn: "1 / -1", fontSize: "12px", color: "var(--text-secondary, #666)" }}>
+                        Each occurrence creates a {submitDraft ? "submitted" : "draft"} transfer when it falls due.
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {modalMode === "manual" && !repeatEnabled && (
                 <div style={{ marginBottom: "16px" }}>
                   <label style={{ display: "block", marginBottom: "8px", fontSize: "14px", fontWeight: 500 }}>
                     Transaction Date & Time
@@ -2097,7 +3700,7 @@ export default function TransactionsClient({
               )}
 
               {/* Additional Metadata Section - Show for all manual transactions */}
-              {modalMode === "manual" && (
+              {modalMode === "manual" && !splitMode && (
                 <div
                   style={{
                     marginBottom: "16px",
@@ -2273,6 +3876,49 @@ export default function TransactionsClient({
                 </div>
               )}
 
+              {editingTransfer ? (
+                <div style={{ marginBottom: "16px" }}>
+                  <TransferAttachments transferId={editingTransfer.id} canDelete={editingTransfer.status === "draft"} />
+                </div>
+              ) : !repeatEnabled && (
+                <div style={{ marginBottom: "16px" }}>
+                  <label style={{ display: "block", marginBottom: "8px", fontSize: "14px", fontWeight: 500 }}>
+                    Receipts & documents
+                  </label>
+                  {pendingAttachments.map((file, index) => (
+                    <div key={`${file.name}-${index}`} style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: "8px", fontSize: "13px", padding: "4px 0" }}>
+                      <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                        {file.name} · {formatAttachmentSize(file.size)}
+                      </span>
+                      <button
+                        type="button"
+                        className="button button-ghost"
+                        onClick={() => setPendingAttachments(pendingAttachments.filter((_, i) => i !== index))}
+                        disabled={isBusy}
+                        style={{ padding: "2px 8px", color: "var(--text-error, #c62828)" }}
+                        title="Remove"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                  <input
+                    type="file"
+                    accept={ATTACHMENT_ACCEPT}
+                    multiple
+                    onChange={(e) => {
+                      addPendingAttachments(e.target.files);
+                      e.target.value = "";
+                    }}
+                    disabled={isBusy}
+                    style={{ fontSize: "13px" }}
+                  />
+                  <div style={{ marginTop: "4px", fontSize: "12px", color: "var(--text-secondary, #666)" }}>
+                    Images or PDFs, uploaded after the transfer is saved
+                  </div>
+                </div>
+              )}
+
               <div style={{ marginBottom: "16px" }}>
                 <label style={{ display: "flex", alignItems: "center", fontSize: "14px", cursor: "pointer" }}>
                   <input
@@ -2291,7 +3937,7 @@ export default function TransactionsClient({
                 (() => {
                   const issues: string[] = [];
                   if (!fromAccountId) issues.push("Select a source account");
-                  if (phoneNumber.length !== 12 || !phoneNumber.startsWith("254") || !/^[17]\d{8}$/.test(phoneNumber.substring(3))) {
+                  if (phoneCheck.status === "invalid") {
                     issues.push("Enter a valid phone number");
                   }
                   if (!amount || parseFloat(amount) <= 0) issues.push("Enter an amount");
@@ -2339,12 +3985,14 @@ export default function TransactionsClient({
                     isBusy ||
                     !fromAccountId ||
                     !amount ||
-                    (modalMode === "manual" && !toAccountId) ||
-                    (modalMode === "manual" && involvesExternalAccount && (!externalTransactionId.trim() || !extMetaId.trim() || !extMetaName.trim() || !extMetaType.trim())) ||
-                    (modalMode === "manual" && requiresExternalTransactionId && !externalTransactionId.trim()) ||
+                    (modalMode === "manual" && !splitMode && !toAccountId) ||
+                    (modalMode === "manual" && splitMode && validateSplitLegs({ fromAccountId, amount: parseFloat(amount) || 0, legs: splitLegInputs() }).status === "invalid") ||
+                    (modalMode === "manual" && !splitMode && involvesExternalAccount && ((!repeatEnabled && !externalTransactionId.trim()) || !extMetaId.trim() || !extMetaName.trim() || !extMetaType.trim())) ||
+                    (modalMode === "manual" && !splitMode && !repeatEnabled && requiresExternalTransactionId && !externalTransactionId.trim()) ||
+                    (repeatEnabled && (!scheduleDraft?.startDate || (scheduleDraft.frequency === "monthly" && !scheduleDraft.dayOfMonth))) ||
                     (modalMode === "buygoods" && !buyGoodsNumber.trim()) ||
                     (modalMode === "paybill" && (!paybillNumber.trim() || !accountReference.trim())) ||
-                    (modalMode === "sendmoney" && (phoneNumber.length !== 12 || !phoneNumber.startsWith("254") || !/^[17]\d{8}$/.test(phoneNumber.substring(3))))
+                    (modalMode === "sendmoney" && phoneCheck.status === "invalid")
                   }
                 >
                   {isBusy
@@ -2353,12 +4001,20 @@ export default function TransactionsClient({
                       : modalMode === "sendmoney"
                         ? "Sending…"
                         : "Creating…"
+                    : editingTransfer
+                      ? submitDraft
+                        ? "Save & Submit"
+                        : "Save Draft"
+                    : repeatEnabled
+                      ? "Create Schedule"
                     : submitDraft
                       ? modalMode === "buygoods" || modalMode === "paybill"
                         ? "Submit Payment"
                         : modalMode === "sendmoney"
                           ? "Send Money"
-                          : "Record Transaction"
+                          : splitMode
+                            ? "Record Split"
+                            : "Record Transaction"
                       : "Save Draft"}
                 </button>
               </div>
@@ -2366,6 +4022,21 @@ export default function TransactionsClient({
           </div>
         </div>
       )}
+
+      {showImportModal && (
+        <TransferImportModal
+          categoryId={selectedCategoryId}
+          defaultCounterpartyAccountId={externalAccountId}
+          accounts={
+            externalAccount && !categoryAccounts.some((acc) => acc.id === externalAccount.id)
+              ? [...categoryAccounts, externalAccount]
+              : categoryAccounts
+          }
+          transferTypes={TRANSFER_TYPES}
+          onClose={() => setShowImportModal(false)}
+          onImported={() => void loadTransfers()}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,260 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  MAX_COMMENT_LENGTH,
+  mentionQueryAt,
+  splitMentions,
+  type TransferActivityItem,
+  type TransferMention,
+} from "@/lib/transferActivity";
+
+function describe(item: TransferActivityItem): string {
+  switch (item.kind) {
+    case "created":
+      return "Created the transfer";
+    case "approval":
+      return "Approved";
+    case "edited":
+      return item.toStatus && item.toStatus !== item.fromStatus ? `Edited and moved to ${item.toStatus}` : "Edited the draft";
+    case "status_changed":
+      if (item.observed) return `Status is now ${item.toStatus}`;
+      return `Changed status ${item.fromStatus ? `from ${item.fromStatus} ` : ""}to ${item.toStatus}`;
+    case "callback":
+      return item.text || "M-Pesa callback received";
+    case "comment":
+      return "Commented";
+  }
+}
+
+const KIND_COLORS: Record<TransferActivityItem["kind"], string> = {
+  created: "#3b82f6",
+  approval: "#10b981",
+  edited: "#8b5cf6",
+  status_changed: "#f59e0b",
+  callback: "#0ea5e9",
+  comment: "#6b7280",
+};
+
+// Timeline of a transfer (creation, status changes, edits, approvals, M-Pesa callbacks, comments)
+// with a comment box. Typing "@" suggests users of the transfer's categories to mention.
+// `version` changes whenever the transfer itself changed, to reload the timeline.
+export default function TransferActivity({ transferId, version }: { transferId: string; version?: string }) {
+  // Keyed by what was loaded so a stale response for another transfer is never shown
+  const [loaded, setLoaded] = useState<{
+    key: string;
+    items: TransferActivityItem[];
+    mentionableUsers: TransferMention[];
+  } | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [comment, setComment] = useState("");
+  const [mentions, setMentions] = useState<TransferMention[]>([]);
+  const [mentionQuery, setMentionQuery] = useState<{ start: number; query: string } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const textarea = useRef<HTMLTextAreaElement>(null);
+
+  const key = `${transferId}|${version ?? ""}|${reloadCount}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/transfers/${encodeURIComponent(transferId)}/activity`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled) {
+          setLoaded({ key, items: data?.items ?? [], mentionableUsers: data?.mentionableUsers ?? [] });
+        }
+      })
+      .catch((err) => console.error("Failed to load transfer activity:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [transferId, key]);
+
+  // Keep the last loaded timeline of this transfer on screen while a reload is in flight
+  const current = loaded && loaded.key.startsWith(`${transferId}|`) ? loaded : null;
+  const suggestions = mentionQuery
+    ? (current?.mentionableUsers || [])
+        .filter((u) => u.name.toLowerCase().startsWith(mentionQuery.query.toLowerCase()))
+        .slice(0, 6)
+    : [];
+
+  function updateComment(value: string, caret: number) {
+    setComment(value);
+    setMentionQuery(mentionQueryAt(value, caret));
+  }
+
+  function insertMention(user: TransferMention) {
+    if (!mentionQuery) return;
+    const caret = mentionQuery.start + mentionQuery.query.length + 1;
+    const next = `${comment.slice(0, mentionQuery.start)}@${user.name} ${comment.slice(caret)}`;
+    setComment(next);
+    setMentionQuery(null);
+    if (!mentions.some((m) => m.userId === user.userId)) setMentions([...mentions, user]);
+    textarea.current?.focus();
+  }
+
+  async function handleSubmit() {
+    if (!comment.trim()) return;
+    setError(null);
+    setIsBusy(true);
+    try {
+      // Only mentions still present in the text are sent
+      const mentionUserIds = mentions.filter((m) => comment.includes(`@${m.name}`)).map((m) => m.userId);
+      const res = await fetch(`/api/transfers/${encodeURIComponent(transferId)}/activity`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body: comment, mentionUserIds }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError((data && data.error) || "Failed to add comment");
+        return;
+      }
+      setComment("");
+      setMentions([]);
+      setReloadCount((n) => n + 1);
+    } catch {
+      setError("Failed to add comment");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  return (
+    <div style={{ marginTop: "20px" }}>
+      <div style={{ fontSize: "14px", fontWeight: 600, marginBottom: "12px" }}>Activity</div>
+
+      {!current ? (
+        <div style={{ fontSize: "13px", color: "var(--text-secondary, #666)" }}>Loading…</div>
+      ) : (
+        <div style={{ borderLeft: "2px solid var(--border)", marginLeft: "6px", paddingLeft: "14px" }}>
+          {current.items.map((item) => (
+            <div key={item.id} style={{ position: "relative", paddingBottom: "12px" }}>
+              <span
+                style={{
+                  position: "absolute",
+                  left: "-21px",
+                  top: "4px",
+                  width: "10px",
+                  height: "10px",
+                  borderRadius: "50%",
+                  backgroundColor: KIND_COLORS[item.kind],
+                }}
+              />
+              <div style={{ fontSize: "13px" }}>
+                {item.actorName && <span style={{ fontWeight: 600 }}>{item.actorName} </span>}
+                <span>{describe(item)}</span>
+              </div>
+              <div style={{ fontSize: "11px", color: "var(--text-secondary, #666)" }}>
+                {item.at ? new Date(item.at).toLocaleString() : "-"}
+              </div>
+              {item.kind !== "comment" && item.kind !== "callback" && item.text && (
+                <div style={{ fontSize: "12px", color: "var(--text-secondary, #666)", marginTop: "2px" }}>
+                  Reason: {item.text}
+                </div>
+              )}
+              {item.kind === "comment" && item.text && (
+                <div
+                  style={{
+                    marginTop: "4px",
+                    padding: "8px 10px",
+                    backgroundColor: "var(--bg-secondary, #f9fafb)",
+                    borderRadius: "8px",
+                    fontSize: "13px",
+                    whiteSpace: "pre-wrap",
+                    wordBreak: "break-word",
+                  }}
+                >
+                  {splitMentions(item.text, item.mentions || []).map((part, i) =>
+                    part.mention ? (
+                      <span key={i} style={{ color: "#3b82f6", fontWeight: 500 }}>
+                        {part.text}
+                      </span>
+                    ) : (
+                      <span key={i}>{part.text}</span>
+                    ),
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div style={{ position: "relative", marginTop: "8px" }}>
+        <textarea
+          ref={textarea}
+          className="setup-input"
+          value={comment}
+          onChange={(e) => updateComment(e.target.value, e.target.selectionStart)}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") setMentionQuery(null);
+            if (e.key === "Enter" && suggestions.length > 0) {
+              e.preventDefault();
+              insertMention(suggestions[0]);
+            }
+          }}
+          placeholder="Add a comment… type @ to mention someone"
+          maxLength={MAX_COMMENT_LENGTH}
+          rows={3}
+          disabled={isBusy}
+          style={{ width: "100%", maxWidth: "100%", boxSizing: "border-box", resize: "vertical", fontFamily: "inherit" }}
+        />
+        {suggestions.length > 0 && (
+          <div
+            style={{
+              position: "absolute",
+              left: 0,
+              right: 0,
+              bottom: "100%",
+              marginBottom: "4px",
+              backgroundColor: "var(--bg-primary, #ffffff)",
+              border: "1px solid var(--border)",
+              borderRadius: "8px",
+              boxShadow: "0 4px 12px rgba(0, 0, 0, 0.1)",
+              zIndex: 10,
+              overflow: "hidden",
+            }}
+          >
+            {suggestions.map((user) => (
+              <button
+                key={user.userId}
+                type="button"
+                onMouseDown={(e) => {
+                  // Keep the textarea focused
+                  e.preventDefault();
+                  insertMention(user);
+                }}
+                style={{
+                  display: "block",
+                  width: "100%",
+                  padding: "8px 12px",
+                  border: "none",
+                  background: "none",
+                  textAlign: "left",
+                  fontSize: "13px",
+                  cursor: "pointer",
+                }}
+              >
+                @{user.name}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div style={{ marginTop: "8px", padding: "12px", backgroundColor: "var(--bg-error, #ffebee)", borderRadius: "8px", fontSize: "13px", color: "var(--text-error, #c62828)" }}>
+          {error}
+        </div>
+      )}
+
+      <div style={{ display: "flex", justifyContent: "flex-end", marginTop: "8px" }}>
+        <button type="button" className="button" onClick={() => void handleSubmit()} disabled={isBusy || !comment.trim()}>
+          {isBusy ? "Posting…" : "Comment"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+"use client";
+
+import Image from "next/image";
+import { useEffect, useRef, useState } from "react";
+import {
+  ATTACHMENT_ACCEPT,
+  attachmentPath,
+  formatAttachmentSize,
+  isImageAttachment,
+  validateAttachmentFile,
+  type TransferAttachment,
+} from "@/lib/attachments";
+
+// Upload one file to a transfer; resolves to the error message, or null on success
+export async function uploadTransferAttachment(transferId: string, file: File): Promise<string | null> {
+  const check = validateAttachmentFile(file);
+  if (check.status === "invalid") return `${file.name}: ${check.error}`;
+
+  const form = new FormData();
+  form.append("file", file);
+  try {
+    const res = await fetch(`/api/transfers/${encodeURIComponent(transferId)}/attachments`, { method: "POST", body: form });
+    if (res.ok) return null;
+    const data = await res.json().catch(() => null);
+    return `${file.name}: ${(data && data.error) || "Upload failed"}`;
+  } catch {
+    return `${file.name}: Upload failed`;
+  }
+}
+
+// Receipts and documents of a transfer in its detail panel: thumbnails, a preview overlay, upload
+// and delete (drafts only, see deleteTransferAttachment)
+export default function TransferAttachments({ transferId, canDelete }: { transferId: string; canDelete: boolean }) {
+  // Attachments keyed by the transfer they were loaded for, so switching transfers never shows stale files
+  const [loaded, setLoaded] = useState<{ transferId: string; attachments: TransferAttachment[] } | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [previewing, setPreviewing] = useState<TransferAttachment | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/transfers/${encodeURIComponent(transferId)}/attachments`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled) setLoaded({ transferId, attachments: data?.attachments ?? [] });
+      })
+      .catch((err) => console.error("Failed to load attachments:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [transferId, reloadCount]);
+
+  const attachments = loaded?.transferId === transferId ? loaded.attachments : null;
+
+  async function handleFiles(files: FileList | null) {
+    if (!files || files.length === 0) return;
+    setError(null);
+    setIsBusy(true);
+    const errors: string[] = [];
+    for (const file of Array.from(files)) {
+      const uploadError = await uploadTransferAttachment(transferId, file);
+      if (uploadError) errors.push(uploadError);
+    }
+    setIsBusy(false);
+    if (errors.length > 0) setError(errors.join("\n"));
+    if (fileInput.current) fileInput.current.value = "";
+    setReloadCount((n) => n + 1);
+  }
+
+  async function handleDelete(attachment: TransferAttachment) {
+    if (!confirm(`Delete ${attachment.fileName}?`)) return;
+    setError(null);
+    setIsBusy(true);
+    try {
+      const res = await fetch(attachmentPath(attachment.id), { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        setError((data && data.error) || "Failed to delete attachment");
+        return;
+      }
+      setPreviewing(null);
+      setReloadCount((n) => n + 1);
+    } catch {
+      setError("Failed to delete attachment");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  return (
+    <div style={{ marginTop: "20px" }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: "12px" }}>
+        <div style={{ fontSize: "14px", fontWeight: 600 }}>
+          Attachments{attachments && attachments.length > 0 ? ` (${attachments.length})` : ""}
+        </div>
+        <button
+          type="button"
+          className="button button-ghost"
+          onClick={() => fileInput.current?.click()}
+          disabled={isBusy}
+          style={{ padding: "4px 10px", fontSize: "12px" }}
+        >
+          {isBusy ? "Working…" : "+ Attach"}
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept={ATTACHMENT_ACCEPT}
+          multiple
+          onChange={(e) => void handleFiles(e.target.files)}
+          style={{ display: "none" }}
+        />
+      </div>
+
+      {error && (
+        <div style={{ marginBottom: "12px", padding: "12px", backgroundColor: "var(--bg-error, #ffebee)", borderRadius: "8px", fontSize: "13px", color: "var(--text-error, #c62828)", whiteSpace: "pre-line" }}>
+          {error}
+        </div>
+      )}
+
+      {attachments === null ? (
+        <div style={{ fontSize: "13px", color: "var(--text-secondary, #666)" }}>Loading…</div>
+      ) : attachments.length === 0 ? (
+        <div style={{ fontSize: "13px", color: "var(--text-secondary, #666)" }}>No receipts or documents attached</div>
+      ) : (
+        <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(96px, 1fr))", gap: "8px" }}>
+          {attachments.map((attachment) => (
+            <button
+              key={attachment.id}
+              type="button"
+              onClick={() => setPreviewing(attachment)}
+              title={attachment.fileName}
+              style={{
+                display: "flex",
+                flexDirection: "column",
+                alignItems: "stretch",
+                padding: 0,
+                border: "1px solid var(--border)",
+                borderRadius: "8px",
+                overflow: "hidden",
+                backgroundColor: "var(--bg-secondary, #f9fafb)",
+                cursor: "pointer",
+                textAlign: "left",
+              }}
+            >
+              {isImageAttachment(attachment) ? (
+                <div style={{ position: "relative", height: "72px" }}>
+                  <Image src={attachmentPath(attachment.id)} alt={attachment.fileName} fill unoptimized sizes="96px" style={{ objectFit: "cover" }} />
+                </div>
+              ) : (
+                <div style={{ height: "72px", display: "flex", alignItems: "center", justifyContent: "center", fontSize: "13px", fontWeight: 600, color: "#c62828" }}>
+                  PDF
+                </div>
+              )}
+              <div style={{ padding: "4px 6px", fontSize: "11px", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                {attachment.fileName}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {previewing && (
+        <div
+          style={{
+            position: "fixed",
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            backgroundColor: "rgba(0, 0, 0, 0.5)",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            zIndex: 1000,
+          }}
+          onClick={() => setPreviewing(null)}
+        >
+          <div
+            className="panel"
+            style={{
+              width: "90%",
+              maxWidth: "900px",
+              maxHeight: "90vh",
+              display: "flex",
+              flexDirection: "column",
+              margin: "20px",
+              backgroundColor: "var(--bg-primary, #ffffff)",
+            }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="panel-header">
+              <div style={{ minWidth: 0 }}>
+                <div className="panel-title" style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                  {previewing.fileName}
+                </div>
+                <div className="panel-subtitle">
+                  {formatAttachmentSize(previewing.size)}
+                  {previewing.uploadedByName ? ` · ${previewing.uploadedByName}` : ""}
+                  {previewing.createdAt ? ` · ${new Date(previewing.createdAt).toLocaleString()}` : ""}
+                </div>
+              </div>
+            </div>
+            <div style={{ flex: 1, minHeight: 0, overflow: "auto", padding: "12px", display: "flex", justifyContent: "center" }}>
+              {isImageAttachment(previewing) ? (
+                <Image
+                  src={attachmentPath(previewing.id)}
+                  alt={previewing.fileName}
+                  width={0}
+                  height={0}
+                  unoptimized
+                  style={{ width: "auto", height: "auto", maxWidth: "100%", maxHeight: "70vh", objectFit: "contain" }}
+                />
+              ) : (
+                <iframe src={attachmentPath(previewing.id)} title={previewing.fileName} style={{ width: "100%", height: "70vh", border: "none" }} />
+              )}
+            </div>
+            <div style={{ display: "flex", gap: "12px", justifyContent: "flex-end", padding: "12px 20px", borderTop: "1px solid var(--border)" }}>
+              {canDelete && (
+                <button
+                  type="button"
+                  className="button button-ghost"
+                  onClick={() => void handleDelete(previewing)}
+                  disabled={isBusy}
+                  style={{ color: "#ef4444", marginRight: "auto" }}
+                >
+                  Delete
+                </button>
+              )}
+              <a className="button button-ghost" href={attachmentPath(previewing.id, true)}>
+                Download
+              </a>
+              <button type="button" className="button" onClick={() => setPreviewing(null)}>
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
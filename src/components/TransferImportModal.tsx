@@ -0,0 +1,545 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { buildMpesaImportRows, parseMpesaStatement } from "@/lib/mpesaStatement";
+import {
+  buildImportRows,
+  EMPTY_COLUMN_MAPPING,
+  IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  parseCsv,
+  type ColumnMapping,
+  type FieldSource,
+  type ImportAccount,
+  type ImportField,
+} from "@/lib/statementImport";
+import type { ImportRowResult } from "@/lib/transferService";
+
+type ImportFormat = "csv" | "mpesa";
+
+type MpesaAccounts = { workingAccount?: string; utilityAccount?: string };
+
+// Only the first rows are rendered in the preview table; all rows are imported
+const PREVIEW_ROW_LIMIT = 100;
+
+// Header names commonly used by bank and M-Pesa statement exports
+const HEADER_GUESSES: Partial<Record<ImportField, RegExp>> = {
+  amount: /^(amount|value|transaction amount)$/i,
+  date: /(date|time)/i,
+  description: /(description|details|narrative|particulars|memo)/i,
+  externalTransactionId: /(receipt|reference|ref\b|ref\.|transaction id|txn id)/i,
+};
+
+function guessMapping(header: string[]): ColumnMapping {
+  const mapping: ColumnMapping = { ...EMPTY_COLUMN_MAPPING };
+  for (const [field, pattern] of Object.entries(HEADER_GUESSES) as Array<[ImportField, RegExp]>) {
+    const column = header.findIndex((name) => pattern.test(name.trim()));
+    if (column >= 0) mapping[field] = { kind: "column", column };
+  }
+  return mapping;
+}
+
+function sourceToValue(source: FieldSource): string {
+  if (source.kind === "column") return `col:${source.column}`;
+  if (source.kind === "account") return `acc:${source.accountId}`;
+  return "none";
+}
+
+function valueToSource(value: string): FieldSource {
+  if (value.startsWith("col:")) return { kind: "column", column: Number(value.slice(4)) };
+  if (value.startsWith("acc:")) return { kind: "account", accountId: value.slice(4) };
+  return { kind: "none" };
+}
+
+function formatAmount(value: number): string {
+  return new Intl.NumberFormat("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value);
+}
+
+export default function TransferImportModal({
+  categoryId,
+  accounts,
+  defaultCounterpartyAccountId,
+  transferTypes,
+  onClose,
+  onImported,
+}: {
+  categoryId: string;
+  accounts: ImportAccount[];
+  // Account on the other side of M-Pesa statement rows (usually the external account)
+  defaultCounterpartyAccountId?: string;
+  transferTypes: readonly string[];
+  onClose: () => void;
+  onImported: () => void;
+}) {
+  const [format, setFormat] = useState<ImportFormat>("csv");
+  const [fileName, setFileName] = useState("");
+  const [fileText, setFileText] = useState("");
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping>(EMPTY_COLUMN_MAPPING);
+  const [transferType, setTransferType] = useState(transferTypes[0] || "payment");
+  const [swapNegative, setSwapNegative] = useState(true);
+  const [mpesaAccounts, setMpesaAccounts] = useState<MpesaAccounts>({});
+  const [statementAccountId, setStatementAccountId] = useState("");
+  const [counterpartyAccountId, setCounterpartyAccountId] = useState(defaultCounterpartyAccountId || "");
+  // Server-side dry run / import outcome per source line
+  const [rowResults, setRowResults] = useState<Record<number, ImportRowResult>>({});
+  const [imported, setImported] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const accountNames = useMemo(() => new Map(accounts.map((a) => [a.id, a.name])), [accounts]);
+
+  // The category's M-Pesa working/utility accounts are the natural statement accounts
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/settings/mpesa?categoryId=${encodeURIComponent(categoryId)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        const integration = data?.integrations?.[0];
+        if (cancelled || !integration) return;
+        setMpesaAccounts({ workingAccount: integration.workingAccount, utilityAccount: integration.utilityAccount });
+        setStatementAccountId((current) => current || integration.workingAccount || "");
+      })
+      .catch((err) => console.error("Failed to load M-Pesa integration:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [categoryId]);
+
+  const csvRows = useMemo(() => parseCsv(fileText), [fileText]);
+  const mpesaStatement = useMemo(
+    () => (format === "mpesa" && fileText ? parseMpesaStatement(fileText) : null),
+    [format, fileText],
+  );
+
+  const columnNames = useMemo(() => {
+    const width = csvRows.reduce((max, row) => Math.max(max, row.length), 0);
+    return Array.from({ length: width }, (_, i) =>
+      hasHeader && csvRows[0]?.[i]?.trim() ? csvRows[0][i].trim() : `Column ${i + 1}`,
+    );
+  }, [csvRows, hasHeader]);
+
+  const previewRows = useMemo(() => {
+    if (format === "mpesa") {
+      if (mpesaStatement?.status !== "ok") return [];
+      return buildMpesaImportRows({
+        entries: mpesaStatement.entries,
+        statementAccountId,
+        counterpartyAccountId,
+        type: transferType,
+      });
+    }
+    return buildImportRows({ rows: csvRows, hasHeader, mapping, accounts, type: transferType, swapNegative });
+  }, [
+    format,
+    mpesaStatement,
+    statementAccountId,
+    counterpartyAccountId,
+    csvRows,
+    hasHeader,
+    mapping,
+    accounts,
+    transferType,
+    swapNegative,
+  ]);
+
+  const readyRows = previewRows.filter((r) => r.input);
+  const duplicateCount = Object.values(rowResults).filter((r) => r.status === "duplicate").length;
+  const createdCount = Object.values(rowResults).filter((r) => r.status === "created").length;
+  const failedResults = Object.values(rowResults).filter((r) => r.status === "invalid" || r.status === "failed");
+
+  // Any change to the input invalidates earlier server results
+  function updateMapping(field: ImportField, value: string) {
+    setMapping((prev) => ({ ...prev, [field]: valueToSource(value) }));
+    setRowResults({});
+  }
+
+  async function handleFileChange(file: File | undefined) {
+    if (!file) return;
+    setError(null);
+    setRowResults({});
+    setImported(false);
+
+    try {
+      const text = await file.text();
+      const rows = parseCsv(text);
+      if (rows.length === 0) {
+        setError("The file has no rows");
+        return;
+      }
+      setFileName(file.name);
+      setFileText(text);
+      setHasHeader(true);
+      setMapping(guessMapping(rows[0]));
+      // Recognise M-Pesa statements so the dedicated parser is used without an extra step
+      if (parseMpesaStatement(text).status === "ok") setFormat("mpesa");
+    } catch {
+      setError("Failed to read file");
+    }
+  }
+
+  async function sendRows(dryRun: boolean) {
+    setError(null);
+    setIsBusy(true);
+
+    const results: Record<number, ImportRowResult> = {};
+    try {
+      for (let start = 0; start < readyRows.length; start += MAX_IMPORT_ROWS) {
+        const batch = readyRows.slice(start, start + MAX_IMPORT_ROWS);
+        const res = await fetch("/api/transfers/import", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ rows: batch.map((r) => ({ row: r.row, input: r.input })), dryRun }),
+        });
+        const data = await res.json().catch(() => null);
+        if (!res.ok) {
+          setError((data && (data.reason || data.error)) || "Failed to import transfers");
+          break;
+        }
+        for (const result of (data.results || []) as ImportRowResult[]) {
+          results[result.row] = result;
+        }
+      }
+    } catch {
+      setError("Failed to import transfers");
+    } finally {
+      setRowResults(results);
+      setIsBusy(false);
+    }
+
+    if (!dryRun && Object.values(results).some((r) => r.status === "created")) {
+      setImported(true);
+      onImported();
+    }
+  }
+
+  function rowStatus(row: number, previewError?: string): { label: string; color: string } {
+    if (previewError) return { label: previewError, color: "#991b1b" };
+    const result = rowResults[row];
+    if (!result) return { label: "Ready", color: "var(--text-secondary, #666)" };
+    switch (result.status) {
+      case "created":
+        return { label: "Imported", color: "#065f46" };
+      case "duplicate":
+        return { label: "Already imported", color: "#92400e" };
+      case "invalid":
+      case "failed":
+        return { label: result.reason || "Failed", color: "#991b1b" };
+      default:
+        return { label: "Ready", color: "#065f46" };
+    }
+  }
+
+  const labelStyle = { display: "block", marginBottom: "6px", fontSize: "12px", fontWeight: 500 } as const;
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: "rgba(0, 0, 0, 0.5)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        zIndex: 1000,
+      }}
+      onClick={onClose}
+    >
+      <div
+        className="panel"
+        style={{
+          width: "95%",
+          maxWidth: "960px",
+          maxHeight: "90vh",
+          margin: "20px",
+          backgroundColor: "var(--bg-primary, #ffffff)",
+          display: "flex",
+          flexDirection: "column",
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="panel-header" style={{ flexShrink: 0 }}>
+          <div>
+            <div className="panel-title">Import Statement</div>
+            <div className="panel-subtitle">Rows are created as draft transfers</div>
+          </div>
+        </div>
+        <div style={{ padding: "20px", overflowY: "auto", flex: 1 }}>
+          {error && (
+            <div
+              style={{
+                marginBottom: "16px",
+                padding: "12px",
+                backgroundColor: "#fee2e2",
+                border: "1px solid #ef4444",
+                borderRadius: "8px",
+                color: "#991b1b",
+              }}
+            >
+              {error}
+            </div>
+          )}
+
+          <div style={{ display: "flex", gap: "16px", flexWrap: "wrap", alignItems: "flex-end", marginBottom: "16px" }}>
+            <div style={{ minWidth: "180px" }}>
+              <label style={labelStyle}>Format</label>
+              <select
+                className="setup-input"
+                value={format}
+                onChange={(e) => {
+                  setFormat(e.target.value as ImportFormat);
+                  setRowResults({});
+                }}
+                disabled={isBusy}
+                style={{ width: "100%" }}
+              >
+                <option value="csv">Generic CSV</option>
+                <option value="mpesa">M-Pesa statement</option>
+              </select>
+            </div>
+            <div style={{ flex: "1", minWidth: "220px" }}>
+              <label style={labelStyle}>{format === "mpesa" ? "Statement CSV, or text copied from the PDF *" : "CSV file *"}</label>
+              <input
+                className="setup-input"
+                type="file"
+                accept={format === "mpesa" ? ".csv,.txt,text/csv,text/plain" : ".csv,text/csv"}
+                onChange={(e) => void handleFileChange(e.target.files?.[0])}
+                disabled={isBusy}
+                style={{ width: "100%" }}
+              />
+            </div>
+            {format === "csv" && csvRows.length > 0 && (
+              <label style={{ display: "flex", alignItems: "center", gap: "8px", fontSize: "14px" }}>
+                <input
+                  type="checkbox"
+                  checked={hasHeader}
+                  onChange={(e) => {
+                    setHasHeader(e.target.checked);
+                    setRowResults({});
+                  }}
+                  disabled={isBusy}
+                />
+                First row is a header
+              </label>
+            )}
+          </div>
+
+          {format === "mpesa" && mpesaStatement?.status === "invalid" && (
+            <div style={{ marginBottom: "16px", fontSize: "14px", color: "#991b1b" }}>{mpesaStatement.reason}</div>
+          )}
+
+          {csvRows.length > 0 && (
+            <>
+              <div
+                style={{
+                  display: "grid",
+                  gridTemplateColumns: "repeat(auto-fill, minmax(200px, 1fr))",
+                  gap: "12px",
+                  marginBottom: "16px",
+                }}
+              >
+                {format === "mpesa" ? (
+                  <>
+                    <div>
+                      <label style={labelStyle}>Statement account *</label>
+                      <select
+                        className="setup-input"
+                        value={statementAccountId}
+                        onChange={(e) => {
+                          setStatementAccountId(e.target.value);
+                          setRowResults({});
+                        }}
+                        disabled={isBusy}
+                        style={{ width: "100%" }}
+                      >
+                        <option value="">Select account</option>
+                        {accounts.map((acc) => (
+                          <option key={acc.id} value={acc.id}>
+                            {acc.name}
+                            {acc.id === mpesaAccounts.workingAccount
+                              ? " (M-Pesa working)"
+                              : acc.id === mpesaAccounts.utilityAccount
+                                ? " (M-Pesa utility)"
+                                : ""}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label style={labelStyle}>Counterparty account *</label>
+                      <select
+                        className="setup-input"
+                        value={counterpartyAccountId}
+                        onChange={(e) => {
+                          setCounterpartyAccountId(e.target.value);
+                          setRowResults({});
+                        }}
+                        disabled={isBusy}
+                        style={{ width: "100%" }}
+                      >
+                        <option value="">Select account</option>
+                        {accounts
+                          .filter((acc) => acc.id !== statementAccountId)
+                          .map((acc) => (
+                            <option key={acc.id} value={acc.id}>
+                              {acc.name}
+                            </option>
+                          ))}
+                      </select>
+                    </div>
+                  </>
+                ) : IMPORT_FIELDS.map((field) => (
+                  <div key={field.key}>
+                    <label style={labelStyle}>
+                      {field.label}
+                      {field.key === "date" || field.key === "description" || field.key === "externalTransactionId" ? "" : " *"}
+                    </label>
+                    <select
+                      className="setup-input"
+                      value={sourceToValue(mapping[field.key])}
+                      onChange={(e) => updateMapping(field.key, e.target.value)}
+                      disabled={isBusy}
+                      style={{ width: "100%" }}
+                    >
+                      <option value="none">— Not mapped —</option>
+                      <optgroup label="Column">
+                        {columnNames.map((name, i) => (
+                          <option key={i} value={`col:${i}`}>
+                            {name}
+                          </option>
+                        ))}
+                      </optgroup>
+                      {field.accountField && (
+                        <optgroup label="Same account for every row">
+                          {accounts.map((acc) => (
+                            <option key={acc.id} value={`acc:${acc.id}`}>
+                              {acc.name}
+                            </option>
+                          ))}
+                        </optgroup>
+                      )}
+                    </select>
+                  </div>
+                ))}
+                <div>
+                  <label style={labelStyle}>Type</label>
+                  <select
+                    className="setup-input"
+                    value={transferType}
+                    onChange={(e) => {
+                      setTransferType(e.target.value);
+                      setRowResults({});
+                    }}
+                    disabled={isBusy}
+                    style={{ width: "100%" }}
+                  >
+                    {transferTypes.map((type) => (
+                      <option key={type} value={type}>
+                        {type}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {format === "csv" && (
+                <label style={{ display: "flex", alignItems: "center", gap: "8px", fontSize: "14px", marginBottom: "16px" }}>
+                  <input
+                    type="checkbox"
+                    checked={swapNegative}
+                    onChange={(e) => {
+                      setSwapNegative(e.target.checked);
+                      setRowResults({});
+                    }}
+                    disabled={isBusy}
+                  />
+                  Swap from and to accounts for negative amounts
+                </label>
+              )}
+
+              <div style={{ fontSize: "13px", color: "var(--text-secondary, #666)", marginBottom: "8px" }}>
+                {fileName} · {previewRows.length} row{previewRows.length !== 1 ? "s" : ""} · {readyRows.length} ready
+                {duplicateCount > 0 ? ` · ${duplicateCount} already imported` : ""}
+                {createdCount > 0 ? ` · ${createdCount} imported` : ""}
+                {failedResults.length > 0 ? ` · ${failedResults.length} failed` : ""}
+              </div>
+
+              <div style={{ overflowX: "auto", border: "1px solid var(--border)", borderRadius: "8px" }}>
+                <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "13px" }}>
+                  <thead>
+                    <tr style={{ textAlign: "left", backgroundColor: "var(--bg-secondary, #f9fafb)" }}>
+                      <th style={{ padding: "8px" }}>Line</th>
+                      <th style={{ padding: "8px" }}>Date</th>
+                      <th style={{ padding: "8px" }}>From → To</th>
+                      <th style={{ padding: "8px" }}>Description</th>
+                      <th style={{ padding: "8px" }}>Ref</th>
+                      <th style={{ padding: "8px", textAlign: "right" }}>Amount</th>
+                      <th style={{ padding: "8px" }}>Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {previewRows.slice(0, PREVIEW_ROW_LIMIT).map((preview) => {
+                      const status = rowStatus(preview.row, preview.error);
+                      const input = preview.input;
+                      return (
+                        <tr key={preview.row} style={{ borderTop: "1px solid var(--border)" }}>
+                          <td style={{ padding: "8px" }}>{preview.row}</td>
+                          <td style={{ padding: "8px", whiteSpace: "nowrap" }}>
+                            {input?.createdAt ? new Date(input.createdAt).toLocaleString() : "-"}
+                          </td>
+                          <td style={{ padding: "8px" }}>
+                            {input
+                              ? `${accountNames.get(input.fromAccountId) || input.fromAccountId} → ${accountNames.get(input.toAccountId) || input.toAccountId}`
+                              : "-"}
+                          </td>
+                          <td style={{ padding: "8px" }}>{input?.description || "-"}</td>
+                          <td style={{ padding: "8px", fontFamily: "monospace" }}>{input?.externalTransactionId || "-"}</td>
+                          <td style={{ padding: "8px", textAlign: "right" }}>{input ? formatAmount(input.amount) : "-"}</td>
+                          <td style={{ padding: "8px", color: status.color }}>{status.label}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              {previewRows.length > PREVIEW_ROW_LIMIT && (
+                <div style={{ fontSize: "12px", color: "var(--text-secondary, #666)", marginTop: "6px" }}>
+                  Showing the first {PREVIEW_ROW_LIMIT} of {previewRows.length} rows
+                </div>
+              )}
+            </>
+          )}
+
+          <div style={{ display: "flex", gap: "12px", justifyContent: "flex-end", marginTop: "20px" }}>
+            <button type="button" className="button button-ghost" onClick={onClose} disabled={isBusy}>
+              {imported ? "Done" : "Cancel"}
+            </button>
+            {!imported && (
+              <>
+                <button
+                  type="button"
+                  className="button button-ghost"
+                  onClick={() => void sendRows(true)}
+                  disabled={isBusy || readyRows.length === 0}
+                >
+                  Check duplicates
+                </button>
+                <button
+                  type="button"
+                  className="button"
+                  onClick={() => void sendRows(false)}
+                  disabled={isBusy || readyRows.length === 0}
+                >
+                  {isBusy ? "Working…" : `Import ${readyRows.length} draft${readyRows.length !== 1 ? "s" : ""}`}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
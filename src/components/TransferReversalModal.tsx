@@ -0,0 +1,190 @@
+"use client";
+
+import { useState } from "react";
+import type { Transfer } from "@/lib/transferService";
+import { REVERSAL_TYPES, type ReversalType } from "@/lib/transferReversal";
+
+const REVERSAL_TYPE_LABELS: Record<ReversalType, string> = {
+  refund: "Refund",
+  adjustment: "Adjustment",
+};
+
+function formatAmount(value: number): string {
+  return new Intl.NumberFormat("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value);
+}
+
+export default function TransferReversalModal({
+  transfer,
+  refundable,
+  onClose,
+  onCreated,
+}: {
+  transfer: Transfer;
+  refundable: number;
+  onClose: () => void;
+  onCreated: (reversal: Transfer) => void;
+}) {
+  // Defaults to reversing everything that has not been reversed yet
+  const [amount, setAmount] = useState(String(refundable));
+  const [type, setType] = useState<ReversalType>("refund");
+  const [description, setDescription] = useState("");
+  const [submitNow, setSubmitNow] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const parsedAmount = Number(amount.replace(/,/g, ""));
+  const amountValid = Number.isFinite(parsedAmount) && parsedAmount > 0;
+  const exceedsRefundable = amountValid && Math.round(parsedAmount * 100) > Math.round(refundable * 100);
+
+  async function handleSubmit() {
+    setError(null);
+    setIsBusy(true);
+    try {
+      const res = await fetch(`/api/transfers/${encodeURIComponent(transfer.id)}/reversal`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          amount: parsedAmount,
+          type,
+          status: submitNow ? "submitted" : "draft",
+          description: description.trim() || undefined,
+        }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(
+          data?.reason === "exceeds_refundable_amount"
+            ? "The amount is more than what is left to refund on this transfer"
+            : (data && (data.reason || data.error)) || "Failed to reverse transfer",
+        );
+        return;
+      }
+      onCreated(data.transfer as Transfer);
+    } catch {
+      setError("Failed to reverse transfer");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  const labelStyle = { display: "block", marginBottom: "6px", fontSize: "12px", fontWeight: 500 } as const;
+  const canSubmit = !isBusy && amountValid && !exceedsRefundable;
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: "rgba(0, 0, 0, 0.5)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        zIndex: 1100,
+      }}
+      onClick={onClose}
+    >
+      <div
+        className="panel"
+        style={{
+          width: "95%",
+          maxWidth: "480px",
+          margin: "20px",
+          backgroundColor: "var(--bg-primary, #ffffff)",
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="panel-header">
+          <div>
+            <div className="panel-title">Reverse / Refund</div>
+            <div className="panel-subtitle">
+              {transfer.toAccountName} → {transfer.fromAccountName} · {formatAmount(refundable)} of{" "}
+              {formatAmount(transfer.amount)} left to refund
+            </div>
+          </div>
+        </div>
+        <div style={{ padding: "20px" }}>
+          {error && (
+            <div
+              style={{
+                marginBottom: "16px",
+                padding: "12px",
+                backgroundColor: "#fee2e2",
+                border: "1px solid #ef4444",
+                borderRadius: "8px",
+                color: "#991b1b",
+              }}
+            >
+              {error}
+            </div>
+          )}
+
+          <div style={{ display: "flex", gap: "12px", marginBottom: "16px" }}>
+            <div style={{ flex: 1 }}>
+              <label style={labelStyle}>Amount *</label>
+              <input
+                className="setup-input"
+                type="text"
+                inputMode="decimal"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                disabled={isBusy}
+                style={{ width: "100%" }}
+              />
+            </div>
+            <div style={{ flex: 1 }}>
+              <label style={labelStyle}>Type</label>
+              <select
+                className="setup-input"
+                value={type}
+                onChange={(e) => setType(e.target.value as ReversalType)}
+                disabled={isBusy}
+                style={{ width: "100%" }}
+              >
+                {REVERSAL_TYPES.map((t) => (
+                  <option key={t} value={t}>
+                    {REVERSAL_TYPE_LABELS[t]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {exceedsRefundable && (
+            <div style={{ marginBottom: "16px", fontSize: "13px", color: "#991b1b" }}>
+              At most {formatAmount(refundable)} can still be refunded
+            </div>
+          )}
+
+          <div style={{ marginBottom: "16px" }}>
+            <label style={labelStyle}>Description</label>
+            <input
+              className="setup-input"
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder={`Reversal of ${transfer.label || transfer.description || "transfer"}`}
+              disabled={isBusy}
+              style={{ width: "100%" }}
+            />
+          </div>
+
+          <label style={{ display: "flex", alignItems: "center", gap: "8px", fontSize: "14px" }}>
+            <input type="checkbox" checked={submitNow} onChange={(e) => setSubmitNow(e.target.checked)} disabled={isBusy} />
+            Submit now (otherwise saved as a draft)
+          </label>
+
+          <div style={{ display: "flex", gap: "12px", justifyContent: "flex-end", marginTop: "20px" }}>
+            <button type="button" className="button button-ghost" onClick={onClose} disabled={isBusy}>
+              Cancel
+            </button>
+            <button type="button" className="button" onClick={() => void handleSubmit()} disabled={!canSubmit}>
+              {isBusy ? "Working…" : amountValid && parsedAmount < refundable ? "Record partial refund" : "Record reversal"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { formatTrendMonth, type CashFlowSeries, type SpendingSeries } from "@/lib/trends";
+
+// Plain SVG charts for the overview trends. They have no client state, so they render on the
+// server; colours come from the chart-* classes in globals.css, which follow the current theme.
+
+const WIDTH = 600;
+const HEIGHT = 220;
+const PAD = { top: 10, right: 8, bottom: 24, left: 56 };
+const PLOT_WIDTH = WIDTH - PAD.left - PAD.right;
+const PLOT_HEIGHT = HEIGHT - PAD.top - PAD.bottom;
+const GRID_LINES = 4;
+
+// Same order as the dot-a … dot-e legend colours
+export const SERIES_CLASSES = ["chart-series-a", "chart-series-b", "chart-series-c", "chart-series-d", "chart-series-e"];
+export const SERIES_DOT_CLASSES = ["dot-a", "dot-b", "dot-c", "dot-d", "dot-e"];
+
+function formatCompact(value: number): string {
+  return new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 }).format(value);
+}
+
+// Rounds the largest value up to 1, 2, 2.5 or 5 times a power of ten so grid lines land on round numbers
+function niceCeiling(value: number): number {
+  if (value <= 0) return 1;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+  const step = [1, 2, 2.5, 5, 10].find((s) => s * magnitude >= value) ?? 10;
+  return step * magnitude;
+}
+
+function Axes({ months, min, max }: { months: string[]; min: number; max: number }) {
+  const y = (v: number) => PAD.top + PLOT_HEIGHT - ((v - min) / (max - min || 1)) * PLOT_HEIGHT;
+  const slot = PLOT_WIDTH / Math.max(months.length, 1);
+  // Every other month label when there are many months
+  const labelEvery = months.length > 12 ? 2 : 1;
+  return (
+    <g>
+      {Array.from({ length: GRID_LINES + 1 }, (_, i) => {
+        const value = min + ((max - min) * i) / GRID_LINES;
+        return (
+          <g key={i}>
+            <line className="chart-grid" x1={PAD.left} x2={WIDTH - PAD.right} y1={y(value)} y2={y(value)} />
+            <text className="chart-label" x={PAD.left - 6} y={y(value)} textAnchor="end" dominantBaseline="middle">
+              {formatCompact(value)}
+            </text>
+          </g>
+        );
+      })}
+      {months.map((m, i) =>
+        i % labelEvery === 0 ? (
+          <text key={m} className="chart-label" x={PAD.left + slot * (i + 0.5)} y={HEIGHT - 6} textAnchor="middle">
+            {formatTrendMonth(m)}
+          </text>
+        ) : null,
+      )}
+    </g>
+  );
+}
+
+// Inflow and outflow side by side for each month
+export function CashFlowChart({ months, series }: { months: string[]; series: CashFlowSeries }) {
+  const max = niceCeiling(Math.max(0, ...series.inflow, ...series.outflow));
+  const slot = PLOT_WIDTH / Math.max(months.length, 1);
+  const barWidth = Math.max(2, slot * 0.35);
+  const height = (v: number) => (v / max) * PLOT_HEIGHT;
+
+  return (
+    <svg className="chart" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label={`Monthly inflow and outflow for ${series.categoryName}`}>
+      <Axes months={months} min={0} max={max} />
+      {months.map((m, i) => {
+        const x = PAD.left + slot * i + (slot - barWidth * 2) / 2;
+        const base = PAD.top + PLOT_HEIGHT;
+        return (
+          <g key={m}>
+            <rect className="chart-inflow" x={x} y={base - height(series.inflow[i])} width={barWidth} height={height(series.inflow[i])}>
+              <title>{`${formatTrendMonth(m)} inflow: ${formatCompact(series.inflow[i])}`}</title>
+            </rect>
+            <rect
+              className="chart-outflow"
+              x={x + barWidth}
+              y={base - height(series.outflow[i])}
+              width={barWidth}
+              height={height(series.outflow[i])}
+            >
+              <title>{`${formatTrendMonth(m)} outflow: ${formatCompact(series.outflow[i])}`}</title>
+            </rect>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+// Spending per expense account, stacked for each month
+export function SpendingTrendChart({ months, series }: { months: string[]; series: SpendingSeries[] }) {
+  const monthTotals = months.map((_, i) => series.reduce((sum, s) => sum + s.totals[i], 0));
+  const max = niceCeiling(Math.max(0, ...monthTotals));
+  const slot = PLOT_WIDTH / Math.max(months.length, 1);
+  const barWidth = Math.max(2, slot * 0.6);
+  const height = (v: number) => (v / max) * PLOT_HEIGHT;
+
+  return (
+    <svg className="chart" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label="Monthly spending by expense account">
+      <Axes months={months} min={0} max={max} />
+      {months.map((m, i) => {
+        const x = PAD.left + slot * i + (slot - barWidth) / 2;
+        let top = PAD.top + PLOT_HEIGHT;
+        return (
+          <g key={m}>
+            {series.map((s, j) => {
+              const h = height(s.totals[i]);
+              top -= h;
+              if (h <= 0) return null;
+              return (
+                <rect key={s.accountId || s.accountName} className={SERIES_CLASSES[j % SERIES_CLASSES.length]} x={x} y={top} width={barWidth} height={h}>
+                  <title>{`${formatTrendMonth(m)} ${s.accountName}: ${formatCompact(s.totals[i])}`}</title>
+                </rect>
+              );
+            })}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+// Net worth at the end of each month
+export function NetWorthChart({ months, values }: { months: string[]; values: number[] }) {
+  const low = Math.min(0, ...values);
+  const high = Math.max(0, ...values);
+  const max = high > 0 ? niceCeiling(high) : 0;
+  const min = low < 0 ? -niceCeiling(-low) : 0;
+  const slot = PLOT_WIDTH / Math.max(months.length, 1);
+  const x = (i: number) => PAD.left + slot * (i + 0.5);
+  const y = (v: number) => PAD.top + PLOT_HEIGHT - ((v - min) / (max - min || 1)) * PLOT_HEIGHT;
+  const points = values.map((v, i) => `${x(i)},${y(v)}`).join(" ");
+  const area = values.length ? `${x(0)},${y(0)} ${points} ${x(values.length - 1)},${y(0)}` : "";
+
+  return (
+    <svg className="chart" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label="Net worth at the end of each month">
+      <Axes months={months} min={min} max={max} />
+      {area && <polygon className="chart-area" points={area} />}
+      {points && <polyline className="chart-line" points={points} />}
+      {values.map((v, i) => (
+        <circle key={months[i]} className="chart-point" cx={x(i)} cy={y(v)} r={3}>
+          <title>{`${formatTrendMonth(months[i])}: ${formatCompact(v)}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,261 @@
+// CSV and PDF downloads of an account statement (GET /api/accounts/[accountId]/statement).
+// There is no PDF library in the app, so the PDF is written by hand: A4 pages of Helvetica text.
+
+import type { AccountStatement } from "@/lib/accountStatementService";
+import { csvLine } from "@/lib/transferExport";
+
+export const STATEMENT_FORMATS = ["csv", "pdf"] as const;
+export type StatementFormat = (typeof STATEMENT_FORMATS)[number];
+
+export const STATEMENT_CONTENT_TYPES: Record<StatementFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  pdf: "application/pdf",
+};
+
+function formatAmount(value: number | null): string {
+  if (value == null) return "";
+  return value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatDay(iso: string): string {
+  return iso.slice(0, 10);
+}
+
+export function statementFilename(statement: AccountStatement, format: StatementFormat): string {
+  const name = statement.account.name.replace(/[^A-Za-z0-9]+/g, "-").replace(/^-|-$/g, "").toLowerCase() || "account";
+  return `statement-${name}-${formatDay(statement.from)}-${formatDay(statement.to)}.${format}`;
+}
+
+// ---------- CSV ----------
+
+// Opening and closing balances are rows of their own so the file reads like the on-screen statement
+export function buildStatementCsv(statement: AccountStatement): string {
+  const rows = [
+    csvLine(["Date", "Counterparty", "Description", "Reference", "Type", "Debit", "Credit", "Balance", "Transfer ID"]),
+    csvLine([statement.from, null, "Opening balance", null, null, null, null, statement.openingBalance, null]),
+    ...statement.lines.map((line) =>
+      csvLine([
+        line.date,
+        line.counterparty,
+        line.description || null,
+        line.reference ?? null,
+        line.type,
+        line.debit,
+        line.credit,
+        line.balance,
+        line.transferId,
+      ]),
+    ),
+    csvLine([
+      statement.to,
+      null,
+      "Closing balance",
+      null,
+      null,
+      statement.totalDebits,
+      statement.totalCredits,
+      statement.closingBalance,
+      null,
+    ]),
+  ];
+  return "\uFEFF" + rows.join("");
+}
+
+// ---------- PDF ----------
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const ROW_HEIGHT = 13;
+const FONT_SIZE = 8.5;
+
+// Helvetica advance widths (1/1000 em) for the characters amounts are made of; used to right-align
+const NUMBER_WIDTHS: Record<string, number> = { ",": 278, ".": 278, "-": 333, " ": 278 };
+
+function textWidth(text: string, size: number): number {
+  // Digits are all 556 wide; anything else is approximated with an average letter
+  return [...text].reduce((sum, ch) => sum + (NUMBER_WIDTHS[ch] ?? (/\d/.test(ch) ? 556 : 520)), 0) * (size / 1000);
+}
+
+// Standard fonts only cover WinAnsi; anything outside Latin-1 is replaced
+function pdfString(text: string): string {
+  const latin1 = [...text].map((ch) => (ch.charCodeAt(0) > 255 || ch.charCodeAt(0) < 32 ? "?" : ch)).join("");
+  return `(${latin1.replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)")})`;
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars - 3)}...` : text;
+}
+
+type PdfPage = string[];
+
+function drawText(page: PdfPage, text: string, x: number, y: number, options: { bold?: boolean; size?: number } = {}) {
+  const size = options.size ?? FONT_SIZE;
+  page.push(`BT /${options.bold ? "F2" : "F1"} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td ${pdfString(text)} Tj ET`);
+}
+
+function drawTextRight(page: PdfPage, text: string, right: number, y: number, options: { bold?: boolean; size?: number } = {}) {
+  drawText(page, text, right - textWidth(text, options.size ?? FONT_SIZE), y, options);
+}
+
+function drawRule(page: PdfPage, y: number) {
+  page.push(`0.75 G 0.5 w ${MARGIN} ${y.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${y.toFixed(2)} l S 0 G`);
+}
+
+const COLUMNS = {
+  date: MARGIN,
+  details: MARGIN + 58,
+  reference: MARGIN + 268,
+  debitRight: MARGIN + 400,
+  creditRight: MARGIN + 458,
+  balanceRight: PAGE_WIDTH - MARGIN,
+};
+
+function drawTableHeader(page: PdfPage, y: number) {
+  drawText(page, "Date", COLUMNS.date, y, { bold: true });
+  drawText(page, "Details", COLUMNS.details, y, { bold: true });
+  drawText(page, "Reference", COLUMNS.reference, y, { bold: true });
+  drawTextRight(page, "Debit", COLUMNS.debitRight, y, { bold: true });
+  drawTextRight(page, "Credit", COLUMNS.creditRight, y, { bold: true });
+  drawTextRight(page, "Balance", COLUMNS.balanceRight, y, { bold: true });
+  drawRule(page, y - 4);
+}
+
+function layoutStatement(statement: AccountStatement): PdfPage[] {
+  const pages: PdfPage[] = [];
+  let page: PdfPage = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  // Statement heading (first page only)
+  drawText(page, "Account Statement", MARGIN, y - 6, { bold: true, size: 16 });
+  y -= 28;
+  drawText(page, statement.account.name, MARGIN, y, { bold: true, size: 11 });
+  y -= 14;
+  const accountMeta = [statement.account.categoryName, statement.account.type, statement.account.id].filter(Boolean).join(" - ");
+  drawText(page, accountMeta, MARGIN, y);
+  y -= 12;
+  drawText(page, `Period: ${formatDay(statement.from)} to ${formatDay(statement.to)} (UTC)`, MARGIN, y);
+  y -= 12;
+  drawText(page, `Generated: ${new Date().toISOString().replace("T", " ").slice(0, 16)} UTC`, MARGIN, y);
+  y -= 22;
+
+  const summary: Array<[string, string]> = [
+    ["Opening balance", formatAmount(statement.openingBalance)],
+    ["Total debits", formatAmount(statement.totalDebits)],
+    ["Total credits", formatAmount(statement.totalCredits)],
+    ["Closing balance", formatAmount(statement.closingBalance)],
+  ];
+  if (statement.ledgerBalance != null) {
+    summary.push(["Ledger balance (now)", formatAmount(statement.ledgerBalance)]);
+  }
+  for (const [label, value] of summary) {
+    drawText(page, label, MARGIN, y);
+    drawTextRight(page, value, MARGIN + 240, y, { bold: true });
+    y -= 12;
+  }
+  if (statement.reconciled != null) {
+    drawText(
+      page,
+      statement.reconciled ? "Balances reconcile with the ledger." : "Balances do NOT reconcile with the ledger.",
+      MARGIN,
+      y,
+      { bold: !statement.reconciled },
+    );
+    y -= 12;
+  }
+  y -= 12;
+
+  drawTableHeader(page, y);
+  y -= ROW_HEIGHT + 2;
+
+  const rows: Array<{ date: string; details: string; reference: string; debit: string; credit: string; balance: string; bold?: boolean }> = [
+    { date: formatDay(statement.from), details: "Opening balance", reference: "", debit: "", credit: "", balance: formatAmount(statement.openingBalance), bold: true },
+    ...statement.lines.map((line) => ({
+      date: formatDay(line.date),
+      details: [line.counterparty, line.description].filter(Boolean).join(" - ") + (line.gap ? " *" : ""),
+      reference: line.reference || "",
+      debit: formatAmount(line.debit),
+      credit: formatAmount(line.credit),
+      balance: formatAmount(line.balance),
+    })),
+    {
+      date: formatDay(statement.to),
+      details: "Closing balance",
+      reference: "",
+      debit: formatAmount(statement.totalDebits),
+      credit: formatAmount(statement.totalCredits),
+      balance: formatAmount(statement.closingBalance),
+      bold: true,
+    },
+  ];
+
+  for (const row of rows) {
+    if (y < MARGIN + ROW_HEIGHT) {
+      pages.push(page);
+      page = [];
+      y = PAGE_HEIGHT - MARGIN;
+      drawTableHeader(page, y);
+      y -= ROW_HEIGHT + 2;
+    }
+    const options = { bold: row.bold };
+    drawText(page, row.date, COLUMNS.date, y, options);
+    drawText(page, truncate(row.details, 44), COLUMNS.details, y, options);
+    drawText(page, truncate(row.reference, 18), COLUMNS.reference, y, options);
+    drawTextRight(page, row.debit, COLUMNS.debitRight, y, options);
+    drawTextRight(page, row.credit, COLUMNS.creditRight, y, options);
+    drawTextRight(page, row.balance, COLUMNS.balanceRight, y, options);
+    y -= ROW_HEIGHT;
+  }
+
+  if (statement.lines.some((line) => line.gap)) {
+    y -= 6;
+    if (y < MARGIN) {
+      pages.push(page);
+      page = [];
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    drawText(page, "* The balance changed by more than this transfer since the previous line.", MARGIN, y, { size: 7.5 });
+  }
+  pages.push(page);
+
+  pages.forEach((p, i) => drawTextRight(p, `Page ${i + 1} of ${pages.length}`, PAGE_WIDTH - MARGIN, MARGIN / 2, { size: 7.5 }));
+  return pages;
+}
+
+export function buildStatementPdf(statement: AccountStatement): Uint8Array<ArrayBuffer> {
+  const pages = layoutStatement(statement);
+
+  // 1 catalog, 2 page tree, 3-4 fonts, then a page object and its content stream per page
+  const objects: string[] = [];
+  const pageObjectIds = pages.map((_, i) => 5 + i * 2);
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageObjectIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+  pages.forEach((commands, i) => {
+    const pageId = pageObjectIds[i];
+    const content = commands.join("\n");
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  // Every character is Latin-1 by now, so string offsets are byte offsets
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(pdf.length);
+  for (let i = 0; i < pdf.length; i++) bytes[i] = pdf.charCodeAt(i) & 0xff;
+  return bytes;
+}
@@ -0,0 +1,195 @@
+import {
+  executeSurrealQL,
+  getResultArray,
+  thingIdToString,
+  toSurrealThingLiteral,
+} from "@/lib/surrealdb";
+import { asTbAccount } from "@/lib/settingsService";
+import { getTransferBalance } from "@/lib/transferExport";
+import { mapTransferRecord, TRANSFER_SELECT_FIELDS, type Transfer } from "@/lib/transferService";
+
+// A statement covers one account over a period; longer periods have to be split
+export const MAX_STATEMENT_LINES = 5000;
+
+export type StatementLine = {
+  transferId: string;
+  date: string;
+  counterparty: string;
+  description: string;
+  reference?: string;
+  type: string;
+  // From the account's side: debit when it is the transfer's from account, credit when it is the to account
+  debit: number | null;
+  credit: number | null;
+  // Book balance TigerBeetle reported right after this transfer posted
+  balance: number | null;
+  // The balance moved by something other than this transfer's amount since the previous line
+  gap: boolean;
+};
+
+export type AccountStatement = {
+  account: { id: string; name: string; categoryId?: string; categoryName?: string; type?: string };
+  from: string;
+  to: string;
+  openingBalance: number;
+  closingBalance: number;
+  totalDebits: number;
+  totalCredits: number;
+  lines: StatementLine[];
+  // Current fn::tb_account book balance
+  ledgerBalance: number | null;
+  // Posted transfers after the statement period (the closing balance only matches the ledger without them)
+  laterTransfers: number;
+  // Closing balance (or the latest posted balance when later transfers exist) agrees with the ledger
+  reconciled: boolean | null;
+};
+
+// Statement periods are whole days in UTC ("YYYY-MM-DD" from the page's date inputs); the default
+// is the current month to date
+export function resolveStatementPeriod(
+  fromParam: string | null | undefined,
+  toParam: string | null | undefined,
+): { status: "ok"; from: string; to: string } | { status: "invalid"; reason: string } {
+  const today = new Date().toISOString().slice(0, 10);
+  const fromDay = fromParam || `${today.slice(0, 8)}01`;
+  const toDay = toParam || today;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(fromDay) || isNaN(new Date(fromDay).getTime())) {
+    return { status: "invalid", reason: "invalid_from" };
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(toDay) || isNaN(new Date(toDay).getTime())) {
+    return { status: "invalid", reason: "invalid_to" };
+  }
+  if (fromDay > toDay) return { status: "invalid", reason: "invalid_period" };
+  return { status: "ok", from: `${fromDay}T00:00:00.000Z`, to: `${toDay}T23:59:59.999Z` };
+}
+
+function parseBalance(value: string | null | undefined): number | null {
+  if (value == null) return null;
+  const n = Number(String(value).replace(/dec$/i, ""));
+  return Number.isFinite(n) ? n : null;
+}
+
+function snapshotBalance(transfer: Transfer | undefined, accountId: string): number | null {
+  return transfer ? parseBalance(getTransferBalance(transfer, accountId)) : null;
+}
+
+function amountsMatch(a: number, b: number): boolean {
+  return Math.abs(a - b) < 0.005;
+}
+
+// Builds the statement from the balance snapshots stored on posted transfers
+// (metadata.transfer_balance). The opening balance is the snapshot of the last posted transfer
+// before the period, so balances never depend on a debit/credit sign convention per account type.
+export async function getAccountStatement(options: {
+  accessToken: string | undefined;
+  accountId: string;
+  from: string;
+  to: string;
+}): Promise<{ status: "ok"; statement: AccountStatement } | { status: "skipped"; reason: string }> {
+  const { accessToken, accountId, from, to } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const accountLiteral = toSurrealThingLiteral(accountId);
+  if (!accountLiteral) return { status: "skipped", reason: "invalid_account_id" };
+  if (isNaN(new Date(from).getTime())) return { status: "skipped", reason: "invalid_from" };
+  if (isNaN(new Date(to).getTime())) return { status: "skipped", reason: "invalid_to" };
+  if (new Date(from) > new Date(to)) return { status: "skipped", reason: "invalid_period" };
+
+  const fromLiteral = `<datetime>${JSON.stringify(new Date(from).toISOString())}`;
+  const toLiteral = `<datetime>${JSON.stringify(new Date(to).toISOString())}`;
+  const postedForAccount = `status = "posted" AND (from_account_id = $account OR to_account_id = $account)`;
+
+  const query = `
+    LET $account = ${accountLiteral};
+    SELECT id, name, type, category_id, category_id.name AS category_name, fn::tb_account(id) AS tb_account FROM $account;
+    SELECT ${TRANSFER_SELECT_FIELDS} FROM transfer
+      WHERE ${postedForAccount} AND created_at < ${fromLiteral}
+      ORDER BY created_at DESC, id DESC LIMIT 1;
+    SELECT ${TRANSFER_SELECT_FIELDS} FROM transfer
+      WHERE ${postedForAccount} AND created_at >= ${fromLiteral} AND created_at <= ${toLiteral}
+      ORDER BY created_at ASC, id ASC LIMIT ${MAX_STATEMENT_LINES + 1};
+    SELECT ${TRANSFER_SELECT_FIELDS} FROM transfer
+      WHERE ${postedForAccount} AND created_at > ${toLiteral}
+      ORDER BY created_at DESC, id DESC LIMIT 1;
+    (SELECT count() FROM transfer WHERE ${postedForAccount} AND created_at > ${toLiteral} GROUP ALL)[0].count;
+  `;
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query,
+    logName: "accountStatementService.POST /sql (account statement)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+
+  const accountRaw = getResultArray<Record<string, unknown>>(result.data[1])[0];
+  if (!accountRaw) return { status: "skipped", reason: "account_not_found" };
+
+  const periodTransfers = getResultArray<Record<string, unknown>>(result.data[3]).map(mapTransferRecord);
+  if (periodTransfers.length > MAX_STATEMENT_LINES) return { status: "skipped", reason: "too_many_transfers" };
+
+  const before = getResultArray<Record<string, unknown>>(result.data[2]).map(mapTransferRecord)[0];
+  const latestAfter = getResultArray<Record<string, unknown>>(result.data[4]).map(mapTransferRecord)[0];
+  const laterTransfers = typeof result.data[5]?.result === "number" ? result.data[5].result : 0;
+
+  // No posted transfer before the period means the account started from zero
+  const openingBalance = snapshotBalance(before, accountId) ?? 0;
+
+  let previous: number | null = openingBalance;
+  let totalDebits = 0;
+  let totalCredits = 0;
+  const lines: StatementLine[] = periodTransfers.map((t) => {
+    const isDebit = t.fromAccountId === accountId;
+    if (isDebit) totalDebits += t.amount;
+    else totalCredits += t.amount;
+
+    const balance = snapshotBalance(t, accountId);
+    const gap = balance != null && previous != null && !amountsMatch(Math.abs(balance - previous), t.amount);
+    if (balance != null) previous = balance;
+
+    return {
+      transferId: t.id,
+      date: t.createdAt,
+      counterparty: isDebit ? t.toAccountName : t.fromAccountName,
+      description: t.label || t.description || "",
+      reference: t.externalTransactionId,
+      type: t.type,
+      debit: isDebit ? t.amount : null,
+      credit: isDebit ? null : t.amount,
+      balance,
+      gap,
+    };
+  });
+
+  const lastKnown = [...lines].reverse().find((l) => l.balance != null);
+  const closingBalance = lastKnown?.balance ?? openingBalance;
+
+  const tbAccount = asTbAccount(accountRaw.tb_account);
+  const ledgerBalance = parseBalance(tbAccount?.book_balance);
+  const latestBalance = laterTransfers > 0 ? snapshotBalance(latestAfter, accountId) : closingBalance;
+  const reconciled =
+    ledgerBalance != null && latestBalance != null ? amountsMatch(ledgerBalance, latestBalance) : null;
+
+  return {
+    status: "ok",
+    statement: {
+      account: {
+        id: thingIdToString(accountRaw.id) || accountId,
+        name: typeof accountRaw.name === "string" ? accountRaw.name : "(Unnamed)",
+        categoryId: thingIdToString(accountRaw.category_id),
+        categoryName: typeof accountRaw.category_name === "string" ? accountRaw.category_name : undefined,
+        type: typeof accountRaw.type === "string" ? accountRaw.type : undefined,
+      },
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString(),
+      openingBalance,
+      closingBalance,
+      totalDebits,
+      totalCredits,
+      lines,
+      ledgerBalance,
+      laterTransfers,
+      reconciled,
+    },
+  };
+}
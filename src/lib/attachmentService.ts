@@ -0,0 +1,250 @@
+import {
+  executeSurrealQL,
+  getResultArray,
+  thingIdToString,
+  toSurrealThingLiteral,
+} from "@/lib/surrealdb";
+import { getAttachmentStorage } from "@/lib/attachmentStorage";
+import { checkReconciliationLock, getTransferStatus } from "@/lib/transferService";
+import { SPLIT_LEG_ROLE, SPLIT_PARENT_STATUS } from "@/lib/transferSplit";
+import {
+  ATTACHMENT_CONTENT_TYPES,
+  isAttachmentContentType,
+  MAX_ATTACHMENTS_PER_TRANSFER,
+  validateAttachmentFile,
+  type TransferAttachment,
+} from "@/lib/attachments";
+
+// Attachment records (table transfer_attachment) are read and written with the caller's token, so
+// SurrealDB permissions decide who may see a transfer's files. The storage backend has no access
+// control of its own and is only reached through a record the caller could select.
+
+const ATTACHMENT_SELECT_FIELDS = `id, transfer_id, file_name, content_type, size, created_at, uploaded_by.name AS uploaded_by_name`;
+
+function mapAttachmentRecord(a: Record<string, unknown>): TransferAttachment {
+  return {
+    id: thingIdToString(a.id) || "",
+    transferId: thingIdToString(a.transfer_id) || "",
+    fileName: typeof a.file_name === "string" ? a.file_name : "",
+    contentType: isAttachmentContentType(a.content_type) ? a.content_type : "application/pdf",
+    size: typeof a.size === "number" ? a.size : Number(a.size) || 0,
+    createdAt: typeof a.created_at === "string" ? a.created_at : "",
+    uploadedByName: typeof a.uploaded_by_name === "string" ? a.uploaded_by_name : undefined,
+  };
+}
+
+function parseTransferLiteral(transferId: string): string | null {
+  const literal = toSurrealThingLiteral(transferId);
+  return literal && literal.startsWith("transfer:") ? literal : null;
+}
+
+function parseAttachmentLiteral(attachmentId: string): string | null {
+  const literal = toSurrealThingLiteral(attachmentId);
+  return literal && literal.startsWith("transfer_attachment:") ? literal : null;
+}
+
+export async function listTransferAttachments(options: {
+  accessToken: string | undefined;
+  transferId: string;
+}): Promise<{ status: "ok"; attachments: TransferAttachment[] } | { status: "skipped"; reason: string }> {
+  const { accessToken, transferId } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const transferLiteral = parseTransferLiteral(transferId);
+  if (!transferLiteral) return { status: "skipped", reason: "invalid_transfer_id" };
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `SELECT ${ATTACHMENT_SELECT_FIELDS} FROM transfer_attachment WHERE transfer_id = ${transferLiteral} ORDER BY created_at ASC;`,
+    logName: "attachmentService.POST /sql (list attachments)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+  return { status: "ok", attachments: getResultArray<Record<string, unknown>>(result.data[0]).map(mapAttachmentRecord) };
+}
+
+// Attachment ids of many transfers at once (for exports), keyed by transfer id
+export async function listAttachmentIdsByTransfer(options: {
+  accessToken: string | undefined;
+  transferIds: string[];
+}): Promise<{ status: "ok"; attachmentIds: Map<string, string[]> } | { status: "skipped"; reason: string }> {
+  const { accessToken, transferIds } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const literals = Array.from(new Set(transferIds.map(parseTransferLiteral).filter((l): l is string => !!l)));
+  if (literals.length === 0) return { status: "ok", attachmentIds: new Map() };
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `SELECT id, transfer_id, created_at FROM transfer_attachment WHERE transfer_id IN [${literals.join(", ")}] ORDER BY created_at ASC;`,
+    logName: "attachmentService.POST /sql (list attachment ids)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+
+  const attachmentIds = new Map<string, string[]>();
+  for (const row of getResultArray<Record<string, unknown>>(result.data[0])) {
+    const transferId = thingIdToString(row.transfer_id);
+    const id = thingIdToString(row.id);
+    if (!transferId || !id) continue;
+    attachmentIds.set(transferId, [...(attachmentIds.get(transferId) || []), id]);
+  }
+  return { status: "ok", attachmentIds };
+}
+
+// Stores the file, then creates its record. The record is only created when the caller can select
+// the transfer and it has room for another attachment; otherwise the stored file is removed again.
+export async function createTransferAttachment(options: {
+  accessToken: string | undefined;
+  transferId: string;
+  file: { name: string; type: string; data: Uint8Array };
+}): Promise<
+  | { status: "created"; attachment: TransferAttachment }
+  | { status: "invalid"; error: string; reason: string }
+  | { status: "skipped"; reason: string }
+> {
+  const { accessToken, transferId, file } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const transferLiteral = parseTransferLiteral(transferId);
+  if (!transferLiteral) return { status: "invalid", error: "Invalid transferId", reason: "invalid_transfer_id" };
+
+  const validation = validateAttachmentFile({ name: file.name, type: file.type, size: file.data.byteLength });
+  if (validation.status === "invalid") return validation;
+
+  const storage = getAttachmentStorage();
+  const storageKey = await storage.put(file.data, ATTACHMENT_CONTENT_TYPES[validation.contentType]);
+
+  let created: TransferAttachment | null = null;
+  let reason = "server_error";
+  try {
+    const result = await executeSurrealQL({
+      token: accessToken,
+      query: `
+        LET $me = (SELECT VALUE id FROM user WHERE auth_sub = $token.sub LIMIT 1)[0];
+        LET $transfer = (SELECT VALUE id FROM ${transferLiteral})[0];
+        LET $count = (SELECT count() AS n FROM transfer_attachment WHERE transfer_id = ${transferLiteral} GROUP ALL)[0].n ?? 0;
+        IF $transfer = NONE {
+          RETURN "transfer_not_found";
+        } ELSE IF $count >= ${MAX_ATTACHMENTS_PER_TRANSFER} {
+          RETURN "too_many_attachments";
+        } ELSE {
+          LET $created = (CREATE transfer_attachment SET
+            transfer_id = $transfer,
+            file_name = ${JSON.stringify(validation.fileName)},
+            content_type = ${JSON.stringify(validation.contentType)},
+            size = ${file.data.byteLength},
+            storage_key = ${JSON.stringify(storageKey)},
+            uploaded_by = $me,
+            created_at = time::now());
+          RETURN (SELECT ${ATTACHMENT_SELECT_FIELDS} FROM $created.id);
+        };
+      `,
+      logName: "attachmentService.POST /sql (create attachment)",
+    });
+
+    if (result.success) {
+      const outcome = result.data[3]?.result;
+      if (typeof outcome === "string") reason = outcome;
+      else {
+        const record = getResultArray<Record<string, unknown>>(result.data[3])[0];
+        if (record) created = mapAttachmentRecord(record);
+        else reason = "permission_denied";
+      }
+    } else {
+      reason = result.error;
+    }
+  } finally {
+    if (!created) await storage.delete(storageKey).catch((err) => console.error("Failed to remove orphaned attachment file:", err));
+  }
+
+  if (created) return { status: "created", attachment: created };
+  if (reason === "too_many_attachments") {
+    return {
+      status: "invalid",
+      error: `A transfer can have at most ${MAX_ATTACHMENTS_PER_TRANSFER} attachments`,
+      reason,
+    };
+  }
+  return { status: "skipped", reason };
+}
+
+// The attachment record and its file's bytes
+export async function getTransferAttachmentFile(options: {
+  accessToken: string | undefined;
+  attachmentId: string;
+}): Promise<
+  { status: "ok"; attachment: TransferAttachment; data: Uint8Array } | { status: "skipped"; reason: string }
+> {
+  const { accessToken, attachmentId } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const attachmentLiteral = parseAttachmentLiteral(attachmentId);
+  if (!attachmentLiteral) return { status: "skipped", reason: "invalid_attachment_id" };
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `SELECT ${ATTACHMENT_SELECT_FIELDS}, storage_key FROM ${attachmentLiteral};`,
+    logName: "attachmentService.POST /sql (get attachment)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+  const record = getResultArray<Record<string, unknown>>(result.data[0])[0];
+  if (!record || typeof record.storage_key !== "string") return { status: "skipped", reason: "attachment_not_found" };
+
+  const data = await getAttachmentStorage().get(record.storage_key);
+  if (!data) return { status: "skipped", reason: "attachment_file_missing" };
+  return { status: "ok", attachment: mapAttachmentRecord(record), data };
+}
+
+// Deletes the record, then its file; a file left behind by a failed removal is only logged. Like the
+// transfer itself, its attachments can only be removed while it is a draft outside a locked
+// reconciliation, so receipts backing submitted or reconciled transfers stay on record.
+export async function deleteTransferAttachment(options: {
+  accessToken: string | undefined;
+  attachmentId: string;
+}): Promise<{ status: "deleted" } | { status: "skipped"; reason: string }> {
+  const { accessToken, attachmentId } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const attachmentLiteral = parseAttachmentLiteral(attachmentId);
+  if (!attachmentLiteral) return { status: "skipped", reason: "invalid_attachment_id" };
+
+  const currentResult = await executeSurrealQL({
+    token: accessToken,
+    query: `SELECT transfer_id FROM ${attachmentLiteral};`,
+    logName: "attachmentService.POST /sql (get attachment transfer)",
+  });
+
+  if (!currentResult.success) return { status: "skipped", reason: currentResult.error };
+  const current = getResultArray<Record<string, unknown>>(currentResult.data[0])[0];
+  const transferLiteral = current ? parseTransferLiteral(thingIdToString(current.transfer_id) || "") : null;
+  if (!current || !transferLiteral) return { status: "skipped", reason: "attachment_not_found" };
+  const transfer = await getTransferStatus(accessToken, transferLiteral);
+  if (transfer.status === "skipped") return transfer;
+  if (transfer.transferStatus !== "draft") return { status: "skipped", reason: "transfer_not_editable" };
+
+  const lock = await checkReconciliationLock(accessToken, { transferLiteral });
+  if (lock.status === "skipped") return lock;
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    // A split parent is a draft while its legs are
+    query: `DELETE ${attachmentLiteral}
+      WHERE transfer_id.status INSIDE ["draft", ${JSON.stringify(SPLIT_PARENT_STATUS)}]
+        AND (SELECT VALUE status FROM transfer WHERE parent_transfer_id = $parent.transfer_id AND link_role = ${JSON.stringify(SPLIT_LEG_ROLE)}) ALLINSIDE ["draft"]
+      RETURN BEFORE;`,
+    logName: "attachmentService.POST /sql (delete attachment)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+  const deleted = getResultArray<Record<string, unknown>>(result.data[0])[0];
+  if (!deleted) return { status: "skipped", reason: "permission_denied_or_status_changed" };
+
+  if (typeof deleted.storage_key === "string") {
+    await getAttachmentStorage()
+      .delete(deleted.storage_key)
+      .catch((err) => console.error("Failed to remove attachment file:", err));
+  }
+  return { status: "deleted" };
+}
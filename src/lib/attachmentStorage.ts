@@ -0,0 +1,71 @@
+import { randomUUID } from "crypto";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+
+// Where attachment files are kept. ATTACHMENT_STORAGE picks the backend ("local" is the only one
+// shipped); another backend (S3, GCS, ...) only needs to implement AttachmentStorage and be added to
+// getAttachmentStorage. Storage keys are opaque to callers and stored on the attachment record.
+
+export type AttachmentStorage = {
+  // Stores the file and returns its key
+  put(data: Uint8Array, extension: string): Promise<string>;
+  // The file's bytes, or null when no file has that key
+  get(key: string): Promise<Uint8Array | null>;
+  delete(key: string): Promise<void>;
+};
+
+// Keys are "<yyyy>/<mm>/<uuid>.<ext>", so a key read back from the database can be checked before it
+// is turned into a path
+const STORAGE_KEY_PATTERN = /^\d{4}\/\d{2}\/[0-9a-f-]{36}\.[a-z0-9]{1,5}$/;
+
+// Files under a directory on the server's disk (ATTACHMENT_STORAGE_DIR, default ./data/attachments).
+// Mount it as a volume when running in Docker so uploads survive container rebuilds.
+export function createLocalAttachmentStorage(rootDir: string): AttachmentStorage {
+  const root = path.resolve(rootDir);
+
+  function filePath(key: string): string {
+    if (!STORAGE_KEY_PATTERN.test(key)) throw new Error("invalid_storage_key");
+    return path.join(root, ...key.split("/"));
+  }
+
+  return {
+    async put(data, extension) {
+      const now = new Date();
+      const key = `${now.getUTCFullYear()}/${String(now.getUTCMonth() + 1).padStart(2, "0")}/${randomUUID()}.${extension}`;
+      const target = filePath(key);
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, data, { flag: "wx" });
+      return key;
+    },
+
+    async get(key) {
+      try {
+        return new Uint8Array(await readFile(filePath(key)));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await rm(filePath(key), { force: true });
+    },
+  };
+}
+
+let storage: AttachmentStorage | null = null;
+
+export function getAttachmentStorage(): AttachmentStorage {
+  if (storage) return storage;
+
+  const backend = process.env.ATTACHMENT_STORAGE || "local";
+  switch (backend) {
+    case "local":
+      storage = createLocalAttachmentStorage(
+        process.env.ATTACHMENT_STORAGE_DIR || path.join(process.cwd(), "data", "attachments"),
+      );
+      return storage;
+    default:
+      throw new Error(`Unsupported ATTACHMENT_STORAGE backend: ${backend}`);
+  }
+}
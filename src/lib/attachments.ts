@@ -0,0 +1,73 @@
+// Receipts and documents attached to transfers (table transfer_attachment). The file itself lives in
+// the configured storage backend (see attachmentStorage); SurrealDB keeps its metadata and storage key.
+
+export const ATTACHMENT_CONTENT_TYPES = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "application/pdf": "pdf",
+} as const;
+export type AttachmentContentType = keyof typeof ATTACHMENT_CONTENT_TYPES;
+
+// Value for <input type="file" accept>
+export const ATTACHMENT_ACCEPT = Object.keys(ATTACHMENT_CONTENT_TYPES).join(",");
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_TRANSFER = 20;
+export const MAX_ATTACHMENT_NAME_LENGTH = 200;
+
+export type TransferAttachment = {
+  id: string;
+  transferId: string;
+  fileName: string;
+  contentType: AttachmentContentType;
+  size: number;
+  createdAt: string;
+  uploadedByName?: string;
+};
+
+export function isAttachmentContentType(value: unknown): value is AttachmentContentType {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(ATTACHMENT_CONTENT_TYPES, value);
+}
+
+export function isImageAttachment(attachment: { contentType: string }): boolean {
+  return attachment.contentType.startsWith("image/");
+}
+
+// Path that serves the file; `download` asks for Content-Disposition: attachment instead of inline
+export function attachmentPath(attachmentId: string, download?: boolean): string {
+  return `/api/attachments/${encodeURIComponent(attachmentId)}${download ? "?download=1" : ""}`;
+}
+
+export function formatAttachmentSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Checked in the browser before uploading and again by the upload route
+export function validateAttachmentFile(file: {
+  name: string;
+  type: string;
+  size: number;
+}): { status: "ok"; fileName: string; contentType: AttachmentContentType } | { status: "invalid"; error: string; reason: string } {
+  if (!isAttachmentContentType(file.type)) {
+    return { status: "invalid", error: "Only JPEG, PNG, WebP, GIF images and PDFs can be attached", reason: "unsupported_file_type" };
+  }
+  if (file.size <= 0) {
+    return { status: "invalid", error: "File is empty", reason: "empty_file" };
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return {
+      status: "invalid",
+      error: `Files can be at most ${formatAttachmentSize(MAX_ATTACHMENT_BYTES)}`,
+      reason: "file_too_large",
+    };
+  }
+
+  // Keep the base name only, without control characters, so it is safe in headers and exports
+  const baseName = file.name.split(/[\\/]/).pop() || "";
+  const fileName = baseName.replace(/[\u0000-\u001F\u007F"]/g, "").trim().slice(0, MAX_ATTACHMENT_NAME_LENGTH);
+  return { status: "ok", fileName: fileName || `attachment.${ATTACHMENT_CONTENT_TYPES[file.type]}`, contentType: file.type };
+}
@@ -4,6 +4,25 @@ import {
   thingIdToString,
   toSurrealThingLiteral,
 } from "@/lib/surrealdb";
+import {
+  budgetPeriodFrom,
+  budgetPeriodStartAt,
+  budgetWindowEnd,
+  isBudgetRecurrence,
+  MAX_BUDGET_PERIODS_PER_RUN,
+  pickCurrentBudget,
+  type BudgetRecurrence,
+} from "@/lib/budgets";
+
+// Budget templates (budget_template) hold the planned total and, in budget_allocation rows whose
+// budget_id is the template, the planned amount per account. A budget is one concrete period of a
+// template: created by hand, or generated by runDueBudgetPeriods when the template has a
+// recurrence, in which case the template's allocations are copied onto it (budget_id → budget).
+// next_period_at is the start of the next period still to be generated. Once a period has ended it
+// is closed, freezing the posted spend per account (actuals) and in total (actual_total).
+
+const MAX_BUDGET_TEMPLATES_PER_RUN = 100;
+const MAX_BUDGETS_CLOSED_PER_RUN = 100;
 
 type BudgetTemplateRecord = {
   id: unknown;
@@ -13,6 +32,8 @@ type BudgetTemplateRecord = {
   start_at?: unknown;
   status?: unknown;
   schedule_id?: unknown;
+  recurrence?: unknown;
+  next_period_at?: unknown;
   created_at?: unknown;
 };
 
@@ -23,6 +44,9 @@ type BudgetRecord = {
   start_at?: unknown;
   end_at?: unknown;
   status?: unknown;
+  closed_at?: unknown;
+  actual_total?: unknown;
+  actuals?: unknown;
   created_at?: unknown;
 };
 
@@ -55,6 +79,8 @@ export type BudgetTemplate = {
   startAt: string;
   status: string;
   scheduleId?: string;
+  recurrence?: BudgetRecurrence;
+  nextPeriodAt?: string;
   createdAt: string;
 };
 
@@ -64,10 +90,19 @@ export type Budget = {
   totalAmount: number;
   startAt: string;
   endAt: string;
+  // "active", or "closed" once the period has ended and its actuals are frozen
   status: string;
+  closedAt?: string;
+  actualTotal?: number;
+  actuals?: Record<string, number>;
   createdAt: string;
 };
 
+export type BudgetRunResult = { templateId: string; startAt: string } & (
+  | { status: "created"; budgetId: string }
+  | { status: "failed"; reason: string }
+);
+
 export type BudgetAllocation = {
   id: string;
   budgetId: string;
@@ -79,6 +114,11 @@ export type BudgetAllocation = {
 export type BudgetTemplateWithAllocations = BudgetTemplate & {
   allocations: BudgetAllocation[];
   accounts: Array<{ id: string; name: string; defaultAccountId?: string }>;
+  // The template's budget periods, newest first
+  budgets: Budget[];
+  // The selected period's allocations (copied from the template when it was generated, else the
+  // template's own) and posted spend into each allocated account during it
+  period: { budget: Budget; allocations: BudgetAllocation[]; actuals: Record<string, number> } | null;
 };
 
 export type CategoryWithBudgets = {
@@ -90,6 +130,53 @@ export type CategoryWithBudgets = {
   subcategories: CategoryWithBudgets[];
 };
 
+function toAmount(value: unknown): number {
+  const n = typeof value === "number" ? value : parseFloat(String(value ?? "").replace(/dec$/i, ""));
+  return Number.isFinite(n) ? n : 0;
+}
+
+function datetimeLiteral(value: Date | string): string {
+  return `<datetime>${JSON.stringify(new Date(value).toISOString())}`;
+}
+
+function mapBudgetRecord(b: BudgetRecord): Budget | null {
+  const budgetId = thingIdToString(b.id);
+  const templateId = thingIdToString(b.template_id);
+  if (!budgetId || !templateId) return null;
+
+  let actuals: Record<string, number> | undefined;
+  if (Array.isArray(b.actuals)) {
+    actuals = {};
+    for (const entry of b.actuals as Array<{ account_id?: unknown; amount?: unknown }>) {
+      const accountId = thingIdToString(entry?.account_id);
+      if (accountId) actuals[accountId] = toAmount(entry.amount);
+    }
+  }
+
+  return {
+    id: budgetId,
+    templateId,
+    totalAmount: typeof b.total_amount === "number" ? b.total_amount : 0,
+    startAt: typeof b.start_at === "string" ? b.start_at : "",
+    endAt: typeof b.end_at === "string" ? b.end_at : "",
+    status: typeof b.status === "string" ? b.status : "active",
+    closedAt: typeof b.closed_at === "string" ? b.closed_at : undefined,
+    actualTotal: b.actual_total !== undefined && b.actual_total !== null ? toAmount(b.actual_total) : undefined,
+    actuals,
+    createdAt: typeof b.created_at === "string" ? b.created_at : "",
+  };
+}
+
+function mapBudgetAllocationRecord(a: BudgetAllocationRecord & { account_name?: unknown }): BudgetAllocation {
+  return {
+    id: thingIdToString(a.id) || "",
+    budgetId: thingIdToString(a.budget_id) || "",
+    accountId: thingIdToString(a.account_id) || "",
+    accountName: typeof a.account_name === "string" ? a.account_name : "(Unknown)",
+    amount: typeof a.amount === "number" ? a.amount : typeof a.amount === "string" ? parseFloat(a.amount) : 0,
+  };
+}
+
 export async function listCategoriesWithBudgets(options: {
   accessToken: string | undefined;
 }): Promise<{ status: "ok"; categories: CategoryWithBudgets[] } | { status: "skipped"; reason: string }> {
@@ -169,6 +256,8 @@ export async function listCategoriesWithBudgets(options: {
       startAt: typeof t.start_at === "string" ? t.start_at : "",
       status: typeof t.status === "string" ? t.status : "active",
       scheduleId: thingIdToString(t.schedule_id),
+      recurrence: isBudgetRecurrence(t.recurrence) ? t.recurrence : undefined,
+      nextPeriodAt: typeof t.next_period_at === "string" ? t.next_period_at : undefined,
       createdAt: typeof t.created_at === "string" ? t.created_at : "",
     };
 
@@ -181,24 +270,13 @@ export async function listCategoriesWithBudgets(options: {
   // Map budgets by template_id
   const budgetsByTemplate = new Map<string, Budget[]>();
   for (const b of budgetsRaw) {
-    const budgetId = thingIdToString(b.id);
-    const templateId = thingIdToString(b.template_id);
-    if (!budgetId || !templateId) continue;
-
-    const budget: Budget = {
-      id: budgetId,
-      templateId,
-      totalAmount: typeof b.total_amount === "number" ? b.total_amount : 0,
-      startAt: typeof b.start_at === "string" ? b.start_at : "",
-      endAt: typeof b.end_at === "string" ? b.end_at : "",
-      status: typeof b.status === "string" ? b.status : "active",
-      createdAt: typeof b.created_at === "string" ? b.created_at : "",
-    };
+    const budget = mapBudgetRecord(b);
+    if (!budget) continue;
 
-    if (!budgetsByTemplate.has(templateId)) {
-      budgetsByTemplate.set(templateId, []);
+    if (!budgetsByTemplate.has(budget.templateId)) {
+      budgetsByTemplate.set(budget.templateId, []);
     }
-    budgetsByTemplate.get(templateId)!.push(budget);
+    budgetsByTemplate.get(budget.templateId)!.push(budget);
   }
 
   // Assign templates and budgets to categories
@@ -235,13 +313,18 @@ export async function createBudgetTemplate(options: {
   totalAmount: number;
   startAt: string;
   status?: string;
+  // Periods are generated from startAt by runDueBudgetPeriods; without one they are created by hand
+  recurrence?: unknown;
 }): Promise<{ status: "created"; id: string } | { status: "skipped"; reason: string }> {
-  const { accessToken, categoryThingId, name, totalAmount, startAt, status = "active" } = options;
+  const { accessToken, categoryThingId, name, totalAmount, startAt, status = "active", recurrence } = options;
   if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
 
   if (totalAmount <= 0) return { status: "skipped", reason: "invalid_amount" };
   if (!startAt) return { status: "skipped", reason: "missing_start_date" };
   if (!name.trim()) return { status: "skipped", reason: "missing_name" };
+  if (recurrence !== undefined && recurrence !== null && recurrence !== "" && !isBudgetRecurrence(recurrence)) {
+    return { status: "skipped", reason: "invalid_recurrence" };
+  }
 
   const categoryLiteral = toSurrealThingLiteral(categoryThingId);
   if (!categoryLiteral) return { status: "skipped", reason: "invalid_category_id" };
@@ -251,7 +334,9 @@ export async function createBudgetTemplate(options: {
     category_id: ${categoryLiteral},
     total_amount: ${totalAmount},
     start_at: <datetime> ${JSON.stringify(startAt)},
-    status: ${JSON.stringify(status)}
+    status: ${JSON.stringify(status)},
+    recurrence: ${isBudgetRecurrence(recurrence) ? JSON.stringify(recurrence) : "NONE"},
+    next_period_at: ${isBudgetRecurrence(recurrence) ? `<datetime> ${JSON.stringify(startAt)}` : "NONE"}
   };`;
 
   const result = await executeSurrealQL({
@@ -321,11 +406,112 @@ export async function createBudget(options: {
   return { status: "created", id: createdId };
 }
 
+// Set or clear a template's recurrence. Generation starts with the period containing `now`, unless
+// the template has not started yet.
+export async function setBudgetTemplateRecurrence(options: {
+  accessToken: string | undefined;
+  templateThingId: string;
+  recurrence: unknown;
+  now?: Date;
+}): Promise<{ status: "ok" } | { status: "invalid"; error: string; reason: string } | { status: "skipped"; reason: string }> {
+  const { accessToken, templateThingId, recurrence } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const clear = recurrence === null || recurrence === "";
+  if (!clear && !isBudgetRecurrence(recurrence)) {
+    return { status: "invalid", error: "Recurrence must be weekly, monthly, quarterly or yearly", reason: "invalid_recurrence" };
+  }
+
+  const templateLiteral = toSurrealThingLiteral(templateThingId);
+  if (!templateLiteral) return { status: "invalid", error: "Invalid template id", reason: "invalid_template_id" };
+
+  let assignments = "recurrence = NONE, next_period_at = NONE";
+  if (isBudgetRecurrence(recurrence)) {
+    const found = await executeSurrealQL({
+      token: accessToken,
+      query: `SELECT VALUE start_at FROM ${templateLiteral};`,
+      logName: "budgetService.POST /sql (get budget_template start)",
+    });
+    if (!found.success) return { status: "skipped", reason: found.error };
+    const startAt = getResultArray<unknown>(found.data[0])[0];
+    if (typeof startAt !== "string") return { status: "skipped", reason: "template_not_found" };
+
+    const next = budgetPeriodStartAt(startAt, recurrence, options.now ?? new Date());
+    assignments = `recurrence = ${JSON.stringify(recurrence)}, next_period_at = ${datetimeLiteral(next)}`;
+  }
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `UPDATE ${templateLiteral} SET ${assignments} RETURN id;`,
+    logName: "budgetService.POST /sql (set budget_template recurrence)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+  if (getResultArray<unknown>(result.data[0]).length === 0) return { status: "skipped", reason: "template_not_found" };
+  return { status: "ok" };
+}
+
+// Posted spend into each account between the budget's start_at and the end of its end_at day. For
+// expense accounts this is net of refunds and reversals moving money back out (like the overview
+// and trends); other accounts, e.g. a subcategory's funding pot, spend from the money they receive,
+// which does not undo it. Never below zero.
+async function getBudgetActuals(options: {
+  accessToken: string;
+  budget: Budget;
+  accountIds: string[];
+}): Promise<{ status: "ok"; actuals: Record<string, number> } | { status: "skipped"; reason: string }> {
+  const { accessToken, budget, accountIds } = options;
+  const accountLiterals = accountIds.map((id) => toSurrealThingLiteral(id)).filter(Boolean);
+  if (!accountLiterals.length || !budget.startAt || !budget.endAt) return { status: "ok", actuals: {} };
+
+  const inPeriod = `created_at >= <datetime> ${JSON.stringify(budget.startAt)}
+      AND created_at < <datetime> ${JSON.stringify(budgetWindowEnd(budget.endAt).toISOString())}`;
+  const query = `
+    SELECT to_account_id AS account_id, math::sum(amount) AS total
+    FROM transfer
+    WHERE status = "posted"
+      AND to_account_id INSIDE [${accountLiterals.join(", ")}]
+      AND ${inPeriod}
+    GROUP BY account_id;
+    SELECT from_account_id AS account_id, math::sum(amount) AS total
+    FROM transfer
+    WHERE status = "posted"
+      AND from_account_id INSIDE [${accountLiterals.join(", ")}]
+      AND from_account_id.type = "expense"
+      AND ${inPeriod}
+    GROUP BY account_id;
+  `;
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query,
+    logName: "budgetService.POST /sql (budget actuals)",
+  });
+
+  if (!result.success) {
+    return { status: "skipped", reason: result.error };
+  }
+
+  const actuals: Record<string, number> = {};
+  for (const row of getResultArray<{ account_id?: unknown; total?: unknown }>(result.data[0])) {
+    const accountId = thingIdToString(row.account_id);
+    if (accountId) actuals[accountId] = toAmount(row.total);
+  }
+  for (const row of getResultArray<{ account_id?: unknown; total?: unknown }>(result.data[1])) {
+    const accountId = thingIdToString(row.account_id);
+    if (accountId) actuals[accountId] = Math.max(0, (actuals[accountId] ?? 0) - toAmount(row.total));
+  }
+
+  return { status: "ok", actuals };
+}
+
 export async function getBudgetTemplateWithAllocations(options: {
   accessToken: string | undefined;
   templateThingId: string;
+  // Budget period to compare against; defaults to the current one
+  budgetThingId?: string;
 }): Promise<{ status: "ok"; template: BudgetTemplateWithAllocations } | { status: "skipped"; reason: string }> {
-  const { accessToken, templateThingId } = options;
+  const { accessToken, templateThingId, budgetThingId } = options;
   if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
 
   const templateLiteral = toSurrealThingLiteral(templateThingId);
@@ -336,6 +522,8 @@ export async function getBudgetTemplateWithAllocations(options: {
     SELECT *, account_id.name AS account_name FROM budget_allocation WHERE budget_id = ${templateLiteral};
     SELECT id, name FROM account WHERE category_id = (SELECT VALUE category_id FROM budget_template WHERE id = ${templateLiteral} LIMIT 1)[0] AND id != (SELECT VALUE default_account_id FROM (SELECT VALUE category_id FROM budget_template WHERE id = ${templateLiteral} LIMIT 1)[0])[0];
     SELECT id, name, default_account_id FROM category WHERE parent_id = (SELECT VALUE category_id FROM budget_template WHERE id = ${templateLiteral} LIMIT 1)[0];
+    SELECT * FROM budget WHERE template_id = ${templateLiteral} ORDER BY start_at DESC;
+    SELECT *, account_id.name AS account_name FROM budget_allocation WHERE budget_id INSIDE (SELECT VALUE id FROM budget WHERE template_id = ${templateLiteral});
   `;
 
   const result = await executeSurrealQL({
@@ -356,20 +544,17 @@ export async function getBudgetTemplateWithAllocations(options: {
   const allocationsRaw = getResultArray<BudgetAllocationRecord & { account_name?: string }>(result.data[1]);
   const accountsRaw = getResultArray<AccountRecord>(result.data[2]);
   const subcategoriesRaw = getResultArray<CategoryRecord>(result.data[3]);
+  const budgets = getResultArray<BudgetRecord>(result.data[4])
+    .map(mapBudgetRecord)
+    .filter((b): b is Budget => b !== null);
 
   const templateId = thingIdToString(templateRaw.id);
   const categoryId = thingIdToString(templateRaw.category_id);
   if (!templateId || !categoryId) return { status: "skipped", reason: "invalid_template_data" };
 
-  const allocations: BudgetAllocation[] = allocationsRaw
-    .map((a) => ({
-      id: thingIdToString(a.id) || "",
-      budgetId: thingIdToString(a.budget_id) || "",
-      accountId: thingIdToString(a.account_id) || "",
-      accountName: typeof a.account_name === "string" ? a.account_name : "(Unknown)",
-      amount:
-        typeof a.amount === "number" ? a.amount : typeof a.amount === "string" ? parseFloat(a.amount) : 0,
-    }))
+  const allocations: BudgetAllocation[] = allocationsRaw.map(mapBudgetAllocationRecord).filter((a) => a.id);
+  const periodAllocations = getResultArray<BudgetAllocationRecord & { account_name?: string }>(result.data[5])
+    .map(mapBudgetAllocationRecord)
     .filter((a) => a.id);
 
   // Combine regular accounts and subcategory default accounts
@@ -392,6 +577,25 @@ export async function getBudgetTemplateWithAllocations(options: {
       .filter((a) => a.id),
   ];
 
+  const selectedBudget = (budgetThingId && budgets.find((b) => b.id === budgetThingId)) || pickCurrentBudget(budgets);
+  let period: BudgetTemplateWithAllocations["period"] = null;
+  if (selectedBudget) {
+    const ownAllocations = periodAllocations.filter((a) => a.budgetId === selectedBudget.id);
+    const budgetAllocations = ownAllocations.length ? ownAllocations : allocations;
+    // A closed period keeps the actuals frozen when it was closed
+    if (selectedBudget.actuals) {
+      period = { budget: selectedBudget, allocations: budgetAllocations, actuals: selectedBudget.actuals };
+    } else {
+      const actuals = await getBudgetActuals({
+        accessToken,
+        budget: selectedBudget,
+        accountIds: budgetAllocations.map((a) => a.accountId).filter(Boolean),
+      });
+      if (actuals.status === "skipped") return actuals;
+      period = { budget: selectedBudget, allocations: budgetAllocations, actuals: actuals.actuals };
+    }
+  }
+
   const template: BudgetTemplateWithAllocations = {
     id: templateId,
     name: typeof templateRaw.name === "string" ? templateRaw.name : "(Unnamed)",
@@ -406,9 +610,13 @@ export async function getBudgetTemplateWithAllocations(options: {
     startAt: typeof templateRaw.start_at === "string" ? templateRaw.start_at : "",
     status: typeof templateRaw.status === "string" ? templateRaw.status : "active",
     scheduleId: thingIdToString(templateRaw.schedule_id),
+    recurrence: isBudgetRecurrence(templateRaw.recurrence) ? templateRaw.recurrence : undefined,
+    nextPeriodAt: typeof templateRaw.next_period_at === "string" ? templateRaw.next_period_at : undefined,
     createdAt: typeof templateRaw.created_at === "string" ? templateRaw.created_at : "",
     allocations,
     accounts,
+    budgets,
+    period,
   };
 
   return { status: "ok", template };
@@ -456,3 +664,167 @@ export async function createBudgetAllocation(options: {
 
   return { status: "created", id: createdId };
 }
+
+// Generate every budget period that has started (next_period_at <= now) on the active recurring
+// templates the token can see, then close the active periods that have ended. Safe to run
+// concurrently: each period is claimed by moving next_period_at forward before it is created (and
+// released again if creating it fails, so a later run retries it), and a budget is only closed while
+// it is still active.
+export async function runDueBudgetPeriods(options: {
+  accessToken: string | undefined;
+  now?: Date;
+}): Promise<
+  { status: "ok"; results: BudgetRunResult[]; closedBudgetIds: string[] } | { status: "skipped"; reason: string }
+> {
+  const { accessToken } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+  const now = options.now ?? new Date();
+
+  const dueResult = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      SELECT * FROM budget_template
+        WHERE status = "active" AND recurrence != NONE AND next_period_at <= ${datetimeLiteral(now)}
+        ORDER BY next_period_at ASC
+        LIMIT ${MAX_BUDGET_TEMPLATES_PER_RUN};
+    `,
+    logName: "budgetService.POST /sql (list due budget templates)",
+  });
+
+  if (!dueResult.success) return { status: "skipped", reason: dueResult.error };
+
+  const results: BudgetRunResult[] = [];
+  for (const t of getResultArray<BudgetTemplateRecord>(dueResult.data[0])) {
+    const templateId = thingIdToString(t.id);
+    const templateLiteral = templateId ? toSurrealThingLiteral(templateId) : null;
+    const recurrence = t.recurrence;
+    if (!templateId || !templateLiteral || !isBudgetRecurrence(recurrence)) continue;
+    if (typeof t.start_at !== "string" || typeof t.next_period_at !== "string") continue;
+    const totalAmount = toAmount(t.total_amount);
+
+    let periodStart = new Date(t.next_period_at);
+    for (let i = 0; i < MAX_BUDGET_PERIODS_PER_RUN && periodStart.getTime() <= now.getTime(); i++) {
+      const period = budgetPeriodFrom(t.start_at, recurrence, periodStart);
+      const startAt = period.startAt.toISOString();
+
+      const claim = await executeSurrealQL({
+        token: accessToken,
+        query: `
+          UPDATE ${templateLiteral} SET next_period_at = ${datetimeLiteral(period.nextStartAt)}
+          WHERE status = "active" AND next_period_at = ${datetimeLiteral(period.startAt)};
+        `,
+        logName: "budgetService.POST /sql (claim budget period)",
+      });
+
+      // Another run claimed it (or the template was changed meanwhile): leave the rest to that run
+      if (!claim.success || getResultArray<unknown>(claim.data[0]).length === 0) break;
+
+      // The budget and its allocations are created together or not at all
+      const created = await executeSurrealQL({
+        token: accessToken,
+        query: `
+          BEGIN TRANSACTION;
+          LET $budget = (CREATE budget CONTENT {
+            template_id: ${templateLiteral},
+            total_amount: ${totalAmount},
+            start_at: ${datetimeLiteral(period.startAt)},
+            end_at: ${datetimeLiteral(period.endAt)},
+            status: "active"
+          })[0];
+          IF $budget = NONE { THROW "permission_denied_create_budget"; };
+          INSERT INTO budget_allocation (SELECT $budget.id AS budget_id, account_id, amount FROM budget_allocation WHERE budget_id = ${templateLiteral});
+          RETURN $budget.id;
+          COMMIT TRANSACTION;
+        `,
+        logName: "budgetService.POST /sql (create budget period)",
+      });
+
+      const budgetId = created.success
+        ? thingIdToString((created.data[created.data.length - 1] as { result?: unknown } | undefined)?.result)
+        : undefined;
+      if (!budgetId) {
+        // Release the claim so the next run retries this period; later ones wait behind it
+        await executeSurrealQL({
+          token: accessToken,
+          query: `
+            UPDATE ${templateLiteral} SET next_period_at = ${datetimeLiteral(period.startAt)}
+            WHERE status = "active" AND next_period_at = ${datetimeLiteral(period.nextStartAt)};
+          `,
+          logName: "budgetService.POST /sql (release budget period)",
+        });
+        results.push({
+          templateId,
+          startAt,
+          status: "failed",
+          reason: created.success ? "permission_denied_create_budget" : created.error,
+        });
+        break;
+      }
+
+      results.push({ templateId, startAt, status: "created", budgetId });
+      periodStart = period.nextStartAt;
+    }
+  }
+
+  // end_at is the start of a period's last day, so it has ended once a day has passed since
+  const endedResult = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      SELECT * FROM budget
+        WHERE status = "active" AND end_at <= ${datetimeLiteral(new Date(now.getTime() - 24 * 60 * 60 * 1000))}
+        ORDER BY end_at ASC
+        LIMIT ${MAX_BUDGETS_CLOSED_PER_RUN};
+    `,
+    logName: "budgetService.POST /sql (list ended budgets)",
+  });
+
+  if (!endedResult.success) return { status: "skipped", reason: endedResult.error };
+
+  const closedBudgetIds: string[] = [];
+  for (const budget of getResultArray<BudgetRecord>(endedResult.data[0]).map(mapBudgetRecord)) {
+    const budgetLiteral = budget ? toSurrealThingLiteral(budget.id) : null;
+    const templateLiteral = budget ? toSurrealThingLiteral(budget.templateId) : null;
+    if (!budget || !budgetLiteral || !templateLiteral) continue;
+
+    // The period's own allocations, else (for budgets created by hand) the template's
+    const accountsResult = await executeSurrealQL({
+      token: accessToken,
+      query: `
+        LET $own = (SELECT VALUE account_id FROM budget_allocation WHERE budget_id = ${budgetLiteral});
+        RETURN IF array::len($own) > 0 THEN $own ELSE (SELECT VALUE account_id FROM budget_allocation WHERE budget_id = ${templateLiteral}) END;
+      `,
+      logName: "budgetService.POST /sql (budget allocation accounts)",
+    });
+    if (!accountsResult.success) continue;
+
+    const returned = (accountsResult.data[1] as { result?: unknown } | undefined)?.result;
+    const accountIds = (Array.isArray(returned) ? returned : [])
+      .map((id) => thingIdToString(id))
+      .filter((id): id is string => !!id);
+
+    const actuals = await getBudgetActuals({ accessToken, budget, accountIds });
+    if (actuals.status === "skipped") continue;
+
+    const entries = accountIds
+      .map((id) => ({ literal: toSurrealThingLiteral(id), amount: actuals.actuals[id] || 0 }))
+      .filter((e) => e.literal);
+    const actualTotal = entries.reduce((sum, e) => sum + e.amount, 0);
+
+    const closed = await executeSurrealQL({
+      token: accessToken,
+      query: `
+        UPDATE ${budgetLiteral} SET
+          status = "closed",
+          closed_at = time::now(),
+          actual_total = ${actualTotal},
+          actuals = [${entries.map((e) => `{ account_id: ${e.literal}, amount: ${e.amount} }`).join(", ")}]
+        WHERE status = "active";
+      `,
+      logName: "budgetService.POST /sql (close budget)",
+    });
+
+    if (closed.success && getResultArray<unknown>(closed.data[0]).length > 0) closedBudgetIds.push(budget.id);
+  }
+
+  return { status: "ok", results, closedBudgetIds };
+}
@@ -0,0 +1,93 @@
+// Budget periods and budget vs actual. A template with a recurrence has its budget periods (budget)
+// generated by the run-due job, back to back from its start_at on the UTC calendar; a monthly,
+// quarterly or yearly period starting on the 31st starts on the last day of shorter months.
+// Allocations are compared with posted spend into their accounts during a period, net of refunds
+// and reversals out of expense accounts and never below zero. Shared by budgetService, BudgetsClient
+// and BudgetTemplateDetailClient.
+
+export const BUDGET_RECURRENCES = ["weekly", "monthly", "quarterly", "yearly"] as const;
+export type BudgetRecurrence = (typeof BUDGET_RECURRENCES)[number];
+
+export const BUDGET_RECURRENCE_LABELS: Record<BudgetRecurrence, string> = {
+  weekly: "Weekly",
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+  yearly: "Yearly",
+};
+
+// Periods one run-due pass generates per template; older backlogs catch up on later passes
+export const MAX_BUDGET_PERIODS_PER_RUN = 12;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isBudgetRecurrence(value: unknown): value is BudgetRecurrence {
+  return typeof value === "string" && (BUDGET_RECURRENCES as readonly string[]).includes(value);
+}
+
+// Start of the `index`th period (0 = the template's start)
+export function budgetPeriodStart(startAt: string, recurrence: BudgetRecurrence, index: number): Date {
+  const start = new Date(startAt);
+  if (recurrence === "weekly") return new Date(start.getTime() + index * 7 * DAY_MS);
+
+  const months = index * (recurrence === "monthly" ? 1 : recurrence === "quarterly" ? 3 : 12);
+  const first = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)).getUTCDate();
+  first.setUTCDate(Math.min(start.getUTCDate(), lastDay));
+  first.setUTCHours(start.getUTCHours(), start.getUTCMinutes(), start.getUTCSeconds(), start.getUTCMilliseconds());
+  return first;
+}
+
+// Index of the period containing `at` (0 when `at` is before the template's start)
+function budgetPeriodIndexAt(startAt: string, recurrence: BudgetRecurrence, at: Date): number {
+  let index = 0;
+  while (budgetPeriodStart(startAt, recurrence, index + 1).getTime() <= at.getTime()) index++;
+  return index;
+}
+
+// Start of the period containing `at`: where generation begins when a recurrence is added to an
+// existing template, so past periods are not back-filled
+export function budgetPeriodStartAt(startAt: string, recurrence: BudgetRecurrence, at: Date): Date {
+  return budgetPeriodStart(startAt, recurrence, budgetPeriodIndexAt(startAt, recurrence, at));
+}
+
+// The period starting at `periodStart` and its end_at, the start of its last day (see budgetWindowEnd)
+export function budgetPeriodFrom(
+  startAt: string,
+  recurrence: BudgetRecurrence,
+  periodStart: Date,
+): { startAt: Date; endAt: Date; nextStartAt: Date } {
+  const nextStartAt = budgetPeriodStart(startAt, recurrence, budgetPeriodIndexAt(startAt, recurrence, periodStart) + 1);
+  return { startAt: periodStart, endAt: new Date(nextStartAt.getTime() - DAY_MS), nextStartAt };
+}
+
+export type BudgetProgress = {
+  planned: number;
+  actual: number;
+  // Negative once actual spend passes the planned amount
+  remaining: number;
+  // Share of the planned amount used; above 100 when over budget, 0 when nothing is planned
+  percentUsed: number;
+};
+
+export function budgetProgress(planned: number, actual: number): BudgetProgress {
+  return {
+    planned,
+    actual,
+    remaining: planned - actual,
+    percentUsed: planned > 0 ? (actual / planned) * 100 : 0,
+  };
+}
+
+// The period whose window contains `now`, else the most recently started one
+export function pickCurrentBudget<T extends { startAt: string; endAt: string }>(budgets: T[], now = new Date()): T | undefined {
+  const time = now.getTime();
+  const current = budgets.find((b) => new Date(b.startAt).getTime() <= time && time < budgetWindowEnd(b.endAt).getTime());
+  if (current) return current;
+  return [...budgets].sort((a, b) => b.startAt.localeCompare(a.startAt))[0];
+}
+
+// end_at is the start of the period's last day, so spend counts through the end of that day
+export function budgetWindowEnd(endAt: string): Date {
+  const end = new Date(endAt);
+  return new Date(end.getTime() + DAY_MS);
+}
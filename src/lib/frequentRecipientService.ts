@@ -0,0 +1,177 @@
+import { executeSurrealQL, getResultArray, thingIdToString, toSurrealThingLiteral } from "@/lib/surrealdb";
+import { extractNameFromPaymentChannel } from "@/lib/mpesaCounterparty";
+import { isMpesaAction } from "@/lib/mpesaNumbers";
+
+// Recipients of a category's M-Pesa payouts, most used first, for the payment modals' recent chips.
+// One aggregated query groups the category's recent payouts per recipient; results are cached in
+// memory per user/category/action and dropped when an M-Pesa transfer in the category is created,
+// edited or deleted (see invalidateFrequentRecipients). The TTL bounds staleness from callbacks and other instances.
+
+export type FrequentRecipient = {
+  toAccount: string;
+  accountReference?: string;
+  name: string;
+  count: number;
+  fromAccountId: string;
+  lastUsed: string;
+};
+
+// Payouts scanned per request, recipients kept per cache entry and recipients returned
+const SCANNED_TRANSFERS = 1000;
+const CACHED_RECIPIENTS = 50;
+const RETURNED_RECIPIENTS = 15;
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 500;
+
+type CacheEntry = { categoryLiteral: string; recipients: FrequentRecipient[]; expiresAt: number };
+
+const cache = new Map<string, CacheEntry>();
+// Bumped on invalidation, so a query that was in flight meanwhile does not cache its stale result
+const generations = new Map<string, number>();
+
+function cacheKey(userSub: string, categoryLiteral: string, action: string): string {
+  return `${userSub}|${categoryLiteral}|${action}`;
+}
+
+// Forget every user's cached recipients for a category
+export function invalidateFrequentRecipients(categoryId: string): void {
+  const categoryLiteral = toSurrealThingLiteral(categoryId);
+  if (!categoryLiteral) return;
+  generations.set(categoryLiteral, (generations.get(categoryLiteral) || 0) + 1);
+  for (const [key, entry] of cache) {
+    if (entry.categoryLiteral === categoryLiteral) cache.delete(key);
+  }
+}
+
+// The current account's recipients first, then most used, then most recent
+function sortRecipients(recipients: FrequentRecipient[], accountId?: string): FrequentRecipient[] {
+  return [...recipients].sort((a, b) => {
+    if (accountId) {
+      const aIsCurrent = a.fromAccountId === accountId;
+      const bIsCurrent = b.fromAccountId === accountId;
+      if (aIsCurrent !== bIsCurrent) return aIsCurrent ? -1 : 1;
+    }
+    return b.count - a.count || b.lastUsed.localeCompare(a.lastUsed);
+  });
+}
+
+async function queryFrequentRecipients(
+  accessToken: string,
+  categoryLiteral: string,
+  action: string,
+): Promise<{ status: "ok"; recipients: FrequentRecipient[] } | { status: "skipped"; reason: string }> {
+  // Paybill recipients are told apart by account reference as well as number
+  const groupFields = action === "BusinessPayBill" ? "to_account, account_reference" : "to_account";
+
+  // $rows is newest first, so the first row of a group is its latest payout (callback name, source account)
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      LET $rows = (SELECT
+          payment_channel.to_account AS to_account,
+          payment_channel.account_reference AS account_reference,
+          payment_channel,
+          label,
+          description,
+          from_account_id,
+          created_at
+        FROM transfer
+        WHERE payment_channel.channel_id = "MPESA"
+          AND payment_channel.action = ${JSON.stringify(action)}
+          AND payment_channel.to_account != NONE
+          AND from_account_id.category_id = ${categoryLiteral}
+        ORDER BY created_at DESC
+        LIMIT ${SCANNED_TRANSFERS});
+      LET $groups = (SELECT ${groupFields}, count() AS usage_count, time::max(created_at) AS last_used
+        FROM $rows
+        GROUP BY ${groupFields});
+      SELECT
+        *,
+        (SELECT payment_channel, label, description, from_account_id FROM $rows
+          WHERE to_account = $parent.to_account
+            ${action === "BusinessPayBill" ? "AND account_reference = $parent.account_reference" : ""}
+          LIMIT 1)[0] AS latest
+      FROM $groups
+      ORDER BY usage_count DESC, last_used DESC
+      LIMIT ${CACHED_RECIPIENTS};
+    `,
+    logName: "frequentRecipientService.POST /sql (aggregate frequent recipients)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+
+  const rows = getResultArray<{
+    to_account?: unknown;
+    account_reference?: unknown;
+    usage_count?: unknown;
+    last_used?: unknown;
+    latest?: {
+      payment_channel?: Record<string, unknown>;
+      label?: string;
+      description?: string;
+      from_account_id?: unknown;
+    };
+  }>(result.data[2]);
+
+  const recipients: FrequentRecipient[] = [];
+  for (const row of rows) {
+    if (row.to_account === undefined || row.to_account === null || row.to_account === "") continue;
+    const latest = row.latest;
+    const name =
+      (latest?.payment_channel ? extractNameFromPaymentChannel(latest.payment_channel, action) : "") ||
+      latest?.label ||
+      latest?.description ||
+      "";
+    recipients.push({
+      toAccount: String(row.to_account),
+      accountReference: typeof row.account_reference === "string" ? row.account_reference : undefined,
+      name,
+      count: typeof row.usage_count === "number" ? row.usage_count : 0,
+      fromAccountId: thingIdToString(latest?.from_account_id) || "",
+      lastUsed: typeof row.last_used === "string" ? row.last_used : "",
+    });
+  }
+  return { status: "ok", recipients };
+}
+
+export async function getFrequentRecipients(options: {
+  accessToken: string | undefined;
+  userSub: string;
+  categoryId: string;
+  action: string;
+  accountId?: string;
+}): Promise<{ status: "ok"; recipients: FrequentRecipient[]; cached: boolean } | { status: "skipped"; reason: string }> {
+  const { accessToken, userSub, categoryId, action, accountId } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+  if (!isMpesaAction(action)) return { status: "skipped", reason: "invalid_action" };
+
+  const categoryLiteral = toSurrealThingLiteral(categoryId);
+  if (!categoryLiteral) return { status: "skipped", reason: "invalid_category_id" };
+
+  const key = cacheKey(userSub, categoryLiteral, action);
+  const now = Date.now();
+  let entry = cache.get(key);
+  const cached = !!entry && entry.expiresAt > now;
+
+  if (!entry || !cached) {
+    const generation = generations.get(categoryLiteral) || 0;
+    const fetched = await queryFrequentRecipients(accessToken, categoryLiteral, action);
+    if (fetched.status === "skipped") return fetched;
+    if (generation !== (generations.get(categoryLiteral) || 0)) {
+      return { status: "ok", recipients: sortRecipients(fetched.recipients, accountId).slice(0, RETURNED_RECIPIENTS), cached: false };
+    }
+
+    if (cache.size >= MAX_CACHE_ENTRIES) {
+      for (const [k, e] of cache) {
+        if (e.expiresAt <= now) cache.delete(k);
+      }
+      // Still full: drop the oldest insertion
+      if (cache.size >= MAX_CACHE_ENTRIES) cache.delete(cache.keys().next().value as string);
+    }
+    entry = { categoryLiteral, recipients: fetched.recipients, expiresAt: now + CACHE_TTL_MS };
+    cache.set(key, entry);
+  }
+
+  return { status: "ok", recipients: sortRecipients(entry.recipients, accountId).slice(0, RETURNED_RECIPIENTS), cached };
+}
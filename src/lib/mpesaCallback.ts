@@ -0,0 +1,128 @@
+import { findResultParameter, nameFromPartyInfo } from "@/lib/mpesaCounterparty";
+
+// Readable details from the raw M-Pesa callbacks stored on a payout's payment_channel:
+// mpesa_callback (the B2C/B2B result) and mpesa_transaction_status_callback (the transaction status
+// query result). Safaricom reports most fields as ResultParameters key/value pairs whose names differ
+// between B2C, B2B and status results, so each detail is looked up under all its known keys.
+
+export type MpesaAccountBalance = { account: string; amount: number; currency?: string };
+
+export type MpesaCallbackDetails = {
+  resultCode?: string;
+  resultDesc?: string;
+  // Whether Safaricom reported success (ResultCode 0)
+  succeeded?: boolean;
+  receiptNumber?: string;
+  // ISO timestamp; Safaricom reports East Africa Time without an offset
+  completedAt?: string;
+  receiverName?: string;
+  amount?: number;
+  charges?: number;
+  transactionStatus?: string;
+  conversationId?: string;
+  originatorConversationId?: string;
+  balances: MpesaAccountBalance[];
+};
+
+function callbackField(callback: unknown, key: string): string | undefined {
+  const value = (callback as Record<string, unknown> | undefined)?.[key];
+  return value === undefined || value === null || value === "" ? undefined : String(value);
+}
+
+function firstParameter(callback: unknown, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = findResultParameter(callback, key);
+    if (value) return value;
+  }
+  return undefined;
+}
+
+function toAmount(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value.replace(/,/g, ""));
+  return Number.isFinite(n) ? n : undefined;
+}
+
+// "19.12.2019 11:45:50" (B2C) or "20190823155436" (B2B and status results), both East Africa Time
+export function parseMpesaTimestamp(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  let parts: RegExpMatchArray | null = trimmed.match(/^(\d{2})\.(\d{2})\.(\d{4}) (\d{2}):(\d{2}):(\d{2})$/);
+  let iso: string | undefined;
+  if (parts) {
+    iso = `${parts[3]}-${parts[2]}-${parts[1]}T${parts[4]}:${parts[5]}:${parts[6]}+03:00`;
+  } else if ((parts = trimmed.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/))) {
+    iso = `${parts[1]}-${parts[2]}-${parts[3]}T${parts[4]}:${parts[5]}:${parts[6]}+03:00`;
+  }
+  if (!iso) return undefined;
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+// Balances come as "Working Account|KES|346568.83|346568.83|0.00|0.00" (several joined by "&") or as
+// "{Amount={CurrencyCode=KES, MinimumAmount=618683, BasicAmount=6186.83}}"
+export function parseMpesaBalance(account: string, value: string | undefined): MpesaAccountBalance[] {
+  if (!value) return [];
+
+  const structured = value.match(/CurrencyCode=(\w+).*?BasicAmount=([\d.,-]+)/);
+  if (structured) {
+    const amount = toAmount(structured[2]);
+    return amount === undefined ? [] : [{ account, amount, currency: structured[1] }];
+  }
+
+  if (value.includes("|")) {
+    return value.split("&").flatMap((entry) => {
+      const [name, currency, amount] = entry.split("|");
+      const n = toAmount(amount);
+      return n === undefined ? [] : [{ account: name?.trim() || account, amount: n, currency: currency?.trim() || undefined }];
+    });
+  }
+
+  const amount = toAmount(value);
+  return amount === undefined ? [] : [{ account, amount }];
+}
+
+export function parseMpesaCallback(callback: unknown): MpesaCallbackDetails | null {
+  if (!callback || typeof callback !== "object") return null;
+
+  const resultCode = callbackField(callback, "ResultCode");
+  const receiver = firstParameter(callback, ["ReceiverPartyPublicName", "CreditPartyName"]);
+
+  return {
+    resultCode,
+    resultDesc: callbackField(callback, "ResultDesc"),
+    succeeded: resultCode === undefined ? undefined : resultCode === "0",
+    receiptNumber: firstParameter(callback, ["TransactionReceipt", "ReceiptNo"]) || callbackField(callback, "TransactionID"),
+    completedAt: parseMpesaTimestamp(
+      firstParameter(callback, ["TransactionCompletedDateTime", "TransCompletedTime", "FinalisedTime"]),
+    ),
+    receiverName: receiver ? nameFromPartyInfo(receiver) : undefined,
+    amount: toAmount(firstParameter(callback, ["TransactionAmount", "Amount"])),
+    // "Fee For B2C Payment|KES|22.40" in status results, a plain amount elsewhere
+    charges: toAmount(firstParameter(callback, ["DebitPartyCharges"])?.split("|").pop()),
+    transactionStatus: firstParameter(callback, ["TransactionStatus"]),
+    conversationId: callbackField(callback, "ConversationID"),
+    originatorConversationId: callbackField(callback, "OriginatorConversationID"),
+    balances: [
+      ...parseMpesaBalance("Utility Account", findResultParameter(callback, "B2CUtilityAccountAvailableFunds")),
+      ...parseMpesaBalance("Working Account", findResultParameter(callback, "B2CWorkingAccountAvailableFunds")),
+      ...parseMpesaBalance("Charges Paid Account", findResultParameter(callback, "B2CChargesPaidAccountAvailableFunds")),
+      ...parseMpesaBalance("Debit Account", findResultParameter(callback, "DebitAccountBalance")),
+      ...parseMpesaBalance("Working Account", findResultParameter(callback, "DebitPartyAffectedAccountBalance")),
+      ...parseMpesaBalance("Initiator Account", findResultParameter(callback, "InitiatorAccountCurrentBalance")),
+    ],
+  };
+}
+
+// Both callbacks of a payout merged: the result callback wins, the status query fills the gaps
+export function getMpesaCallbackDetails(paymentChannel: Record<string, unknown> | undefined): MpesaCallbackDetails | null {
+  const result = parseMpesaCallback(paymentChannel?.mpesa_callback);
+  const transactionStatus = parseMpesaCallback(paymentChannel?.mpesa_transaction_status_callback);
+  if (!result || !transactionStatus) return result || transactionStatus;
+
+  const merged: MpesaCallbackDetails = { ...result, balances: result.balances.length ? result.balances : transactionStatus.balances };
+  for (const key of ["receiptNumber", "completedAt", "receiverName", "amount", "charges", "transactionStatus"] as const) {
+    if (merged[key] === undefined) (merged as Record<string, unknown>)[key] = transactionStatus[key];
+  }
+  return merged;
+}
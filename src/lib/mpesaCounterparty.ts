@@ -0,0 +1,60 @@
+// Counterparty names from M-Pesa data. Safaricom reports parties as "<number> - <NAME>" in callback
+// result parameters, in the statement "Other Party Info" column and inside statement details.
+
+type ResultParameters = { ResultParameter?: Array<{ Key: string; Value?: unknown }> };
+
+// "254702729654 - FRANCIS MURAYA" -> "FRANCIS MURAYA"; values without a number prefix are returned as-is
+export function nameFromPartyInfo(value: string): string {
+  const parts = value.split(" - ");
+  if (parts.length > 1) {
+    return parts.slice(1).join(" - ").trim();
+  }
+  return value.trim();
+}
+
+export function findResultParameter(callback: unknown, key: string): string | undefined {
+  const resultParams = (callback as Record<string, unknown> | undefined)?.ResultParameters as ResultParameters | undefined;
+  const param = resultParams?.ResultParameter?.find((p) => p.Key === key);
+  // 0 is a real value (e.g. an empty account balance)
+  return param?.Value === undefined || param.Value === null || param.Value === "" ? undefined : String(param.Value);
+}
+
+// Helper to extract name from M-Pesa callback data
+export function extractNameFromPaymentChannel(
+  paymentChannel: Record<string, unknown>,
+  action: string
+): string {
+  try {
+    if (action === "BusinessPayment") {
+      // For send money, use ReceiverPartyPublicName from mpesa_callback
+      // Value is like "254702729654 - FRANCIS MURAYA"
+      const receiver = findResultParameter(paymentChannel.mpesa_callback, "ReceiverPartyPublicName");
+      if (receiver) return nameFromPartyInfo(receiver);
+    } else if (action === "BusinessBuyGoods") {
+      // For buy goods, use CreditPartyName from mpesa_transaction_status_callback
+      // Value is like "5787140 - DORCUS AUMA ODHIAMBO"
+      const creditParty = findResultParameter(paymentChannel.mpesa_transaction_status_callback, "CreditPartyName");
+      if (creditParty) return nameFromPartyInfo(creditParty);
+    } else if (action === "BusinessPayBill") {
+      // For paybill, try ReceiverPartyPublicName from mpesa_callback first
+      // Value is like "247247 - Equity Paybill Account"
+      const receiver = findResultParameter(paymentChannel.mpesa_callback, "ReceiverPartyPublicName");
+      if (receiver) return nameFromPartyInfo(receiver);
+      // Fallback to CreditPartyName from mpesa_transaction_status_callback
+      const creditParty = findResultParameter(paymentChannel.mpesa_transaction_status_callback, "CreditPartyName");
+      if (creditParty) return nameFromPartyInfo(creditParty);
+    }
+  } catch (e) {
+    console.error("Error extracting name from payment channel:", e);
+  }
+  return "";
+}
+
+// Statement details read like "Business Payment to 254712345678 - JOHN DOE" or
+// "Pay Bill from 254712345678 - JANE DOE Acc. 12345"; the party is whatever follows " to "/" from ".
+export function extractNameFromStatementDetails(details: string): string {
+  const match = details.match(/\b(?:to|from)\s+(.+? - .+)$/i);
+  if (!match) return "";
+  // Drop a trailing paybill account reference
+  return nameFromPartyInfo(match[1]).replace(/\s+Acc\.?\s*\S*$/i, "").trim();
+}
@@ -0,0 +1,287 @@
+import {
+  executeSurrealQL,
+  getResultArray,
+  thingIdToString,
+  toSurrealThingLiteral,
+} from "@/lib/surrealdb";
+import { FEE_ROLE, feeForAmount, parseFeeTariff, validateFeeTariff, type FeeTariff } from "@/lib/mpesaFees";
+
+// Fee tariffs live on mpesa_paybill_integration (fee_tariff, fee_expense_account). A payout created
+// through a category's linked integration gets a fee_plan { integration_id, expense_account_id };
+// once it is posted, recordPostedPayoutFees creates the linked "fees" transfer
+// (parent_transfer_id + link_role "fee") and stamps the payout with fee_recorded_at / fee_transfer_id.
+
+export type FeeSchedule = {
+  integrationId: string;
+  paybillName?: string;
+  tariff: FeeTariff;
+  feeExpenseAccountId?: string;
+  feeExpenseAccountName?: string;
+};
+
+const MAX_PAYOUTS_PER_RUN = 100;
+
+function mapFeeSchedule(r: Record<string, unknown>): FeeSchedule {
+  return {
+    integrationId: thingIdToString(r.id) || "",
+    paybillName: typeof r.paybill_name === "string" ? r.paybill_name : undefined,
+    tariff: parseFeeTariff(r.fee_tariff) || {},
+    feeExpenseAccountId: thingIdToString(r.fee_expense_account) || undefined,
+    feeExpenseAccountName: typeof r.fee_expense_account_name === "string" ? r.fee_expense_account_name : undefined,
+  };
+}
+
+const FEE_SCHEDULE_FIELDS = "id, paybill_name, fee_tariff, fee_expense_account, fee_expense_account.name AS fee_expense_account_name";
+
+// The tariff of the integration a category's payouts go through (null when it has none linked)
+export async function getCategoryFeeSchedule(options: {
+  accessToken: string | undefined;
+  categoryId: string;
+}): Promise<{ status: "ok"; schedule: FeeSchedule | null } | { status: "skipped"; reason: string }> {
+  const { accessToken, categoryId } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const categoryLiteral = toSurrealThingLiteral(categoryId);
+  if (!categoryLiteral) return { status: "skipped", reason: "invalid_category_id" };
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      LET $integration = fn::category_linked_payment_integration(${categoryLiteral}).out;
+      SELECT ${FEE_SCHEDULE_FIELDS} FROM mpesa_paybill_integration WHERE id = $integration LIMIT 1;
+    `,
+    logName: "mpesaFeeService.POST /sql (category fee schedule)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+  const record = getResultArray<Record<string, unknown>>(result.data[1])[0];
+  return { status: "ok", schedule: record ? mapFeeSchedule(record) : null };
+}
+
+export async function getIntegrationFeeSchedule(options: {
+  accessToken: string | undefined;
+  integrationId: string;
+}): Promise<{ status: "ok"; schedule: FeeSchedule } | { status: "skipped"; reason: string }> {
+  const { accessToken, integrationId } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const integrationLiteral = toSurrealThingLiteral(integrationId);
+  if (!integrationLiteral || !integrationLiteral.startsWith("mpesa_paybill_integration:")) {
+    return { status: "skipped", reason: "invalid_integration_id" };
+  }
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `SELECT ${FEE_SCHEDULE_FIELDS} FROM ${integrationLiteral};`,
+    logName: "mpesaFeeService.POST /sql (integration fee schedule)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+  const record = getResultArray<Record<string, unknown>>(result.data[0])[0];
+  if (!record) return { status: "skipped", reason: "permission_denied_or_integration_not_found" };
+  return { status: "ok", schedule: mapFeeSchedule(record) };
+}
+
+export async function updateFeeSchedule(options: {
+  accessToken: string | undefined;
+  integrationId: string;
+  tariff: unknown;
+  feeExpenseAccountId?: string;
+}): Promise<
+  { status: "ok"; schedule: FeeSchedule } | { status: "invalid"; error: string; reason: string } | { status: "skipped"; reason: string }
+> {
+  const { accessToken, integrationId, feeExpenseAccountId } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const integrationLiteral = toSurrealThingLiteral(integrationId);
+  if (!integrationLiteral || !integrationLiteral.startsWith("mpesa_paybill_integration:")) {
+    return { status: "invalid", error: "Invalid integration ID", reason: "invalid_integration_id" };
+  }
+
+  const validation = validateFeeTariff(options.tariff);
+  if (validation.status === "invalid") return validation;
+
+  let accountLiteral = "NONE";
+  if (feeExpenseAccountId) {
+    const literal = toSurrealThingLiteral(feeExpenseAccountId);
+    if (!literal) return { status: "invalid", error: "Invalid fee expense account", reason: "invalid_account_id" };
+    accountLiteral = literal;
+  }
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      UPDATE ${integrationLiteral} SET
+        fee_tariff = ${JSON.stringify(validation.tariff)},
+        fee_expense_account = ${accountLiteral};
+      SELECT ${FEE_SCHEDULE_FIELDS} FROM ${integrationLiteral};
+    `,
+    logName: "mpesaFeeService.POST /sql (update fee schedule)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+  if (getResultArray<unknown>(result.data[0]).length === 0) {
+    return { status: "skipped", reason: "permission_denied_or_integration_not_found" };
+  }
+  const record = getResultArray<Record<string, unknown>>(result.data[1])[0];
+  if (!record) return { status: "skipped", reason: "permission_denied_or_integration_not_found" };
+  return { status: "ok", schedule: mapFeeSchedule(record) };
+}
+
+// The fee_plan literal for a new M-Pesa payout from `fromLiteral`, or null when no fee will be
+// recorded: the category has no tariff, or no expense account was chosen (undefined falls back to
+// the integration's fee_expense_account; null opts out).
+export async function resolveFeePlan(options: {
+  accessToken: string;
+  fromLiteral: string;
+  expenseAccountId: string | null | undefined;
+}): Promise<{ status: "ok"; literal: string | null } | { status: "invalid"; error: string; reason: string } | { status: "skipped"; reason: string }> {
+  const { accessToken, fromLiteral, expenseAccountId } = options;
+  if (expenseAccountId === null || expenseAccountId === "") return { status: "ok", literal: null };
+
+  let expenseLiteral: string | null = null;
+  if (expenseAccountId) {
+    expenseLiteral = toSurrealThingLiteral(expenseAccountId);
+    if (!expenseLiteral) return { status: "invalid", error: "Invalid fee expense account", reason: "invalid_fee_account_id" };
+  }
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      LET $integration = fn::category_linked_payment_integration(${fromLiteral}.category_id).out;
+      SELECT id, fee_tariff, fee_expense_account FROM mpesa_paybill_integration WHERE id = $integration LIMIT 1;
+    `,
+    logName: "mpesaFeeService.POST /sql (resolve fee plan)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+  const integration = getResultArray<Record<string, unknown>>(result.data[1])[0];
+  const tariff = parseFeeTariff(integration?.fee_tariff);
+  if (!integration || !tariff || Object.keys(tariff).length === 0) return { status: "ok", literal: null };
+
+  const accountLiteral = expenseLiteral || toSurrealThingLiteral(thingIdToString(integration.fee_expense_account) || "");
+  const integrationLiteral = toSurrealThingLiteral(thingIdToString(integration.id) || "");
+  if (!accountLiteral || !integrationLiteral) return { status: "ok", literal: null };
+
+  return { status: "ok", literal: `{ integration_id: ${integrationLiteral}, expense_account_id: ${accountLiteral} }` };
+}
+
+type PendingPayout = {
+  id?: unknown;
+  amount?: unknown;
+  action?: unknown;
+  to_account?: unknown;
+  label?: unknown;
+  fee_tariff?: unknown;
+  expense_account_id?: unknown;
+};
+
+// Create the "fees" transfer of every posted M-Pesa payout that has a fee plan and none recorded
+// yet. Each payout is claimed (fee_recorded_at) in the same request that creates its fee transfer,
+// so overlapping runs record a fee once; payouts whose amount no tariff band covers are claimed
+// without a transfer. Fee transfers are created submitted, like reversals, and posted the usual way.
+// Called by POST /api/transfers/fees/run.
+export async function recordPostedPayoutFees(options: {
+  accessToken: string | undefined;
+}): Promise<{ status: "ok"; recorded: number; noCharge: number; failed: number } | { status: "skipped"; reason: string }> {
+  const { accessToken } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const pendingResult = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      SELECT
+        id,
+        amount,
+        label,
+        payment_channel.action AS action,
+        payment_channel.to_account AS to_account,
+        fee_plan.expense_account_id AS expense_account_id,
+        fee_plan.integration_id.fee_tariff AS fee_tariff
+      FROM transfer
+      WHERE status = "posted"
+        AND payment_channel.channel_id = "MPESA"
+        AND fee_plan != NONE
+        AND fee_recorded_at = NONE
+      ORDER BY created_at ASC
+      LIMIT ${MAX_PAYOUTS_PER_RUN};
+    `,
+    logName: "mpesaFeeService.POST /sql (pending payout fees)",
+  });
+
+  if (!pendingResult.success) return { status: "skipped", reason: pendingResult.error };
+
+  let recorded = 0;
+  let noCharge = 0;
+  let failed = 0;
+
+  for (const payout of getResultArray<PendingPayout>(pendingResult.data[0])) {
+    const payoutLiteral = toSurrealThingLiteral(thingIdToString(payout.id) || "");
+    const expenseLiteral = toSurrealThingLiteral(thingIdToString(payout.expense_account_id) || "");
+    if (!payoutLiteral) continue;
+
+    const amount = typeof payout.amount === "number" ? payout.amount : Number(payout.amount);
+    const charge = feeForAmount(parseFeeTariff(payout.fee_tariff), String(payout.action || ""), amount);
+    const claim = `LET $claimed = (UPDATE ${payoutLiteral} SET fee_recorded_at = time::now() WHERE status = "posted" AND fee_recorded_at = NONE RETURN AFTER);`;
+
+    if (!charge || !expenseLiteral) {
+      const result = await executeSurrealQL({
+        token: accessToken,
+        query: claim,
+        logName: "mpesaFeeService.POST /sql (claim payout without fee)",
+      });
+      if (result.success) noCharge += 1;
+      else failed += 1;
+      continue;
+    }
+
+    const recipient = typeof payout.label === "string" && payout.label ? payout.label : String(payout.to_account || "");
+    const result = await executeSurrealQL({
+      token: accessToken,
+      query: `
+        ${claim}
+        IF array::len($claimed) = 0 {
+          RETURN "already_recorded";
+        } ELSE {
+          LET $fee = (CREATE transfer CONTENT {
+            from_account_id: $claimed[0].from_account_id,
+            to_account_id: ${expenseLiteral},
+            amount: ${charge},
+            type: "fees",
+            status: "submitted",
+            created_by: $claimed[0].created_by,
+            parent_transfer_id: ${payoutLiteral},
+            link_role: ${JSON.stringify(FEE_ROLE)},
+            label: "M-Pesa charge",
+            description: ${JSON.stringify(`M-Pesa charge for ${recipient}`)}
+          });
+          IF array::len($fee) = 0 {
+            UPDATE ${payoutLiteral} SET fee_recorded_at = NONE;
+            RETURN "create_failed";
+          } ELSE {
+            UPDATE ${payoutLiteral} SET fee_transfer_id = $fee[0].id;
+            RETURN "recorded";
+          };
+        };
+      `,
+      logName: "mpesaFeeService.POST /sql (record payout fee)",
+    });
+
+    if (!result.success) {
+      // Release the claim so the next run retries this payout
+      await executeSurrealQL({
+        token: accessToken,
+        query: `UPDATE ${payoutLiteral} SET fee_recorded_at = NONE WHERE fee_transfer_id = NONE;`,
+        logName: "mpesaFeeService.POST /sql (release payout fee claim)",
+      });
+      failed += 1;
+      continue;
+    }
+
+    const outcome = result.data[1]?.result;
+    if (outcome === "recorded") recorded += 1;
+    else if (outcome === "create_failed") failed += 1;
+  }
+
+  return { status: "ok", recorded, noCharge, failed };
+}
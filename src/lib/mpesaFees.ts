@@ -0,0 +1,80 @@
+import { MPESA_ACTIONS, type MpesaAction } from "@/lib/mpesaNumbers";
+
+// M-Pesa transaction charges. Each mpesa_paybill_integration keeps a tariff (fee_tariff): per payout
+// action, amount bands mapped to the charge Safaricom deducts. The payout modals preview the fee
+// from it, and once a payout is posted a linked "fees" transfer records the charge (see
+// mpesaFeeService.recordPostedPayoutFees).
+
+export const FEE_ROLE = "fee";
+export const MAX_FEE_BANDS = 50;
+
+// Inclusive amount range and the charge for payouts in it
+export type FeeBand = { min: number; max: number; charge: number };
+export type FeeTariff = Partial<Record<MpesaAction, FeeBand[]>>;
+
+// The charge for a payout, or null when the tariff has no band covering the amount
+export function feeForAmount(tariff: FeeTariff | undefined, action: string, amount: number): number | null {
+  const bands = tariff?.[action as MpesaAction];
+  if (!bands || !(amount > 0)) return null;
+  const band = bands.find((b) => amount >= b.min && amount <= b.max);
+  return band ? band.charge : null;
+}
+
+function toNumber(value: unknown): number {
+  return typeof value === "number" ? value : typeof value === "string" && value.trim() !== "" ? Number(value) : NaN;
+}
+
+// Bands must be non-negative, non-overlapping ranges; they are returned sorted by min
+export function validateFeeTariff(
+  input: unknown,
+): { status: "ok"; tariff: FeeTariff } | { status: "invalid"; error: string; reason: string } {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { status: "invalid", error: "Tariff must be an object keyed by M-Pesa action", reason: "invalid_tariff" };
+  }
+
+  const tariff: FeeTariff = {};
+  for (const [action, rawBands] of Object.entries(input as Record<string, unknown>)) {
+    if (!(MPESA_ACTIONS as readonly string[]).includes(action)) {
+      return { status: "invalid", error: `Unknown M-Pesa action: ${action}`, reason: "invalid_tariff_action" };
+    }
+    if (!Array.isArray(rawBands) || rawBands.length > MAX_FEE_BANDS) {
+      return { status: "invalid", error: `At most ${MAX_FEE_BANDS} bands per action`, reason: "invalid_tariff_bands" };
+    }
+
+    const bands: FeeBand[] = [];
+    for (const raw of rawBands) {
+      const band = (raw || {}) as Record<string, unknown>;
+      const min = toNumber(band.min);
+      const max = toNumber(band.max);
+      const charge = toNumber(band.charge);
+      if (![min, max, charge].every((n) => Number.isFinite(n) && n >= 0) || min > max) {
+        return {
+          status: "invalid",
+          error: "Each band needs 0 ≤ min ≤ max and a non-negative charge",
+          reason: "invalid_tariff_band",
+        };
+      }
+      bands.push({ min, max, charge });
+    }
+
+    bands.sort((a, b) => a.min - b.min);
+    for (let i = 1; i < bands.length; i++) {
+      if (bands[i].min <= bands[i - 1].max) {
+        return {
+          status: "invalid",
+          error: `Bands ${bands[i - 1].min}–${bands[i - 1].max} and ${bands[i].min}–${bands[i].max} overlap`,
+          reason: "overlapping_tariff_bands",
+        };
+      }
+    }
+    if (bands.length > 0) tariff[action as MpesaAction] = bands;
+  }
+  return { status: "ok", tariff };
+}
+
+// Tariff as stored in SurrealDB (unvalidated) → FeeTariff, dropping anything malformed
+export function parseFeeTariff(value: unknown): FeeTariff | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const parsed = validateFeeTariff(value);
+  return parsed.status === "ok" ? parsed.tariff : undefined;
+}
@@ -0,0 +1,137 @@
+// Validation and normalisation of M-Pesa recipients, shared by the payment forms, payees and the
+// transfer API. Safaricom mobile numbers (MSISDNs) are stored as 2547XXXXXXXX / 2541XXXXXXXX;
+// till and paybill numbers are short codes of a few digits.
+
+export const MPESA_ACTIONS = ["BusinessPayment", "BusinessBuyGoods", "BusinessPayBill"] as const;
+export type MpesaAction = (typeof MPESA_ACTIONS)[number];
+
+export const TILL_NUMBER_LENGTH = { min: 5, max: 8 };
+export const PAYBILL_NUMBER_LENGTH = { min: 5, max: 7 };
+export const MAX_ACCOUNT_REFERENCE_LENGTH = 20;
+
+// Reason codes returned for unusable recipients, so API routes can answer them with 400
+export const MPESA_RECIPIENT_REASONS = [
+  "invalid_mpesa_action",
+  "missing_phone_number",
+  "invalid_phone_number",
+  "unsupported_country_code",
+  "invalid_phone_number_length",
+  "invalid_phone_number_prefix",
+  "missing_till_number",
+  "invalid_till_number",
+  "invalid_till_number_length",
+  "missing_paybill_number",
+  "invalid_paybill_number",
+  "invalid_paybill_number_length",
+  "missing_account_reference",
+  "invalid_account_reference",
+  "invalid_account_reference_length",
+] as const;
+
+export type MpesaValidation = { status: "ok"; value: string } | { status: "invalid"; error: string; reason: string };
+
+export function isMpesaAction(value: unknown): value is MpesaAction {
+  return typeof value === "string" && (MPESA_ACTIONS as readonly string[]).includes(value);
+}
+
+// Accepts 07XXXXXXXX, 01XXXXXXXX, 7XXXXXXXX, 2547XXXXXXXX and +2547XXXXXXXX (spaces, dashes and
+// brackets are ignored) and returns 2547XXXXXXXX / 2541XXXXXXXX
+export function normalizeMsisdn(input: string): MpesaValidation {
+  const compact = input.trim().replace(/[\s\-().]/g, "");
+  if (!compact) return { status: "invalid", error: "Phone number is required", reason: "missing_phone_number" };
+  if (!/^\+?\d+$/.test(compact)) {
+    return { status: "invalid", error: "Phone number may only contain digits and a leading +", reason: "invalid_phone_number" };
+  }
+
+  const digits = compact.replace(/^\+/, "");
+  let subscriber: string;
+  if (compact.startsWith("+") || digits.startsWith("254")) {
+    if (!digits.startsWith("254")) {
+      return { status: "invalid", error: "Only Kenyan (+254) numbers are supported", reason: "unsupported_country_code" };
+    }
+    subscriber = digits.slice(3);
+  } else if (digits.startsWith("0")) {
+    subscriber = digits.slice(1);
+  } else {
+    subscriber = digits;
+  }
+
+  if (subscriber.length !== 9) {
+    return { status: "invalid", error: "Phone number must have 9 digits after 0 or 254", reason: "invalid_phone_number_length" };
+  }
+  if (!/^[17]/.test(subscriber)) {
+    return { status: "invalid", error: "Phone number must be a mobile number (07XX or 01XX)", reason: "invalid_phone_number_prefix" };
+  }
+  return { status: "ok", value: `254${subscriber}` };
+}
+
+function validateShortCode(input: string, kind: "till" | "paybill"): MpesaValidation {
+  const value = input.trim();
+  const label = kind === "till" ? "Till number" : "Paybill number";
+  if (!value) return { status: "invalid", error: `${label} is required`, reason: `missing_${kind}_number` };
+  if (!/^\d+$/.test(value)) {
+    return { status: "invalid", error: `${label} may only contain digits`, reason: `invalid_${kind}_number` };
+  }
+  const { min, max } = kind === "till" ? TILL_NUMBER_LENGTH : PAYBILL_NUMBER_LENGTH;
+  if (value.length < min || value.length > max) {
+    return { status: "invalid", error: `${label} must be ${min} to ${max} digits`, reason: `invalid_${kind}_number_length` };
+  }
+  return { status: "ok", value };
+}
+
+export function validateTillNumber(input: string): MpesaValidation {
+  return validateShortCode(input, "till");
+}
+
+export function validatePaybillNumber(input: string): MpesaValidation {
+  return validateShortCode(input, "paybill");
+}
+
+// Paybill account references: letters, digits and - _ . / # or spaces, as printed on bills
+export function validateAccountReference(input: string): MpesaValidation {
+  const value = input.trim();
+  if (!value) return { status: "invalid", error: "Account reference is required", reason: "missing_account_reference" };
+  if (value.length > MAX_ACCOUNT_REFERENCE_LENGTH) {
+    return {
+      status: "invalid",
+      error: `Account reference must be at most ${MAX_ACCOUNT_REFERENCE_LENGTH} characters`,
+      reason: "invalid_account_reference_length",
+    };
+  }
+  if (!/^[A-Za-z0-9][A-Za-z0-9 \-_./#]*$/.test(value)) {
+    return {
+      status: "invalid",
+      error: "Account reference may only contain letters, digits, spaces and - _ . / #",
+      reason: "invalid_account_reference",
+    };
+  }
+  return { status: "ok", value };
+}
+
+// The normalised recipient of an M-Pesa payout, or why it is unusable
+export function validateMpesaRecipient(input: {
+  action?: unknown;
+  toAccount?: string;
+  accountReference?: string;
+}):
+  | { status: "ok"; action: MpesaAction; toAccount: string; accountReference?: string }
+  | { status: "invalid"; error: string; reason: string } {
+  const { action } = input;
+  if (!isMpesaAction(action)) {
+    return { status: "invalid", error: `M-Pesa action must be one of: ${MPESA_ACTIONS.join(", ")}`, reason: "invalid_mpesa_action" };
+  }
+
+  const number =
+    action === "BusinessPayment"
+      ? normalizeMsisdn(input.toAccount || "")
+      : action === "BusinessBuyGoods"
+        ? validateTillNumber(input.toAccount || "")
+        : validatePaybillNumber(input.toAccount || "");
+  if (number.status === "invalid") return number;
+
+  if (action !== "BusinessPayBill") return { status: "ok", action, toAccount: number.value };
+
+  const reference = validateAccountReference(input.accountReference || "");
+  if (reference.status === "invalid") return reference;
+  return { status: "ok", action, toAccount: number.value, accountReference: reference.value };
+}
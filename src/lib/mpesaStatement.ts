@@ -0,0 +1,216 @@
+// Parser for Safaricom M-Pesa statements (org portal CSV export, or the text of the statement PDF
+// copied out of a PDF viewer) and their mapping onto draft transfers for the statement import.
+
+import { extractNameFromStatementDetails, nameFromPartyInfo } from "@/lib/mpesaCounterparty";
+import type { ReconciliationLineInput, StatementLinePreview } from "@/lib/reconciliationMatching";
+import { parseCsv, parseStatementAmount, parseStatementDate, type ImportRowPreview } from "@/lib/statementImport";
+
+export type MpesaStatementEntry = {
+  // 1-based line in the source text
+  line: number;
+  receiptNo: string;
+  completionTime: string;
+  details: string;
+  transactionStatus?: string;
+  paidIn: number;
+  withdrawn: number;
+  balance?: number;
+  counterpartyName: string;
+};
+
+const RECEIPT_PATTERN = /^[A-Z0-9]{10}$/;
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^a-z/]/g, "");
+}
+
+const HEADER_KEYS = {
+  receiptNo: ["receiptno"],
+  completionTime: ["completiontime"],
+  details: ["details"],
+  transactionStatus: ["transactionstatus"],
+  paidIn: ["paidin"],
+  withdrawn: ["withdrawn", "withdrawen"],
+  balance: ["balance"],
+  otherPartyInfo: ["otherpartyinfo"],
+} as const;
+
+function parseCsvStatement(rows: string[][]): MpesaStatementEntry[] | null {
+  // Org statements start with a few lines of account details before the column header
+  const headerIndex = rows.findIndex((row) => {
+    const cells = row.map(normalizeHeader);
+    return cells.includes("receiptno") && cells.includes("completiontime");
+  });
+  if (headerIndex < 0) return null;
+
+  const header = rows[headerIndex].map(normalizeHeader);
+  const column = (keys: readonly string[]) => header.findIndex((cell) => keys.includes(cell));
+  const columns = {
+    receiptNo: column(HEADER_KEYS.receiptNo),
+    completionTime: column(HEADER_KEYS.completionTime),
+    details: column(HEADER_KEYS.details),
+    transactionStatus: column(HEADER_KEYS.transactionStatus),
+    paidIn: column(HEADER_KEYS.paidIn),
+    withdrawn: column(HEADER_KEYS.withdrawn),
+    balance: column(HEADER_KEYS.balance),
+    otherPartyInfo: column(HEADER_KEYS.otherPartyInfo),
+  };
+  const cell = (row: string[], index: number) => (index >= 0 ? (row[index] || "").trim() : "");
+
+  const entries: MpesaStatementEntry[] = [];
+  rows.slice(headerIndex + 1).forEach((row, i) => {
+    const receiptNo = cell(row, columns.receiptNo);
+    if (!RECEIPT_PATTERN.test(receiptNo)) return;
+
+    const details = cell(row, columns.details);
+    const otherPartyInfo = cell(row, columns.otherPartyInfo);
+    entries.push({
+      line: headerIndex + i + 2,
+      receiptNo,
+      completionTime: parseStatementDate(cell(row, columns.completionTime)) || "",
+      details,
+      transactionStatus: cell(row, columns.transactionStatus) || undefined,
+      paidIn: Math.abs(parseStatementAmount(cell(row, columns.paidIn)) || 0),
+      withdrawn: Math.abs(parseStatementAmount(cell(row, columns.withdrawn)) || 0),
+      balance: parseStatementAmount(cell(row, columns.balance)) ?? undefined,
+      counterpartyName: otherPartyInfo ? nameFromPartyInfo(otherPartyInfo) : extractNameFromStatementDetails(details),
+    });
+  });
+  return entries;
+}
+
+// One statement row as laid out in the PDF: receipt, completion time, details, status, then either
+// paid in + withdrawn + balance or a single signed amount + balance
+const PDF_ROW_PATTERN =
+  /^([A-Z0-9]{10})\s+(\d{4}-\d{2}-\d{2}\s+\d{2}:\d{2}:\d{2})\s+(.+?)\s+(Completed|Failed|Pending|Reversed|Cancelled)\s+(-?[\d,]+\.\d{2})\s+(-?[\d,]+\.\d{2})(?:\s+(-?[\d,]+\.\d{2}))?$/;
+
+function parseTextStatement(text: string): MpesaStatementEntry[] {
+  const entries: MpesaStatementEntry[] = [];
+  text.split(/\r?\n/).forEach((rawLine, i) => {
+    const line = rawLine.trim();
+    const match = line.match(PDF_ROW_PATTERN);
+    if (!match) return;
+
+    const [, receiptNo, completionTime, details, transactionStatus, first, second, third] = match;
+    let paidIn = 0;
+    let withdrawn = 0;
+    let balance: number | undefined;
+    if (third !== undefined) {
+      paidIn = Math.abs(parseStatementAmount(first) || 0);
+      withdrawn = Math.abs(parseStatementAmount(second) || 0);
+      balance = parseStatementAmount(third) ?? undefined;
+    } else {
+      const amount = parseStatementAmount(first) || 0;
+      if (amount < 0) withdrawn = -amount;
+      else paidIn = amount;
+      balance = parseStatementAmount(second) ?? undefined;
+    }
+
+    entries.push({
+      line: i + 1,
+      receiptNo,
+      completionTime: parseStatementDate(completionTime) || "",
+      details,
+      transactionStatus,
+      paidIn,
+      withdrawn,
+      balance,
+      counterpartyName: extractNameFromStatementDetails(details),
+    });
+  });
+  return entries;
+}
+
+// Accepts the CSV export or text copied from the statement PDF. PDFs themselves have to be copied
+// out as text first: they are password protected and there is no PDF reader in the app.
+export function parseMpesaStatement(
+  text: string,
+): { status: "ok"; entries: MpesaStatementEntry[] } | { status: "invalid"; reason: string } {
+  const fromCsv = parseCsvStatement(parseCsv(text));
+  const entries = fromCsv ?? parseTextStatement(text);
+  if (entries.length === 0) return { status: "invalid", reason: "No M-Pesa statement rows found" };
+  return { status: "ok", entries };
+}
+
+function isChargeEntry(entry: MpesaStatementEntry): boolean {
+  return /charge/i.test(entry.details);
+}
+
+// Transaction charges share the receipt of the payment they belong to, so they get a "-charge"
+// suffix; any other repeated receipt is numbered in statement order
+function entryReferences(entries: MpesaStatementEntry[]): string[] {
+  const receiptCounts = new Map<string, number>();
+  return entries.map((entry) => {
+    const reference = isChargeEntry(entry) ? `${entry.receiptNo}-charge` : entry.receiptNo;
+    const seen = receiptCounts.get(reference) || 0;
+    receiptCounts.set(reference, seen + 1);
+    return seen > 0 ? `${reference}-${seen + 1}` : reference;
+  });
+}
+
+// Each statement row becomes a transfer between the statement's account (the category's M-Pesa
+// working or utility account) and a counterparty account: paid in flows into the statement account,
+// withdrawn flows out. The receipt reference becomes external_transaction_id so re-imports are
+// skipped; charges are imported with the fees type.
+export function buildMpesaImportRows(options: {
+  entries: MpesaStatementEntry[];
+  statementAccountId: string;
+  counterpartyAccountId: string;
+  type: string;
+}): ImportRowPreview[] {
+  const { entries, statementAccountId, counterpartyAccountId, type } = options;
+  const references = entryReferences(entries);
+
+  return entries.map((entry, i): ImportRowPreview => {
+    const isCharge = isChargeEntry(entry);
+    const externalTransactionId = references[i];
+
+    if (!statementAccountId) return { row: entry.line, input: null, error: "Select the statement account" };
+    if (!counterpartyAccountId) return { row: entry.line, input: null, error: "Select the counterparty account" };
+    if (entry.transactionStatus && entry.transactionStatus.toLowerCase() !== "completed") {
+      return { row: entry.line, input: null, error: `Transaction ${entry.transactionStatus.toLowerCase()}` };
+    }
+    if (!entry.completionTime) return { row: entry.line, input: null, error: "Invalid completion time" };
+
+    const amount = entry.paidIn || entry.withdrawn;
+    if (!amount) return { row: entry.line, input: null, error: "No amount" };
+
+    const incoming = entry.paidIn > 0;
+    return {
+      row: entry.line,
+      input: {
+        fromAccountId: incoming ? counterpartyAccountId : statementAccountId,
+        toAccountId: incoming ? statementAccountId : counterpartyAccountId,
+        amount,
+        type: isCharge ? "fees" : type,
+        createdAt: entry.completionTime,
+        description: entry.details,
+        label: entry.counterpartyName || undefined,
+        externalTransactionId,
+      },
+    };
+  });
+}
+
+// Statement rows as reconciliation lines. References use the same scheme as the import so lines
+// auto-match the transfers imported from the same statement.
+export function buildMpesaStatementLines(entries: MpesaStatementEntry[]): StatementLinePreview[] {
+  const references = entryReferences(entries);
+  return entries.map((entry, i): StatementLinePreview => {
+    if (entry.transactionStatus && entry.transactionStatus.toLowerCase() !== "completed") {
+      return { row: entry.line, line: null, error: `Transaction ${entry.transactionStatus.toLowerCase()}` };
+    }
+    if (!entry.completionTime) return { row: entry.line, line: null, error: "Invalid completion time" };
+    const amount = entry.paidIn || -entry.withdrawn;
+    if (!amount) return { row: entry.line, line: null, error: "No amount" };
+
+    const line: ReconciliationLineInput = {
+      lineNo: entry.line,
+      date: entry.completionTime,
+      amount,
+      reference: references[i],
+    };
+    if (entry.details) line.description = entry.details;
+    return { row: entry.line, line };
+  });
+}
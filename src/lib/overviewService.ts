@@ -0,0 +1,121 @@
+import { executeSurrealQL, getResultArray, thingIdToString } from "@/lib/surrealdb";
+import { fetchAccountBalancesBatch } from "@/lib/settingsService";
+import { mapTransferRecord, TRANSFER_SELECT_FIELDS, type Transfer } from "@/lib/transferService";
+import { SPLIT_LEG_ROLE } from "@/lib/transferSplit";
+
+// Figures for the dashboard overview (src/app/dashboard/page.tsx). Everything is read with the
+// caller's token, so it covers the categories they can access.
+
+export const OVERVIEW_RECENT_TRANSFERS = 8;
+// Categories shown in the spending breakdown; the rest are summed into "Other"
+export const OVERVIEW_BREAKDOWN_CATEGORIES = 4;
+
+export type CategorySpend = { categoryId: string | null; categoryName: string; total: number };
+
+export type Overview = {
+  // Sum of the TigerBeetle book balances of all asset accounts
+  totalBalance: number;
+  assetAccountCount: number;
+  monthStart: string;
+  // Posted transfers into expense accounts this month and last month, net of refunds and reversals
+  // moving money back out of them
+  monthlySpend: number;
+  previousMonthSpend: number;
+  spendByCategory: CategorySpend[];
+  recentTransfers: Transfer[];
+};
+
+function toNumber(value: unknown): number {
+  const n = typeof value === "number" ? value : parseFloat(String(value ?? "").replace(/dec$/i, ""));
+  return Number.isFinite(n) ? n : 0;
+}
+
+// The top categories by spend, with the remainder folded into "Other"
+export function summarizeSpendByCategory(rows: CategorySpend[], limit = OVERVIEW_BREAKDOWN_CATEGORIES): CategorySpend[] {
+  const sorted = rows.filter((r) => r.total > 0).sort((a, b) => b.total - a.total);
+  if (sorted.length <= limit + 1) return sorted;
+  const other = sorted.slice(limit).reduce((sum, r) => sum + r.total, 0);
+  return [...sorted.slice(0, limit), { categoryId: null, categoryName: "Other", total: other }];
+}
+
+export async function getOverview(options: {
+  accessToken: string | undefined;
+  now?: Date;
+}): Promise<{ status: "ok"; overview: Overview } | { status: "skipped"; reason: string }> {
+  const { accessToken } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const now = options.now ?? new Date();
+  // Calendar months in UTC, like the trend charts, whatever the server's time zone
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const previousMonthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  const monthStartLiteral = `<datetime>${JSON.stringify(monthStart.toISOString())}`;
+  const previousMonthStartLiteral = `<datetime>${JSON.stringify(previousMonthStart.toISOString())}`;
+  const spendConditions = `status = "posted" AND to_account_id.type = "expense"`;
+  const refundConditions = `status = "posted" AND from_account_id.type = "expense"`;
+  const thisMonth = `created_at >= ${monthStartLiteral}`;
+  const previousMonth = `created_at >= ${previousMonthStartLiteral} AND created_at < ${monthStartLiteral}`;
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      SELECT VALUE id FROM account WHERE type = "asset" AND id != $external_account;
+      SELECT math::sum(amount) AS total FROM transfer WHERE ${spendConditions} AND ${thisMonth} GROUP ALL;
+      SELECT math::sum(amount) AS total FROM transfer WHERE ${refundConditions} AND ${thisMonth} GROUP ALL;
+      SELECT math::sum(amount) AS total FROM transfer WHERE ${spendConditions} AND ${previousMonth} GROUP ALL;
+      SELECT math::sum(amount) AS total FROM transfer WHERE ${refundConditions} AND ${previousMonth} GROUP ALL;
+      SELECT to_account_id.category_id AS category_id, to_account_id.category_id.name AS category_name, math::sum(amount) AS total
+        FROM transfer
+        WHERE ${spendConditions} AND ${thisMonth}
+        GROUP BY category_id, category_name;
+      SELECT from_account_id.category_id AS category_id, math::sum(amount) AS total
+        FROM transfer
+        WHERE ${refundConditions} AND ${thisMonth}
+        GROUP BY category_id;
+      SELECT ${TRANSFER_SELECT_FIELDS}
+        FROM transfer
+        WHERE link_role != ${JSON.stringify(SPLIT_LEG_ROLE)}
+        ORDER BY created_at DESC, id DESC
+        LIMIT ${OVERVIEW_RECENT_TRANSFERS};
+    `,
+    logName: "overviewService.POST /sql (overview)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+
+  const assetIds = getResultArray<unknown>(result.data[0])
+    .map((id) => thingIdToString(id))
+    .filter((id): id is string => !!id);
+
+  const balances = await fetchAccountBalancesBatch({ accessToken, accountIds: assetIds });
+  if (balances.status === "skipped") return balances;
+  const totalBalance = Object.values(balances.balances).reduce((sum, tb) => sum + toNumber(tb.book_balance), 0);
+
+  const total = (index: number) => toNumber(getResultArray<Record<string, unknown>>(result.data[index])[0]?.total);
+
+  const refundsByCategory = new Map<string, number>();
+  for (const row of getResultArray<Record<string, unknown>>(result.data[6])) {
+    refundsByCategory.set(thingIdToString(row.category_id) || "", toNumber(row.total));
+  }
+  const spendByCategory = getResultArray<Record<string, unknown>>(result.data[5]).map((row) => {
+    const categoryId = thingIdToString(row.category_id) || null;
+    return {
+      categoryId,
+      categoryName: typeof row.category_name === "string" ? row.category_name : "(Uncategorised)",
+      total: toNumber(row.total) - (refundsByCategory.get(categoryId || "") ?? 0),
+    };
+  });
+
+  return {
+    status: "ok",
+    overview: {
+      totalBalance,
+      assetAccountCount: assetIds.length,
+      monthStart: monthStart.toISOString(),
+      monthlySpend: total(1) - total(2),
+      previousMonthSpend: total(3) - total(4),
+      spendByCategory: summarizeSpendByCategory(spendByCategory),
+      recentTransfers: getResultArray<Record<string, unknown>>(result.data[7]).map(mapTransferRecord).filter((t) => t.id),
+    },
+  };
+}
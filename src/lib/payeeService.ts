@@ -0,0 +1,217 @@
+import {
+  executeSurrealQL,
+  getResultArray,
+  thingIdToString,
+  toSurrealThingLiteral,
+} from "@/lib/surrealdb";
+import { isPayeeAction, validatePayeeInput, type PayeeAction, type PayeeInput } from "@/lib/payees";
+
+// Payees (table payee) belong to a category. Uniqueness of (category, action, number, reference) is
+// checked in the same request as the write, like reconciliation periods.
+
+export type Payee = {
+  id: string;
+  categoryId: string;
+  name: string;
+  action: PayeeAction;
+  number: string;
+  accountReference?: string;
+  defaultExpenseAccountId?: string;
+  defaultExpenseAccountName?: string;
+  notes?: string;
+  createdAt: string;
+  updatedAt?: string;
+};
+
+const PAYEE_SELECT_FIELDS = `*, default_expense_account_id.name AS default_expense_account_name`;
+
+function mapPayeeRecord(p: Record<string, unknown>): Payee {
+  return {
+    id: thingIdToString(p.id) || "",
+    categoryId: thingIdToString(p.category_id) || "",
+    name: typeof p.name === "string" ? p.name : "",
+    action: isPayeeAction(p.action) ? p.action : "BusinessPayment",
+    number: typeof p.number === "string" ? p.number : "",
+    accountReference: typeof p.account_reference === "string" ? p.account_reference : undefined,
+    defaultExpenseAccountId: thingIdToString(p.default_expense_account_id),
+    defaultExpenseAccountName:
+      typeof p.default_expense_account_name === "string" ? p.default_expense_account_name : undefined,
+    notes: typeof p.notes === "string" ? p.notes : undefined,
+    createdAt: typeof p.created_at === "string" ? p.created_at : "",
+    updatedAt: typeof p.updated_at === "string" ? p.updated_at : undefined,
+  };
+}
+
+function parsePayeeLiteral(payeeId: string): string | null {
+  const literal = toSurrealThingLiteral(payeeId);
+  return literal && literal.startsWith("payee:") ? literal : null;
+}
+
+// Field list shared by create and update, or the reason the input is unusable
+function payeeFields(
+  input: PayeeInput,
+): { status: "ok"; fields: string[]; duplicateCondition: string } | { status: "invalid"; error: string; reason: string } {
+  const validation = validatePayeeInput(input);
+  if (validation.status === "invalid") return validation;
+  const { payee } = validation;
+
+  let expenseAccountLiteral = "NONE";
+  if (payee.defaultExpenseAccountId) {
+    const literal = toSurrealThingLiteral(payee.defaultExpenseAccountId);
+    if (!literal) return { status: "invalid", error: "Invalid default expense account", reason: "invalid_account_id" };
+    expenseAccountLiteral = literal;
+  }
+
+  const accountReference = payee.accountReference ? JSON.stringify(payee.accountReference) : "NONE";
+  return {
+    status: "ok",
+    fields: [
+      `name = ${JSON.stringify(payee.name)}`,
+      `action = ${JSON.stringify(payee.action)}`,
+      `number = ${JSON.stringify(payee.number)}`,
+      `account_reference = ${accountReference}`,
+      `default_expense_account_id = ${expenseAccountLiteral}`,
+      `notes = ${payee.notes ? JSON.stringify(payee.notes) : "NONE"}`,
+    ],
+    duplicateCondition: `action = ${JSON.stringify(payee.action)} AND number = ${JSON.stringify(payee.number)} AND account_reference = ${accountReference}`,
+  };
+}
+
+export async function listPayees(options: {
+  accessToken: string | undefined;
+  categoryId: string;
+  action?: string;
+}): Promise<{ status: "ok"; payees: Payee[] } | { status: "skipped"; reason: string }> {
+  const { accessToken, categoryId, action } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const categoryLiteral = toSurrealThingLiteral(categoryId);
+  if (!categoryLiteral) return { status: "skipped", reason: "invalid_category_id" };
+
+  const conditions = [`category_id = ${categoryLiteral}`];
+  if (action) {
+    if (!isPayeeAction(action)) return { status: "skipped", reason: "invalid_action" };
+    conditions.push(`action = ${JSON.stringify(action)}`);
+  }
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `SELECT ${PAYEE_SELECT_FIELDS} FROM payee WHERE ${conditions.join(" AND ")} ORDER BY name ASC LIMIT 1000;`,
+    logName: "payeeService.POST /sql (list payees)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+  return { status: "ok", payees: getResultArray<Record<string, unknown>>(result.data[0]).map(mapPayeeRecord) };
+}
+
+export async function createPayee(options: {
+  accessToken: string | undefined;
+  categoryId: string;
+  input: PayeeInput;
+}): Promise<
+  { status: "created"; payee: Payee } | { status: "invalid"; error: string; reason: string } | { status: "skipped"; reason: string }
+> {
+  const { accessToken, categoryId, input } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const categoryLiteral = toSurrealThingLiteral(categoryId);
+  if (!categoryLiteral) return { status: "invalid", error: "Invalid categoryId", reason: "invalid_category_id" };
+
+  const built = payeeFields(input);
+  if (built.status === "invalid") return built;
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      LET $me = (SELECT VALUE id FROM user WHERE auth_sub = $token.sub LIMIT 1)[0];
+      LET $duplicate = (SELECT VALUE id FROM payee WHERE category_id = ${categoryLiteral} AND ${built.duplicateCondition} LIMIT 1);
+      IF array::len($duplicate) = 0 {
+        LET $created = (CREATE payee SET
+          category_id = ${categoryLiteral},
+          ${built.fields.join(",\n          ")},
+          created_by = $me,
+          created_at = time::now());
+        RETURN (SELECT ${PAYEE_SELECT_FIELDS} FROM $created.id);
+      } ELSE {
+        RETURN "duplicate_payee";
+      };
+    `,
+    logName: "payeeService.POST /sql (create payee)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+
+  const outcome = result.data[2]?.result;
+  if (outcome === "duplicate_payee") return { status: "skipped", reason: "duplicate_payee" };
+
+  const created = getResultArray<Record<string, unknown>>(result.data[2])[0];
+  if (!created) return { status: "skipped", reason: "permission_denied_create_payee" };
+  return { status: "created", payee: mapPayeeRecord(created) };
+}
+
+export async function updatePayee(options: {
+  accessToken: string | undefined;
+  payeeId: string;
+  input: PayeeInput;
+}): Promise<
+  { status: "ok"; payee: Payee } | { status: "invalid"; error: string; reason: string } | { status: "skipped"; reason: string }
+> {
+  const { accessToken, payeeId, input } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const payeeLiteral = parsePayeeLiteral(payeeId);
+  if (!payeeLiteral) return { status: "invalid", error: "Invalid payee ID", reason: "invalid_payee_id" };
+
+  const built = payeeFields(input);
+  if (built.status === "invalid") return built;
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      LET $payee = (SELECT id, category_id FROM ${payeeLiteral})[0];
+      LET $duplicate = (SELECT VALUE id FROM payee
+        WHERE category_id = $payee.category_id AND id != ${payeeLiteral} AND ${built.duplicateCondition} LIMIT 1);
+      IF $payee = NONE {
+        RETURN "payee_not_found";
+      } ELSE IF array::len($duplicate) > 0 {
+        RETURN "duplicate_payee";
+      } ELSE {
+        LET $updated = (UPDATE ${payeeLiteral} SET
+          ${built.fields.join(",\n          ")},
+          updated_at = time::now());
+        RETURN (SELECT ${PAYEE_SELECT_FIELDS} FROM $updated.id);
+      };
+    `,
+    logName: "payeeService.POST /sql (update payee)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+
+  const outcome = result.data[2]?.result;
+  if (outcome === "payee_not_found" || outcome === "duplicate_payee") return { status: "skipped", reason: outcome };
+
+  const updated = getResultArray<Record<string, unknown>>(result.data[2])[0];
+  if (!updated) return { status: "skipped", reason: "permission_denied_update_payee" };
+  return { status: "ok", payee: mapPayeeRecord(updated) };
+}
+
+export async function deletePayee(options: {
+  accessToken: string | undefined;
+  payeeId: string;
+}): Promise<{ status: "deleted" } | { status: "skipped"; reason: string }> {
+  const { accessToken, payeeId } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const payeeLiteral = parsePayeeLiteral(payeeId);
+  if (!payeeLiteral) return { status: "skipped", reason: "invalid_payee_id" };
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `DELETE ${payeeLiteral} RETURN BEFORE;`,
+    logName: "payeeService.POST /sql (delete payee)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+  if (getResultArray<unknown>(result.data[0]).length === 0) return { status: "skipped", reason: "payee_not_found" };
+  return { status: "deleted" };
+}
@@ -0,0 +1,79 @@
+import { isMpesaAction, MPESA_ACTIONS, validateMpesaRecipient, type MpesaAction } from "@/lib/mpesaNumbers";
+
+// Saved M-Pesa payees: a category's address book of Send Money numbers, Buy Goods tills and
+// Paybills (with account reference). Shared by the payee forms, the payment modals' picker and
+// payeeService.
+
+export const PAYEE_ACTIONS = MPESA_ACTIONS;
+export type PayeeAction = MpesaAction;
+
+export const PAYEE_ACTION_LABELS: Record<PayeeAction, string> = {
+  BusinessPayment: "Send Money",
+  BusinessBuyGoods: "Buy Goods",
+  BusinessPayBill: "Paybill",
+};
+
+export const MAX_PAYEE_NAME_LENGTH = 100;
+export const MAX_PAYEE_NOTES_LENGTH = 500;
+
+export type PayeeInput = {
+  name?: string;
+  action?: string;
+  number?: string;
+  accountReference?: string;
+  defaultExpenseAccountId?: string;
+  notes?: string;
+};
+
+export type NormalizedPayeeInput = {
+  name: string;
+  action: PayeeAction;
+  number: string;
+  accountReference?: string;
+  defaultExpenseAccountId?: string;
+  notes?: string;
+};
+
+export const isPayeeAction = isMpesaAction;
+
+// Identity of a payee within its category: the same number (and reference, for paybills) is saved once
+export function payeeKey(action: string, number: string, accountReference?: string): string {
+  return action === "BusinessPayBill" ? `${action}|${number}|${accountReference || ""}` : `${action}|${number}`;
+}
+
+export function validatePayeeInput(
+  input: PayeeInput,
+): { status: "ok"; payee: NormalizedPayeeInput } | { status: "invalid"; error: string; reason: string } {
+  const name = (input.name || "").trim();
+  if (!name || name.length > MAX_PAYEE_NAME_LENGTH) {
+    return { status: "invalid", error: `Name is required (at most ${MAX_PAYEE_NAME_LENGTH} characters)`, reason: "invalid_name" };
+  }
+
+  if (!isPayeeAction(input.action)) {
+    return { status: "invalid", error: `Action must be one of: ${PAYEE_ACTIONS.join(", ")}`, reason: "invalid_action" };
+  }
+
+  const recipient = validateMpesaRecipient({
+    action: input.action,
+    toAccount: input.number,
+    accountReference: input.accountReference,
+  });
+  if (recipient.status === "invalid") return recipient;
+
+  const notes = (input.notes || "").trim();
+  if (notes.length > MAX_PAYEE_NOTES_LENGTH) {
+    return { status: "invalid", error: `Notes must be at most ${MAX_PAYEE_NOTES_LENGTH} characters`, reason: "invalid_notes" };
+  }
+
+  return {
+    status: "ok",
+    payee: {
+      name,
+      action: recipient.action,
+      number: recipient.toAccount,
+      accountReference: recipient.accountReference,
+      defaultExpenseAccountId: input.defaultExpenseAccountId || undefined,
+      notes: notes || undefined,
+    },
+  };
+}
@@ -0,0 +1,166 @@
+// Reconciliation of an account's posted transfers against an external (bank / M-Pesa) statement:
+// statement line parsing and the auto-match rules. Shared by the reconciliation workspace (preview)
+// and reconciliationService; nothing here talks to the database.
+
+import { parseStatementAmount, parseStatementDate } from "@/lib/statementImport";
+
+export const MAX_RECONCILIATION_LINES = 2000;
+export const DEFAULT_MATCH_WINDOW_DAYS = 3;
+export const MAX_MATCH_WINDOW_DAYS = 31;
+
+export const RECONCILIATION_LINE_STATUSES = ["unmatched", "matched", "flagged"] as const;
+export type ReconciliationLineStatus = (typeof RECONCILIATION_LINE_STATUSES)[number];
+
+// PATCH /api/reconciliations/[id] actions; match, flag and unmatch act on one line (lineId)
+export const RECONCILIATION_ACTIONS = ["auto_match", "match", "flag", "unmatch", "lock", "reopen"] as const;
+export type ReconciliationAction = (typeof RECONCILIATION_ACTIONS)[number];
+
+export function isReconciliationAction(value: unknown): value is ReconciliationAction {
+  return typeof value === "string" && (RECONCILIATION_ACTIONS as readonly string[]).includes(value);
+}
+
+// auto: matched by the rules below; manual: one transfer picked by a user; split: several transfers
+// that together make up one statement line
+export type ReconciliationMatchType = "auto" | "manual" | "split";
+
+// One line of the external statement. Amount is signed from the account's point of view:
+// positive when money came in, negative when it went out.
+export type ReconciliationLineInput = {
+  lineNo: number;
+  date: string;
+  amount: number;
+  description?: string;
+  reference?: string;
+};
+
+export type StatementLinePreview = {
+  // 1-based line in the source file
+  row: number;
+  line: ReconciliationLineInput | null;
+  error?: string;
+};
+
+export const STATEMENT_LINE_FIELDS = [
+  { key: "date", label: "Date", required: true },
+  { key: "amount", label: "Amount (signed)", required: true },
+  { key: "description", label: "Description", required: false },
+  { key: "reference", label: "Reference", required: false },
+] as const;
+
+export type StatementLineField = (typeof STATEMENT_LINE_FIELDS)[number]["key"];
+
+// Column index per field, -1 when not mapped
+export type StatementLineColumns = Record<StatementLineField, number>;
+
+export const EMPTY_STATEMENT_LINE_COLUMNS: StatementLineColumns = {
+  date: -1,
+  amount: -1,
+  description: -1,
+  reference: -1,
+};
+
+// Generic CSV statements: one signed amount column. Banks that list withdrawals as positive numbers
+// can be read with invertAmounts.
+export function buildStatementLines(options: {
+  rows: string[][];
+  hasHeader: boolean;
+  columns: StatementLineColumns;
+  invertAmounts: boolean;
+}): StatementLinePreview[] {
+  const { rows, hasHeader, columns, invertAmounts } = options;
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  const firstLine = hasHeader ? 2 : 1;
+  const cell = (row: string[], index: number) => (index >= 0 ? (row[index] || "").trim() : "");
+
+  return dataRows.map((row, index): StatementLinePreview => {
+    const lineNo = index + firstLine;
+
+    const date = parseStatementDate(cell(row, columns.date));
+    if (!date) return { row: lineNo, line: null, error: "Invalid date" };
+
+    const amount = parseStatementAmount(cell(row, columns.amount));
+    if (amount == null || amount === 0) return { row: lineNo, line: null, error: "Invalid amount" };
+
+    const line: ReconciliationLineInput = { lineNo, date, amount: invertAmounts ? -amount : amount };
+    const description = cell(row, columns.description);
+    if (description) line.description = description;
+    const reference = cell(row, columns.reference);
+    if (reference) line.reference = reference;
+    return { row: lineNo, line };
+  });
+}
+
+// A posted transfer that can still be matched, seen from the reconciled account
+export type MatchCandidate = {
+  id: string;
+  // Signed like statement lines: positive when the account is the to side
+  amount: number;
+  createdAt: string;
+  externalTransactionId?: string;
+};
+
+export type MatchableLine = {
+  id: string;
+  date: string;
+  amount: number;
+  reference?: string;
+};
+
+export type AutoMatch = { lineId: string; transferId: string; rule: "reference" | "amount_date" };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function sameAmount(a: number, b: number): boolean {
+  return Math.abs(a - b) < 0.005;
+}
+
+// Two passes over the unmatched lines:
+//  1. reference: the line's reference equals a transfer's external_transaction_id and the signed
+//     amounts agree (a reference hit with a different amount is left for a person to look at)
+//  2. amount_date: same signed amount within windowDays of the line date; the closest transfer wins
+// Each transfer is used at most once.
+export function autoMatchLines(options: {
+  lines: MatchableLine[];
+  candidates: MatchCandidate[];
+  windowDays: number;
+}): AutoMatch[] {
+  const { lines, candidates, windowDays } = options;
+  const used = new Set<string>();
+  const matched = new Set<string>();
+  const matches: AutoMatch[] = [];
+
+  const byReference = new Map<string, MatchCandidate>();
+  for (const candidate of candidates) {
+    if (candidate.externalTransactionId) byReference.set(candidate.externalTransactionId, candidate);
+  }
+
+  for (const line of lines) {
+    if (!line.reference) continue;
+    const candidate = byReference.get(line.reference);
+    if (!candidate || used.has(candidate.id) || !sameAmount(candidate.amount, line.amount)) continue;
+    used.add(candidate.id);
+    matched.add(line.id);
+    matches.push({ lineId: line.id, transferId: candidate.id, rule: "reference" });
+  }
+
+  const windowMs = windowDays * DAY_MS;
+  const remaining = lines
+    .filter((line) => !matched.has(line.id))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  for (const line of remaining) {
+    const lineTime = new Date(line.date).getTime();
+    let best: { candidate: MatchCandidate; distance: number } | null = null;
+    for (const candidate of candidates) {
+      if (used.has(candidate.id) || !sameAmount(candidate.amount, line.amount)) continue;
+      const distance = Math.abs(new Date(candidate.createdAt).getTime() - lineTime);
+      if (distance > windowMs) continue;
+      if (!best || distance < best.distance) best = { candidate, distance };
+    }
+    if (!best) continue;
+    used.add(best.candidate.id);
+    matches.push({ lineId: line.id, transferId: best.candidate.id, rule: "amount_date" });
+  }
+
+  return matches;
+}
@@ -0,0 +1,605 @@
+import {
+  executeSurrealQL,
+  getResultArray,
+  thingIdToString,
+  toSurrealThingLiteral,
+} from "@/lib/surrealdb";
+import {
+  autoMatchLines,
+  MAX_MATCH_WINDOW_DAYS,
+  MAX_RECONCILIATION_LINES,
+  type MatchCandidate,
+  type ReconciliationLineInput,
+  type ReconciliationLineStatus,
+  type ReconciliationMatchType,
+} from "@/lib/reconciliationMatching";
+import { getCurrentUserLiteral, mapTransferRecord, TRANSFER_SELECT_FIELDS, type Transfer } from "@/lib/transferService";
+
+// A reconciliation ties one account's posted transfers over a period to the lines of an external
+// statement (bank or M-Pesa). Every line ends up matched (auto, manual or split across several
+// transfers) or flagged; the period can then be locked, which freezes the account's transfers in
+// it (see checkReconciliationLock in transferService) until the reconciliation is reopened.
+
+export type ReconciliationStatus = "open" | "locked";
+
+export type Reconciliation = {
+  id: string;
+  accountId: string;
+  accountName: string;
+  categoryId?: string;
+  periodStart: string;
+  periodEnd: string;
+  status: ReconciliationStatus;
+  source?: string;
+  createdAt: string;
+  createdByName?: string;
+  lockedAt?: string;
+  lockedByName?: string;
+  lineCount: number;
+  matchedCount: number;
+  flaggedCount: number;
+};
+
+export type ReconciliationLine = {
+  id: string;
+  lineNo: number;
+  date: string;
+  amount: number;
+  description?: string;
+  reference?: string;
+  status: ReconciliationLineStatus;
+  matchType?: ReconciliationMatchType;
+  matchRule?: string;
+  transferIds: string[];
+  flagReason?: string;
+};
+
+// A posted transfer of the reconciled account, signed like statement lines (+ in, - out)
+export type ReconciliationTransfer = {
+  transfer: Transfer;
+  signedAmount: number;
+  // Line of any reconciliation this transfer is already matched to
+  matchedLineId?: string;
+};
+
+const RECONCILIATION_SELECT_FIELDS = `*,
+  account_id.name AS account_name,
+  account_id.category_id AS account_category_id,
+  created_by.name AS created_by_name,
+  locked_by.name AS locked_by_name,
+  array::len((SELECT id FROM reconciliation_line WHERE reconciliation_id = $parent.id)) AS line_count,
+  array::len((SELECT id FROM reconciliation_line WHERE reconciliation_id = $parent.id AND status = "matched")) AS matched_count,
+  array::len((SELECT id FROM reconciliation_line WHERE reconciliation_id = $parent.id AND status = "flagged")) AS flagged_count`;
+
+function mapReconciliationRecord(r: Record<string, unknown>): Reconciliation {
+  return {
+    id: thingIdToString(r.id) || "",
+    accountId: thingIdToString(r.account_id) || "",
+    accountName: typeof r.account_name === "string" ? r.account_name : "(Unknown)",
+    categoryId: thingIdToString(r.account_category_id),
+    periodStart: typeof r.period_start === "string" ? r.period_start : "",
+    periodEnd: typeof r.period_end === "string" ? r.period_end : "",
+    status: r.status === "locked" ? "locked" : "open",
+    source: typeof r.source === "string" ? r.source : undefined,
+    createdAt: typeof r.created_at === "string" ? r.created_at : "",
+    createdByName: typeof r.created_by_name === "string" ? r.created_by_name : undefined,
+    lockedAt: typeof r.locked_at === "string" ? r.locked_at : undefined,
+    lockedByName: typeof r.locked_by_name === "string" ? r.locked_by_name : undefined,
+    lineCount: typeof r.line_count === "number" ? r.line_count : 0,
+    matchedCount: typeof r.matched_count === "number" ? r.matched_count : 0,
+    flaggedCount: typeof r.flagged_count === "number" ? r.flagged_count : 0,
+  };
+}
+
+function mapLineRecord(l: Record<string, unknown>): ReconciliationLine {
+  const status = l.status === "matched" || l.status === "flagged" ? l.status : "unmatched";
+  return {
+    id: thingIdToString(l.id) || "",
+    lineNo: typeof l.line_no === "number" ? l.line_no : 0,
+    date: typeof l.date === "string" ? l.date : "",
+    amount: typeof l.amount === "number" ? l.amount : Number(l.amount) || 0,
+    description: typeof l.description === "string" ? l.description : undefined,
+    reference: typeof l.reference === "string" ? l.reference : undefined,
+    status,
+    matchType:
+      l.match_type === "auto" || l.match_type === "manual" || l.match_type === "split" ? l.match_type : undefined,
+    matchRule: typeof l.match_rule === "string" ? l.match_rule : undefined,
+    transferIds: Array.isArray(l.transfer_ids)
+      ? l.transfer_ids.map((id) => thingIdToString(id)).filter((id): id is string => Boolean(id))
+      : [],
+    flagReason: typeof l.flag_reason === "string" ? l.flag_reason : undefined,
+  };
+}
+
+function signedAmount(transfer: Transfer, accountId: string): number {
+  return transfer.toAccountId === accountId ? transfer.amount : -transfer.amount;
+}
+
+function sameAmount(a: number, b: number): boolean {
+  return Math.abs(a - b) < 0.005;
+}
+
+export async function listReconciliations(options: {
+  accessToken: string | undefined;
+  accountId?: string;
+}): Promise<{ status: "ok"; reconciliations: Reconciliation[] } | { status: "skipped"; reason: string }> {
+  const { accessToken, accountId } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  let where = "";
+  if (accountId) {
+    const accountLiteral = toSurrealThingLiteral(accountId);
+    if (!accountLiteral) return { status: "skipped", reason: "invalid_account_id" };
+    where = `WHERE account_id = ${accountLiteral}`;
+  }
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `SELECT ${RECONCILIATION_SELECT_FIELDS} FROM reconciliation ${where} ORDER BY period_end DESC, created_at DESC LIMIT 200;`,
+    logName: "reconciliationService.POST /sql (list reconciliations)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+
+  const reconciliations = getResultArray<Record<string, unknown>>(result.data[0])
+    .map(mapReconciliationRecord)
+    .filter((r) => r.id);
+  return { status: "ok", reconciliations };
+}
+
+function sanitizeLine(value: unknown): ReconciliationLineInput | null {
+  if (!value || typeof value !== "object") return null;
+  const v = value as Record<string, unknown>;
+  const lineNo = typeof v.lineNo === "number" && Number.isInteger(v.lineNo) ? v.lineNo : null;
+  const date = typeof v.date === "string" && !isNaN(new Date(v.date).getTime()) ? new Date(v.date).toISOString() : null;
+  const amount = typeof v.amount === "number" && Number.isFinite(v.amount) && v.amount !== 0 ? v.amount : null;
+  if (lineNo == null || !date || amount == null) return null;
+
+  const line: ReconciliationLineInput = { lineNo, date, amount };
+  if (typeof v.description === "string" && v.description.trim()) line.description = v.description.trim().slice(0, 500);
+  if (typeof v.reference === "string" && v.reference.trim()) line.reference = v.reference.trim().slice(0, 100);
+  return line;
+}
+
+export async function createReconciliation(options: {
+  accessToken: string | undefined;
+  accountId: string;
+  periodStart: string;
+  periodEnd: string;
+  source?: string;
+  lines: unknown[];
+}): Promise<{ status: "created"; reconciliationId: string } | { status: "skipped"; reason: string }> {
+  const { accessToken, accountId, source } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const accountLiteral = toSurrealThingLiteral(accountId);
+  if (!accountLiteral) return { status: "skipped", reason: "invalid_account_id" };
+
+  const periodStart = new Date(options.periodStart);
+  const periodEnd = new Date(options.periodEnd);
+  if (isNaN(periodStart.getTime()) || isNaN(periodEnd.getTime()) || periodStart > periodEnd) {
+    return { status: "skipped", reason: "invalid_period" };
+  }
+
+  if (!Array.isArray(options.lines) || options.lines.length === 0) return { status: "skipped", reason: "missing_lines" };
+  if (options.lines.length > MAX_RECONCILIATION_LINES) return { status: "skipped", reason: "too_many_lines" };
+
+  const lines: ReconciliationLineInput[] = [];
+  for (const raw of options.lines) {
+    const line = sanitizeLine(raw);
+    if (!line) return { status: "skipped", reason: "invalid_line" };
+    const at = new Date(line.date);
+    if (at < periodStart || at > periodEnd) return { status: "skipped", reason: "line_outside_period" };
+    lines.push(line);
+  }
+
+  const user = await getCurrentUserLiteral(accessToken);
+  if (user.status === "skipped") return { status: "skipped", reason: user.reason };
+
+  const startLiteral = `<datetime>${JSON.stringify(periodStart.toISOString())}`;
+  const endLiteral = `<datetime>${JSON.stringify(periodEnd.toISOString())}`;
+
+  const createResult = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      SELECT VALUE id FROM reconciliation
+        WHERE account_id = ${accountLiteral} AND status = "locked"
+          AND period_start <= ${endLiteral} AND period_end >= ${startLiteral}
+        LIMIT 1;
+      IF array::len((SELECT id FROM reconciliation
+        WHERE account_id = ${accountLiteral} AND status = "locked"
+          AND period_start <= ${endLiteral} AND period_end >= ${startLiteral})) = 0 {
+        CREATE reconciliation CONTENT {
+          account_id: ${accountLiteral},
+          period_start: ${startLiteral},
+          period_end: ${endLiteral},
+          status: "open",
+          source: ${JSON.stringify(source || "csv")},
+          created_by: ${user.userLiteral},
+          created_at: time::now()
+        };
+      };
+    `,
+    logName: "reconciliationService.POST /sql (create reconciliation)",
+  });
+
+  if (!createResult.success) return { status: "skipped", reason: createResult.error };
+  if (getResultArray<unknown>(createResult.data[0]).length > 0) return { status: "skipped", reason: "period_locked" };
+
+  const created = getResultArray<{ id?: unknown }>(createResult.data[1])[0];
+  const reconciliationId = thingIdToString(created?.id);
+  const reconciliationLiteral = reconciliationId ? toSurrealThingLiteral(reconciliationId) : null;
+  if (!reconciliationId || !reconciliationLiteral) return { status: "skipped", reason: "permission_denied_create_reconciliation" };
+
+  const lineLiterals = lines.map(
+    (line) => `{
+      reconciliation_id: ${reconciliationLiteral},
+      line_no: ${line.lineNo},
+      date: <datetime>${JSON.stringify(line.date)},
+      amount: ${line.amount},
+      description: ${line.description ? JSON.stringify(line.description) : "NONE"},
+      reference: ${line.reference ? JSON.stringify(line.reference) : "NONE"},
+      status: "unmatched",
+      transfer_ids: []
+    }`,
+  );
+
+  const linesResult = await executeSurrealQL({
+    token: accessToken,
+    query: `INSERT INTO reconciliation_line [${lineLiterals.join(",")}];`,
+    logName: "reconciliationService.POST /sql (create reconciliation lines)",
+  });
+
+  if (!linesResult.success || getResultArray<unknown>(linesResult.data[0]).length !== lines.length) {
+    // Do not leave a reconciliation without its statement behind
+    await executeSurrealQL({
+      token: accessToken,
+      query: `DELETE reconciliation_line WHERE reconciliation_id = ${reconciliationLiteral}; DELETE ${reconciliationLiteral};`,
+      logName: "reconciliationService.POST /sql (discard reconciliation)",
+    });
+    return { status: "skipped", reason: linesResult.success ? "permission_denied_create_lines" : linesResult.error };
+  }
+
+  return { status: "created", reconciliationId };
+}
+
+// Reconciliation with its lines and the account's posted transfers around the period
+// (windowDays either side, so transfers booked a few days off can still be matched)
+export async function getReconciliation(options: {
+  accessToken: string | undefined;
+  reconciliationId: string;
+  windowDays?: number;
+}): Promise<
+  | { status: "ok"; reconciliation: Reconciliation; lines: ReconciliationLine[]; transfers: ReconciliationTransfer[] }
+  | { status: "skipped"; reason: string }
+> {
+  const { accessToken, reconciliationId } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const reconciliationLiteral = toSurrealThingLiteral(reconciliationId);
+  if (!reconciliationLiteral || !reconciliationLiteral.startsWith("reconciliation:")) {
+    return { status: "skipped", reason: "invalid_reconciliation_id" };
+  }
+
+  const windowDays = Math.min(Math.max(Math.floor(options.windowDays ?? 0), 0), MAX_MATCH_WINDOW_DAYS);
+
+  const query = `
+    LET $rec = (SELECT account_id, period_start, period_end FROM ${reconciliationLiteral})[0];
+    SELECT ${RECONCILIATION_SELECT_FIELDS} FROM ${reconciliationLiteral};
+    SELECT * FROM reconciliation_line WHERE reconciliation_id = ${reconciliationLiteral} ORDER BY line_no ASC;
+    SELECT ${TRANSFER_SELECT_FIELDS} FROM transfer
+      WHERE status = "posted"
+        AND (from_account_id = $rec.account_id OR to_account_id = $rec.account_id)
+        AND created_at >= $rec.period_start - ${windowDays}d
+        AND created_at <= $rec.period_end + ${windowDays}d
+      ORDER BY created_at ASC, id ASC
+      LIMIT ${MAX_RECONCILIATION_LINES * 2};
+    SELECT id, transfer_ids FROM reconciliation_line
+      WHERE status = "matched" AND reconciliation_id.account_id = $rec.account_id;
+  `;
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query,
+    logName: "reconciliationService.POST /sql (get reconciliation)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+
+  const reconciliationRaw = getResultArray<Record<string, unknown>>(result.data[1])[0];
+  if (!reconciliationRaw) return { status: "skipped", reason: "reconciliation_not_found" };
+  const reconciliation = mapReconciliationRecord(reconciliationRaw);
+
+  const lines = getResultArray<Record<string, unknown>>(result.data[2]).map(mapLineRecord);
+
+  const matchedBy = new Map<string, string>();
+  for (const raw of getResultArray<Record<string, unknown>>(result.data[4])) {
+    const line = mapLineRecord(raw);
+    for (const transferId of line.transferIds) matchedBy.set(transferId, line.id);
+  }
+
+  const transfers = getResultArray<Record<string, unknown>>(result.data[3])
+    .map(mapTransferRecord)
+    .filter((t) => t.id)
+    .map((transfer) => ({
+      transfer,
+      signedAmount: signedAmount(transfer, reconciliation.accountId),
+      matchedLineId: matchedBy.get(transfer.id),
+    }));
+
+  return { status: "ok", reconciliation, lines, transfers };
+}
+
+type LoadedReconciliation = Extract<Awaited<ReturnType<typeof getReconciliation>>, { status: "ok" }>;
+
+async function loadOpenReconciliation(
+  accessToken: string,
+  reconciliationId: string,
+  windowDays?: number,
+): Promise<LoadedReconciliation | { status: "skipped"; reason: string }> {
+  const loaded = await getReconciliation({ accessToken, reconciliationId, windowDays });
+  if (loaded.status === "skipped") return loaded;
+  if (loaded.reconciliation.status !== "open") return { status: "skipped", reason: "reconciliation_locked" };
+  return loaded;
+}
+
+// Line updates are guarded on the reconciliation still being open and the line's expected status
+function lineUpdateStatement(lineId: string, expectedStatuses: ReconciliationLineStatus[], setFields: string[]): string | null {
+  const lineLiteral = toSurrealThingLiteral(lineId);
+  if (!lineLiteral || !lineLiteral.startsWith("reconciliation_line:")) return null;
+  return `UPDATE ${lineLiteral} SET ${setFields.join(", ")}
+    WHERE reconciliation_id.status = "open" AND status INSIDE ${JSON.stringify(expectedStatuses)}`;
+}
+
+export async function autoMatchReconciliation(options: {
+  accessToken: string | undefined;
+  reconciliationId: string;
+  windowDays: number;
+}): Promise<{ status: "ok"; matched: number } | { status: "skipped"; reason: string }> {
+  const { accessToken, reconciliationId } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const windowDays = Math.min(Math.max(Math.floor(options.windowDays), 0), MAX_MATCH_WINDOW_DAYS);
+  const loaded = await loadOpenReconciliation(accessToken, reconciliationId, windowDays);
+  if (loaded.status === "skipped") return loaded;
+
+  const candidates: MatchCandidate[] = loaded.transfers
+    .filter((t) => !t.matchedLineId)
+    .map((t) => ({
+      id: t.transfer.id,
+      amount: t.signedAmount,
+      createdAt: t.transfer.createdAt,
+      externalTransactionId: t.transfer.externalTransactionId,
+    }));
+  const matches = autoMatchLines({
+    lines: loaded.lines.filter((l) => l.status === "unmatched"),
+    candidates,
+    windowDays,
+  });
+  if (matches.length === 0) return { status: "ok", matched: 0 };
+
+  const statements = matches
+    .map((match) =>
+      lineUpdateStatement(match.lineId, ["unmatched"], [
+        `status = "matched"`,
+        `match_type = "auto"`,
+        `match_rule = ${JSON.stringify(match.rule)}`,
+        `transfer_ids = [${toSurrealThingLiteral(match.transferId)}]`,
+        "matched_by = $me",
+        "matched_at = time::now()",
+      ]),
+    )
+    .filter((statement): statement is string => Boolean(statement));
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: [
+      "LET $me = (SELECT VALUE id FROM user WHERE auth_sub = $token.sub LIMIT 1)[0]",
+      ...statements,
+    ].join(";\n") + ";",
+    logName: "reconciliationService.POST /sql (auto match)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+
+  const matched = result.data.slice(1).filter((r) => getResultArray<unknown>(r).length > 0).length;
+  return { status: "ok", matched };
+}
+
+// Match one statement line to one transfer (manual) or to several that add up to it (split).
+// Transfers must be posted transfers of the account, on the same side as the line, and not
+// matched to any other line.
+export async function matchReconciliationLine(options: {
+  accessToken: string | undefined;
+  reconciliationId: string;
+  lineId: string;
+  transferIds: string[];
+}): Promise<{ status: "ok" } | { status: "skipped"; reason: string }> {
+  const { accessToken, reconciliationId, lineId } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const transferIds = [...new Set(options.transferIds)];
+  if (transferIds.length === 0) return { status: "skipped", reason: "missing_transfers" };
+
+  const loaded = await loadOpenReconciliation(accessToken, reconciliationId, MAX_MATCH_WINDOW_DAYS);
+  if (loaded.status === "skipped") return loaded;
+
+  const line = loaded.lines.find((l) => l.id === lineId);
+  if (!line) return { status: "skipped", reason: "line_not_found" };
+  if (line.status === "matched") return { status: "skipped", reason: "line_already_matched" };
+
+  const byId = new Map(loaded.transfers.map((t) => [t.transfer.id, t]));
+  let total = 0;
+  const transferLiterals: string[] = [];
+  for (const transferId of transferIds) {
+    const candidate = byId.get(transferId);
+    const literal = toSurrealThingLiteral(transferId);
+    if (!candidate || !literal) return { status: "skipped", reason: "transfer_not_in_period" };
+    if (candidate.matchedLineId) return { status: "skipped", reason: "transfer_already_matched" };
+    if (Math.sign(candidate.signedAmount) !== Math.sign(line.amount)) return { status: "skipped", reason: "direction_mismatch" };
+    total += candidate.signedAmount;
+    transferLiterals.push(literal);
+  }
+  if (!sameAmount(total, line.amount)) return { status: "skipped", reason: "amount_mismatch" };
+
+  const statement = lineUpdateStatement(lineId, ["unmatched", "flagged"], [
+    `status = "matched"`,
+    `match_type = ${JSON.stringify(transferIds.length > 1 ? "split" : "manual")}`,
+    "match_rule = NONE",
+    "flag_reason = NONE",
+    `transfer_ids = [${transferLiterals.join(", ")}]`,
+    "matched_by = $me",
+    "matched_at = time::now()",
+  ]);
+  if (!statement) return { status: "skipped", reason: "invalid_line_id" };
+
+  return updateLine(accessToken, statement, "match line");
+}
+
+export async function flagReconciliationLine(options: {
+  accessToken: string | undefined;
+  reconciliationId: string;
+  lineId: string;
+  reason?: string;
+}): Promise<{ status: "ok" } | { status: "skipped"; reason: string }> {
+  const { accessToken, reconciliationId, lineId, reason } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const loaded = await loadOpenReconciliation(accessToken, reconciliationId);
+  if (loaded.status === "skipped") return loaded;
+  if (!loaded.lines.some((l) => l.id === lineId)) return { status: "skipped", reason: "line_not_found" };
+
+  const statement = lineUpdateStatement(lineId, ["unmatched"], [
+    `status = "flagged"`,
+    `flag_reason = ${reason && reason.trim() ? JSON.stringify(reason.trim().slice(0, 500)) : "NONE"}`,
+    "matched_by = $me",
+    "matched_at = time::now()",
+  ]);
+  if (!statement) return { status: "skipped", reason: "invalid_line_id" };
+
+  return updateLine(accessToken, statement, "flag line");
+}
+
+// Back to unmatched, from either matched or flagged
+export async function clearReconciliationLine(options: {
+  accessToken: string | undefined;
+  reconciliationId: string;
+  lineId: string;
+}): Promise<{ status: "ok" } | { status: "skipped"; reason: string }> {
+  const { accessToken, reconciliationId, lineId } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const loaded = await loadOpenReconciliation(accessToken, reconciliationId);
+  if (loaded.status === "skipped") return loaded;
+  if (!loaded.lines.some((l) => l.id === lineId)) return { status: "skipped", reason: "line_not_found" };
+
+  const statement = lineUpdateStatement(lineId, ["matched", "flagged"], [
+    `status = "unmatched"`,
+    "match_type = NONE",
+    "match_rule = NONE",
+    "flag_reason = NONE",
+    "transfer_ids = []",
+    "matched_by = NONE",
+    "matched_at = NONE",
+  ]);
+  if (!statement) return { status: "skipped", reason: "invalid_line_id" };
+
+  return updateLine(accessToken, statement, "clear line");
+}
+
+async function updateLine(
+  accessToken: string,
+  statement: string,
+  label: string,
+): Promise<{ status: "ok" } | { status: "skipped"; reason: string }> {
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `LET $me = (SELECT VALUE id FROM user WHERE auth_sub = $token.sub LIMIT 1)[0];\n${statement};`,
+    logName: `reconciliationService.POST /sql (${label})`,
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+  if (getResultArray<unknown>(result.data[1]).length === 0) {
+    return { status: "skipped", reason: "permission_denied_or_status_changed" };
+  }
+  return { status: "ok" };
+}
+
+// Lock once every line is matched or flagged and the period is over; reopen to allow changes again
+export async function setReconciliationLock(options: {
+  accessToken: string | undefined;
+  reconciliationId: string;
+  action: "lock" | "reopen";
+}): Promise<{ status: "ok" } | { status: "skipped"; reason: string }> {
+  const { accessToken, reconciliationId, action } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const loaded = await getReconciliation({ accessToken, reconciliationId });
+  if (loaded.status === "skipped") return loaded;
+  const reconciliationLiteral = toSurrealThingLiteral(loaded.reconciliation.id);
+  if (!reconciliationLiteral) return { status: "skipped", reason: "invalid_reconciliation_id" };
+
+  let query: string;
+  if (action === "lock") {
+    if (loaded.reconciliation.status !== "open") return { status: "skipped", reason: "reconciliation_locked" };
+    if (loaded.lines.some((l) => l.status === "unmatched")) return { status: "skipped", reason: "unmatched_lines" };
+    if (new Date(loaded.reconciliation.periodEnd) > new Date()) return { status: "skipped", reason: "period_not_ended" };
+    query = `
+      LET $me = (SELECT VALUE id FROM user WHERE auth_sub = $token.sub LIMIT 1)[0];
+      UPDATE ${reconciliationLiteral} SET status = "locked", locked_by = $me, locked_at = time::now()
+        WHERE status = "open"
+          AND array::len((SELECT id FROM reconciliation_line WHERE reconciliation_id = $parent.id AND status = "unmatched")) = 0;
+    `;
+  } else {
+    if (loaded.reconciliation.status !== "locked") return { status: "skipped", reason: "reconciliation_not_locked" };
+    query = `
+      LET $me = (SELECT VALUE id FROM user WHERE auth_sub = $token.sub LIMIT 1)[0];
+      UPDATE ${reconciliationLiteral} SET status = "open", locked_by = NONE, locked_at = NONE,
+        reopened_by = $me, reopened_at = time::now()
+        WHERE status = "locked";
+    `;
+  }
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query,
+    logName: `reconciliationService.POST /sql (${action} reconciliation)`,
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+  if (getResultArray<unknown>(result.data[1]).length === 0) {
+    return { status: "skipped", reason: "permission_denied_or_status_changed" };
+  }
+  return { status: "ok" };
+}
+
+export async function deleteReconciliation(options: {
+  accessToken: string | undefined;
+  reconciliationId: string;
+}): Promise<{ status: "deleted" } | { status: "skipped"; reason: string }> {
+  const { accessToken, reconciliationId } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const reconciliationLiteral = toSurrealThingLiteral(reconciliationId);
+  if (!reconciliationLiteral || !reconciliationLiteral.startsWith("reconciliation:")) {
+    return { status: "skipped", reason: "invalid_reconciliation_id" };
+  }
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      LET $deleted = (DELETE ${reconciliationLiteral} WHERE status = "open" RETURN BEFORE);
+      IF array::len($deleted) > 0 {
+        DELETE reconciliation_line WHERE reconciliation_id = ${reconciliationLiteral};
+      };
+      RETURN $deleted;
+    `,
+    logName: "reconciliationService.POST /sql (delete reconciliation)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+  if (getResultArray<unknown>(result.data[2]).length === 0) {
+    return { status: "skipped", reason: "permission_denied_or_locked" };
+  }
+  return { status: "deleted" };
+}
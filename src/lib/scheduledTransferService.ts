@@ -0,0 +1,439 @@
+import {
+  executeSurrealQL,
+  getResultArray,
+  thingIdToString,
+  toSurrealThingLiteral,
+} from "@/lib/surrealdb";
+import {
+  firstOccurrence,
+  followingOccurrence,
+  isScheduleFrequency,
+  MAX_OCCURRENCES_PER_RUN,
+  nextOccurrenceFrom,
+  occurrencesUntil,
+  validateScheduleRule,
+  type ScheduleRule,
+  type ScheduleRuleInput,
+} from "@/lib/transferSchedule";
+import {
+  buildPaymentChannelLiteral,
+  createTransfer,
+  getCurrentUserLiteral,
+  validateTransferInput,
+  type PaymentChannelInput,
+  type TransferInput,
+} from "@/lib/transferService";
+
+// A scheduled transfer (scheduled_transfer) is a transfer template plus a recurrence rule (see
+// transferSchedule). next_run_at is the next occurrence still to be materialised; the run-due job
+// claims an occurrence by moving next_run_at forward (only if nobody else moved it first), then
+// creates the transfer as the schedule's owner with created_at at the occurrence and
+// scheduled_transfer_id pointing back at the schedule. When the transfer cannot be created the
+// claim is released, so the occurrence stays due (and overdue in the upcoming list) with the error
+// in last_error until a later run creates it.
+
+export type ScheduledTransferStatus = "active" | "paused" | "ended";
+
+export type ScheduledTransfer = {
+  id: string;
+  fromAccountId: string;
+  fromAccountName: string;
+  toAccountId?: string;
+  toAccountName?: string;
+  paymentChannel?: Record<string, unknown>;
+  amount: number;
+  type: string;
+  // Status the materialised transfers are created in
+  transferStatus: "draft" | "submitted";
+  label?: string;
+  tags?: string[];
+  description?: string;
+  metadata?: Record<string, unknown>;
+  rule: ScheduleRule;
+  status: ScheduledTransferStatus;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  runCount: number;
+  lastError?: string;
+  createdBy?: string;
+  createdByName?: string;
+  createdAt: string;
+};
+
+export type ScheduledRunResult = {
+  scheduledTransferId: string;
+  runAt: string;
+} & ({ status: "created"; transferId: string } | { status: "failed"; reason: string });
+
+const SCHEDULED_TRANSFER_SELECT_FIELDS = `*,
+  from_account_id.name AS from_account_name,
+  to_account_id.name AS to_account_name,
+  created_by.name AS created_by_name`;
+
+// Schedules due by this many at most are picked up per run-due pass
+const MAX_SCHEDULES_PER_RUN = 100;
+
+function mapScheduledTransferRecord(r: Record<string, unknown>): ScheduledTransfer {
+  const paymentChannel = r.payment_channel as Record<string, unknown> | undefined;
+  const status = r.status === "paused" || r.status === "ended" ? r.status : "active";
+  return {
+    id: thingIdToString(r.id) || "",
+    fromAccountId: thingIdToString(r.from_account_id) || "",
+    fromAccountName: typeof r.from_account_name === "string" ? r.from_account_name : "(Unknown)",
+    toAccountId: thingIdToString(r.to_account_id),
+    toAccountName:
+      typeof paymentChannel?.to_account === "string"
+        ? paymentChannel.to_account
+        : typeof r.to_account_name === "string"
+          ? r.to_account_name
+          : undefined,
+    paymentChannel,
+    amount: typeof r.amount === "number" ? r.amount : Number(r.amount) || 0,
+    type: typeof r.type === "string" ? r.type : "payment",
+    transferStatus: r.transfer_status === "submitted" ? "submitted" : "draft",
+    label: typeof r.label === "string" ? r.label : undefined,
+    tags: Array.isArray(r.tags) ? r.tags.filter((tag): tag is string => typeof tag === "string") : undefined,
+    description: typeof r.description === "string" ? r.description : undefined,
+    metadata: r.metadata && typeof r.metadata === "object" ? (r.metadata as Record<string, unknown>) : undefined,
+    rule: {
+      frequency: isScheduleFrequency(r.frequency) ? r.frequency : "monthly",
+      interval: typeof r.interval === "number" ? r.interval : 1,
+      dayOfMonth: typeof r.day_of_month === "number" ? r.day_of_month : undefined,
+      startAt: typeof r.start_at === "string" ? r.start_at : "",
+      endAt: typeof r.end_at === "string" ? r.end_at : undefined,
+    },
+    status,
+    nextRunAt: typeof r.next_run_at === "string" ? r.next_run_at : undefined,
+    lastRunAt: typeof r.last_run_at === "string" ? r.last_run_at : undefined,
+    runCount: typeof r.run_count === "number" ? r.run_count : 0,
+    lastError: typeof r.last_error === "string" ? r.last_error : undefined,
+    createdBy: thingIdToString(r.created_by),
+    createdByName: typeof r.created_by_name === "string" ? r.created_by_name : undefined,
+    createdAt: typeof r.created_at === "string" ? r.created_at : "",
+  };
+}
+
+// Turn a stored payment_channel object back into the createTransfer payload shape
+function toPaymentChannelInput(channel: Record<string, unknown> | undefined): PaymentChannelInput | undefined {
+  if (!channel) return undefined;
+  const text = (value: unknown) => (typeof value === "string" ? value : thingIdToString(value));
+  return {
+    channelId: text(channel.channel_id),
+    action: text(channel.action),
+    toAccount: text(channel.to_account),
+    accountReference: text(channel.account_reference),
+    paymentIntegration: text(channel.payment_integration),
+  };
+}
+
+function datetimeLiteral(value: Date | string): string {
+  return `<datetime>${JSON.stringify(new Date(value).toISOString())}`;
+}
+
+export async function listScheduledTransfers(options: {
+  accessToken: string | undefined;
+  categoryId?: string;
+}): Promise<{ status: "ok"; scheduledTransfers: ScheduledTransfer[] } | { status: "skipped"; reason: string }> {
+  const { accessToken, categoryId } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  let where = "";
+  if (categoryId) {
+    const categoryLiteral = toSurrealThingLiteral(categoryId);
+    if (!categoryLiteral) return { status: "skipped", reason: "invalid_category_id" };
+    where = `WHERE from_account_id.category_id = ${categoryLiteral}`;
+  }
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `SELECT ${SCHEDULED_TRANSFER_SELECT_FIELDS} FROM scheduled_transfer ${where} ORDER BY next_run_at ASC, created_at DESC LIMIT 500;`,
+    logName: "scheduledTransferService.POST /sql (list scheduled transfers)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+
+  return {
+    status: "ok",
+    scheduledTransfers: getResultArray<Record<string, unknown>>(result.data[0]).map(mapScheduledTransferRecord),
+  };
+}
+
+export async function createScheduledTransfer(options: {
+  accessToken: string | undefined;
+  input: TransferInput & { schedule?: ScheduleRuleInput };
+}): Promise<
+  | { status: "created"; scheduledTransfer: ScheduledTransfer }
+  | { status: "invalid"; error: string; reason: string }
+  | { status: "skipped"; reason: string }
+> {
+  const { accessToken, input } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const validation = validateTransferInput(input);
+  if (validation.status === "invalid") return validation;
+  const { fromLiteral, toLiteral, amount, tags } = validation;
+
+  const transferStatus = input.status || "draft";
+  if (transferStatus !== "draft" && transferStatus !== "submitted") {
+    return { status: "invalid", error: "Scheduled transfers are created as draft or submitted", reason: "invalid_status" };
+  }
+
+  const ruleValidation = validateScheduleRule(input.schedule || {});
+  if (ruleValidation.status === "invalid") return ruleValidation;
+  const { rule } = ruleValidation;
+
+  const first = firstOccurrence(rule);
+  if (!first) return { status: "invalid", error: "The schedule ends before its first occurrence", reason: "invalid_end_at" };
+
+  const fields = [
+    `from_account_id: ${fromLiteral}`,
+    `amount: ${amount}`,
+    `type: ${JSON.stringify(input.type)}`,
+    `transfer_status: ${JSON.stringify(transferStatus)}`,
+    `frequency: ${JSON.stringify(rule.frequency)}`,
+    `interval: ${rule.interval}`,
+    `start_at: ${datetimeLiteral(rule.startAt)}`,
+    `next_run_at: ${datetimeLiteral(first)}`,
+    `status: "active"`,
+    "run_count: 0",
+    "created_by: $me",
+    "created_at: time::now()",
+  ];
+  if (toLiteral) fields.push(`to_account_id: ${toLiteral}`);
+  if (rule.dayOfMonth) fields.push(`day_of_month: ${rule.dayOfMonth}`);
+  if (rule.endAt) fields.push(`end_at: ${datetimeLiteral(rule.endAt)}`);
+  if (input.label) fields.push(`label: ${JSON.stringify(input.label)}`);
+  if (tags.length) fields.push(`tags: ${JSON.stringify(tags)}`);
+  if (input.description) fields.push(`description: ${JSON.stringify(input.description)}`);
+  if (input.metadata && typeof input.metadata === "object" && Object.keys(input.metadata).length > 0) {
+    fields.push(`metadata: ${JSON.stringify(input.metadata)}`);
+  }
+  if (input.paymentChannel) {
+    const channel = buildPaymentChannelLiteral(input.paymentChannel);
+    if (channel.status === "invalid") return channel;
+    fields.push(`payment_channel: ${channel.literal}`);
+  }
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      LET $me = (SELECT VALUE id FROM user WHERE auth_sub = $token.sub LIMIT 1)[0];
+      LET $created = (CREATE scheduled_transfer CONTENT {
+        ${fields.join(",\n        ")}
+      });
+      SELECT ${SCHEDULED_TRANSFER_SELECT_FIELDS} FROM $created.id;
+    `,
+    logName: "scheduledTransferService.POST /sql (create scheduled transfer)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+
+  const created = getResultArray<Record<string, unknown>>(result.data[2])[0];
+  if (!created) return { status: "skipped", reason: "permission_denied_create_scheduled_transfer" };
+
+  return { status: "created", scheduledTransfer: mapScheduledTransferRecord(created) };
+}
+
+async function getScheduledTransfer(
+  accessToken: string,
+  scheduleLiteral: string,
+): Promise<{ status: "ok"; scheduledTransfer: ScheduledTransfer } | { status: "skipped"; reason: string }> {
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `SELECT ${SCHEDULED_TRANSFER_SELECT_FIELDS} FROM ${scheduleLiteral};`,
+    logName: "scheduledTransferService.POST /sql (get scheduled transfer)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+  const raw = getResultArray<Record<string, unknown>>(result.data[0])[0];
+  if (!raw) return { status: "skipped", reason: "scheduled_transfer_not_found" };
+  return { status: "ok", scheduledTransfer: mapScheduledTransferRecord(raw) };
+}
+
+function parseScheduleLiteral(scheduledTransferId: string): string | null {
+  const literal = toSurrealThingLiteral(scheduledTransferId);
+  return literal && literal.startsWith("scheduled_transfer:") ? literal : null;
+}
+
+// Pause an active schedule, or resume a paused one from its next occurrence after now (occurrences
+// missed while paused are not back-filled)
+export async function setScheduledTransferStatus(options: {
+  accessToken: string | undefined;
+  scheduledTransferId: string;
+  action: "pause" | "resume";
+}): Promise<{ status: "ok"; scheduledTransfer: ScheduledTransfer } | { status: "skipped"; reason: string }> {
+  const { accessToken, scheduledTransferId, action } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const scheduleLiteral = parseScheduleLiteral(scheduledTransferId);
+  if (!scheduleLiteral) return { status: "skipped", reason: "invalid_scheduled_transfer_id" };
+
+  let query: string;
+  if (action === "pause") {
+    query = `UPDATE ${scheduleLiteral} SET status = "paused", updated_at = time::now() WHERE status = "active";`;
+  } else {
+    const loaded = await getScheduledTransfer(accessToken, scheduleLiteral);
+    if (loaded.status === "skipped") return loaded;
+    if (loaded.scheduledTransfer.status !== "paused") return { status: "skipped", reason: "scheduled_transfer_not_paused" };
+
+    const next = nextOccurrenceFrom(loaded.scheduledTransfer.rule, new Date());
+    query = next
+      ? `UPDATE ${scheduleLiteral} SET status = "active", next_run_at = ${datetimeLiteral(next)}, updated_at = time::now() WHERE status = "paused";`
+      : `UPDATE ${scheduleLiteral} SET status = "ended", next_run_at = NONE, updated_at = time::now() WHERE status = "paused";`;
+  }
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query,
+    logName: `scheduledTransferService.POST /sql (${action} scheduled transfer)`,
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+  if (getResultArray<unknown>(result.data[0]).length === 0) {
+    return { status: "skipped", reason: "permission_denied_or_status_changed" };
+  }
+
+  const updated = await getScheduledTransfer(accessToken, scheduleLiteral);
+  if (updated.status === "skipped") return updated;
+  return { status: "ok", scheduledTransfer: updated.scheduledTransfer };
+}
+
+// Transfers already created from the schedule are kept
+export async function deleteScheduledTransfer(options: {
+  accessToken: string | undefined;
+  scheduledTransferId: string;
+}): Promise<{ status: "deleted" } | { status: "skipped"; reason: string }> {
+  const { accessToken, scheduledTransferId } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const scheduleLiteral = parseScheduleLiteral(scheduledTransferId);
+  if (!scheduleLiteral) return { status: "skipped", reason: "invalid_scheduled_transfer_id" };
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `DELETE ${scheduleLiteral} RETURN BEFORE;`,
+    logName: "scheduledTransferService.POST /sql (delete scheduled transfer)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+  if (getResultArray<unknown>(result.data[0]).length === 0) {
+    return { status: "skipped", reason: "scheduled_transfer_not_found" };
+  }
+  return { status: "deleted" };
+}
+
+// Materialise every occurrence that is due (next_run_at <= now) on the active schedules the token
+// can see. Safe to run concurrently: each occurrence is claimed before its transfer is created.
+export async function runDueScheduledTransfers(options: {
+  accessToken: string | undefined;
+  now?: Date;
+}): Promise<{ status: "ok"; results: ScheduledRunResult[] } | { status: "skipped"; reason: string }> {
+  const { accessToken } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+  const now = options.now ?? new Date();
+
+  const dueResult = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      SELECT ${SCHEDULED_TRANSFER_SELECT_FIELDS} FROM scheduled_transfer
+        WHERE status = "active" AND next_run_at <= ${datetimeLiteral(now)}
+        ORDER BY next_run_at ASC
+        LIMIT ${MAX_SCHEDULES_PER_RUN};
+    `,
+    logName: "scheduledTransferService.POST /sql (list due scheduled transfers)",
+  });
+
+  if (!dueResult.success) return { status: "skipped", reason: dueResult.error };
+
+  const results: ScheduledRunResult[] = [];
+  for (const schedule of getResultArray<Record<string, unknown>>(dueResult.data[0]).map(mapScheduledTransferRecord)) {
+    const scheduleLiteral = toSurrealThingLiteral(schedule.id);
+    const ownerLiteral = schedule.createdBy ? toSurrealThingLiteral(schedule.createdBy) : null;
+    if (!scheduleLiteral || !schedule.nextRunAt) continue;
+    let lastRunAt = schedule.lastRunAt;
+
+    for (const occurrence of occurrencesUntil(schedule.rule, new Date(schedule.nextRunAt), now, MAX_OCCURRENCES_PER_RUN)) {
+      const runAt = occurrence.toISOString();
+      const next = followingOccurrence(schedule.rule, occurrence);
+
+      const claim = await executeSurrealQL({
+        token: accessToken,
+        query: `
+          UPDATE ${scheduleLiteral} SET
+            next_run_at = ${next ? datetimeLiteral(next) : "NONE"},
+            status = ${next ? '"active"' : '"ended"'},
+            last_run_at = ${datetimeLiteral(occurrence)}
+          WHERE status = "active" AND next_run_at = ${datetimeLiteral(occurrence)};
+        `,
+        logName: "scheduledTransferService.POST /sql (claim scheduled occurrence)",
+      });
+
+      // Another run claimed it (or the schedule was paused meanwhile): leave the rest to that run
+      if (!claim.success || getResultArray<unknown>(claim.data[0]).length === 0) break;
+
+      let owner = ownerLiteral;
+      if (!owner) {
+        const user = await getCurrentUserLiteral(accessToken);
+        owner = user.status === "ok" ? user.userLiteral : null;
+      }
+
+      const created = owner
+        ? await createTransfer({
+            accessToken,
+            userLiteral: owner,
+            scheduledTransferLiteral: scheduleLiteral,
+            input: {
+              fromAccountId: schedule.fromAccountId,
+              toAccountId: schedule.toAccountId,
+              amount: schedule.amount,
+              type: schedule.type,
+              status: schedule.transferStatus,
+              label: schedule.label,
+              tags: schedule.tags,
+              description: schedule.description,
+              createdAt: runAt,
+              metadata: schedule.metadata ?? null,
+              paymentChannel: toPaymentChannelInput(schedule.paymentChannel),
+            },
+          })
+        : ({ status: "skipped", reason: "user_not_found" } as const);
+
+      if (created.status === "created") {
+        await executeSurrealQL({
+          token: accessToken,
+          query: `UPDATE ${scheduleLiteral} SET run_count += 1, last_error = NONE;`,
+          logName: "scheduledTransferService.POST /sql (record scheduled run)",
+        });
+        results.push({
+          scheduledTransferId: schedule.id,
+          runAt,
+          status: "created",
+          transferId: thingIdToString(created.transfer.id) || "",
+        });
+        lastRunAt = runAt;
+      } else {
+        // Release the claim (unless the schedule changed since) so the occurrence is retried
+        const claimed = next
+          ? `status = "active" AND next_run_at = ${datetimeLiteral(next)}`
+          : `status = "ended" AND next_run_at = NONE`;
+        await executeSurrealQL({
+          token: accessToken,
+          query: `
+            UPDATE ${scheduleLiteral} SET
+              next_run_at = ${datetimeLiteral(occurrence)},
+              status = "active",
+              last_run_at = ${lastRunAt ? datetimeLiteral(lastRunAt) : "NONE"},
+              last_error = ${JSON.stringify(`${runAt}: ${created.reason}`)}
+            WHERE ${claimed};
+          `,
+          logName: "scheduledTransferService.POST /sql (release scheduled occurrence)",
+        });
+        results.push({ scheduledTransferId: schedule.id, runAt, status: "failed", reason: created.reason });
+        // Later occurrences wait until this one is created
+        break;
+      }
+    }
+  }
+
+  return { status: "ok", results };
+}
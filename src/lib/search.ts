@@ -0,0 +1,59 @@
+// Global search (the command palette opened from FloatingNav, GET /api/search). Shared by the
+// palette and searchService.
+
+export const SEARCH_RESULT_TYPES = ["transfer", "account", "category", "payee"] as const;
+export type SearchResultType = (typeof SEARCH_RESULT_TYPES)[number];
+
+export const SEARCH_RESULT_TYPE_LABELS: Record<SearchResultType, string> = {
+  transfer: "Transactions",
+  account: "Accounts",
+  category: "Categories",
+  payee: "Payees",
+};
+
+// The transfer search indexes hold word prefixes from three characters (see DEPLOY.md)
+export const MIN_SEARCH_QUERY_LENGTH = 3;
+export const MAX_SEARCH_QUERY_LENGTH = 100;
+// Results per type
+export const SEARCH_RESULTS_PER_TYPE = 8;
+
+export type SearchResult = {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  subtitle?: string;
+  // Where the result opens in the dashboard
+  href: string;
+};
+
+export type SearchResults = Record<SearchResultType, SearchResult[]>;
+
+export function emptySearchResults(): SearchResults {
+  return { transfer: [], account: [], category: [], payee: [] };
+}
+
+// Trimmed, single-spaced and lower-case (matching is case-insensitive), or the reason it is unusable
+export function normalizeSearchQuery(
+  value: unknown,
+): { status: "ok"; query: string } | { status: "invalid"; error: string; reason: string } {
+  const query = typeof value === "string" ? value.trim().replace(/\s+/g, " ").toLowerCase() : "";
+  if (query.length < MIN_SEARCH_QUERY_LENGTH) {
+    return { status: "invalid", error: `Type at least ${MIN_SEARCH_QUERY_LENGTH} characters`, reason: "query_too_short" };
+  }
+  if (query.length > MAX_SEARCH_QUERY_LENGTH) {
+    return { status: "invalid", error: `Searches can be at most ${MAX_SEARCH_QUERY_LENGTH} characters`, reason: "query_too_long" };
+  }
+  return { status: "ok", query };
+}
+
+export function transferHref(categoryId: string, transferId: string): string {
+  return `/dashboard/transactions?${new URLSearchParams({ categoryId, transferId }).toString()}`;
+}
+
+export function accountHref(accountId: string): string {
+  return `/dashboard/accounts/${encodeURIComponent(accountId)}`;
+}
+
+export function categoryHref(categoryId: string): string {
+  return `/dashboard/settings/${encodeURIComponent(categoryId)}`;
+}
@@ -0,0 +1,188 @@
+import { executeSurrealQL, getResultArray, thingIdToString } from "@/lib/surrealdb";
+import { getMpesaCallbackDetails } from "@/lib/mpesaCallback";
+import { PAYEE_ACTION_LABELS, isPayeeAction } from "@/lib/payees";
+import {
+  accountHref,
+  categoryHref,
+  emptySearchResults,
+  normalizeSearchQuery,
+  SEARCH_RESULTS_PER_TYPE,
+  transferHref,
+  type SearchResult,
+  type SearchResults,
+} from "@/lib/search";
+import { SPLIT_LEG_ROLE, SPLIT_STATUS_FIELD } from "@/lib/transferSplit";
+
+// Case-insensitive search over what the caller's token can select, so SurrealDB permissions decide
+// which transfers, accounts, categories and payees show up. Transfers, the largest table, are only
+// reached through indexes (defined in SurrealDB, see DEPLOY.md): full-text word prefixes of the
+// description, label, external reference and recipient, exact tags, and the callback details of
+// M-Pesa transfers.
+
+// Callback result parameters holding receipt numbers and counterparty names
+const MPESA_SEARCH_KEYS = ["TransactionReceipt", "ReceiptNo", "ReceiverPartyPublicName", "CreditPartyName", "DebitPartyName"];
+
+function contains(expression: string): string {
+  return `string::contains(string::lowercase(${expression}), $q)`;
+}
+
+function callbackValues(callback: string): string {
+  return `<string> (payment_channel.${callback}.ResultParameters.ResultParameter[WHERE Key INSIDE ${JSON.stringify(MPESA_SEARCH_KEYS)}].Value ?? [])`;
+}
+
+function formatAmount(value: unknown): string {
+  const n = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(n)) return "";
+  return new Intl.NumberFormat("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(n);
+}
+
+function mapTransferResult(t: Record<string, unknown>): SearchResult | null {
+  const id = thingIdToString(t.id);
+  const categoryId = thingIdToString(t.list_category_id);
+  if (!id || !categoryId) return null;
+
+  // Split legs are shown under their parent on the transactions page
+  const transferId = t.link_role === SPLIT_LEG_ROLE ? thingIdToString(t.parent_transfer_id) || id : id;
+  const paymentChannel = t.payment_channel as Record<string, unknown> | undefined;
+  const mpesa = paymentChannel?.channel_id === "MPESA" ? getMpesaCallbackDetails(paymentChannel) : null;
+  const text = (value: unknown) => (typeof value === "string" && value ? value : undefined);
+
+  const title =
+    text(t.description) ||
+    text(t.label) ||
+    mpesa?.receiverName ||
+    text(paymentChannel?.to_account) ||
+    text(t.external_transaction_id) ||
+    "Transfer";
+  const createdAt = text(t.created_at);
+  const subtitle = [
+    createdAt ? new Date(createdAt).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" }) : undefined,
+    formatAmount(t.amount),
+    text(t.split_status) || text(t.status),
+    [text(t.from_account_name), text(t.to_account_name) || mpesa?.receiverName].filter(Boolean).join(" → ") || undefined,
+    mpesa?.receiptNumber || text(t.external_transaction_id),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return { type: "transfer", id, title, subtitle, href: transferHref(categoryId, transferId) };
+}
+
+export async function searchDashboard(options: {
+  accessToken: string | undefined;
+  query: unknown;
+}): Promise<
+  | { status: "ok"; results: SearchResults }
+  | { status: "invalid"; error: string; reason: string }
+  | { status: "skipped"; reason: string }
+> {
+  const { accessToken } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const normalized = normalizeSearchQuery(options.query);
+  if (normalized.status === "invalid") return normalized;
+
+  const fullTextConditions = ["description", "label", "external_transaction_id", "payment_channel.to_account"].map(
+    (field) => `${field} @@ $q`,
+  );
+  const mpesaConditions = [
+    contains(`<string> (payment_channel.mpesa_callback.TransactionID ?? "")`),
+    contains(callbackValues("mpesa_callback")),
+    contains(callbackValues("mpesa_transaction_status_callback")),
+  ];
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      LET $q = ${JSON.stringify(normalized.query)};
+      LET $matches = array::union(
+        (SELECT VALUE id FROM transfer WHERE ${fullTextConditions.join(" OR ")}),
+        array::union(
+          (SELECT VALUE id FROM transfer WHERE tags CONTAINS $q),
+          (SELECT VALUE id FROM transfer WHERE payment_channel.channel_id = "MPESA" AND (${mpesaConditions.join(" OR ")}))
+        )
+      );
+      SELECT
+        id, description, label, external_transaction_id, amount, status, created_at, link_role, parent_transfer_id,
+        payment_channel, ${SPLIT_STATUS_FIELD},
+        from_account_id.name AS from_account_name,
+        to_account_id.name AS to_account_name,
+        (IF from_account_id = $external_account THEN to_account_id.category_id ELSE from_account_id.category_id END) AS list_category_id
+      FROM $matches
+      ORDER BY created_at DESC
+      LIMIT ${SEARCH_RESULTS_PER_TYPE};
+      SELECT id, name, category_id.name AS category_name
+      FROM account
+      WHERE ${contains(`name ?? ""`)}
+      ORDER BY name ASC
+      LIMIT ${SEARCH_RESULTS_PER_TYPE};
+      SELECT id, name, parent_id.name AS parent_name
+      FROM category
+      WHERE ${contains(`name ?? ""`)}
+      ORDER BY name ASC
+      LIMIT ${SEARCH_RESULTS_PER_TYPE};
+      SELECT id, name, action, number, account_reference, category_id, category_id.name AS category_name
+      FROM payee
+      WHERE ${contains(`name ?? ""`)} OR ${contains(`number ?? ""`)} OR ${contains(`account_reference ?? ""`)}
+      ORDER BY name ASC
+      LIMIT ${SEARCH_RESULTS_PER_TYPE};
+    `,
+    logName: "searchService.POST /sql (search)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+
+  const results = emptySearchResults();
+
+  results.transfer = getResultArray<Record<string, unknown>>(result.data[2])
+    .map(mapTransferResult)
+    .filter((r): r is SearchResult => r !== null);
+
+  for (const a of getResultArray<Record<string, unknown>>(result.data[3])) {
+    const id = thingIdToString(a.id);
+    if (!id) continue;
+    results.account.push({
+      type: "account",
+      id,
+      title: typeof a.name === "string" ? a.name : "(Unnamed account)",
+      subtitle: typeof a.category_name === "string" ? a.category_name : undefined,
+      href: accountHref(id),
+    });
+  }
+
+  for (const c of getResultArray<Record<string, unknown>>(result.data[4])) {
+    const id = thingIdToString(c.id);
+    if (!id) continue;
+    results.category.push({
+      type: "category",
+      id,
+      title: typeof c.name === "string" ? c.name : "(Unnamed category)",
+      subtitle: typeof c.parent_name === "string" ? `in ${c.parent_name}` : undefined,
+      href: categoryHref(id),
+    });
+  }
+
+  // Payees are managed in their category's settings
+  for (const p of getResultArray<Record<string, unknown>>(result.data[5])) {
+    const id = thingIdToString(p.id);
+    const categoryId = thingIdToString(p.category_id);
+    if (!id || !categoryId) continue;
+    const number = typeof p.number === "string" ? p.number : "";
+    const reference = typeof p.account_reference === "string" ? ` #${p.account_reference}` : "";
+    results.payee.push({
+      type: "payee",
+      id,
+      title: typeof p.name === "string" ? p.name : number,
+      subtitle: [
+        isPayeeAction(p.action) ? PAYEE_ACTION_LABELS[p.action] : undefined,
+        `${number}${reference}`,
+        typeof p.category_name === "string" ? p.category_name : undefined,
+      ]
+        .filter(Boolean)
+        .join(" · "),
+      href: categoryHref(categoryId),
+    });
+  }
+
+  return { status: "ok", results };
+}
@@ -55,7 +55,7 @@ export type Account = {
   type?: string;
 };
 
-function asTbAccount(value: unknown): TbAccount | undefined {
+export function asTbAccount(value: unknown): TbAccount | undefined {
   if (!value || typeof value !== "object") return undefined;
   const obj = value as Record<string, unknown>;
   // Check if it's wrapped in a response object
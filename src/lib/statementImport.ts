@@ -0,0 +1,223 @@
+// CSV statement import: parsing and column mapping shared by the import modal (preview) and
+// POST /api/transfers/import. Rows become draft transfers; nothing here talks to the database.
+
+export const MAX_IMPORT_ROWS = 500;
+
+export const IMPORT_FIELDS = [
+  { key: "fromAccountId", label: "From account", accountField: true },
+  { key: "toAccountId", label: "To account", accountField: true },
+  { key: "amount", label: "Amount", accountField: false },
+  { key: "date", label: "Date", accountField: false },
+  { key: "description", label: "Description", accountField: false },
+  { key: "externalTransactionId", label: "External transaction ID", accountField: false },
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number]["key"];
+
+// Account fields can either read a column (account id or name) or use one fixed account for every row
+export type FieldSource = { kind: "none" } | { kind: "column"; column: number } | { kind: "account"; accountId: string };
+
+export type ColumnMapping = Record<ImportField, FieldSource>;
+
+export const EMPTY_COLUMN_MAPPING: ColumnMapping = {
+  fromAccountId: { kind: "none" },
+  toAccountId: { kind: "none" },
+  amount: { kind: "none" },
+  date: { kind: "none" },
+  description: { kind: "none" },
+  externalTransactionId: { kind: "none" },
+};
+
+export type ImportAccount = { id: string; name: string };
+
+// The subset of the POST /api/transfers payload an imported row can fill in
+export type ImportTransferInput = {
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;
+  type: string;
+  createdAt?: string;
+  description?: string;
+  label?: string;
+  externalTransactionId?: string;
+};
+
+export type ImportRowPreview = {
+  // 1-based line in the source file, reported back by the import endpoint
+  row: number;
+  input: ImportTransferInput | null;
+  error?: string;
+};
+
+// RFC 4180 CSV: quoted fields may contain the delimiter, newlines and "" escapes.
+// The delimiter defaults to whichever of , ; or tab is most common in the first line.
+export function parseCsv(text: string, delimiter?: string): string[][] {
+  const source = text.replace(/^\uFEFF/, "");
+  const firstLine = source.split(/\r?\n/, 1)[0] || "";
+  const sep =
+    delimiter ||
+    [",", ";", "\t"].reduce((best, candidate) =>
+      firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best,
+    );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (source[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      inQuotes = true;
+    } else if (ch === sep) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && source[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+// "1,234.50", "KES 1,234.50", "(1,234.50)" and "-1234.5" are all accepted; parentheses mean negative
+export function parseStatementAmount(value: string): number | null {
+  let v = (value || "").trim();
+  if (!v) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(v)) {
+    negative = true;
+    v = v.slice(1, -1);
+  }
+
+  v = v.replace(/[^0-9.\-]/g, "");
+  if (v.startsWith("-")) {
+    negative = !negative;
+    v = v.slice(1);
+  }
+  if (!/^\d+(\.\d+)?$|^\.\d+$/.test(v)) return null;
+
+  const n = Number(v);
+  return negative ? -n : n;
+}
+
+// ISO dates and "YYYY-MM-DD HH:mm[:ss]" are read as local time; "DD/MM/YYYY [HH:mm[:ss]]" and
+// "DD-MM-YYYY" (the usual Kenyan bank statement format) are day-first. Returns an ISO string.
+export function parseStatementDate(value: string): string | null {
+  const v = (value || "").trim();
+  if (!v) return null;
+
+  const dayFirst = v.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (dayFirst) {
+    const [, day, month, year, hours = "0", minutes = "0", seconds = "0"] = dayFirst;
+    const date = new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds));
+    if (isNaN(date.getTime()) || date.getDate() !== Number(day)) return null;
+    return date.toISOString();
+  }
+
+  const date = new Date(/^\d{4}-\d{2}-\d{2} \d/.test(v) ? v.replace(" ", "T") : v);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function cellFor(row: string[], source: FieldSource): string {
+  return source.kind === "column" ? (row[source.column] || "").trim() : "";
+}
+
+function resolveAccount(
+  row: string[],
+  source: FieldSource,
+  accountsById: Map<string, ImportAccount>,
+  accountsByName: Map<string, ImportAccount>,
+): string | null {
+  if (source.kind === "account") return source.accountId || null;
+  const value = cellFor(row, source);
+  if (!value) return null;
+  const account = accountsById.get(value) || accountsByName.get(value.toLowerCase());
+  return account ? account.id : null;
+}
+
+// Turn parsed CSV rows into transfer payloads using the column mapping. Rows that cannot be mapped
+// carry an error instead of an input. Rows repeating an external transaction ID already seen in the
+// file are flagged so the same statement line is not imported twice.
+export function buildImportRows(options: {
+  rows: string[][];
+  hasHeader: boolean;
+  mapping: ColumnMapping;
+  accounts: ImportAccount[];
+  type: string;
+  // Statements list money out as negative amounts; swap from/to for those rows instead of rejecting them
+  swapNegative: boolean;
+}): ImportRowPreview[] {
+  const { rows, hasHeader, mapping, accounts, type, swapNegative } = options;
+  const accountsById = new Map(accounts.map((a) => [a.id, a]));
+  const accountsByName = new Map(accounts.map((a) => [a.name.trim().toLowerCase(), a]));
+  const seenExternalIds = new Set<string>();
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  const firstLine = hasHeader ? 2 : 1;
+
+  return dataRows.map((row, index): ImportRowPreview => {
+    const line = index + firstLine;
+
+    let fromAccountId = resolveAccount(row, mapping.fromAccountId, accountsById, accountsByName);
+    if (!fromAccountId) return { row: line, input: null, error: "Unknown from account" };
+
+    let toAccountId = resolveAccount(row, mapping.toAccountId, accountsById, accountsByName);
+    if (!toAccountId) return { row: line, input: null, error: "Unknown to account" };
+
+    let amount = parseStatementAmount(cellFor(row, mapping.amount));
+    if (amount == null || amount === 0) return { row: line, input: null, error: "Invalid amount" };
+    if (amount < 0) {
+      if (!swapNegative) return { row: line, input: null, error: "Negative amount" };
+      [fromAccountId, toAccountId] = [toAccountId, fromAccountId];
+      amount = -amount;
+    }
+
+    if (fromAccountId === toAccountId) return { row: line, input: null, error: "From and to accounts are the same" };
+
+    const input: ImportTransferInput = { fromAccountId, toAccountId, amount, type };
+
+    if (mapping.date.kind === "column") {
+      const createdAt = parseStatementDate(cellFor(row, mapping.date));
+      if (!createdAt) return { row: line, input: null, error: "Invalid date" };
+      input.createdAt = createdAt;
+    }
+
+    const description = cellFor(row, mapping.description);
+    if (description) input.description = description;
+
+    const externalTransactionId = cellFor(row, mapping.externalTransactionId);
+    if (externalTransactionId) {
+      if (seenExternalIds.has(externalTransactionId)) {
+        return { row: line, input: null, error: "Duplicate external transaction ID in file" };
+      }
+      seenExternalIds.add(externalTransactionId);
+      input.externalTransactionId = externalTransactionId;
+    }
+
+    return { row: line, input };
+  });
+}
@@ -0,0 +1,85 @@
+// Per-transfer activity timeline. Status changes, edits and comments made through the app are
+// recorded in transfer_event; creation, approvals (transfer_approval) and M-Pesa callbacks are read
+// from the records that already hold them, so the timeline also covers transfers older than the log.
+
+export const MAX_COMMENT_LENGTH = 2000;
+export const MAX_COMMENT_MENTIONS = 20;
+
+// Kinds stored in transfer_event
+export const TRANSFER_EVENT_KINDS = ["status_changed", "edited", "comment"] as const;
+export type TransferEventKind = (typeof TRANSFER_EVENT_KINDS)[number];
+
+export type TransferActivityKind = TransferEventKind | "created" | "approval" | "callback";
+
+export type TransferMention = { userId: string; name: string };
+
+export type TransferActivityItem = {
+  id: string;
+  kind: TransferActivityKind;
+  at: string;
+  actorName?: string;
+  fromStatus?: string;
+  toStatus?: string;
+  // Rejection/cancellation reason, comment text or callback result description
+  text?: string;
+  mentions?: TransferMention[];
+  // A status change the app did not make itself (e.g. posted by the ledger or an M-Pesa callback);
+  // its time is the transfer's last update
+  observed?: boolean;
+};
+
+// Display name of a category user: their name when readable, otherwise the email prefix (the same
+// fallback the category users settings use)
+export function mentionDisplayName(user: { name?: string; email?: string }): string {
+  return user.name?.trim() || user.email?.split("@")[0] || "user";
+}
+
+export function validateComment(input: {
+  body?: unknown;
+  mentionUserIds?: unknown;
+}): { status: "ok"; body: string; mentionUserIds: string[] } | { status: "invalid"; error: string; reason: string } {
+  const body = typeof input.body === "string" ? input.body.trim() : "";
+  if (!body) return { status: "invalid", error: "Comment cannot be empty", reason: "empty_comment" };
+  if (body.length > MAX_COMMENT_LENGTH) {
+    return { status: "invalid", error: `Comments can be at most ${MAX_COMMENT_LENGTH} characters`, reason: "comment_too_long" };
+  }
+
+  const raw = input.mentionUserIds === undefined ? [] : input.mentionUserIds;
+  if (!Array.isArray(raw) || raw.some((id) => typeof id !== "string") || raw.length > MAX_COMMENT_MENTIONS) {
+    return { status: "invalid", error: `Mentions must be a list of at most ${MAX_COMMENT_MENTIONS} user IDs`, reason: "invalid_mentions" };
+  }
+  return { status: "ok", body, mentionUserIds: Array.from(new Set(raw as string[])) };
+}
+
+// The "@word" being typed at the caret, for mention autocomplete
+export function mentionQueryAt(text: string, caret: number): { start: number; query: string } | null {
+  const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { start: caret - match[2].length - 1, query: match[2] };
+}
+
+// Splits a comment into plain text and "@Name" mentions of the given users, longest names first so
+// "@Ann Marie" wins over "@Ann"
+export function splitMentions(
+  text: string,
+  mentions: TransferMention[],
+): Array<{ text: string; mention?: TransferMention }> {
+  const sorted = [...mentions].sort((a, b) => b.name.length - a.name.length);
+  const parts: Array<{ text: string; mention?: TransferMention }> = [];
+  let plain = "";
+  let i = 0;
+  while (i < text.length) {
+    const mention = text[i] === "@" ? sorted.find((m) => text.startsWith(`@${m.name}`, i)) : undefined;
+    if (mention) {
+      if (plain) parts.push({ text: plain });
+      plain = "";
+      parts.push({ text: `@${mention.name}`, mention });
+      i += mention.name.length + 1;
+    } else {
+      plain += text[i];
+      i += 1;
+    }
+  }
+  if (plain) parts.push({ text: plain });
+  return parts;
+}
@@ -0,0 +1,300 @@
+import {
+  executeSurrealQL,
+  getResultArray,
+  thingIdToString,
+  toSurrealThingLiteral,
+} from "@/lib/surrealdb";
+import {
+  mentionDisplayName,
+  validateComment,
+  type TransferActivityItem,
+  type TransferEventKind,
+  type TransferMention,
+} from "@/lib/transferActivity";
+import { SPLIT_STATUS_FIELD } from "@/lib/transferSplit";
+
+// Statuses a transfer can be created in. Without recorded events, any other current status must
+// have been reached by a change the log did not see.
+const INITIAL_STATUSES = ["draft", "submitted", "awaiting_approval"];
+
+const MAX_TIMELINE_EVENTS = 500;
+
+function parseTransferLiteral(transferId: string): string | null {
+  const literal = toSurrealThingLiteral(transferId);
+  return literal && literal.startsWith("transfer:") ? literal : null;
+}
+
+// The signed-in user as the actor of an event. Other users' records may be hidden by access policy,
+// so the actor's display name is stored on the event.
+const ACTOR_STATEMENT = `LET $me = (SELECT id, name FROM user WHERE auth_sub = $token.sub LIMIT 1)[0];`;
+const ACTOR_FIELDS = `actor = $me.id,
+  actor_name = $me.name ?? string::split((SELECT VALUE email FROM user_email_lookup WHERE user = $me.id)[0] ?? "", "@")[0]`;
+
+function mapMentions(value: unknown): TransferMention[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((m) => {
+      const mention = (m || {}) as Record<string, unknown>;
+      return {
+        userId: thingIdToString(mention.user_id) || "",
+        name: typeof mention.name === "string" ? mention.name : "",
+      };
+    })
+    .filter((m) => m.userId && m.name);
+}
+
+function mapEventRecord(e: Record<string, unknown>): TransferActivityItem {
+  const kind = e.kind === "status_changed" || e.kind === "edited" ? e.kind : "comment";
+  return {
+    id: thingIdToString(e.id) || "",
+    kind,
+    at: typeof e.created_at === "string" ? e.created_at : "",
+    actorName: typeof e.actor_name === "string" && e.actor_name ? e.actor_name : undefined,
+    fromStatus: typeof e.from_status === "string" ? e.from_status : undefined,
+    toStatus: typeof e.to_status === "string" ? e.to_status : undefined,
+    text: typeof e.text === "string" ? e.text : undefined,
+    mentions: kind === "comment" ? mapMentions(e.mentions) : undefined,
+  };
+}
+
+// Timestamp of an M-Pesa callback when the payload carries one; callbacks stored without it fall
+// back to the transfer's last update, the closest known time
+function callbackTime(callback: Record<string, unknown>, fallback: string): string {
+  for (const key of ["received_at", "created_at", "timestamp"]) {
+    if (typeof callback[key] === "string" && !isNaN(new Date(callback[key] as string).getTime())) return callback[key] as string;
+  }
+  return fallback;
+}
+
+function callbackItem(id: string, callback: unknown, fallbackTime: string, label: string): TransferActivityItem | null {
+  if (!callback || typeof callback !== "object") return null;
+  const c = callback as Record<string, unknown>;
+  const desc = typeof c.ResultDesc === "string" ? c.ResultDesc : undefined;
+  const code = c.ResultCode === undefined || c.ResultCode === null ? undefined : String(c.ResultCode);
+  return {
+    id,
+    kind: "callback",
+    at: callbackTime(c, fallbackTime),
+    text: [label, desc, code !== undefined ? `(code ${code})` : undefined].filter(Boolean).join(" · "),
+  };
+}
+
+// Records an event after the change it describes succeeded. The change itself is not undone when
+// this fails; the event is only logged as missing.
+export async function recordTransferEvent(options: {
+  accessToken: string;
+  transferLiteral: string;
+  kind: Exclude<TransferEventKind, "comment">;
+  fromStatus?: string;
+  toStatus?: string;
+  text?: string;
+}): Promise<void> {
+  const { accessToken, transferLiteral, kind, fromStatus, toStatus, text } = options;
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      ${ACTOR_STATEMENT}
+      CREATE transfer_event SET
+        transfer_id = ${transferLiteral},
+        kind = ${JSON.stringify(kind)},
+        from_status = ${fromStatus ? JSON.stringify(fromStatus) : "NONE"},
+        to_status = ${toStatus ? JSON.stringify(toStatus) : "NONE"},
+        text = ${text ? JSON.stringify(text) : "NONE"},
+        ${ACTOR_FIELDS},
+        created_at = time::now();
+    `,
+    logName: `transferActivityService.POST /sql (record ${kind} event)`,
+  });
+  if (!result.success || !getResultArray<unknown>(result.data[1]).length) {
+    console.error(`Failed to record ${kind} event for ${transferLiteral}:`, result.success ? "not_created" : result.error);
+  }
+}
+
+export async function getTransferActivity(options: {
+  accessToken: string | undefined;
+  transferId: string;
+}): Promise<{ status: "ok"; items: TransferActivityItem[] } | { status: "skipped"; reason: string }> {
+  const { accessToken, transferId } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const transferLiteral = parseTransferLiteral(transferId);
+  if (!transferLiteral) return { status: "skipped", reason: "invalid_transfer_id" };
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      SELECT status, created_at, updated_at, created_by.name AS created_by_name, payment_channel, ${SPLIT_STATUS_FIELD}
+        FROM ${transferLiteral};
+      SELECT id, created_at, user_id.name AS user_name,
+        (SELECT VALUE email FROM user_email_lookup WHERE user = $parent.user_id)[0] AS user_email
+        FROM transfer_approval WHERE transfer_id = ${transferLiteral} ORDER BY created_at ASC;
+      SELECT * FROM transfer_event WHERE transfer_id = ${transferLiteral} ORDER BY created_at ASC LIMIT ${MAX_TIMELINE_EVENTS};
+    `,
+    logName: "transferActivityService.POST /sql (get transfer activity)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+
+  const transfer = getResultArray<Record<string, unknown>>(result.data[0])[0];
+  if (!transfer) return { status: "skipped", reason: "transfer_not_found" };
+
+  let currentStatus = typeof transfer.status === "string" ? transfer.status : "draft";
+  if (typeof transfer.split_status === "string") currentStatus = transfer.split_status;
+  const createdAt = typeof transfer.created_at === "string" ? transfer.created_at : "";
+  const updatedAt = typeof transfer.updated_at === "string" ? transfer.updated_at : createdAt;
+
+  const items: TransferActivityItem[] = [
+    {
+      id: `${transferId}:created`,
+      kind: "created",
+      at: createdAt,
+      actorName: typeof transfer.created_by_name === "string" ? transfer.created_by_name : undefined,
+    },
+  ];
+
+  for (const approval of getResultArray<Record<string, unknown>>(result.data[1])) {
+    items.push({
+      id: thingIdToString(approval.id) || "",
+      kind: "approval",
+      at: typeof approval.created_at === "string" ? approval.created_at : "",
+      actorName: mentionDisplayName({
+        name: typeof approval.user_name === "string" ? approval.user_name : undefined,
+        email: typeof approval.user_email === "string" ? approval.user_email : undefined,
+      }),
+    });
+  }
+
+  const events = getResultArray<Record<string, unknown>>(result.data[2]).map(mapEventRecord);
+  items.push(...events);
+
+  const paymentChannel = transfer.payment_channel as Record<string, unknown> | undefined;
+  for (const item of [
+    callbackItem(`${transferId}:mpesa_callback`, paymentChannel?.mpesa_callback, updatedAt, "M-Pesa result received"),
+    callbackItem(
+      `${transferId}:mpesa_transaction_status_callback`,
+      paymentChannel?.mpesa_transaction_status_callback,
+      updatedAt,
+      "M-Pesa transaction status received",
+    ),
+  ]) {
+    if (item) items.push(item);
+  }
+
+  // A status reached outside the app (posted by the ledger, failed by a callback, ...)
+  const lastRecorded = [...events].reverse().find((e) => e.toStatus)?.toStatus;
+  if (lastRecorded ? lastRecorded !== currentStatus : !INITIAL_STATUSES.includes(currentStatus)) {
+    items.push({
+      id: `${transferId}:observed_status`,
+      kind: "status_changed",
+      at: updatedAt,
+      fromStatus: lastRecorded,
+      toStatus: currentStatus,
+      observed: true,
+    });
+  }
+
+  // Stable sort keeps creation first among items with the same timestamp
+  items.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+  return { status: "ok", items };
+}
+
+// Users of the categories the transfer's accounts belong to, who can be mentioned in its comments
+export async function listMentionableUsers(options: {
+  accessToken: string | undefined;
+  transferId: string;
+}): Promise<{ status: "ok"; users: TransferMention[] } | { status: "skipped"; reason: string }> {
+  const { accessToken, transferId } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const transferLiteral = parseTransferLiteral(transferId);
+  if (!transferLiteral) return { status: "skipped", reason: "invalid_transfer_id" };
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      LET $t = (SELECT from_account_id.category_id AS from_category, to_account_id.category_id AS to_category FROM ${transferLiteral})[0];
+      IF $t = NONE {
+        RETURN "transfer_not_found";
+      } ELSE {
+        RETURN (SELECT user_id, user_id.name AS name,
+          (SELECT VALUE email FROM user_email_lookup WHERE user = $parent.user_id)[0] AS email
+          FROM category_user
+          WHERE category_id != NONE AND (category_id = $t.from_category OR category_id = $t.to_category));
+      };
+    `,
+    logName: "transferActivityService.POST /sql (list mentionable users)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+  if (result.data[1]?.result === "transfer_not_found") return { status: "skipped", reason: "transfer_not_found" };
+
+  const users = new Map<string, TransferMention>();
+  for (const row of getResultArray<Record<string, unknown>>(result.data[1])) {
+    const userId = thingIdToString(row.user_id);
+    if (!userId || users.has(userId)) continue;
+    users.set(userId, {
+      userId,
+      name: mentionDisplayName({
+        name: typeof row.name === "string" ? row.name : undefined,
+        email: typeof row.email === "string" ? row.email : undefined,
+      }),
+    });
+  }
+  return { status: "ok", users: Array.from(users.values()).sort((a, b) => a.name.localeCompare(b.name)) };
+}
+
+// Mentions must name users of the transfer's categories; their display names are stored with the
+// comment so it reads the same for everyone
+export async function addTransferComment(options: {
+  accessToken: string | undefined;
+  transferId: string;
+  body: unknown;
+  mentionUserIds?: unknown;
+}): Promise<
+  | { status: "created"; item: TransferActivityItem }
+  | { status: "invalid"; error: string; reason: string }
+  | { status: "skipped"; reason: string }
+> {
+  const { accessToken, transferId } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const transferLiteral = parseTransferLiteral(transferId);
+  if (!transferLiteral) return { status: "invalid", error: "Invalid transferId", reason: "invalid_transfer_id" };
+
+  const validation = validateComment({ body: options.body, mentionUserIds: options.mentionUserIds });
+  if (validation.status === "invalid") return validation;
+
+  const mentionable = await listMentionableUsers({ accessToken, transferId });
+  if (mentionable.status === "skipped") return mentionable;
+
+  const byId = new Map(mentionable.users.map((u) => [u.userId, u]));
+  const mentions: string[] = [];
+  for (const userId of validation.mentionUserIds) {
+    const user = byId.get(userId);
+    const userLiteral = toSurrealThingLiteral(userId);
+    if (!user || !userLiteral) {
+      return { status: "invalid", error: "Only users of this transfer's categories can be mentioned", reason: "invalid_mention" };
+    }
+    mentions.push(`{ user_id: ${userLiteral}, name: ${JSON.stringify(user.name)} }`);
+  }
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      ${ACTOR_STATEMENT}
+      CREATE transfer_event SET
+        transfer_id = ${transferLiteral},
+        kind = "comment",
+        text = ${JSON.stringify(validation.body)},
+        mentions = [${mentions.join(", ")}],
+        ${ACTOR_FIELDS},
+        created_at = time::now();
+    `,
+    logName: "transferActivityService.POST /sql (add comment)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+  const created = getResultArray<Record<string, unknown>>(result.data[1])[0];
+  if (!created) return { status: "skipped", reason: "permission_denied" };
+  return { status: "created", item: mapEventRecord(created) };
+}
@@ -0,0 +1,372 @@
+// Transfer list export (GET /api/transfers/export): row layout plus CSV, XLSX and OFX writers.
+// Nothing here talks to the database; the route pages through listTransfers and feeds rows in.
+
+import type { Transfer } from "@/lib/transferService";
+import { SPLIT_PARENT_ROLE } from "@/lib/transferSplit";
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "ofx"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Upper bound on rows in one export so a wide filter cannot pull the whole ledger into memory
+export const MAX_EXPORT_ROWS = 10000;
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ofx: "application/x-ofx",
+};
+
+// Extract balance from transfer metadata based on selected account
+export function getTransferBalance(
+  transfer: Transfer,
+  selectedAccountId: string
+): string | null {
+  if (!transfer.metadata || !selectedAccountId) return null;
+
+  const transferBalance = transfer.metadata.transfer_balance as Record<string, unknown> | undefined;
+  if (!transferBalance) return null;
+
+  // Check if this account is the from or to account
+  const isFromAccount = transfer.fromAccountId === selectedAccountId;
+  const isToAccount = transfer.toAccountId === selectedAccountId;
+
+  if (isFromAccount) {
+    const fromBalance = transferBalance.from_account_balance as Record<string, unknown> | undefined;
+    if (fromBalance?.book_balance) {
+      // Handle decimal format like "48000dec"
+      const balanceStr = String(fromBalance.book_balance);
+      const numericPart = balanceStr.replace(/dec$/i, "");
+      return numericPart;
+    }
+  } else if (isToAccount) {
+    const toBalance = transferBalance.to_account_balance as Record<string, unknown> | undefined;
+    if (toBalance?.book_balance) {
+      // Handle decimal format like "-236089dec"
+      const balanceStr = String(toBalance.book_balance);
+      const numericPart = balanceStr.replace(/dec$/i, "");
+      return numericPart;
+    }
+  }
+
+  return null;
+}
+
+export type ExportCell = string | number | null;
+
+export const EXPORT_COLUMNS = [
+  "Date",
+  "Transfer ID",
+  "From account",
+  "To account",
+  "From category",
+  "To category",
+  "Status",
+  "Type",
+  "Amount",
+  "Label",
+  "Tags",
+  "Description",
+  "External transaction ID",
+  "Created by",
+  "From account balance",
+  "To account balance",
+  "Attachments",
+] as const;
+
+// Attachment download URLs per transfer id (see GET /api/attachments/[id])
+export type AttachmentLinks = Map<string, string[]>;
+
+function balanceCell(transfer: Transfer, accountId: string | undefined): ExportCell {
+  if (!accountId) return null;
+  const balance = getTransferBalance(transfer, accountId);
+  if (balance == null) return null;
+  const n = Number(balance);
+  return Number.isFinite(n) ? n : null;
+}
+
+// One row per transfer in EXPORT_COLUMNS order. Balances are the running book balances TigerBeetle
+// reported when the transfer posted, so they are empty for transfers that never posted.
+export function exportRow(transfer: Transfer, attachmentLinks?: AttachmentLinks): ExportCell[] {
+  return [
+    transfer.createdAt,
+    transfer.id,
+    transfer.fromAccountName,
+    transfer.toAccountName,
+    transfer.fromCategoryName ?? null,
+    transfer.toCategoryName ?? null,
+    transfer.status,
+    transfer.type,
+    transfer.amount,
+    transfer.label ?? null,
+    transfer.tags?.join(", ") || null,
+    transfer.description ?? null,
+    transfer.externalTransactionId ?? null,
+    transfer.createdByName ?? null,
+    balanceCell(transfer, transfer.fromAccountId),
+    balanceCell(transfer, transfer.toAccountId),
+    attachmentLinks?.get(transfer.id)?.join(" ") || null,
+  ];
+}
+
+// ---------- CSV ----------
+
+function csvCell(value: ExportCell): string {
+  if (value == null) return "";
+  if (typeof value === "number") return String(value);
+  // Spreadsheets evaluate cells starting with these as formulas
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function csvLine(cells: readonly ExportCell[]): string {
+  return cells.map(csvCell).join(",") + "\r\n";
+}
+
+// The BOM makes Excel open the file as UTF-8
+export function csvHeader(): string {
+  return "\uFEFF" + csvLine(EXPORT_COLUMNS);
+}
+
+export function csvRows(transfers: Transfer[], attachmentLinks?: AttachmentLinks): string {
+  return transfers.map((t) => csvLine(exportRow(t, attachmentLinks))).join("");
+}
+
+// ---------- XLSX ----------
+
+function xmlEscape(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters other than tab/newline are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+}
+
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function sheetXml(rows: ExportCell[][]): string {
+  const body = rows
+    .map((cells, r) => {
+      const xmlCells = cells
+        .map((value, c) => {
+          const ref = `${columnName(c)}${r + 1}`;
+          if (value == null || value === "") return "";
+          if (typeof value === "number") return `<c r="${ref}"><v>${value}</v></c>`;
+          return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${xmlEscape(value)}</t></is></c>`;
+        })
+        .join("");
+      return `<row r="${r + 1}">${xmlCells}</row>`;
+    })
+    .join("");
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<sheetData>${body}</sheetData></worksheet>`
+  );
+}
+
+const XLSX_STATIC_PARTS: Array<[string, string]> = [
+  [
+    "[Content_Types].xml",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      "</Types>",
+  ],
+  [
+    "_rels/.rels",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      "</Relationships>",
+  ],
+  [
+    "xl/workbook.xml",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      '<sheets><sheet name="Transfers" sheetId="1" r:id="rId1"/></sheets>' +
+      "</workbook>",
+  ],
+  [
+    "xl/_rels/workbook.xml.rels",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      "</Relationships>",
+  ],
+];
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Minimal ZIP writer (stored entries, no compression) - enough for an XLSX package
+function zip(files: Array<[string, string]>): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, content] of files) {
+    const nameBytes = encoder.encode(name);
+    const data = encoder.encode(content);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + nameBytes.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true); // version needed
+    lv.setUint16(6, 0x0800, true); // UTF-8 names
+    lv.setUint16(8, 0, true); // stored
+    lv.setUint16(10, 0, true); // mod time
+    lv.setUint16(12, 0x21, true); // mod date 1980-01-01
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+
+    const header = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(header.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true); // version made by
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, 0, true);
+    cv.setUint16(14, 0x21, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, nameBytes.length, true);
+    cv.setUint32(42, offset, true);
+    header.set(nameBytes, 46);
+
+    chunks.push(local, data);
+    central.push(header);
+    offset += local.length + data.length;
+  }
+
+  const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const all = [...chunks, ...central, end];
+  const out = new Uint8Array(all.reduce((sum, c) => sum + c.length, 0));
+  let position = 0;
+  for (const c of all) {
+    out.set(c, position);
+    position += c.length;
+  }
+  return out;
+}
+
+export function buildXlsx(transfers: Transfer[], attachmentLinks?: AttachmentLinks): Uint8Array<ArrayBuffer> {
+  const rows: ExportCell[][] = [[...EXPORT_COLUMNS], ...transfers.map((t) => exportRow(t, attachmentLinks))];
+  return zip([...XLSX_STATIC_PARTS, ["xl/worksheets/sheet1.xml", sheetXml(rows)]]);
+}
+
+// ---------- OFX ----------
+
+// OFX datetimes are YYYYMMDDHHMMSS.XXX[offset:TZ]; everything is written in UTC
+function ofxDate(iso: string): string {
+  const d = new Date(iso);
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+  return (
+    `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}` +
+    `${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}.${pad(d.getUTCMilliseconds(), 3)}[0:GMT]`
+  );
+}
+
+// OFX is an account statement, so it is always written from one account's point of view: money
+// leaving the account is negative. FITID is the external transaction id when there is one so
+// accounting software can match it against the bank/M-Pesa feed, otherwise the transfer id. Only
+// posted transfers are written, and split parents are left to their legs, as in account statements.
+export function buildOfx(options: {
+  transfers: Transfer[];
+  accountId: string;
+  currency: string;
+  dateFrom?: string;
+  dateTo?: string;
+}): string {
+  const { accountId, currency } = options;
+  const transfers = options.transfers.filter((t) => t.status === "posted" && t.linkRole !== SPLIT_PARENT_ROLE);
+  const now = new Date().toISOString();
+  const dates = transfers.map((t) => t.createdAt).filter(Boolean).sort();
+  const dateFrom = options.dateFrom || dates[0] || now;
+  const dateTo = options.dateTo || dates[dates.length - 1] || now;
+
+  const statementTransactions = transfers
+    .map((t) => {
+      const outgoing = t.fromAccountId === accountId;
+      const amount = outgoing ? -t.amount : t.amount;
+      const trnType = t.type === "fees" && outgoing ? "FEE" : outgoing ? "DEBIT" : "CREDIT";
+      const name = outgoing ? t.toAccountName : t.fromAccountName;
+      const memo = [t.label, t.description].filter(Boolean).join(" - ");
+      return (
+        "<STMTTRN>" +
+        `<TRNTYPE>${trnType}</TRNTYPE>` +
+        `<DTPOSTED>${ofxDate(t.createdAt)}</DTPOSTED>` +
+        `<TRNAMT>${amount.toFixed(2)}</TRNAMT>` +
+        `<FITID>${xmlEscape(t.externalTransactionId || t.id)}</FITID>` +
+        `<NAME>${xmlEscape(name.slice(0, 32))}</NAME>` +
+        (memo ? `<MEMO>${xmlEscape(memo.slice(0, 255))}</MEMO>` : "") +
+        "</STMTTRN>"
+      );
+    })
+    .join("\n");
+
+  // Transfers are newest first, so the first one carrying a balance is the closing balance
+  const closing = transfers.map((t) => getTransferBalance(t, accountId)).find((b) => b != null);
+  const ledgerBalance = closing != null && Number.isFinite(Number(closing)) ? Number(closing) : 0;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+    "<OFX>",
+    "<SIGNONMSGSRSV1><SONRS>",
+    "<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>",
+    `<DTSERVER>${ofxDate(now)}</DTSERVER><LANGUAGE>ENG</LANGUAGE>`,
+    "</SONRS></SIGNONMSGSRSV1>",
+    "<BANKMSGSRSV1><STMTTRNRS>",
+    "<TRNUID>0</TRNUID><STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>",
+    "<STMTRS>",
+    `<CURDEF>${xmlEscape(currency)}</CURDEF>`,
+    `<BANKACCTFROM><BANKID>BAGAYI</BANKID><ACCTID>${xmlEscape(accountId)}</ACCTID><ACCTTYPE>CHECKING</ACCTTYPE></BANKACCTFROM>`,
+    `<BANKTRANLIST><DTSTART>${ofxDate(dateFrom)}</DTSTART><DTEND>${ofxDate(dateTo)}</DTEND>`,
+    statementTransactions,
+    "</BANKTRANLIST>",
+    `<LEDGERBAL><BALAMT>${ledgerBalance.toFixed(2)}</BALAMT><DTASOF>${ofxDate(dateTo)}</DTASOF></LEDGERBAL>`,
+    "</STMTRS>",
+    "</STMTTRNRS></BANKMSGSRSV1>",
+    "</OFX>",
+    "",
+  ].join("\n");
+}
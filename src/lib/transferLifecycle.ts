@@ -0,0 +1,56 @@
+// Transfer status state machine shared by PATCH /api/transfers/[id] and the transactions UI.
+//
+// draft ──submit──▶ submitted ──approve──▶ approved ─▶ (backend) pending ─▶ posted | failed
+//                       │                                  │                      │
+//                       └──reject──▶ rejected              └──cancel──▶ cancelled  └──retry──▶ submitted (M-Pesa only)
+//
+// draft ──submit──▶ awaiting_approval ──approve × N admins──▶ approved
+//                       └──reject──▶ rejected
+//
+// M-Pesa payouts above a category approval rule are submitted into awaiting_approval instead of
+// submitted (see transferService.resolveSubmissionStatus); each approve there records one admin
+// approval and the transfer only becomes approved once the rule's N admins have approved.
+
+export const TRANSFER_ACTIONS = ["submit", "approve", "reject", "cancel", "retry"] as const;
+export type TransferAction = (typeof TRANSFER_ACTIONS)[number];
+
+type TransitionRule = {
+  from: string[];
+  to: string;
+  label: string;
+  // Retry only makes sense for payouts dispatched through M-Pesa
+  mpesaOnly?: boolean;
+};
+
+export const TRANSFER_TRANSITIONS: Record<TransferAction, TransitionRule> = {
+  submit: { from: ["draft"], to: "submitted", label: "Submit" },
+  approve: { from: ["submitted", "awaiting_approval"], to: "approved", label: "Approve" },
+  reject: { from: ["submitted", "awaiting_approval"], to: "rejected", label: "Reject" },
+  cancel: { from: ["pending"], to: "cancelled", label: "Cancel" },
+  retry: { from: ["failed"], to: "submitted", label: "Retry", mpesaOnly: true },
+};
+
+export function isTransferAction(value: unknown): value is TransferAction {
+  return typeof value === "string" && (TRANSFER_ACTIONS as readonly string[]).includes(value);
+}
+
+function isMpesaChannel(paymentChannel: Record<string, unknown> | undefined): boolean {
+  return paymentChannel?.channel_id === "MPESA";
+}
+
+export function canApplyTransferAction(
+  transfer: { status: string; paymentChannel?: Record<string, unknown> },
+  action: TransferAction,
+): boolean {
+  const rule = TRANSFER_TRANSITIONS[action];
+  if (!rule.from.includes(transfer.status)) return false;
+  if (rule.mpesaOnly && !isMpesaChannel(transfer.paymentChannel)) return false;
+  return true;
+}
+
+export function availableTransferActions(transfer: {
+  status: string;
+  paymentChannel?: Record<string, unknown>;
+}): TransferAction[] {
+  return TRANSFER_ACTIONS.filter((action) => canApplyTransferAction(transfer, action));
+}
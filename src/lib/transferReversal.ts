@@ -0,0 +1,32 @@
+// Reversals and refunds: a counter-transfer (to → from) of all or part of a posted transfer, linked
+// to it with parent_transfer_id and link_role "reversal". The reversals of a transfer can never add
+// up to more than its amount. Shared by the transfer detail panel and transferService.
+
+import { SPLIT_PARENT_ROLE } from "@/lib/transferSplit";
+
+export const REVERSAL_ROLE = "reversal";
+
+export const REVERSAL_TYPES = ["refund", "adjustment"] as const;
+export type ReversalType = (typeof REVERSAL_TYPES)[number];
+
+// Reversals in these statuses never moved money, so they do not count against the original
+export const VOID_REVERSAL_STATUSES = ["rejected", "cancelled", "failed"];
+
+// Posted account-to-account transfers can be reversed. Payouts through a payment channel have no
+// ledger account on the receiving side, reversals are not reversed again, and a split is reversed
+// leg by leg.
+export function canReverseTransfer(transfer: { status: string; toAccountId?: string; linkRole?: string }): boolean {
+  return (
+    transfer.status === "posted" &&
+    Boolean(transfer.toAccountId) &&
+    transfer.linkRole !== REVERSAL_ROLE &&
+    transfer.linkRole !== SPLIT_PARENT_ROLE
+  );
+}
+
+export function refundableAmount(original: { amount: number }, reversals: Array<{ amount: number; status: string }>): number {
+  const reversedCents = reversals
+    .filter((r) => !VOID_REVERSAL_STATUSES.includes(r.status))
+    .reduce((sum, r) => sum + Math.round(r.amount * 100), 0);
+  return Math.max(0, Math.round(original.amount * 100) - reversedCents) / 100;
+}
@@ -0,0 +1,143 @@
+// Recurrence rules of scheduled transfers (scheduled_transfer). Occurrences are computed on the UTC
+// calendar from the rule's start: every N days, every N weeks on the start's weekday, or every N
+// months on a day of the month (clamped to the month's last day, so 31 means "month end").
+// Shared by the schedule form, the upcoming list and scheduledTransferService.
+
+export const SCHEDULE_FREQUENCIES = ["daily", "weekly", "monthly"] as const;
+export type ScheduleFrequency = (typeof SCHEDULE_FREQUENCIES)[number];
+
+export const MAX_SCHEDULE_INTERVAL = 365;
+// Occurrences one run-due pass materialises per schedule; older backlogs catch up on later passes
+export const MAX_OCCURRENCES_PER_RUN = 31;
+
+export const SCHEDULED_TRANSFER_ACTIONS = ["pause", "resume"] as const;
+export type ScheduledTransferAction = (typeof SCHEDULED_TRANSFER_ACTIONS)[number];
+
+export function isScheduledTransferAction(value: unknown): value is ScheduledTransferAction {
+  return typeof value === "string" && (SCHEDULED_TRANSFER_ACTIONS as readonly string[]).includes(value);
+}
+
+export type ScheduleRule = {
+  frequency: ScheduleFrequency;
+  interval: number;
+  dayOfMonth?: number;
+  startAt: string;
+  endAt?: string;
+};
+
+export type ScheduleRuleInput = {
+  frequency?: string;
+  interval?: number;
+  dayOfMonth?: number;
+  startAt?: string;
+  endAt?: string;
+};
+
+export function isScheduleFrequency(value: unknown): value is ScheduleFrequency {
+  return typeof value === "string" && (SCHEDULE_FREQUENCIES as readonly string[]).includes(value);
+}
+
+export function validateScheduleRule(
+  input: ScheduleRuleInput,
+): { status: "ok"; rule: ScheduleRule } | { status: "invalid"; error: string; reason: string } {
+  if (!isScheduleFrequency(input.frequency)) {
+    return { status: "invalid", error: `Frequency must be one of: ${SCHEDULE_FREQUENCIES.join(", ")}`, reason: "invalid_frequency" };
+  }
+
+  const interval = input.interval ?? 1;
+  if (!Number.isInteger(interval) || interval < 1 || interval > MAX_SCHEDULE_INTERVAL) {
+    return { status: "invalid", error: `Interval must be a whole number from 1 to ${MAX_SCHEDULE_INTERVAL}`, reason: "invalid_interval" };
+  }
+
+  const start = input.startAt ? new Date(input.startAt) : null;
+  if (!start || isNaN(start.getTime())) {
+    return { status: "invalid", error: "Start date is required", reason: "invalid_start_at" };
+  }
+
+  let dayOfMonth: number | undefined;
+  if (input.frequency === "monthly") {
+    dayOfMonth = input.dayOfMonth ?? start.getUTCDate();
+    if (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 31) {
+      return { status: "invalid", error: "Day of month must be from 1 to 31", reason: "invalid_day_of_month" };
+    }
+  }
+
+  let endAt: string | undefined;
+  if (input.endAt) {
+    const end = new Date(input.endAt);
+    if (isNaN(end.getTime()) || end.getTime() < start.getTime()) {
+      return { status: "invalid", error: "End date must be after the start date", reason: "invalid_end_at" };
+    }
+    endAt = end.toISOString();
+  }
+
+  return {
+    status: "ok",
+    rule: { frequency: input.frequency, interval, dayOfMonth, startAt: start.toISOString(), endAt },
+  };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// The given month's occurrence of a monthly rule, at the start's time of day
+function monthlyOccurrence(rule: ScheduleRule, year: number, month: number): Date {
+  const start = new Date(rule.startAt);
+  const normalized = new Date(Date.UTC(year, month, 1));
+  const y = normalized.getUTCFullYear();
+  const m = normalized.getUTCMonth();
+  const day = Math.min(rule.dayOfMonth ?? start.getUTCDate(), daysInMonth(y, m));
+  return new Date(
+    Date.UTC(y, m, day, start.getUTCHours(), start.getUTCMinutes(), start.getUTCSeconds(), start.getUTCMilliseconds()),
+  );
+}
+
+function withinEnd(rule: ScheduleRule, date: Date): Date | null {
+  return rule.endAt && date.getTime() > new Date(rule.endAt).getTime() ? null : date;
+}
+
+export function firstOccurrence(rule: ScheduleRule): Date | null {
+  const start = new Date(rule.startAt);
+  if (rule.frequency !== "monthly") return withinEnd(rule, start);
+
+  const sameMonth = monthlyOccurrence(rule, start.getUTCFullYear(), start.getUTCMonth());
+  if (sameMonth.getTime() >= start.getTime()) return withinEnd(rule, sameMonth);
+  return withinEnd(rule, monthlyOccurrence(rule, start.getUTCFullYear(), start.getUTCMonth() + rule.interval));
+}
+
+export function followingOccurrence(rule: ScheduleRule, occurrence: Date): Date | null {
+  if (rule.frequency === "monthly") {
+    return withinEnd(rule, monthlyOccurrence(rule, occurrence.getUTCFullYear(), occurrence.getUTCMonth() + rule.interval));
+  }
+  const days = rule.frequency === "weekly" ? 7 * rule.interval : rule.interval;
+  return withinEnd(rule, new Date(occurrence.getTime() + days * 24 * 60 * 60 * 1000));
+}
+
+// The first occurrence at or after `after` (used when a paused schedule resumes without back-filling)
+export function nextOccurrenceFrom(rule: ScheduleRule, after: Date): Date | null {
+  let occurrence = firstOccurrence(rule);
+  while (occurrence && occurrence.getTime() < after.getTime()) {
+    occurrence = followingOccurrence(rule, occurrence);
+  }
+  return occurrence;
+}
+
+// Occurrences from `from` (a schedule's next_run_at) up to and including `until`
+export function occurrencesUntil(rule: ScheduleRule, from: Date, until: Date, limit: number): Date[] {
+  const occurrences: Date[] = [];
+  let occurrence: Date | null = from;
+  while (occurrence && occurrence.getTime() <= until.getTime() && occurrences.length < limit) {
+    occurrences.push(occurrence);
+    occurrence = followingOccurrence(rule, occurrence);
+  }
+  return occurrences;
+}
+
+export function describeScheduleRule(rule: Pick<ScheduleRule, "frequency" | "interval" | "dayOfMonth">): string {
+  const every = rule.interval > 1 ? `Every ${rule.interval} ` : "Every ";
+  if (rule.frequency === "daily") return rule.interval > 1 ? `${every}days` : "Daily";
+  if (rule.frequency === "weekly") return rule.interval > 1 ? `${every}weeks` : "Weekly";
+  const day = rule.dayOfMonth === 31 ? "last day" : `day ${rule.dayOfMonth}`;
+  return `${rule.interval > 1 ? `${every}months` : "Monthly"} on ${day}`;
+}
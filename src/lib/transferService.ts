@@ -0,0 +1,1687 @@
+import {
+  executeSurrealQL,
+  getResultArray,
+  thingIdToString,
+  toSurrealThingLiteral,
+} from "@/lib/surrealdb";
+import { TRANSFER_TRANSITIONS, canApplyTransferAction, type TransferAction } from "@/lib/transferLifecycle";
+import {
+  SPLIT_LEG_ROLE,
+  SPLIT_PARENT_ROLE,
+  SPLIT_PARENT_STATUS,
+  SPLIT_STATUS_FIELD,
+  validateSplitLegs,
+  type SplitLegInput,
+} from "@/lib/transferSplit";
+import {
+  canReverseTransfer,
+  refundableAmount,
+  REVERSAL_ROLE,
+  REVERSAL_TYPES,
+  VOID_REVERSAL_STATUSES,
+  type ReversalType,
+} from "@/lib/transferReversal";
+import { invalidateFrequentRecipients } from "@/lib/frequentRecipientService";
+import { validateMpesaRecipient } from "@/lib/mpesaNumbers";
+import { resolveFeePlan } from "@/lib/mpesaFeeService";
+import { recordTransferEvent } from "@/lib/transferActivityService";
+import { validateTags } from "@/lib/transferTags";
+
+export type Transfer = {
+  id: string;
+  fromAccountId: string;
+  toAccountId?: string;
+  fromAccountName: string;
+  toAccountName: string;
+  fromCategoryName?: string;
+  toCategoryName?: string;
+  amount: number;
+  type: string;
+  status: string;
+  label?: string;
+  tags?: string[];
+  description?: string;
+  createdAt: string;
+  updatedAt?: string;
+  createdBy?: string;
+  createdByName?: string;
+  externalTransactionId?: string;
+  tbTransferId?: string;
+  parentTransferId?: string;
+  linkRole?: string;
+  scheduledTransferId?: string;
+  // M-Pesa payouts with a fee plan: where the charge goes, and the fee transfer once recorded
+  feeExpenseAccountId?: string;
+  feeTransferId?: string;
+  // Legs of a split parent (only filled in by listTransfers)
+  legs?: Transfer[];
+  paymentIntegrationLink?: string;
+  // Set while a payout above a category approval threshold is awaiting_approval
+  requiredApprovals?: number;
+  approvalCount?: number;
+  metadata?: Record<string, unknown>;
+  paymentChannel?: Record<string, unknown>;
+};
+
+export type TransferFilters = {
+  categoryId: string;
+  status?: string;
+  type?: string;
+  accountId?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  // "MPESA", "bagayi_inter_switch", ... or "none" for plain account-to-account transfers
+  channel?: string;
+  createdBy?: string;
+  // Transfers carrying all of these tags
+  tags?: string[];
+};
+
+export const DEFAULT_TRANSFER_PAGE_SIZE = 50;
+export const MAX_TRANSFER_PAGE_SIZE = 200;
+
+// Cursor is the (created_at, id) pair of the last row of the previous page, base64url-encoded.
+// Transfers are ordered by created_at DESC, id DESC so the pair is a stable position even when
+// several transfers share the same timestamp.
+export function encodeTransferCursor(transfer: Pick<Transfer, "createdAt" | "id">): string {
+  return Buffer.from(JSON.stringify([transfer.createdAt, transfer.id]), "utf8").toString("base64url");
+}
+
+export function decodeTransferCursor(cursor: string): { createdAt: string; id: string } | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (!Array.isArray(parsed) || parsed.length !== 2) return null;
+    const [createdAt, id] = parsed;
+    if (typeof createdAt !== "string" || typeof id !== "string") return null;
+    if (isNaN(new Date(createdAt).getTime())) return null;
+    if (!toSurrealThingLiteral(id)) return null;
+    return { createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+// Parse filters from URL search params (GET /api/transfers). Returns a reason code on invalid input.
+export function parseTransferFilters(
+  searchParams: URLSearchParams,
+): { status: "ok"; filters: TransferFilters } | { status: "invalid"; reason: string } {
+  const categoryId = searchParams.get("categoryId") || "";
+  if (!toSurrealThingLiteral(categoryId)) return { status: "invalid", reason: "invalid_category_id" };
+
+  const filters: TransferFilters = { categoryId };
+
+  const status = searchParams.get("status");
+  if (status) filters.status = status;
+
+  const type = searchParams.get("type");
+  if (type) filters.type = type;
+
+  const accountId = searchParams.get("accountId");
+  if (accountId) {
+    if (!toSurrealThingLiteral(accountId)) return { status: "invalid", reason: "invalid_account_id" };
+    filters.accountId = accountId;
+  }
+
+  const createdBy = searchParams.get("createdBy");
+  if (createdBy) {
+    if (!toSurrealThingLiteral(createdBy)) return { status: "invalid", reason: "invalid_created_by" };
+    filters.createdBy = createdBy;
+  }
+
+  const channel = searchParams.get("channel");
+  if (channel) filters.channel = channel;
+
+  const dateFrom = searchParams.get("dateFrom");
+  if (dateFrom) {
+    if (isNaN(new Date(dateFrom).getTime())) return { status: "invalid", reason: "invalid_date_from" };
+    filters.dateFrom = new Date(dateFrom).toISOString();
+  }
+
+  const dateTo = searchParams.get("dateTo");
+  if (dateTo) {
+    if (isNaN(new Date(dateTo).getTime())) return { status: "invalid", reason: "invalid_date_to" };
+    filters.dateTo = new Date(dateTo).toISOString();
+  }
+
+  const minAmount = searchParams.get("minAmount");
+  if (minAmount) {
+    const n = Number(minAmount);
+    if (!Number.isFinite(n)) return { status: "invalid", reason: "invalid_min_amount" };
+    filters.minAmount = n;
+  }
+
+  const maxAmount = searchParams.get("maxAmount");
+  if (maxAmount) {
+    const n = Number(maxAmount);
+    if (!Number.isFinite(n)) return { status: "invalid", reason: "invalid_max_amount" };
+    filters.maxAmount = n;
+  }
+
+  // Comma-separated, e.g. ?tags=rent,office
+  const tags = searchParams.get("tags");
+  if (tags) {
+    const parsed = validateTags(tags.split(",").filter((tag) => tag.trim()));
+    if (parsed.status === "invalid") return { status: "invalid", reason: parsed.reason };
+    if (parsed.tags.length) filters.tags = parsed.tags;
+  }
+
+  return { status: "ok", filters };
+}
+
+// Split legs are listed under their parent, and a parent matches the category/account and status
+// filters through its legs ($split_parents and $split_status_parents, see splitParentsStatement)
+export function buildTransferConditions(filters: TransferFilters): string[] {
+  const categoryLiteral = toSurrealThingLiteral(filters.categoryId);
+  const conditions: string[] = [
+    `(from_account_id.category_id = ${categoryLiteral} OR to_account_id.category_id = ${categoryLiteral} OR id INSIDE $split_parents)`,
+    `link_role != ${JSON.stringify(SPLIT_LEG_ROLE)}`,
+  ];
+
+  if (filters.status) conditions.push(`(status = ${JSON.stringify(filters.status)} OR id INSIDE $split_status_parents)`);
+  if (filters.type) conditions.push(`type = ${JSON.stringify(filters.type)}`);
+
+  if (filters.accountId) {
+    const accountLiteral = toSurrealThingLiteral(filters.accountId);
+    if (accountLiteral) {
+      conditions.push(`(from_account_id = ${accountLiteral} OR to_account_id = ${accountLiteral} OR id INSIDE $split_parents)`);
+    }
+  }
+
+  if (filters.createdBy) {
+    const userLiteral = toSurrealThingLiteral(filters.createdBy);
+    if (userLiteral) conditions.push(`created_by = ${userLiteral}`);
+  }
+
+  if (filters.channel === "none") {
+    conditions.push("payment_channel = NONE");
+  } else if (filters.channel) {
+    conditions.push(`payment_channel.channel_id = ${JSON.stringify(filters.channel)}`);
+  }
+
+  if (filters.dateFrom) conditions.push(`created_at >= <datetime>${JSON.stringify(filters.dateFrom)}`);
+  if (filters.dateTo) conditions.push(`created_at <= <datetime>${JSON.stringify(filters.dateTo)}`);
+  if (filters.minAmount != null) conditions.push(`amount >= ${filters.minAmount}`);
+  if (filters.maxAmount != null) conditions.push(`amount <= ${filters.maxAmount}`);
+  if (filters.tags?.length) conditions.push(`(tags ?? []) CONTAINSALL ${JSON.stringify(filters.tags)}`);
+
+  return conditions;
+}
+
+export function splitParentsStatement(filters: TransferFilters): string {
+  const legConditions = [
+    `link_role = ${JSON.stringify(SPLIT_LEG_ROLE)}`,
+    `to_account_id.category_id = ${toSurrealThingLiteral(filters.categoryId)}`,
+  ];
+  const accountLiteral = filters.accountId ? toSurrealThingLiteral(filters.accountId) : null;
+  if (accountLiteral) legConditions.push(`to_account_id = ${accountLiteral}`);
+  const statusParents = filters.status
+    ? `array::distinct((SELECT VALUE parent_transfer_id FROM transfer WHERE link_role = ${JSON.stringify(SPLIT_LEG_ROLE)} AND status = ${JSON.stringify(filters.status)}))`
+    : "[]";
+  // Always two statements, so callers can count result indexes
+  return [
+    `LET $split_parents = array::distinct((SELECT VALUE parent_transfer_id FROM transfer WHERE ${legConditions.join(" AND ")}));`,
+    `LET $split_status_parents = ${statusParents};`,
+  ].join("\n");
+}
+
+// Fields selected alongside `*` so a raw transfer record can be mapped with mapTransferRecord
+export const TRANSFER_SELECT_FIELDS = `*,
+  from_account_id.name AS from_account_name,
+  to_account_id.name AS to_account_name,
+  from_account_id.category_id.name AS from_category_name,
+  to_account_id.category_id.name AS to_category_name,
+  from_account_id.category_id.default_account_id AS from_category_default_account,
+  to_account_id.category_id.default_account_id AS to_category_default_account,
+  from_account_id AS from_account_ref,
+  to_account_id AS to_account_ref,
+  from_account_id = $external_account AS from_is_external,
+  to_account_id = $external_account AS to_is_external,
+  created_by.name AS created_by_name,
+  metadata,
+  payment_channel,
+  ${SPLIT_STATUS_FIELD}`;
+
+// Selected after TRANSFER_SELECT_FIELDS where the approval progress is shown (the transfer detail
+// and the approvals inbox) rather than on every list row
+const APPROVAL_COUNT_FIELD = `array::len((SELECT id FROM transfer_approval WHERE transfer_id = $parent.id)) AS approval_count`;
+
+export function mapTransferRecord(t: Record<string, unknown>): Transfer {
+  const fromAccountId = thingIdToString(t.from_account_ref);
+  const toAccountId = thingIdToString(t.to_account_ref);
+  const fromCategoryDefaultAccount = thingIdToString(t.from_category_default_account);
+  const toCategoryDefaultAccount = thingIdToString(t.to_category_default_account);
+
+  // Get metadata for external account name
+  const metadata = t.metadata as Record<string, unknown> | undefined;
+  const externalAccountData = metadata?.external_account as Record<string, unknown> | undefined;
+  const externalAccountName = typeof externalAccountData?.name === "string" ? externalAccountData.name : null;
+
+  // Check if account is external account
+  const isFromExternal = t.from_is_external === true;
+  const isToExternal = t.to_is_external === true;
+
+  // If account is the default account for its category, show category name
+  const isFromDefault = fromAccountId && fromCategoryDefaultAccount && fromAccountId === fromCategoryDefaultAccount;
+  const isToDefault = toAccountId && toCategoryDefaultAccount && toAccountId === toCategoryDefaultAccount;
+
+  // Determine display name for "from" account
+  let fromDisplayName: string;
+  if (isFromExternal && externalAccountName) {
+    fromDisplayName = externalAccountName;
+  } else if (isFromDefault && typeof t.from_category_name === "string") {
+    fromDisplayName = t.from_category_name;
+  } else {
+    fromDisplayName = typeof t.from_account_name === "string" ? t.from_account_name : "(Unknown)";
+  }
+
+  // Determine display name for "to" account
+  let toDisplayName: string;
+  if (isToExternal && externalAccountName) {
+    toDisplayName = externalAccountName;
+  } else if (isToDefault && typeof t.to_category_name === "string") {
+    toDisplayName = t.to_category_name;
+  } else {
+    toDisplayName = typeof t.to_account_name === "string" ? t.to_account_name : "(Unknown)";
+  }
+
+  // Parse payment_channel if present
+  const paymentChannelRaw = t.payment_channel as Record<string, unknown> | undefined;
+
+  // Use payment channel to_account for display if available
+  const paymentChannelToAccount = paymentChannelRaw
+    ? (paymentChannelRaw["to_account"] as string | undefined)
+    : undefined;
+  const finalToDisplayName = paymentChannelToAccount || toDisplayName;
+
+  return {
+    id: thingIdToString(t.id) || "",
+    fromAccountId: fromAccountId || "",
+    toAccountId: toAccountId || undefined,
+    fromAccountName: fromDisplayName,
+    toAccountName: finalToDisplayName,
+    fromCategoryName: typeof t.from_category_name === "string" ? t.from_category_name : undefined,
+    toCategoryName: typeof t.to_category_name === "string" ? t.to_category_name : undefined,
+    amount:
+      typeof t.amount === "number"
+        ? t.amount
+        : typeof t.amount === "string"
+          ? parseFloat(t.amount)
+          : 0,
+    type: typeof t.type === "string" ? t.type : "payment",
+    status: typeof t.split_status === "string" ? t.split_status : typeof t.status === "string" ? t.status : "draft",
+    label: typeof t.label === "string" ? t.label : undefined,
+    tags: Array.isArray(t.tags) ? t.tags.filter((tag): tag is string => typeof tag === "string") : undefined,
+    description: typeof t.description === "string" ? t.description : undefined,
+    createdAt: typeof t.created_at === "string" ? t.created_at : "",
+    updatedAt: typeof t.updated_at === "string" ? t.updated_at : undefined,
+    createdBy: thingIdToString(t.created_by) || undefined,
+    createdByName: typeof t.created_by_name === "string" ? t.created_by_name : undefined,
+    externalTransactionId: typeof t.external_transaction_id === "string" ? t.external_transaction_id : undefined,
+    tbTransferId: typeof t.tb_transfer_id === "string" ? t.tb_transfer_id : undefined,
+    parentTransferId: thingIdToString(t.parent_transfer_id) || undefined,
+    linkRole: typeof t.link_role === "string" ? t.link_role : undefined,
+    scheduledTransferId: thingIdToString(t.scheduled_transfer_id) || undefined,
+    feeExpenseAccountId: thingIdToString((t.fee_plan as Record<string, unknown> | undefined)?.expense_account_id) || undefined,
+    feeTransferId: thingIdToString(t.fee_transfer_id) || undefined,
+    paymentIntegrationLink: thingIdToString(t.payment_integration_link) || undefined,
+    requiredApprovals: typeof t.required_approvals === "number" ? t.required_approvals : undefined,
+    approvalCount: typeof t.approval_count === "number" ? t.approval_count : undefined,
+    metadata,
+    paymentChannel: paymentChannelRaw,
+  };
+}
+
+export type PaymentChannelInput = {
+  channelId?: string;
+  action?: string;
+  toAccount?: string;
+  accountReference?: string;
+  paymentIntegration?: string;
+};
+
+// Build the SurrealQL object literal stored in transfer.payment_channel from the API payload
+export function buildPaymentChannelLiteral(
+  paymentChannel: PaymentChannelInput,
+): { status: "ok"; literal: string } | { status: "invalid"; error: string; reason: string } {
+  // For bagayi_inter_switch channel, to_account should be a record reference
+  if (paymentChannel.channelId === "bagayi_inter_switch") {
+    const toAccountLiteral = toSurrealThingLiteral(paymentChannel.toAccount || "");
+    if (!toAccountLiteral) {
+      return {
+        status: "invalid",
+        error: "Invalid to_account for bagayi_inter_switch channel",
+        reason: "invalid_payment_channel_account",
+      };
+    }
+
+    // Build payment integration reference if provided
+    const paymentIntegrationLiteral = paymentChannel.paymentIntegration
+      ? toSurrealThingLiteral(paymentChannel.paymentIntegration)
+      : null;
+
+    if (paymentIntegrationLiteral) {
+      return {
+        status: "ok",
+        literal: `{
+    channel_id: ${JSON.stringify(paymentChannel.channelId)},
+    to_account: ${toAccountLiteral},
+    payment_integration: ${paymentIntegrationLiteral}
+  }`,
+      };
+    }
+    return {
+      status: "ok",
+      literal: `{
+    channel_id: ${JSON.stringify(paymentChannel.channelId)},
+    to_account: ${toAccountLiteral}
+  }`,
+    };
+  }
+
+  if (paymentChannel.channelId === "MPESA") {
+    // For MPESA channel, use new structure: channel_id: "MPESA", action: "BusinessPayment"|"BusinessBuyGoods"|"BusinessPayBill", to_account: string
+    // BusinessPayBill also includes account_reference. Numbers are stored normalised (see mpesaNumbers)
+    const recipient = validateMpesaRecipient(paymentChannel);
+    if (recipient.status === "invalid") return recipient;
+    if (recipient.accountReference) {
+      return {
+        status: "ok",
+        literal: `{
+    channel_id: "MPESA",
+    action: ${JSON.stringify(recipient.action)},
+    to_account: ${JSON.stringify(recipient.toAccount)},
+    account_reference: ${JSON.stringify(recipient.accountReference)}
+  }`,
+      };
+    }
+    return {
+      status: "ok",
+      literal: `{
+    channel_id: "MPESA",
+    action: ${JSON.stringify(recipient.action)},
+    to_account: ${JSON.stringify(recipient.toAccount)}
+  }`,
+    };
+  }
+
+  // For other channels, to_account is a string (legacy support)
+  return {
+    status: "ok",
+    literal: `{
+    channel_id: ${JSON.stringify(paymentChannel.channelId)},
+    to_account: ${JSON.stringify(paymentChannel.toAccount)}
+  }`,
+  };
+}
+
+// Decide where a transfer goes when it is submitted. M-Pesa payouts whose amount is above one of
+// the category's approval rules (category_approval_rule) wait in "awaiting_approval" until the
+// rule's number of category admins have approved; everything else goes straight to "submitted".
+export async function resolveSubmissionStatus(options: {
+  accessToken: string;
+  fromAccountLiteral: string;
+  amount: number;
+  channelId?: string;
+}): Promise<
+  { status: "ok"; transferStatus: "submitted" | "awaiting_approval"; requiredApprovals?: number } | { status: "skipped"; reason: string }
+> {
+  const { accessToken, fromAccountLiteral, amount, channelId } = options;
+  if (channelId !== "MPESA") return { status: "ok", transferStatus: "submitted" };
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      SELECT VALUE required_approvals
+      FROM category_approval_rule
+      WHERE category_id = ${fromAccountLiteral}.category_id AND min_amount < ${amount};
+    `,
+    logName: "transferService.POST /sql (match approval rules)",
+  });
+
+  // Fail closed: never let a payout skip approval because the rules could not be read
+  if (!result.success) return { status: "skipped", reason: result.error };
+
+  const requiredApprovals = Math.max(
+    0,
+    ...getResultArray<unknown>(result.data[0]).filter((n): n is number => typeof n === "number"),
+  );
+
+  if (requiredApprovals > 0) {
+    return { status: "ok", transferStatus: "awaiting_approval", requiredApprovals };
+  }
+  return { status: "ok", transferStatus: "submitted" };
+}
+
+// SET clause fields for a transfer being submitted (see resolveSubmissionStatus)
+function submissionSetFields(submission: { transferStatus: string; requiredApprovals?: number }): string[] {
+  return [
+    `status = ${JSON.stringify(submission.transferStatus)}`,
+    `required_approvals = ${submission.requiredApprovals ?? "NONE"}`,
+  ];
+}
+
+export async function listTransfers(options: {
+  accessToken: string | undefined;
+  filters: TransferFilters;
+  cursor?: string | null;
+  limit?: number;
+}): Promise<
+  { status: "ok"; transfers: Transfer[]; nextCursor: string | null } | { status: "skipped"; reason: string }
+> {
+  const { accessToken, filters, cursor } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  if (!toSurrealThingLiteral(filters.categoryId)) return { status: "skipped", reason: "invalid_category_id" };
+
+  const limit = Math.min(Math.max(Math.floor(options.limit ?? DEFAULT_TRANSFER_PAGE_SIZE), 1), MAX_TRANSFER_PAGE_SIZE);
+
+  const conditions = buildTransferConditions(filters);
+
+  if (cursor) {
+    const decoded = decodeTransferCursor(cursor);
+    if (!decoded) return { status: "skipped", reason: "invalid_cursor" };
+    const createdAtLiteral = `<datetime>${JSON.stringify(decoded.createdAt)}`;
+    conditions.push(
+      `(created_at < ${createdAtLiteral} OR (created_at = ${createdAtLiteral} AND id < ${toSurrealThingLiteral(decoded.id)}))`,
+    );
+  }
+
+  // Fetch one extra row to know whether another page exists
+  const query = `
+    ${splitParentsStatement(filters)}
+    LET $page = (
+      SELECT ${TRANSFER_SELECT_FIELDS}
+      FROM transfer
+      WHERE ${conditions.join("\n        AND ")}
+      ORDER BY created_at DESC, id DESC
+      LIMIT ${limit + 1}
+    );
+    RETURN $page;
+    SELECT ${TRANSFER_SELECT_FIELDS}
+    FROM transfer
+    WHERE link_role = ${JSON.stringify(SPLIT_LEG_ROLE)}
+      AND parent_transfer_id INSIDE $page[WHERE link_role = ${JSON.stringify(SPLIT_PARENT_ROLE)}].id
+    ORDER BY created_at ASC, id ASC;
+  `;
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query,
+    logName: "transferService.POST /sql (list transfers)",
+  });
+
+  if (!result.success) {
+    return { status: "skipped", reason: result.error };
+  }
+
+  const transfersRaw = getResultArray<Record<string, unknown>>(result.data[3]);
+  const transfers = transfersRaw.map(mapTransferRecord).filter((t) => t.id);
+
+  const legsByParent = new Map<string, Transfer[]>();
+  for (const leg of getResultArray<Record<string, unknown>>(result.data[4]).map(mapTransferRecord)) {
+    if (!leg.parentTransferId) continue;
+    legsByParent.set(leg.parentTransferId, [...(legsByParent.get(leg.parentTransferId) || []), leg]);
+  }
+  for (const transfer of transfers) {
+    if (transfer.linkRole === SPLIT_PARENT_ROLE) transfer.legs = legsByParent.get(transfer.id) || [];
+  }
+
+  const hasMore = transfers.length > limit;
+  const page = hasMore ? transfers.slice(0, limit) : transfers;
+  const last = page[page.length - 1];
+  const nextCursor = hasMore && last ? encodeTransferCursor(last) : null;
+
+  return { status: "ok", transfers: page, nextCursor };
+}
+
+// One transfer as listed by listTransfers (with its legs when it is a split parent), e.g. for links
+// that open a transfer's details
+export async function getTransfer(options: {
+  accessToken: string | undefined;
+  transferId: string;
+}): Promise<{ status: "ok"; transfer: Transfer } | { status: "skipped"; reason: string }> {
+  const { accessToken, transferId } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const transferLiteral = toSurrealThingLiteral(transferId);
+  if (!transferLiteral || !transferLiteral.startsWith("transfer:")) {
+    return { status: "skipped", reason: "invalid_transfer_id" };
+  }
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      SELECT ${TRANSFER_SELECT_FIELDS}, ${APPROVAL_COUNT_FIELD} FROM ${transferLiteral};
+      SELECT ${TRANSFER_SELECT_FIELDS}
+      FROM transfer
+      WHERE link_role = ${JSON.stringify(SPLIT_LEG_ROLE)} AND parent_transfer_id = ${transferLiteral}
+      ORDER BY created_at ASC, id ASC;
+    `,
+    logName: "transferService.POST /sql (get transfer)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+
+  const transferRaw = getResultArray<Record<string, unknown>>(result.data[0])[0];
+  if (!transferRaw) return { status: "skipped", reason: "transfer_not_found" };
+
+  const transfer = mapTransferRecord(transferRaw);
+  if (transfer.linkRole === SPLIT_PARENT_ROLE) {
+    transfer.legs = getResultArray<Record<string, unknown>>(result.data[1]).map(mapTransferRecord);
+  }
+  return { status: "ok", transfer };
+}
+
+export async function applyTransferAction(options: {
+  accessToken: string | undefined;
+  transferThingId: string;
+  action: TransferAction;
+  reason?: string;
+}): Promise<{ status: "updated"; transfer: Transfer } | { status: "skipped"; reason: string }> {
+  const { accessToken, transferThingId, action, reason } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const transferLiteral = toSurrealThingLiteral(transferThingId);
+  if (!transferLiteral || !transferLiteral.startsWith("transfer:")) {
+    return { status: "skipped", reason: "invalid_transfer_id" };
+  }
+
+  const currentResult = await executeSurrealQL({
+    token: accessToken,
+    query: `SELECT status, payment_channel, amount, from_account_id, link_role, ${SPLIT_STATUS_FIELD} FROM ${transferLiteral};`,
+    logName: "transferService.POST /sql (get transfer status)",
+  });
+
+  if (!currentResult.success) {
+    return { status: "skipped", reason: currentResult.error };
+  }
+
+  const current = getResultArray<{
+    status?: unknown;
+    payment_channel?: unknown;
+    amount?: unknown;
+    from_account_id?: unknown;
+    link_role?: unknown;
+    split_status?: unknown;
+  }>(currentResult.data[0])[0];
+  if (!current) return { status: "skipped", reason: "transfer_not_found" };
+  // Split legs move with their parent
+  if (current.link_role === SPLIT_LEG_ROLE) return { status: "skipped", reason: "split_leg" };
+
+  // A split parent is acted on through its legs; its own SPLIT_PARENT_STATUS never changes, and a
+  // parent without legs has no status any transition accepts
+  const isSplitParent = current.link_role === SPLIT_PARENT_ROLE;
+  let currentStatus = typeof current.status === "string" ? current.status : "draft";
+  if (isSplitParent) currentStatus = typeof current.split_status === "string" ? current.split_status : SPLIT_PARENT_STATUS;
+  const paymentChannel = current.payment_channel as Record<string, unknown> | undefined;
+  if (!canApplyTransferAction({ status: currentStatus, paymentChannel }, action)) {
+    return { status: "skipped", reason: "invalid_status_transition" };
+  }
+
+  const lock = await checkReconciliationLock(accessToken, { transferLiteral });
+  if (lock.status === "skipped") return lock;
+
+  if (currentStatus === "awaiting_approval" && (action === "approve" || action === "reject")) {
+    const reviewed = await reviewAwaitingTransfer({ accessToken, transferLiteral, action, reason });
+    // An approval short of the required count leaves the status alone; it shows up through transfer_approval
+    if (reviewed.status === "updated" && reviewed.transfer.status !== currentStatus) {
+      await recordTransferEvent({
+        accessToken,
+        transferLiteral,
+        kind: "status_changed",
+        fromStatus: currentStatus,
+        toStatus: reviewed.transfer.status,
+        text: reason?.trim() || undefined,
+      });
+    }
+    return reviewed;
+  }
+
+  let setFields = [`status = ${JSON.stringify(TRANSFER_TRANSITIONS[action].to)}`];
+  if (action === "submit") {
+    const fromAccountLiteral = toSurrealThingLiteral(thingIdToString(current.from_account_id) || "");
+    if (!fromAccountLiteral) return { status: "skipped", reason: "invalid_account_id" };
+    const submission = await resolveSubmissionStatus({
+      accessToken,
+      fromAccountLiteral,
+      amount: typeof current.amount === "number" ? current.amount : Number(current.amount),
+      channelId: typeof paymentChannel?.channel_id === "string" ? paymentChannel.channel_id : undefined,
+    });
+    if (submission.status === "skipped") return submission;
+    setFields = submissionSetFields(submission);
+  }
+  if (reason && reason.trim()) {
+    setFields.push(`status_reason = ${JSON.stringify(reason.trim())}`);
+  }
+
+  // Guard on the status we validated so a concurrent transition cannot be overwritten
+  const guard = `status = ${JSON.stringify(currentStatus)}`;
+  const updateStatement = isSplitParent
+    ? `UPDATE transfer SET ${setFields.join(", ")}
+      WHERE parent_transfer_id = ${transferLiteral} AND link_role = ${JSON.stringify(SPLIT_LEG_ROLE)} AND ${guard};`
+    : `UPDATE ${transferLiteral} SET ${setFields.join(", ")} WHERE ${guard};`;
+  const query = `
+    ${updateStatement}
+    SELECT ${TRANSFER_SELECT_FIELDS} FROM ${transferLiteral};
+  `;
+
+  const updateResult = await executeSurrealQL({
+    token: accessToken,
+    query,
+    logName: `transferService.POST /sql (${action} transfer)`,
+  });
+
+  if (!updateResult.success) {
+    return { status: "skipped", reason: updateResult.error };
+  }
+
+  const updated = getResultArray<unknown>(updateResult.data[0]);
+  if (!updated.length) {
+    return { status: "skipped", reason: "permission_denied_or_status_changed" };
+  }
+
+  const transferRaw = getResultArray<Record<string, unknown>>(updateResult.data[1])[0];
+  if (!transferRaw) return { status: "skipped", reason: "transfer_not_found" };
+
+  const transfer = mapTransferRecord(transferRaw);
+  await recordTransferEvent({
+    accessToken,
+    transferLiteral,
+    kind: "status_changed",
+    fromStatus: currentStatus,
+    toStatus: transfer.status,
+    text: reason?.trim() || undefined,
+  });
+  return { status: "updated", transfer };
+}
+
+// Approve or reject a transfer that is awaiting_approval. Only admins of the transfer's category
+// may review it, and never the transfer's creator; each admin approval is recorded in
+// transfer_approval and the transfer moves to "approved" once required_approvals distinct admins
+// have approved. The approval is counted in the same request that records it, so concurrent
+// approvals cannot each miss the other. A single rejection rejects it.
+async function reviewAwaitingTransfer(options: {
+  accessToken: string;
+  transferLiteral: string;
+  action: "approve" | "reject";
+  reason?: string;
+}): Promise<{ status: "updated"; transfer: Transfer } | { status: "skipped"; reason: string }> {
+  const { accessToken, transferLiteral, action, reason } = options;
+
+  const contextResult = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      SELECT VALUE id FROM user WHERE auth_sub = $token.sub LIMIT 1;
+      SELECT required_approvals, created_by, from_account_id.category_id AS category_id FROM ${transferLiteral};
+    `,
+    logName: "transferService.POST /sql (get approval context)",
+  });
+
+  if (!contextResult.success) return { status: "skipped", reason: contextResult.error };
+
+  const userLiteral = toSurrealThingLiteral(thingIdToString(getResultArray<unknown>(contextResult.data[0])[0]) || "");
+  if (!userLiteral) return { status: "skipped", reason: "user_not_found" };
+
+  const context = getResultArray<{ required_approvals?: unknown; created_by?: unknown; category_id?: unknown }>(
+    contextResult.data[1],
+  )[0];
+  if (!context) return { status: "skipped", reason: "transfer_not_found" };
+  if (action === "approve" && toSurrealThingLiteral(thingIdToString(context.created_by) || "") === userLiteral) {
+    return { status: "skipped", reason: "cannot_approve_own_transfer" };
+  }
+
+  const categoryLiteral = toSurrealThingLiteral(thingIdToString(context.category_id) || "");
+  if (!categoryLiteral) return { status: "skipped", reason: "invalid_category_id" };
+
+  const roleResult = await executeSurrealQL({
+    token: accessToken,
+    query: `SELECT VALUE role FROM category_user WHERE category_id = ${categoryLiteral} AND user_id = ${userLiteral};`,
+    logName: "transferService.POST /sql (get approver role)",
+  });
+
+  if (!roleResult.success) return { status: "skipped", reason: roleResult.error };
+  if (!getResultArray<unknown>(roleResult.data[0]).includes("admin")) {
+    return { status: "skipped", reason: "approver_not_admin" };
+  }
+
+  if (action === "approve") {
+    const approvalsResult = await executeSurrealQL({
+      token: accessToken,
+      query: `SELECT VALUE user_id FROM transfer_approval WHERE transfer_id = ${transferLiteral};`,
+      logName: "transferService.POST /sql (list transfer approvals)",
+    });
+
+    if (!approvalsResult.success) return { status: "skipped", reason: approvalsResult.error };
+
+    const approvers = new Set(
+      getResultArray<unknown>(approvalsResult.data[0])
+        .map((id) => thingIdToString(id))
+        .filter((id): id is string => !!id),
+    );
+    if (approvers.has(userLiteral)) return { status: "skipped", reason: "already_approved" };
+
+    const requiredApprovals = typeof context.required_approvals === "number" ? context.required_approvals : 1;
+    const approveResult = await executeSurrealQL({
+      token: accessToken,
+      query: `
+        CREATE transfer_approval CONTENT {
+          transfer_id: ${transferLiteral},
+          user_id: ${userLiteral},
+          created_at: time::now()
+        };
+        LET $approvals = array::len(array::distinct((SELECT VALUE user_id FROM transfer_approval WHERE transfer_id = ${transferLiteral})));
+        IF $approvals >= ${requiredApprovals} {
+          UPDATE ${transferLiteral} SET status = "approved" WHERE status = "awaiting_approval";
+        };
+        SELECT ${TRANSFER_SELECT_FIELDS}, ${APPROVAL_COUNT_FIELD} FROM ${transferLiteral};
+      `,
+      logName: "transferService.POST /sql (approve awaiting transfer)",
+    });
+
+    if (!approveResult.success) return { status: "skipped", reason: approveResult.error };
+    if (!getResultArray<unknown>(approveResult.data[0]).length) {
+      return { status: "skipped", reason: "permission_denied_or_status_changed" };
+    }
+
+    const transferRaw = getResultArray<Record<string, unknown>>(approveResult.data[3])[0];
+    if (!transferRaw) return { status: "skipped", reason: "transfer_not_found" };
+    return { status: "updated", transfer: mapTransferRecord(transferRaw) };
+  }
+
+  const setFields = `status = "rejected"${reason && reason.trim() ? `, status_reason = ${JSON.stringify(reason.trim())}` : ""}`;
+
+  const updateResult = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      UPDATE ${transferLiteral} SET ${setFields} WHERE status = "awaiting_approval";
+      SELECT ${TRANSFER_SELECT_FIELDS}, ${APPROVAL_COUNT_FIELD} FROM ${transferLiteral};
+    `,
+    logName: `transferService.POST /sql (${action} awaiting transfer)`,
+  });
+
+  if (!updateResult.success) return { status: "skipped", reason: updateResult.error };
+
+  if (!getResultArray<unknown>(updateResult.data[0]).length) {
+    return { status: "skipped", reason: "permission_denied_or_status_changed" };
+  }
+
+  const transferRaw = getResultArray<Record<string, unknown>>(updateResult.data[1])[0];
+  if (!transferRaw) return { status: "skipped", reason: "transfer_not_found" };
+
+  return { status: "updated", transfer: mapTransferRecord(transferRaw) };
+}
+
+// Transfers awaiting approval in categories where the current user is an admin, which the user
+// neither created nor has approved yet (the approvals inbox)
+export async function listTransfersAwaitingMyApproval(options: {
+  accessToken: string | undefined;
+}): Promise<{ status: "ok"; transfers: Transfer[] } | { status: "skipped"; reason: string }> {
+  const { accessToken } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const query = `
+    LET $me = (SELECT VALUE id FROM user WHERE auth_sub = $token.sub LIMIT 1)[0];
+    LET $admin_categories = (SELECT VALUE category_id FROM category_user WHERE user_id = $me AND role = "admin");
+    LET $approved = (SELECT VALUE transfer_id FROM transfer_approval WHERE user_id = $me);
+    SELECT ${TRANSFER_SELECT_FIELDS}, ${APPROVAL_COUNT_FIELD}
+    FROM transfer
+    WHERE status = "awaiting_approval"
+      AND from_account_id.category_id IN $admin_categories
+      AND created_by != $me
+      AND id NOTINSIDE $approved
+    ORDER BY created_at ASC
+    LIMIT ${MAX_TRANSFER_PAGE_SIZE};
+  `;
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query,
+    logName: "transferService.POST /sql (list transfers awaiting approval)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+
+  const transfersRaw = getResultArray<Record<string, unknown>>(result.data[3]);
+  return { status: "ok", transfers: transfersRaw.map(mapTransferRecord).filter((t) => t.id) };
+}
+
+// Resolve the SurrealDB user record for the access token (used for created_by)
+export async function getCurrentUserLiteral(
+  accessToken: string,
+): Promise<{ status: "ok"; userLiteral: string } | { status: "skipped"; reason: string; error: string; details?: string }> {
+  const userResult = await executeSurrealQL({
+    token: accessToken,
+    query: "SELECT VALUE id FROM user WHERE auth_sub = $token.sub LIMIT 1;",
+    logName: "transferService.POST /sql (get user)",
+  });
+
+  if (!userResult.success) {
+    return { status: "skipped", reason: userResult.error, error: "Failed to get user", details: userResult.details };
+  }
+
+  const userId = getResultArray(userResult.data[0])[0];
+  if (!userId) return { status: "skipped", reason: "user_not_found", error: "User not found" };
+
+  const userLiteral = toSurrealThingLiteral(String(userId));
+  if (!userLiteral) return { status: "skipped", reason: "invalid_user_id", error: "Invalid user ID" };
+
+  return { status: "ok", userLiteral };
+}
+
+// Payload checks that need no database access (shared by createTransfer and import dry runs)
+export function validateTransferInput(
+  input: TransferInput,
+):
+  | { status: "ok"; fromLiteral: string; toLiteral: string | null; amount: number; tags: string[] }
+  | { status: "invalid"; error: string; reason: string } {
+  const { fromAccountId, toAccountId, amount, type, paymentChannel } = input;
+
+  // Validate required fields - toAccountId is optional if paymentChannel is provided
+  if (!fromAccountId || !amount || !type) {
+    return { status: "invalid", error: "Missing required fields", reason: "missing_fields" };
+  }
+
+  // Either toAccountId or paymentChannel must be provided
+  if (!toAccountId && !paymentChannel) {
+    return { status: "invalid", error: "Either toAccountId or paymentChannel is required", reason: "missing_destination" };
+  }
+
+  if (typeof amount !== "number" || !(amount > 0)) {
+    return { status: "invalid", error: "Amount must be positive", reason: "invalid_amount" };
+  }
+
+  const fromLiteral = toSurrealThingLiteral(fromAccountId);
+  if (!fromLiteral) {
+    return { status: "invalid", error: "Invalid fromAccountId", reason: "invalid_account_id" };
+  }
+
+  let toLiteral = null;
+  if (toAccountId) {
+    toLiteral = toSurrealThingLiteral(toAccountId);
+    if (!toLiteral) {
+      return { status: "invalid", error: "Invalid toAccountId", reason: "invalid_account_id" };
+    }
+  }
+
+  const tags = validateTags(input.tags);
+  if (tags.status === "invalid") return tags;
+
+  return { status: "ok", fromLiteral, toLiteral, amount, tags: tags.tags };
+}
+
+// Validate and create a transfer. Shared by POST /api/transfers, the bulk import and scheduled
+// transfers so all apply the same rules. `userLiteral` may be passed to avoid looking the user up
+// once per transfer; `scheduledTransferLiteral` links the transfer to the schedule that created it.
+export async function createTransfer(options: {
+  accessToken: string | undefined;
+  input: TransferInput;
+  userLiteral?: string;
+  scheduledTransferLiteral?: string;
+}): Promise<
+  | { status: "created"; transfer: Record<string, unknown> }
+  | { status: "invalid"; error: string; reason: string }
+  | { status: "skipped"; step: "user" | "lock" | "approval_rules" | "fee_plan" | "create"; reason: string; error: string; details?: string }
+> {
+  const { accessToken, input } = options;
+  if (!accessToken) return { status: "skipped", step: "user", reason: "missing_access_token", error: "No access token" };
+
+  const validation = validateTransferInput(input);
+  if (validation.status === "invalid") return validation;
+  const { fromLiteral, toLiteral, amount, tags } = validation;
+  const { type, status, description, label, paymentChannel, createdAt, metadata, externalTransactionId } = input;
+
+  let userLiteral = options.userLiteral;
+  if (!userLiteral) {
+    const user = await getCurrentUserLiteral(accessToken);
+    if (user.status === "skipped") return { ...user, step: "user" };
+    userLiteral = user.userLiteral;
+  }
+
+  // Backdated transfers must not land inside a reconciled (locked) period
+  if (createdAt && !isNaN(new Date(createdAt).getTime())) {
+    const lock = await checkReconciliationLock(accessToken, {
+      accountLiterals: toLiteral ? [fromLiteral, toLiteral] : [fromLiteral],
+      createdAt: new Date(createdAt).toISOString(),
+    });
+    if (lock.status === "skipped") {
+      return { status: "skipped", step: "lock", reason: lock.reason, error: "Transfer date is in a reconciled period" };
+    }
+  }
+
+  let transferStatus = status || "draft";
+  let requiredApprovals: number | undefined;
+
+  // Submitted transfers (and any non-draft M-Pesa payout, so approval rules cannot be bypassed)
+  // go through the category's approval thresholds
+  if (transferStatus === "submitted" || (paymentChannel?.channelId === "MPESA" && transferStatus !== "draft")) {
+    const submission = await resolveSubmissionStatus({
+      accessToken,
+      fromAccountLiteral: fromLiteral,
+      amount,
+      channelId: paymentChannel?.channelId,
+    });
+    if (submission.status === "skipped") {
+      return { status: "skipped", step: "approval_rules", reason: submission.reason, error: "Failed to check approval rules" };
+    }
+    transferStatus = submission.transferStatus;
+    requiredApprovals = submission.requiredApprovals;
+  }
+
+  // Build the content object
+  let contentFields = `from_account_id: ${fromLiteral}`;
+
+  // Add to_account_id only if provided (not for payment channel transactions)
+  if (toLiteral) {
+    contentFields += `,\n  to_account_id: ${toLiteral}`;
+  }
+
+  contentFields += `,\n  amount: ${amount}`;
+  contentFields += `,\n  type: ${JSON.stringify(type)}`;
+  contentFields += `,\n  status: ${JSON.stringify(transferStatus)}`;
+  if (requiredApprovals) {
+    contentFields += `,\n  required_approvals: ${requiredApprovals}`;
+  }
+  contentFields += `,\n  created_by: ${userLiteral}`;
+
+  if (description) {
+    contentFields += `,\n  description: ${JSON.stringify(description)}`;
+  }
+
+  if (label) {
+    contentFields += `,\n  label: ${JSON.stringify(label)}`;
+  }
+
+  if (tags.length) {
+    contentFields += `,\n  tags: ${JSON.stringify(tags)}`;
+  }
+
+  // Add created_at if provided (for backdating manual transactions)
+  if (createdAt && !isNaN(new Date(createdAt).getTime())) {
+    contentFields += `,\n  created_at: <datetime>${JSON.stringify(createdAt)}`;
+  }
+
+  // Add payment_channel if provided
+  if (paymentChannel) {
+    const channel = buildPaymentChannelLiteral(paymentChannel);
+    if (channel.status === "invalid") return channel;
+    contentFields += `,\n  payment_channel: ${channel.literal}`;
+  }
+
+  // Add metadata if provided (for external account transfers)
+  if (metadata && typeof metadata === "object" && Object.keys(metadata).length > 0) {
+    contentFields += `,\n  metadata: ${JSON.stringify(metadata)}`;
+  }
+
+  // Add external_transaction_id if provided (required for external account transfers)
+  if (externalTransactionId) {
+    contentFields += `,\n  external_transaction_id: ${JSON.stringify(externalTransactionId)}`;
+  }
+
+  if (options.scheduledTransferLiteral) {
+    contentFields += `,\n  scheduled_transfer_id: ${options.scheduledTransferLiteral}`;
+  }
+
+  // M-Pesa payouts through an integration with a fee tariff record their charge once posted
+  if (paymentChannel?.channelId === "MPESA") {
+    const feePlan = await resolveFeePlan({ accessToken, fromLiteral, expenseAccountId: input.feeExpenseAccountId });
+    if (feePlan.status === "invalid") return feePlan;
+    if (feePlan.status === "skipped") {
+      return { status: "skipped", step: "fee_plan", reason: feePlan.reason, error: "Failed to look up the M-Pesa fee tariff" };
+    }
+    if (feePlan.literal) contentFields += `,\n  fee_plan: ${feePlan.literal}`;
+  }
+
+  // M-Pesa payouts also look up the source category, whose cached frequent recipients are now stale
+  const isMpesa = paymentChannel?.channelId === "MPESA";
+  const createResult = await executeSurrealQL({
+    token: accessToken,
+    query: `CREATE transfer CONTENT {
+  ${contentFields}
+};${isMpesa ? `\nSELECT VALUE category_id FROM ${fromLiteral};` : ""}`,
+    logName: "transferService.POST /sql (create transfer)",
+  });
+
+  if (!createResult.success) {
+    return {
+      status: "skipped",
+      step: "create",
+      reason: createResult.error,
+      error: "Failed to create transfer",
+      details: createResult.details,
+    };
+  }
+
+  const created = getResultArray<Record<string, unknown>>(createResult.data[0])[0];
+  if (!created) {
+    return {
+      status: "skipped",
+      step: "create",
+      reason: "permission_denied_create_transfer",
+      error: "Permission denied: You don't have permission to create this transfer",
+    };
+  }
+
+  if (isMpesa) {
+    const categoryId = thingIdToString(getResultArray<unknown>(createResult.data[1])[0]);
+    if (categoryId) invalidateFrequentRecipients(categoryId);
+  }
+
+  return { status: "created", transfer: created };
+}
+
+// Record one source amount split across several destination accounts: a parent transfer with the
+// total and one leg per destination (see transferSplit). Splits are plain account-to-account
+// transfers; payment channels and external transaction IDs do not apply.
+export async function createSplitTransfer(options: {
+  accessToken: string | undefined;
+  input: TransferInput & { legs: SplitLegInput[] };
+}): Promise<
+  | { status: "created"; transfer: Record<string, unknown> }
+  | { status: "invalid"; error: string; reason: string }
+  | { status: "skipped"; step: "user" | "lock" | "create"; reason: string; error: string; details?: string }
+> {
+  const { accessToken, input } = options;
+  if (!accessToken) return { status: "skipped", step: "user", reason: "missing_access_token", error: "No access token" };
+
+  const { fromAccountId, amount, type, description, label, createdAt, legs } = input;
+  if (!fromAccountId || !amount || !type) {
+    return { status: "invalid", error: "Missing required fields", reason: "missing_fields" };
+  }
+  if (typeof amount !== "number" || !(amount > 0)) {
+    return { status: "invalid", error: "Amount must be positive", reason: "invalid_amount" };
+  }
+  const fromLiteral = toSurrealThingLiteral(fromAccountId);
+  if (!fromLiteral) return { status: "invalid", error: "Invalid fromAccountId", reason: "invalid_account_id" };
+
+  const validation = validateSplitLegs({ fromAccountId, amount, legs });
+  if (validation.status === "invalid") return validation;
+
+  const tags = validateTags(input.tags);
+  if (tags.status === "invalid") return tags;
+
+  const legLiterals: string[] = [];
+  for (const leg of legs) {
+    const toLiteral = toSurrealThingLiteral(leg.toAccountId || "");
+    if (!toLiteral) return { status: "invalid", error: "Invalid toAccountId", reason: "invalid_account_id" };
+    legLiterals.push(toLiteral);
+  }
+
+  const transferStatus = input.status || "draft";
+  if (transferStatus !== "draft" && transferStatus !== "submitted") {
+    return { status: "invalid", error: "Splits are saved as draft or submitted", reason: "invalid_status" };
+  }
+
+  const user = await getCurrentUserLiteral(accessToken);
+  if (user.status === "skipped") return { ...user, step: "user" };
+
+  const hasCreatedAt = Boolean(createdAt && !isNaN(new Date(createdAt).getTime()));
+  if (hasCreatedAt) {
+    const lock = await checkReconciliationLock(accessToken, {
+      accountLiterals: [fromLiteral, ...legLiterals],
+      createdAt: new Date(createdAt as string).toISOString(),
+    });
+    if (lock.status === "skipped") {
+      return { status: "skipped", step: "lock", reason: lock.reason, error: "Transfer date is in a reconciled period" };
+    }
+  }
+
+  // Fields every leg shares with its parent
+  const sharedFields = [
+    `from_account_id: ${fromLiteral}`,
+    `type: ${JSON.stringify(type)}`,
+    `created_by: ${user.userLiteral}`,
+  ];
+  if (label) sharedFields.push(`label: ${JSON.stringify(label)}`);
+  if (hasCreatedAt) sharedFields.push(`created_at: <datetime>${JSON.stringify(createdAt)}`);
+
+  // The parent never posts; the chosen status goes on the legs
+  const parentFields = [
+    ...sharedFields,
+    `status: ${JSON.stringify(SPLIT_PARENT_STATUS)}`,
+    `amount: ${amount}`,
+    `link_role: ${JSON.stringify(SPLIT_PARENT_ROLE)}`,
+  ];
+  if (description) parentFields.push(`description: ${JSON.stringify(description)}`);
+  // Tags are on the parent only, which is the row listed, filtered and totalled
+  if (tags.tags.length) parentFields.push(`tags: ${JSON.stringify(tags.tags)}`);
+
+  const parentResult = await executeSurrealQL({
+    token: accessToken,
+    query: `CREATE transfer CONTENT {
+  ${parentFields.join(",\n  ")}
+};`,
+    logName: "transferService.POST /sql (create split transfer)",
+  });
+
+  if (!parentResult.success) {
+    return { status: "skipped", step: "create", reason: parentResult.error, error: "Failed to create transfer", details: parentResult.details };
+  }
+
+  const parent = getResultArray<Record<string, unknown>>(parentResult.data[0])[0];
+  const parentLiteral = toSurrealThingLiteral(thingIdToString(parent?.id) || "");
+  if (!parent || !parentLiteral) {
+    return {
+      status: "skipped",
+      step: "create",
+      reason: "permission_denied_create_transfer",
+      error: "Permission denied: You don't have permission to create this transfer",
+    };
+  }
+
+  const legRecords = legs.map((leg, index) => {
+    const fields = [
+      ...sharedFields,
+      `status: ${JSON.stringify(transferStatus)}`,
+      `to_account_id: ${legLiterals[index]}`,
+      `amount: ${leg.amount}`,
+      `parent_transfer_id: ${parentLiteral}`,
+      `link_role: ${JSON.stringify(SPLIT_LEG_ROLE)}`,
+    ];
+    const legDescription = leg.description?.trim() || description;
+    if (legDescription) fields.push(`description: ${JSON.stringify(legDescription)}`);
+    return `{ ${fields.join(", ")} }`;
+  });
+
+  const legsResult = await executeSurrealQL({
+    token: accessToken,
+    query: `INSERT INTO transfer [${legRecords.join(",\n")}];`,
+    logName: "transferService.POST /sql (create split legs)",
+  });
+
+  if (!legsResult.success || getResultArray<unknown>(legsResult.data[0]).length !== legs.length) {
+    // Never leave a parent whose legs do not add up to it
+    await executeSurrealQL({
+      token: accessToken,
+      query: `DELETE transfer WHERE parent_transfer_id = ${parentLiteral}; DELETE ${parentLiteral};`,
+      logName: "transferService.POST /sql (discard split transfer)",
+    });
+    return {
+      status: "skipped",
+      step: "create",
+      reason: legsResult.success ? "permission_denied_create_transfer" : legsResult.error,
+      error: "Failed to create split legs",
+      details: legsResult.success ? undefined : legsResult.details,
+    };
+  }
+
+  return { status: "created", transfer: parent };
+}
+
+// The transfer a reversal belongs to (the given transfer, or its parent when it is a reversal itself)
+// with all of its reversals
+export async function getTransferReversals(options: {
+  accessToken: string | undefined;
+  transferThingId: string;
+}): Promise<
+  { status: "ok"; original: Transfer; reversals: Transfer[]; refundable: number } | { status: "skipped"; reason: string }
+> {
+  const { accessToken, transferThingId } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const transferLiteral = toSurrealThingLiteral(transferThingId);
+  if (!transferLiteral || !transferLiteral.startsWith("transfer:")) {
+    return { status: "skipped", reason: "invalid_transfer_id" };
+  }
+
+  const query = `
+    LET $given = (SELECT id, parent_transfer_id, link_role FROM ${transferLiteral})[0];
+    LET $original = IF $given.link_role = ${JSON.stringify(REVERSAL_ROLE)} THEN $given.parent_transfer_id ELSE $given.id END;
+    SELECT ${TRANSFER_SELECT_FIELDS} FROM $original;
+    SELECT ${TRANSFER_SELECT_FIELDS} FROM transfer
+      WHERE parent_transfer_id = $original AND link_role = ${JSON.stringify(REVERSAL_ROLE)}
+      ORDER BY created_at ASC, id ASC;
+  `;
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query,
+    logName: "transferService.POST /sql (get transfer reversals)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+
+  const originalRaw = getResultArray<Record<string, unknown>>(result.data[2])[0];
+  if (!originalRaw) return { status: "skipped", reason: "transfer_not_found" };
+
+  const original = mapTransferRecord(originalRaw);
+  const reversals = getResultArray<Record<string, unknown>>(result.data[3]).map(mapTransferRecord);
+  return { status: "ok", original, reversals, refundable: refundableAmount(original, reversals) };
+}
+
+// Reverse all (amount omitted) or part of a posted transfer with a counter-transfer from its to
+// account back to its from account
+export async function createReversalTransfer(options: {
+  accessToken: string | undefined;
+  transferThingId: string;
+  amount?: number;
+  type?: string;
+  status?: string;
+  description?: string;
+}): Promise<{ status: "created"; transfer: Transfer } | { status: "skipped"; reason: string }> {
+  const { accessToken, transferThingId, description } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const type = (options.type || "refund") as ReversalType;
+  if (!REVERSAL_TYPES.includes(type)) return { status: "skipped", reason: "invalid_type" };
+
+  const transferStatus = options.status || "submitted";
+  if (transferStatus !== "draft" && transferStatus !== "submitted") return { status: "skipped", reason: "invalid_status" };
+
+  const current = await getTransferReversals({ accessToken, transferThingId });
+  if (current.status === "skipped") return current;
+  const { original, refundable } = current;
+  if (original.id !== thingIdToString(transferThingId)) return { status: "skipped", reason: "cannot_reverse_reversal" };
+  if (!canReverseTransfer(original)) return { status: "skipped", reason: "transfer_not_reversible" };
+
+  const amount = options.amount ?? refundable;
+  if (typeof amount !== "number" || !(amount > 0)) return { status: "skipped", reason: "invalid_amount" };
+  if (Math.round(amount * 100) > Math.round(refundable * 100)) {
+    return { status: "skipped", reason: "exceeds_refundable_amount" };
+  }
+
+  const originalLiteral = toSurrealThingLiteral(original.id);
+  const fromLiteral = toSurrealThingLiteral(original.toAccountId || "");
+  const toLiteral = toSurrealThingLiteral(original.fromAccountId);
+  if (!originalLiteral || !fromLiteral || !toLiteral) return { status: "skipped", reason: "invalid_account_id" };
+
+  const lock = await checkReconciliationLock(accessToken, {
+    accountLiterals: [fromLiteral, toLiteral],
+    createdAt: new Date().toISOString(),
+  });
+  if (lock.status === "skipped") return lock;
+
+  const fields = [
+    `from_account_id: ${fromLiteral}`,
+    `to_account_id: ${toLiteral}`,
+    `amount: ${amount}`,
+    `type: ${JSON.stringify(type)}`,
+    `status: ${JSON.stringify(transferStatus)}`,
+    "created_by: $me",
+    `parent_transfer_id: ${originalLiteral}`,
+    `link_role: ${JSON.stringify(REVERSAL_ROLE)}`,
+    `description: ${JSON.stringify(description?.trim() || `Reversal of ${original.label || original.description || original.id}`)}`,
+  ];
+  if (original.label) fields.push(`label: ${JSON.stringify(original.label)}`);
+  // Keep the external party so the reversal shows the same counterparty name
+  const externalAccount = original.metadata?.external_account;
+  if (externalAccount && typeof externalAccount === "object") {
+    fields.push(`metadata: ${JSON.stringify({ external_account: externalAccount })}`);
+  }
+
+  // Re-check the reversed total in the same request so two refunds started together cannot
+  // both take the last of the refundable amount
+  const query = `
+    LET $me = (SELECT VALUE id FROM user WHERE auth_sub = $token.sub LIMIT 1)[0];
+    LET $reversed = math::sum((SELECT VALUE amount FROM transfer
+      WHERE parent_transfer_id = ${originalLiteral}
+        AND link_role = ${JSON.stringify(REVERSAL_ROLE)}
+        AND status NOTINSIDE ${JSON.stringify(VOID_REVERSAL_STATUSES)}));
+    IF $reversed + ${amount} <= ${originalLiteral}.amount {
+      RETURN (SELECT ${TRANSFER_SELECT_FIELDS} FROM (CREATE transfer CONTENT {
+        ${fields.join(",\n        ")}
+      }));
+    } ELSE {
+      RETURN [];
+    };
+  `;
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query,
+    logName: "transferService.POST /sql (create reversal transfer)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+
+  const createdRaw = getResultArray<Record<string, unknown>>(result.data[2])[0];
+  if (!createdRaw) return { status: "skipped", reason: "exceeds_refundable_amount_or_permission_denied" };
+
+  return { status: "created", transfer: mapTransferRecord(createdRaw) };
+}
+
+export type ImportRowResult = {
+  row: number;
+  // "ready" is only reported by dry runs
+  status: "ready" | "created" | "duplicate" | "invalid" | "failed";
+  reason?: string;
+  transferId?: string;
+};
+
+// Create draft transfers from imported statement rows, skipping rows whose external transaction ID
+// already exists (or repeats within the batch). With dryRun nothing is written; rows are only
+// validated and checked for duplicates so the import preview can show what would happen.
+export async function importDraftTransfers(options: {
+  accessToken: string | undefined;
+  rows: Array<{ row: number; input: TransferInput }>;
+  dryRun?: boolean;
+}): Promise<{ status: "ok"; results: ImportRowResult[] } | { status: "skipped"; reason: string }> {
+  const { accessToken, rows, dryRun } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const externalIds = rows
+    .map((r) => r.input.externalTransactionId)
+    .filter((id): id is string => typeof id === "string" && id.length > 0);
+
+  const existingIds = new Set<string>();
+  if (externalIds.length > 0) {
+    const existingResult = await executeSurrealQL({
+      token: accessToken,
+      query: `SELECT VALUE external_transaction_id FROM transfer WHERE external_transaction_id INSIDE ${JSON.stringify(externalIds)};`,
+      logName: "transferService.POST /sql (find existing external ids)",
+    });
+    if (!existingResult.success) return { status: "skipped", reason: existingResult.error };
+    for (const id of getResultArray<unknown>(existingResult.data[0])) {
+      if (typeof id === "string") existingIds.add(id);
+    }
+  }
+
+  let userLiteral: string | undefined;
+  if (!dryRun) {
+    const user = await getCurrentUserLiteral(accessToken);
+    if (user.status === "skipped") return { status: "skipped", reason: user.reason };
+    userLiteral = user.userLiteral;
+  }
+
+  const results: ImportRowResult[] = [];
+  for (const { row, input } of rows) {
+    const externalId = input.externalTransactionId;
+    if (externalId && existingIds.has(externalId)) {
+      results.push({ row, status: "duplicate", reason: "external_transaction_id_exists" });
+      continue;
+    }
+
+    // Imports only ever create drafts; they are reviewed and submitted like any other draft
+    const draftInput: TransferInput = { ...input, status: "draft", paymentChannel: undefined, metadata: null };
+
+    if (dryRun) {
+      const validation = validateTransferInput(draftInput);
+      results.push(
+        validation.status === "invalid" ? { row, status: "invalid", reason: validation.reason } : { row, status: "ready" },
+      );
+    } else {
+      const created = await createTransfer({ accessToken, input: draftInput, userLiteral });
+      if (created.status === "created") {
+        results.push({ row, status: "created", transferId: thingIdToString(created.transfer.id) });
+      } else {
+        results.push({ row, status: created.status === "invalid" ? "invalid" : "failed", reason: created.reason });
+      }
+    }
+
+    const outcome = results[results.length - 1].status;
+    if (externalId && (outcome === "created" || outcome === "ready")) existingIds.add(externalId);
+  }
+
+  return { status: "ok", results };
+}
+
+// Statuses from which a transfer's content may still be changed or the record removed
+const EDITABLE_TRANSFER_STATUSES = ["draft"];
+
+export async function getTransferStatus(
+  accessToken: string,
+  transferLiteral: string,
+): Promise<
+  | { status: "ok"; transferStatus: string; linkRole?: string; channelId?: string; categoryId?: string }
+  | { status: "skipped"; reason: string }
+> {
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `SELECT status, link_role, payment_channel.channel_id AS channel_id, from_account_id.category_id AS category_id, ${SPLIT_STATUS_FIELD} FROM ${transferLiteral};`,
+    logName: "transferService.POST /sql (get transfer status)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+
+  const current = getResultArray<Record<string, unknown>>(result.data[0])[0];
+  if (!current) return { status: "skipped", reason: "transfer_not_found" };
+
+  return {
+    status: "ok",
+    transferStatus:
+      typeof current.split_status === "string" ? current.split_status : typeof current.status === "string" ? current.status : "draft",
+    linkRole: typeof current.link_role === "string" ? current.link_role : undefined,
+    channelId: typeof current.channel_id === "string" ? current.channel_id : undefined,
+    categoryId: thingIdToString(current.category_id) || undefined,
+  };
+}
+
+// A locked reconciliation freezes its account's transfers dated inside the reconciled period until it
+// is reopened. Checks where an existing transfer sits, or where a new/moved transfer would land.
+export async function checkReconciliationLock(
+  accessToken: string,
+  target: { transferLiteral: string } | { accountLiterals: string[]; createdAt: string },
+): Promise<{ status: "ok" } | { status: "skipped"; reason: string }> {
+  const statements =
+    "transferLiteral" in target
+      ? [
+          `LET $t = (SELECT from_account_id, to_account_id, created_at FROM ${target.transferLiteral})[0]`,
+          "LET $accounts = [$t.from_account_id, $t.to_account_id]",
+          "LET $at = $t.created_at",
+        ]
+      : [`LET $accounts = [${target.accountLiterals.join(", ")}]`, `LET $at = <datetime>${JSON.stringify(target.createdAt)}`];
+  statements.push(
+    `SELECT VALUE id FROM reconciliation
+      WHERE status = "locked" AND account_id INSIDE $accounts AND period_start <= $at AND period_end >= $at
+      LIMIT 1`,
+  );
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: statements.join(";\n") + ";",
+    logName: "transferService.POST /sql (check reconciliation lock)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+  if (getResultArray<unknown>(result.data[statements.length - 1]).length > 0) {
+    return { status: "skipped", reason: "period_locked" };
+  }
+  return { status: "ok" };
+}
+
+export type TransferInput = {
+  fromAccountId?: string;
+  toAccountId?: string;
+  amount?: number;
+  type?: string;
+  status?: string;
+  description?: string;
+  label?: string;
+  // Validated with validateTags (see transferTags)
+  tags?: unknown;
+  createdAt?: string;
+  metadata?: Record<string, unknown> | null;
+  externalTransactionId?: string;
+  paymentChannel?: PaymentChannelInput;
+  // M-Pesa payouts: expense account for the fee transfer (omitted: the integration's default, null: none)
+  feeExpenseAccountId?: string | null;
+};
+
+// Replace the editable content of a draft. Optional text fields that are omitted are cleared;
+// createdAt is only changed when provided. `status` may be "draft" or "submitted" (save & submit).
+export async function updateDraftTransfer(options: {
+  accessToken: string | undefined;
+  transferThingId: string;
+  input: TransferInput;
+}): Promise<{ status: "updated"; transfer: Transfer } | { status: "skipped"; reason: string }> {
+  const { accessToken, transferThingId, input } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const transferLiteral = toSurrealThingLiteral(transferThingId);
+  if (!transferLiteral || !transferLiteral.startsWith("transfer:")) {
+    return { status: "skipped", reason: "invalid_transfer_id" };
+  }
+
+  if (!input.fromAccountId || !input.amount || !input.type) return { status: "skipped", reason: "missing_fields" };
+  if (!input.toAccountId && !input.paymentChannel) return { status: "skipped", reason: "missing_destination" };
+  if (typeof input.amount !== "number" || input.amount <= 0) return { status: "skipped", reason: "invalid_amount" };
+
+  const nextStatus = input.status || "draft";
+  if (nextStatus !== "draft" && nextStatus !== "submitted") return { status: "skipped", reason: "invalid_status" };
+
+  const fromLiteral = toSurrealThingLiteral(input.fromAccountId);
+  if (!fromLiteral) return { status: "skipped", reason: "invalid_account_id" };
+
+  const tags = validateTags(input.tags);
+  if (tags.status === "invalid") return { status: "skipped", reason: tags.reason };
+
+  const setFields: string[] = [`from_account_id = ${fromLiteral}`];
+
+  if (input.paymentChannel) {
+    const channel = buildPaymentChannelLiteral(input.paymentChannel);
+    if (channel.status === "invalid") return { status: "skipped", reason: channel.reason };
+    setFields.push("to_account_id = NONE", `payment_channel = ${channel.literal}`);
+  } else {
+    const toLiteral = toSurrealThingLiteral(input.toAccountId || "");
+    if (!toLiteral) return { status: "skipped", reason: "invalid_account_id" };
+    setFields.push(`to_account_id = ${toLiteral}`, "payment_channel = NONE");
+  }
+
+  // The fee plan follows the edited channel and source account, as in createTransfer
+  if (input.paymentChannel?.channelId === "MPESA") {
+    const feePlan = await resolveFeePlan({ accessToken, fromLiteral, expenseAccountId: input.feeExpenseAccountId });
+    if (feePlan.status !== "ok") return { status: "skipped", reason: feePlan.reason };
+    setFields.push(`fee_plan = ${feePlan.literal || "NONE"}`);
+  } else {
+    setFields.push("fee_plan = NONE");
+  }
+
+  setFields.push(
+    `amount = ${input.amount}`,
+    `type = ${JSON.stringify(input.type)}`,
+    `description = ${input.description ? JSON.stringify(input.description) : "NONE"}`,
+    `label = ${input.label ? JSON.stringify(input.label) : "NONE"}`,
+    `tags = ${tags.tags.length ? JSON.stringify(tags.tags) : "NONE"}`,
+    `external_transaction_id = ${input.externalTransactionId ? JSON.stringify(input.externalTransactionId) : "NONE"}`,
+    `metadata = ${input.metadata && Object.keys(input.metadata).length > 0 ? JSON.stringify(input.metadata) : "NONE"}`,
+  );
+
+  if (input.createdAt) {
+    if (isNaN(new Date(input.createdAt).getTime())) return { status: "skipped", reason: "invalid_created_at" };
+    setFields.push(`created_at = <datetime>${JSON.stringify(input.createdAt)}`);
+  }
+
+  const current = await getTransferStatus(accessToken, transferLiteral);
+  if (current.status === "skipped") return current;
+  if (!EDITABLE_TRANSFER_STATUSES.includes(current.transferStatus)) {
+    return { status: "skipped", reason: "transfer_not_editable" };
+  }
+  // Splits are deleted and recorded again rather than edited leg by leg
+  if (current.linkRole === SPLIT_PARENT_ROLE || current.linkRole === SPLIT_LEG_ROLE) {
+    return { status: "skipped", reason: "split_not_editable" };
+  }
+
+  const lock = await checkReconciliationLock(accessToken, { transferLiteral });
+  if (lock.status === "skipped") return lock;
+  if (input.createdAt) {
+    const toLiteral = toSurrealThingLiteral(input.toAccountId || "");
+    const movedLock = await checkReconciliationLock(accessToken, {
+      accountLiterals: toLiteral ? [fromLiteral, toLiteral] : [fromLiteral],
+      createdAt: new Date(input.createdAt).toISOString(),
+    });
+    if (movedLock.status === "skipped") return movedLock;
+  }
+
+  if (nextStatus === "submitted") {
+    const submission = await resolveSubmissionStatus({
+      accessToken,
+      fromAccountLiteral: fromLiteral,
+      amount: input.amount,
+      channelId: input.paymentChannel?.channelId,
+    });
+    if (submission.status === "skipped") return submission;
+    setFields.push(...submissionSetFields(submission));
+  } else {
+    setFields.push(`status = "draft"`);
+  }
+
+  // An M-Pesa payout added, changed or removed changes its category's frequent recipients
+  const touchesMpesa = current.channelId === "MPESA" || input.paymentChannel?.channelId === "MPESA";
+  const query = `
+    UPDATE ${transferLiteral} SET
+      ${setFields.join(",\n      ")}
+    WHERE status IN ${JSON.stringify(EDITABLE_TRANSFER_STATUSES)};
+    SELECT ${TRANSFER_SELECT_FIELDS} FROM ${transferLiteral};${touchesMpesa ? `\n    SELECT VALUE category_id FROM ${fromLiteral};` : ""}
+  `;
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query,
+    logName: "transferService.POST /sql (update draft transfer)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+
+  const updated = getResultArray<unknown>(result.data[0]);
+  if (!updated.length) return { status: "skipped", reason: "permission_denied_or_status_changed" };
+
+  const transferRaw = getResultArray<Record<string, unknown>>(result.data[1])[0];
+  if (!transferRaw) return { status: "skipped", reason: "transfer_not_found" };
+
+  if (touchesMpesa) {
+    const categoryId = thingIdToString(getResultArray<unknown>(result.data[2])[0]);
+    if (categoryId) invalidateFrequentRecipients(categoryId);
+    if (current.categoryId && current.categoryId !== categoryId) invalidateFrequentRecipients(current.categoryId);
+  }
+
+  const transfer = mapTransferRecord(transferRaw);
+  await recordTransferEvent({
+    accessToken,
+    transferLiteral,
+    kind: "edited",
+    fromStatus: current.transferStatus,
+    toStatus: transfer.status,
+  });
+  return { status: "updated", transfer };
+}
+
+export async function deleteDraftTransfer(options: {
+  accessToken: string | undefined;
+  transferThingId: string;
+}): Promise<{ status: "deleted" } | { status: "skipped"; reason: string }> {
+  const { accessToken, transferThingId } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const transferLiteral = toSurrealThingLiteral(transferThingId);
+  if (!transferLiteral || !transferLiteral.startsWith("transfer:")) {
+    return { status: "skipped", reason: "invalid_transfer_id" };
+  }
+
+  const current = await getTransferStatus(accessToken, transferLiteral);
+  if (current.status === "skipped") return current;
+  if (!EDITABLE_TRANSFER_STATUSES.includes(current.transferStatus)) {
+    return { status: "skipped", reason: "transfer_not_editable" };
+  }
+  if (current.linkRole === SPLIT_LEG_ROLE) return { status: "skipped", reason: "split_leg" };
+
+  const lock = await checkReconciliationLock(accessToken, { transferLiteral });
+  if (lock.status === "skipped") return lock;
+
+  // Deleting a split parent deletes its legs; the parent goes once none of them is left
+  const editable = JSON.stringify(EDITABLE_TRANSFER_STATUSES);
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      DELETE transfer
+        WHERE parent_transfer_id = ${transferLiteral}
+          AND link_role = ${JSON.stringify(SPLIT_LEG_ROLE)}
+          AND status IN ${editable};
+      DELETE ${transferLiteral}
+        WHERE status IN ${editable}
+          OR (status = ${JSON.stringify(SPLIT_PARENT_STATUS)}
+            AND array::len((SELECT id FROM transfer WHERE parent_transfer_id = ${transferLiteral} AND link_role = ${JSON.stringify(SPLIT_LEG_ROLE)})) = 0)
+        RETURN BEFORE;
+    `,
+    logName: "transferService.POST /sql (delete draft transfer)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+
+  const deleted = getResultArray<unknown>(result.data[1]);
+  if (!deleted.length) return { status: "skipped", reason: "permission_denied_or_status_changed" };
+
+  if (current.channelId === "MPESA" && current.categoryId) invalidateFrequentRecipients(current.categoryId);
+
+  return { status: "deleted" };
+}
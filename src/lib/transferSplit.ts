@@ -0,0 +1,62 @@
+// Split transfers: one source amount divided across several destination accounts. Stored as a
+// parent transfer (link_role "split") that carries the total and no destination of its own, and one
+// child transfer per destination (link_role "split_leg", parent_transfer_id → parent). Only the legs
+// move money: the parent keeps status "split", which no lifecycle transition or posting query
+// accepts, and is shown with its legs' status. Lifecycle actions and draft deletion on the parent
+// apply to its legs. Shared by the manual transfer form and transferService.
+
+export const SPLIT_PARENT_ROLE = "split";
+export const SPLIT_LEG_ROLE = "split_leg";
+export const SPLIT_PARENT_STATUS = "split";
+
+// Selected from a transfer: for a split parent, the status it is shown and acted on with, which is
+// its legs' (they always move together); NONE for any other transfer
+export const SPLIT_STATUS_FIELD = `(IF link_role = ${JSON.stringify(SPLIT_PARENT_ROLE)} THEN (SELECT VALUE status FROM transfer WHERE parent_transfer_id = $parent.id AND link_role = ${JSON.stringify(SPLIT_LEG_ROLE)} LIMIT 1)[0] END) AS split_status`;
+
+export const MIN_SPLIT_LEGS = 2;
+export const MAX_SPLIT_LEGS = 20;
+
+export type SplitLegInput = {
+  toAccountId?: string;
+  amount?: number;
+  description?: string;
+};
+
+function toCents(value: number): number {
+  return Math.round(value * 100);
+}
+
+export function validateSplitLegs(options: {
+  fromAccountId: string;
+  amount: number;
+  legs: SplitLegInput[];
+}): { status: "ok" } | { status: "invalid"; error: string; reason: string } {
+  const { fromAccountId, amount, legs } = options;
+
+  if (legs.length < MIN_SPLIT_LEGS) {
+    return { status: "invalid", error: `A split needs at least ${MIN_SPLIT_LEGS} destinations`, reason: "too_few_split_legs" };
+  }
+  if (legs.length > MAX_SPLIT_LEGS) {
+    return { status: "invalid", error: `A split can have at most ${MAX_SPLIT_LEGS} destinations`, reason: "too_many_split_legs" };
+  }
+
+  let allocated = 0;
+  for (const leg of legs) {
+    if (!leg.toAccountId) {
+      return { status: "invalid", error: "Every split destination needs an account", reason: "missing_destination" };
+    }
+    if (leg.toAccountId === fromAccountId) {
+      return { status: "invalid", error: "A split cannot pay back into its source account", reason: "invalid_split_destination" };
+    }
+    if (typeof leg.amount !== "number" || !(leg.amount > 0)) {
+      return { status: "invalid", error: "Every split amount must be positive", reason: "invalid_amount" };
+    }
+    allocated += toCents(leg.amount);
+  }
+
+  if (allocated !== toCents(amount)) {
+    return { status: "invalid", error: "Split amounts must add up to the total", reason: "split_amount_mismatch" };
+  }
+
+  return { status: "ok" };
+}
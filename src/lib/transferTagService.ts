@@ -0,0 +1,149 @@
+import { executeSurrealQL, getResultArray, toSurrealThingLiteral } from "@/lib/surrealdb";
+import { SPLIT_LEG_ROLE } from "@/lib/transferSplit";
+import { buildTransferConditions, splitParentsStatement, type TransferFilters } from "@/lib/transferService";
+import {
+  MAX_BULK_TAG_TRANSFERS,
+  MAX_TAGS_PER_TRANSFER,
+  validateTags,
+  type TagTotal,
+  type TagUsage,
+} from "@/lib/transferTags";
+
+function mapTagRows(rows: Record<string, unknown>[]): { tag: string; count: number; total: number }[] {
+  return rows
+    .filter((row) => typeof row.tags === "string" && row.tags)
+    .map((row) => ({
+      tag: row.tags as string,
+      count: typeof row.count === "number" ? row.count : Number(row.count) || 0,
+      total: typeof row.total === "number" ? row.total : Number(row.total) || 0,
+    }));
+}
+
+// Tags used on the category's transfers, most used first (for autocomplete and the tag filter)
+export async function listCategoryTags(options: {
+  accessToken: string | undefined;
+  categoryId: string;
+}): Promise<{ status: "ok"; tags: TagUsage[] } | { status: "skipped"; reason: string }> {
+  const { accessToken, categoryId } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const categoryLiteral = toSurrealThingLiteral(categoryId);
+  if (!categoryLiteral) return { status: "skipped", reason: "invalid_category_id" };
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      SELECT tags, count() AS count
+      FROM transfer
+      WHERE (from_account_id.category_id = ${categoryLiteral} OR to_account_id.category_id = ${categoryLiteral})
+        AND link_role != ${JSON.stringify(SPLIT_LEG_ROLE)}
+        AND array::len(tags ?? []) > 0
+      SPLIT tags
+      GROUP BY tags;
+    `,
+    logName: "transferTagService.POST /sql (list category tags)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+
+  const tags = mapTagRows(getResultArray<Record<string, unknown>>(result.data[0]))
+    .map(({ tag, count }) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  return { status: "ok", tags };
+}
+
+// Count and sum of amounts per tag over the transfers matching the list filters. A transfer with
+// several tags counts towards each of them, so the per-tag totals do not add up to the overall total.
+export async function getTagTotals(options: {
+  accessToken: string | undefined;
+  filters: TransferFilters;
+}): Promise<{ status: "ok"; totals: TagTotal[] } | { status: "skipped"; reason: string }> {
+  const { accessToken, filters } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+  if (!toSurrealThingLiteral(filters.categoryId)) return { status: "skipped", reason: "invalid_category_id" };
+
+  const conditions = [...buildTransferConditions(filters), "array::len(tags ?? []) > 0"];
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      ${splitParentsStatement(filters)}
+      SELECT tags, count() AS count, math::sum(amount) AS total
+      FROM transfer
+      WHERE ${conditions.join("\n        AND ")}
+      SPLIT tags
+      GROUP BY tags;
+    `,
+    logName: "transferTagService.POST /sql (tag totals)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+
+  const totals = mapTagRows(getResultArray<Record<string, unknown>>(result.data[2])).sort(
+    (a, b) => b.total - a.total || a.tag.localeCompare(b.tag),
+  );
+  return { status: "ok", totals };
+}
+
+// Add and/or remove tags on many transfers at once. Transfers the caller may not update, split legs
+// and transfers that would end up with more than the per-transfer limit are left as they are.
+export async function bulkTagTransfers(options: {
+  accessToken: string | undefined;
+  transferIds: unknown;
+  add?: unknown;
+  remove?: unknown;
+}): Promise<
+  | { status: "ok"; updated: number; skipped: number }
+  | { status: "invalid"; error: string; reason: string }
+  | { status: "skipped"; reason: string }
+> {
+  const { accessToken, transferIds } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  if (!Array.isArray(transferIds) || transferIds.length === 0) {
+    return { status: "invalid", error: "Select at least one transfer", reason: "missing_transfer_ids" };
+  }
+  if (transferIds.length > MAX_BULK_TAG_TRANSFERS) {
+    return {
+      status: "invalid",
+      error: `At most ${MAX_BULK_TAG_TRANSFERS} transfers can be tagged at once`,
+      reason: "too_many_transfers",
+    };
+  }
+
+  const literals: string[] = [];
+  for (const id of transferIds) {
+    const literal = typeof id === "string" ? toSurrealThingLiteral(id) : null;
+    if (!literal || !literal.startsWith("transfer:")) {
+      return { status: "invalid", error: "Invalid transferId", reason: "invalid_transfer_id" };
+    }
+    if (!literals.includes(literal)) literals.push(literal);
+  }
+
+  const add = validateTags(options.add);
+  if (add.status === "invalid") return add;
+  const remove = validateTags(options.remove, Number.MAX_SAFE_INTEGER);
+  if (remove.status === "invalid") return remove;
+  if (!add.tags.length && !remove.tags.length) {
+    return { status: "invalid", error: "Choose tags to add or remove", reason: "missing_tags" };
+  }
+
+  // Only the selected records are touched; `status != NONE` skips ids that no longer exist
+  const nextTags = `array::complement(array::union(tags ?? [], ${JSON.stringify(add.tags)}), ${JSON.stringify(remove.tags)})`;
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      UPDATE [${literals.join(", ")}] SET tags = ${nextTags}
+      WHERE status != NONE
+        AND link_role != ${JSON.stringify(SPLIT_LEG_ROLE)}
+        AND array::len(${nextTags}) <= ${MAX_TAGS_PER_TRANSFER}
+      RETURN id;
+    `,
+    logName: "transferTagService.POST /sql (bulk tag transfers)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+
+  const updated = getResultArray<unknown>(result.data[0]).length;
+  return { status: "ok", updated, skipped: literals.length - updated };
+}
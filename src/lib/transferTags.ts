@@ -0,0 +1,51 @@
+// Tags on transfers (transfer.tags, an array of strings). Tags are stored normalised (trimmed,
+// lower-case, single spaces) so "Rent" and " rent " are the same tag.
+
+export const MAX_TAGS_PER_TRANSFER = 10;
+export const MAX_TAG_LENGTH = 32;
+export const MAX_BULK_TAG_TRANSFERS = 200;
+
+// Checked after normalisation, so upper-case input is fine
+const TAG_PATTERN = /^[a-z0-9][a-z0-9 _\-/&.]*$/;
+
+// Reason codes of validateTag/validateTags, for mapping to HTTP 400
+export const TAG_VALIDATION_REASONS = ["empty_tag", "tag_too_long", "invalid_tag", "invalid_tags", "too_many_tags"] as const;
+
+export type TagUsage = { tag: string; count: number };
+export type TagTotal = { tag: string; count: number; total: number };
+
+export function normalizeTag(value: string): string {
+  return value.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+export function validateTag(value: unknown): { status: "ok"; tag: string } | { status: "invalid"; error: string; reason: string } {
+  const tag = typeof value === "string" ? normalizeTag(value) : "";
+  if (!tag) return { status: "invalid", error: "Tags cannot be empty", reason: "empty_tag" };
+  if (tag.length > MAX_TAG_LENGTH) {
+    return { status: "invalid", error: `Tags can be at most ${MAX_TAG_LENGTH} characters`, reason: "tag_too_long" };
+  }
+  if (!TAG_PATTERN.test(tag)) {
+    return { status: "invalid", error: `"${tag}" may only contain letters, digits, spaces and - _ / & .`, reason: "invalid_tag" };
+  }
+  return { status: "ok", tag };
+}
+
+// A list of tags, normalised and de-duplicated; `max` bounds the result (default: per-transfer limit)
+export function validateTags(
+  value: unknown,
+  max = MAX_TAGS_PER_TRANSFER,
+): { status: "ok"; tags: string[] } | { status: "invalid"; error: string; reason: string } {
+  if (value === undefined || value === null) return { status: "ok", tags: [] };
+  if (!Array.isArray(value)) return { status: "invalid", error: "Tags must be a list", reason: "invalid_tags" };
+
+  const tags: string[] = [];
+  for (const raw of value) {
+    const result = validateTag(raw);
+    if (result.status === "invalid") return result;
+    if (!tags.includes(result.tag)) tags.push(result.tag);
+  }
+  if (tags.length > max) {
+    return { status: "invalid", error: `A transfer can have at most ${max} tags`, reason: "too_many_tags" };
+  }
+  return { status: "ok", tags };
+}
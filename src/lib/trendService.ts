@@ -0,0 +1,186 @@
+import { executeSurrealQL, getResultArray, thingIdToString } from "@/lib/surrealdb";
+import { fetchAccountBalancesBatch, type AccountBalancesMap } from "@/lib/settingsService";
+import {
+  CASH_FLOW_ROOT_CATEGORIES,
+  parseTrendMonths,
+  SPENDING_TREND_ACCOUNTS,
+  trendMonthKeys,
+  type CashFlowSeries,
+  type SpendingSeries,
+  type Trends,
+} from "@/lib/trends";
+
+// Aggregates posted transfers by month and account type for the overview trend charts.
+
+type TrendAccount = { type: string; name: string; rootCategoryId: string | null; isExternal: boolean };
+
+function toNumber(value: unknown): number {
+  const n = typeof value === "number" ? value : parseFloat(String(value ?? "").replace(/dec$/i, ""));
+  return Number.isFinite(n) ? n : 0;
+}
+
+// fn::tb_accounts may key its map by the full record id or by the bare id
+function bookBalance(balances: AccountBalancesMap, accountId: string): number {
+  const tb = balances[accountId] ?? balances[accountId.replace(/^account:/, "")];
+  return toNumber(tb?.book_balance);
+}
+
+export async function getTrends(options: {
+  accessToken: string | undefined;
+  months?: unknown;
+  now?: Date;
+}): Promise<{ status: "ok"; trends: Trends } | { status: "skipped"; reason: string }> {
+  const { accessToken } = options;
+  if (!accessToken) return { status: "skipped", reason: "missing_access_token" };
+
+  const now = options.now ?? new Date();
+  const months = trendMonthKeys(now, parseTrendMonths(options.months));
+  const windowStart = new Date(`${months[0]}-01T00:00:00.000Z`);
+
+  const result = await executeSurrealQL({
+    token: accessToken,
+    query: `
+      SELECT id, name, type, category_id, id = $external_account AS is_external FROM account;
+      SELECT id, name, parent_id FROM category;
+      SELECT time::format(created_at, "%Y-%m") AS month, from_account_id AS from_id, to_account_id AS to_id, math::sum(amount) AS total
+        FROM transfer
+        WHERE status = "posted"
+          AND created_at >= <datetime>${JSON.stringify(windowStart.toISOString())}
+        GROUP BY month, from_id, to_id;
+    `,
+    logName: "trendService.POST /sql (monthly aggregates)",
+  });
+
+  if (!result.success) return { status: "skipped", reason: result.error };
+
+  const categoryParents = new Map<string, string | null>();
+  const categoryNames = new Map<string, string>();
+  for (const c of getResultArray<Record<string, unknown>>(result.data[1])) {
+    const id = thingIdToString(c.id);
+    if (!id) continue;
+    categoryParents.set(id, thingIdToString(c.parent_id) || null);
+    categoryNames.set(id, typeof c.name === "string" ? c.name : "(Unnamed category)");
+  }
+
+  function rootOf(categoryId: string | null): string | null {
+    let current = categoryId;
+    const seen = new Set<string>();
+    while (current && !seen.has(current)) {
+      seen.add(current);
+      const parent = categoryParents.get(current);
+      if (!parent || !categoryParents.has(parent)) return current;
+      current = parent;
+    }
+    return current;
+  }
+
+  const accounts = new Map<string, TrendAccount>();
+  for (const a of getResultArray<Record<string, unknown>>(result.data[0])) {
+    const id = thingIdToString(a.id);
+    if (!id) continue;
+    accounts.set(id, {
+      type: typeof a.type === "string" ? a.type : "",
+      name: typeof a.name === "string" ? a.name : "(Unnamed account)",
+      rootCategoryId: rootOf(thingIdToString(a.category_id) || null),
+      isExternal: a.is_external === true,
+    });
+  }
+
+  const monthIndex = new Map(months.map((m, i) => [m, i] as const));
+  const zeros = () => months.map(() => 0);
+
+  const cashFlow = new Map<string, CashFlowSeries>();
+  function cashFlowFor(categoryId: string): CashFlowSeries {
+    let series = cashFlow.get(categoryId);
+    if (!series) {
+      series = { categoryId, categoryName: categoryNames.get(categoryId) || "(Unnamed category)", inflow: zeros(), outflow: zeros() };
+      cashFlow.set(categoryId, series);
+    }
+    return series;
+  }
+
+  const spending = new Map<string, number[]>();
+  // Change in asset minus liability balances per month
+  const netWorthChange = zeros();
+
+  for (const row of getResultArray<Record<string, unknown>>(result.data[2])) {
+    const index = typeof row.month === "string" ? monthIndex.get(row.month) : undefined;
+    if (index === undefined) continue;
+    const total = toNumber(row.total);
+    const fromId = thingIdToString(row.from_id);
+    const toId = thingIdToString(row.to_id);
+    const from = fromId ? accounts.get(fromId) : undefined;
+    const to = toId ? accounts.get(toId) : undefined;
+    const fromAsset = !!from && from.type === "asset" && !from.isExternal;
+    const toAsset = !!to && to.type === "asset" && !to.isExternal;
+
+    // Cash flow counts money entering or leaving a root category's asset accounts
+    const fromRoot = fromAsset ? from.rootCategoryId : null;
+    const toRoot = toAsset ? to.rootCategoryId : null;
+    if (fromRoot !== toRoot) {
+      if (toRoot) cashFlowFor(toRoot).inflow[index] += total;
+      if (fromRoot) cashFlowFor(fromRoot).outflow[index] += total;
+    }
+
+    // Refunds and reversals moving money back out of an expense account reduce its spending
+    if (toId && to?.type === "expense") {
+      const totals = spending.get(toId) ?? zeros();
+      totals[index] += total;
+      spending.set(toId, totals);
+    }
+    if (fromId && from?.type === "expense") {
+      const totals = spending.get(fromId) ?? zeros();
+      totals[index] -= total;
+      spending.set(fromId, totals);
+    }
+
+    // Liability balances are what is owed: moving money out of one adds to it
+    const fromLiability = from?.type === "liability";
+    const toLiability = to?.type === "liability";
+    netWorthChange[index] += total * (Number(toAsset) + Number(toLiability) - Number(fromAsset) - Number(fromLiability));
+  }
+
+  const balanceAccounts = [...accounts.entries()].filter(
+    ([, a]) => !a.isExternal && (a.type === "asset" || a.type === "liability"),
+  );
+  const balances = await fetchAccountBalancesBatch({ accessToken, accountIds: balanceAccounts.map(([id]) => id) });
+  if (balances.status === "skipped") return balances;
+
+  let current = balanceAccounts.reduce(
+    (sum, [id, a]) => sum + (a.type === "asset" ? 1 : -1) * bookBalance(balances.balances, id),
+    0,
+  );
+  // Walk back from today's balances, undoing each later month's change
+  const netWorth = zeros();
+  for (let i = months.length - 1; i >= 0; i--) {
+    netWorth[i] = current;
+    current -= netWorthChange[i];
+  }
+
+  const byVolume = (series: CashFlowSeries) =>
+    series.inflow.reduce((s, v) => s + v, 0) + series.outflow.reduce((s, v) => s + v, 0);
+  const cashFlowSeries = [...cashFlow.values()]
+    .sort((a, b) => byVolume(b) - byVolume(a))
+    .slice(0, CASH_FLOW_ROOT_CATEGORIES);
+
+  // A month refunded beyond its spending shows as none rather than a negative bar
+  const spendingByAccount = [...spending.entries()]
+    .map(([accountId, totals]): SpendingSeries => ({
+      accountId,
+      accountName: accounts.get(accountId)?.name || "(Unnamed account)",
+      totals: totals.map((v) => Math.max(0, v)),
+    }))
+    .filter((s) => s.totals.some((v) => v > 0))
+    .sort((a, b) => b.totals.reduce((s, v) => s + v, 0) - a.totals.reduce((s, v) => s + v, 0));
+  const spendingSeries = spendingByAccount.slice(0, SPENDING_TREND_ACCOUNTS);
+  if (spendingByAccount.length > SPENDING_TREND_ACCOUNTS) {
+    const other = zeros();
+    for (const s of spendingByAccount.slice(SPENDING_TREND_ACCOUNTS)) s.totals.forEach((v, i) => (other[i] += v));
+    spendingSeries.push({ accountId: null, accountName: "Other", totals: other });
+  }
+
+  return {
+    status: "ok",
+    trends: { months, cashFlow: cashFlowSeries, spending: spendingSeries, netWorth },
+  };
+}
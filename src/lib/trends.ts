@@ -0,0 +1,54 @@
+// Monthly trends shown on the overview (GET /api/trends, src/components/TrendCharts.tsx). Shared by
+// trendService and the charts.
+
+export const DEFAULT_TREND_MONTHS = 12;
+export const MAX_TREND_MONTHS = 24;
+// Expense accounts drawn separately in the spending trend; the rest are summed into "Other"
+export const SPENDING_TREND_ACCOUNTS = 4;
+// Root categories given their own cash-flow chart, busiest first
+export const CASH_FLOW_ROOT_CATEGORIES = 4;
+
+export type CashFlowSeries = {
+  categoryId: string;
+  categoryName: string;
+  // One value per month, aligned with Trends.months
+  inflow: number[];
+  outflow: number[];
+};
+
+export type SpendingSeries = {
+  accountId: string | null;
+  accountName: string;
+  totals: number[];
+};
+
+export type Trends = {
+  // "YYYY-MM" (UTC), oldest first
+  months: string[];
+  cashFlow: CashFlowSeries[];
+  spending: SpendingSeries[];
+  // Asset minus liability balances at the end of each month
+  netWorth: number[];
+};
+
+export function parseTrendMonths(value: unknown): number {
+  const n = typeof value === "number" ? value : parseInt(String(value ?? ""), 10);
+  if (!Number.isFinite(n) || n < 1) return DEFAULT_TREND_MONTHS;
+  return Math.min(Math.floor(n), MAX_TREND_MONTHS);
+}
+
+// The `count` months ending with the one containing `now`, oldest first
+export function trendMonthKeys(now: Date, count: number): string[] {
+  const keys: string[] = [];
+  for (let i = count - 1; i >= 0; i--) {
+    const d = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i, 1));
+    keys.push(`${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, "0")}`);
+  }
+  return keys;
+}
+
+export function formatTrendMonth(key: string): string {
+  const [year, month] = key.split("-").map((part) => parseInt(part, 10));
+  if (!year || !month) return key;
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString("en-US", { month: "short", timeZone: "UTC" });
+}